@@ -45,6 +45,23 @@ export interface Intent {
   metadata?: Record<string, any>;
 }
 
+/**
+ * The authenticated caller an intent is fulfilled for
+ * Established by whoever authenticated the request; agents never take it
+ * from intent params, which the caller controls.
+ */
+export interface CallerContext {
+  /**
+   * ID of the authenticated user
+   */
+  userId: string;
+  
+  /**
+   * Role the user was authenticated with (e.g., 'contractor', 'homeowner')
+   */
+  role?: string;
+}
+
 /**
  * Result of fulfilling an intent
  */
@@ -199,9 +216,10 @@ export interface DomainAgent {
    * 
    * @param intentName The name of the intent to fulfill
    * @param params Parameters needed to fulfill the intent
+   * @param caller The authenticated caller, if any
    * @returns A promise resolving to the result of the intent
    */
-  fulfillIntent<T = any>(intentName: string, params: Record<string, any>): Promise<IntentResult<T>>;
+  fulfillIntent<T = any>(intentName: string, params: Record<string, any>, caller?: CallerContext): Promise<IntentResult<T>>;
   
   /**
    * Processes an event from another domain
@@ -237,7 +255,7 @@ export abstract class BaseDomainAgent implements DomainAgent {
     this.domainName = domainName;
   }
   
-  abstract fulfillIntent<T = any>(intentName: string, params: Record<string, any>): Promise<IntentResult<T>>;
+  abstract fulfillIntent<T = any>(intentName: string, params: Record<string, any>, caller?: CallerContext): Promise<IntentResult<T>>;
   
   abstract processEvent(event: DomainEvent): Promise<void>;
   
@@ -0,0 +1,133 @@
+import { DomainEvent } from '../domain/domain-agent';
+import { DurableEventBus } from './durable-event-bus';
+import { InMemoryEventLog } from './event-log';
+
+function createEvent(type: string, payload: Record<string, any> = {}): DomainEvent {
+  return { type, payload, source: 'test', timestamp: new Date(), correlationId: 'correlation-1' };
+}
+
+describe('DurableEventBus', () => {
+  let log: InMemoryEventLog;
+  let bus: DurableEventBus;
+  
+  beforeEach(() => {
+    log = new InMemoryEventLog();
+    bus = new DurableEventBus(log, {
+      retryPolicy: { maxAttempts: 3, initialDelayMs: 1 },
+      sleep: async () => undefined,
+      errorHandler: () => undefined
+    });
+  });
+  
+  it('delivers published events to matching subscriptions in order', async () => {
+    const received: string[] = [];
+    
+    bus.subscribe({ eventTypes: ['bidding:*'], callback: event => { received.push(event.payload.id); } });
+    bus.subscribe({ eventTypes: ['project:created'], callback: () => { received.push('unexpected'); } });
+    
+    await bus.publish(createEvent('bidding:bid_submitted', { id: 'first' }));
+    await bus.publish(createEvent('bidding:bid_accepted', { id: 'second' }));
+    
+    expect(received).toEqual(['first', 'second']);
+  });
+  
+  it('retries a failing subscriber before the publish resolves', async () => {
+    let attempts = 0;
+    const id = bus.subscribe({
+      eventTypes: ['bidding:bid_submitted'],
+      callback: () => {
+        if (++attempts < 3) {
+          throw new Error('temporarily unavailable');
+        }
+      }
+    });
+    
+    await bus.publish(createEvent('bidding:bid_submitted'));
+    
+    expect(attempts).toBe(3);
+    expect(await bus.getDeadLetters(id)).toHaveLength(0);
+    expect(await bus.getDeliveryStatus(id)).toMatchObject({ delivered: 1, failedAttempts: 2 });
+  });
+  
+  it('dead-letters an event the subscriber keeps failing on and moves on', async () => {
+    const received: string[] = [];
+    const id = bus.subscribe({
+      eventTypes: ['bidding:*'],
+      callback: event => {
+        if (event.payload.id === 'poison') {
+          throw new Error('cannot handle');
+        }
+        received.push(event.payload.id);
+      }
+    });
+    
+    await bus.publish(createEvent('bidding:bid_submitted', { id: 'poison' }));
+    await bus.publish(createEvent('bidding:bid_submitted', { id: 'next' }));
+    
+    const deadLetters = await bus.getDeadLetters(id);
+    
+    expect(received).toEqual(['next']);
+    expect(deadLetters).toHaveLength(1);
+    expect(deadLetters[0]).toMatchObject({ attempts: 3, error: 'cannot handle' });
+    expect(deadLetters[0].event.payload.id).toBe('poison');
+  });
+  
+  it('redelivers dead letters once the subscriber recovers', async () => {
+    let failing = true;
+    const received: string[] = [];
+    const id = bus.subscribe({
+      eventTypes: ['bidding:*'],
+      callback: event => {
+        if (failing) {
+          throw new Error('unavailable');
+        }
+        received.push(event.type);
+      }
+    });
+    
+    await bus.publish(createEvent('bidding:bid_submitted'));
+    failing = false;
+    
+    await bus.retryDeadLetters(id);
+    
+    expect(received).toEqual(['bidding:bid_submitted']);
+    expect(await bus.getDeadLetters(id)).toHaveLength(0);
+  });
+  
+  it('handles an event a subscriber publishes from its callback', async () => {
+    const received: string[] = [];
+    
+    bus.subscribe({
+      eventTypes: ['project:*'],
+      callback: async event => {
+        received.push(event.type);
+        
+        if (event.type === 'project:created') {
+          await bus.publish(createEvent('project:bidding_opened'));
+        }
+      }
+    });
+    
+    await bus.publish(createEvent('project:created'));
+    await bus.deliverPending();
+    
+    expect(received).toEqual(['project:created', 'project:bidding_opened']);
+  });
+  
+  it('does not wait for subscriptions the event is not for', async () => {
+    let release: () => void = () => undefined;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    const received: string[] = [];
+    
+    bus.subscribe({ eventTypes: ['messaging:*'], callback: () => blocked });
+    bus.subscribe({ eventTypes: ['bidding:*'], callback: event => { received.push(event.type); } });
+    
+    const pending = bus.publish(createEvent('messaging:sent'));
+    await bus.publish(createEvent('bidding:bid_submitted'));
+    
+    expect(received).toEqual(['bidding:bid_submitted']);
+    
+    release();
+    await pending;
+  });
+});
@@ -0,0 +1,540 @@
+/**
+ * Durable Event Bus
+ * 
+ * The durable event bus writes every published event to an event log before
+ * delivering it, and tracks per subscription which events have been handled.
+ * A subscriber that fails is retried with exponential backoff; an event it
+ * still cannot handle is moved to the dead-letter queue so the subscription
+ * moves on. Subscriptions with a stable name resume from their checkpoint
+ * after a restart, and any subscription can replay the log from an offset.
+ * 
+ * Each subscription handles events one at a time in log order, which also
+ * meets any concurrency limit or correlation ordering it asks for; different
+ * subscriptions are independent, so a slow or failing subscriber never holds
+ * up the others.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { DomainEvent } from '../domain/domain-agent';
+import {
+  EventBus,
+  EventBusConfig,
+  EventSubscription,
+  eventForSubscription,
+  eventMatchesSubscription,
+  matchesOrReports,
+  reportSubscriberError
+} from './event-bus';
+import { DeadLetter, EventLog, EventLogPosition, EventLogRecord } from './event-log';
+
+/**
+ * How failed deliveries are retried
+ */
+export interface RetryPolicy {
+  /**
+   * Attempts made before an event is dead-lettered, including the first
+   */
+  maxAttempts: number;
+  
+  /**
+   * Delay before the first retry in milliseconds
+   */
+  initialDelayMs: number;
+  
+  /**
+   * Longest delay between retries in milliseconds
+   */
+  maxDelayMs: number;
+  
+  /**
+   * Factor the delay grows by after each retry
+   */
+  backoffMultiplier: number;
+}
+
+/**
+ * Retry policy used when none is configured
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 100,
+  maxDelayMs: 10000,
+  backoffMultiplier: 2
+};
+
+/**
+ * Configuration for the durable event bus
+ */
+export interface DurableEventBusConfig extends EventBusConfig {
+  /**
+   * How failed deliveries are retried
+   */
+  retryPolicy?: Partial<RetryPolicy>;
+  
+  /**
+   * Number of events read from the log at a time (defaults to 100)
+   */
+  batchSize?: number;
+  
+  /**
+   * How often start() checks the log for events published by other
+   * processes, in milliseconds (defaults to 1000)
+   */
+  pollIntervalMs?: number;
+  
+  /**
+   * Waits between retries; replace it to run retries without real delays
+   */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+/**
+ * Delivery progress of a subscription
+ */
+export interface SubscriptionDeliveryStatus {
+  /**
+   * ID of the subscription
+   */
+  subscriptionId: string;
+  
+  /**
+   * Name delivery is tracked under
+   */
+  name: string;
+  
+  /**
+   * Offset of the last event the subscription has handled or dead-lettered
+   */
+  checkpoint?: string;
+  
+  /**
+   * Events handled since the subscription was created
+   */
+  delivered: number;
+  
+  /**
+   * Failed attempts, including those that were later retried successfully
+   */
+  failedAttempts: number;
+  
+  /**
+   * Events in the dead-letter queue for this subscription
+   */
+  deadLetters: number;
+  
+  /**
+   * Error from the most recent failed attempt
+   */
+  lastError?: string;
+}
+
+/**
+ * Result of redelivering dead letters
+ */
+export interface DeadLetterRetryResult {
+  /**
+   * Dead letters handled successfully and removed from the queue
+   */
+  delivered: number;
+  
+  /**
+   * Dead letters that failed again and stay in the queue
+   */
+  failed: number;
+}
+
+/**
+ * Delivery state of a subscription
+ */
+interface SubscriptionState {
+  subscription: EventSubscription;
+  
+  /**
+   * Name delivery is tracked under
+   */
+  name: string;
+  
+  /**
+   * Where the next read starts
+   */
+  position: EventLogPosition;
+  
+  /**
+   * Resolves once the subscription's starting position is known
+   */
+  ready: Promise<void>;
+  
+  /**
+   * Delivery work, chained so the subscription handles one event at a time
+   */
+  queue: Promise<void>;
+  
+  delivered: number;
+  failedAttempts: number;
+  lastError?: string;
+}
+
+/**
+ * Subscription whose callback the work in progress runs in
+ */
+const delivering = new AsyncLocalStorage<SubscriptionState>();
+
+/**
+ * Event bus that stores events in a log and delivers them at least once
+ */
+export class DurableEventBus implements EventBus {
+  private subscriptions: Map<string, SubscriptionState> = new Map();
+  private readonly retryPolicy: RetryPolicy;
+  private readonly batchSize: number;
+  private readonly pollIntervalMs: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private pollTimer?: NodeJS.Timeout;
+  
+  /**
+   * Creates a durable event bus
+   * 
+   * @param log Event log the bus stores events and delivery progress in
+   * @param config Configuration for the bus
+   */
+  constructor(private readonly log: EventLog, private readonly config: DurableEventBusConfig = {}) {
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.retryPolicy };
+    this.batchSize = config.batchSize || 100;
+    this.pollIntervalMs = config.pollIntervalMs || 1000;
+    this.sleep = config.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+  
+  /**
+   * Stores an event in the log and delivers it to the matching subscriptions
+   * Resolves once every subscription has handled or dead-lettered it; a
+   * failing subscriber does not reject the publish. Published from inside a
+   * subscriber's callback, it resolves once the event is stored and the
+   * deliveries follow when the callback returns.
+   * 
+   * @param event The event to publish
+   */
+  async publish(event: DomainEvent): Promise<void> {
+    if (this.config.logEvents) {
+      console.log(`[EventBus] Publishing event: ${event.type} from ${event.source}`);
+    }
+    
+    // A subscription starting at the latest event must not miss this one
+    await Promise.all(Array.from(this.subscriptions.values()).map(state => state.ready));
+    
+    const stamped = this.config.schemaRegistry ? this.config.schemaRegistry.stamp(event) : event;
+    
+    await this.log.append(stamped);
+    await this.deliverTo(Array.from(this.subscriptions.values()).filter(state => mayMatch(stamped, state)));
+  }
+  
+  subscribe(subscription: Omit<EventSubscription, 'id'>): string {
+    const id = `subscription_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const name = subscription.name || id;
+    
+    if (Array.from(this.subscriptions.values()).some(state => state.name === name)) {
+      throw new Error(`A subscription named ${name} already exists`);
+    }
+    
+    const state: SubscriptionState = {
+      subscription: { ...subscription, id },
+      name,
+      position: {},
+      ready: Promise.resolve(),
+      queue: Promise.resolve(),
+      delivered: 0,
+      failedAttempts: 0
+    };
+    
+    // Resume from the saved checkpoint, or start where the subscription asked to
+    state.ready = (async () => {
+      const checkpoint = await this.log.getCheckpoint(name);
+      
+      if (checkpoint !== undefined) {
+        state.position = { after: checkpoint };
+      } else if (subscription.startFrom !== 'earliest') {
+        const latest = await this.log.latestOffset();
+        state.position = latest !== undefined ? { after: latest } : {};
+      }
+    })().catch(error => {
+      console.error(`[EventBus] Error loading the checkpoint of subscription ${name}:`, error);
+    });
+    state.queue = state.ready;
+    
+    this.subscriptions.set(id, state);
+    
+    if (this.config.logEvents) {
+      console.log(`[EventBus] Created subscription ${id} for events: ${subscription.eventTypes.join(', ')}`);
+    }
+    
+    return id;
+  }
+  
+  unsubscribe(subscriptionId: string): boolean {
+    const result = this.subscriptions.delete(subscriptionId);
+    
+    if (result && this.config.logEvents) {
+      console.log(`[EventBus] Removed subscription ${subscriptionId}`);
+    }
+    
+    return result;
+  }
+  
+  getSubscriptions(): EventSubscription[] {
+    return Array.from(this.subscriptions.values()).map(state => state.subscription);
+  }
+  
+  /**
+   * Delivers every event in the log that subscriptions have not handled yet,
+   * including events published by other processes sharing the log
+   * 
+   * @returns A promise that resolves once all subscriptions have caught up
+   */
+  async deliverPending(): Promise<void> {
+    await this.deliverTo(Array.from(this.subscriptions.values()));
+  }
+  
+  /**
+   * Replays the log to a subscription from an offset, including events it has already handled
+   * 
+   * @param subscriptionId ID of the subscription
+   * @param fromOffset Offset of the first event to replay; the beginning of the log if omitted
+   * @returns A promise that resolves once the replay has been delivered
+   */
+  async replay(subscriptionId: string, fromOffset?: string): Promise<void> {
+    const state = this.getState(subscriptionId);
+    
+    await this.enqueue(state, async () => {
+      state.position = fromOffset !== undefined ? { from: fromOffset } : {};
+      await this.catchUp(state);
+    });
+  }
+  
+  /**
+   * Gets the events a subscription failed to handle
+   * 
+   * @param subscriptionId ID of the subscription
+   * @returns The dead letters of the subscription, in log order
+   */
+  async getDeadLetters(subscriptionId: string): Promise<DeadLetter[]> {
+    return this.log.getDeadLetters(this.getState(subscriptionId).name);
+  }
+  
+  /**
+   * Delivers a subscription's dead letters again
+   * Each dead letter gets a full set of attempts; those handled successfully
+   * leave the queue and those that fail again stay in it
+   * 
+   * @param subscriptionId ID of the subscription
+   * @returns How many dead letters were delivered and how many failed again
+   */
+  async retryDeadLetters(subscriptionId: string): Promise<DeadLetterRetryResult> {
+    const state = this.getState(subscriptionId);
+    const result: DeadLetterRetryResult = { delivered: 0, failed: 0 };
+    
+    await this.enqueue(state, async () => {
+      for (const letter of await this.log.getDeadLetters(state.name)) {
+        const record = { offset: letter.offset, event: letter.event };
+        const failure = await this.deliver(state, record);
+        
+        if (failure) {
+          result.failed++;
+          await this.log.addDeadLetter({
+            ...letter,
+            attempts: letter.attempts + failure.attempts,
+            error: failure.error,
+            failedAt: new Date()
+          });
+        } else {
+          result.delivered++;
+          await this.log.removeDeadLetter(state.name, letter.offset);
+        }
+      }
+    });
+    
+    return result;
+  }
+  
+  /**
+   * Gets the delivery progress of a subscription
+   * 
+   * @param subscriptionId ID of the subscription
+   * @returns The delivery status
+   */
+  async getDeliveryStatus(subscriptionId: string): Promise<SubscriptionDeliveryStatus> {
+    const state = this.getState(subscriptionId);
+    
+    return {
+      subscriptionId,
+      name: state.name,
+      checkpoint: await this.log.getCheckpoint(state.name),
+      delivered: state.delivered,
+      failedAttempts: state.failedAttempts,
+      deadLetters: (await this.log.getDeadLetters(state.name)).length,
+      lastError: state.lastError
+    };
+  }
+  
+  /**
+   * Starts checking the log periodically for events published by other processes
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    
+    this.pollTimer = setInterval(() => {
+      this.deliverPending().catch(error => {
+        console.error('[EventBus] Error delivering pending events:', error);
+      });
+    }, this.pollIntervalMs);
+    
+    // Polling alone should not keep the process alive
+    this.pollTimer.unref?.();
+  }
+  
+  /**
+   * Stops checking the log periodically
+   */
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+  
+  /**
+   * Gets the state of a subscription
+   * 
+   * @param subscriptionId ID of the subscription
+   * @returns The subscription state
+   */
+  private getState(subscriptionId: string): SubscriptionState {
+    const state = this.subscriptions.get(subscriptionId);
+    
+    if (!state) {
+      throw new Error(`Subscription ${subscriptionId} not found`);
+    }
+    
+    return state;
+  }
+  
+  /**
+   * Queues delivery work for a subscription after the work already queued
+   * 
+   * @param state The subscription state
+   * @param work The delivery work
+   * @returns A promise that settles once the work is done
+   */
+  private enqueue(state: SubscriptionState, work: () => Promise<void>): Promise<void> {
+    const result = state.queue.then(() => delivering.exit(work));
+    state.queue = result.catch(error => {
+      console.error(`[EventBus] Error delivering events to subscription ${state.name}:`, error);
+    });
+    return result;
+  }
+  
+  /**
+   * Has subscriptions catch up with the log
+   * Inside a subscriber's callback the deliveries are not waited for: they
+   * queue behind that callback, or behind one waiting for it in turn.
+   * 
+   * @param states The subscriptions to catch up
+   */
+  private async deliverTo(states: SubscriptionState[]): Promise<void> {
+    // Errors are logged by the subscription's queue; the events stay in the
+    // log and are delivered on the next attempt
+    const deliveries = states.map(state =>
+      this.enqueue(state, () => this.catchUp(state)).catch(() => undefined)
+    );
+    
+    if (!delivering.getStore()) {
+      await Promise.all(deliveries);
+    }
+  }
+  
+  /**
+   * Delivers the events after a subscription's position, batch by batch,
+   * recording its checkpoint as it goes
+   * 
+   * @param state The subscription state
+   */
+  private async catchUp(state: SubscriptionState): Promise<void> {
+    while (this.subscriptions.get(state.subscription.id) === state) {
+      const records = await this.log.read(state.position, this.batchSize);
+      
+      if (records.length === 0) {
+        return;
+      }
+      
+      for (const record of records) {
+        if (this.subscriptions.get(state.subscription.id) !== state) {
+          return;
+        }
+        
+        if (matchesOrReports(this.config, record.event, state.subscription)) {
+          const failure = await this.deliver(state, record);
+          
+          if (failure) {
+            await this.log.addDeadLetter({
+              subscriber: state.name,
+              offset: record.offset,
+              event: record.event,
+              attempts: failure.attempts,
+              error: failure.error,
+              failedAt: new Date()
+            });
+          }
+        }
+        
+        await this.log.saveCheckpoint(state.name, record.offset);
+        state.position = { after: record.offset };
+      }
+    }
+  }
+  
+  /**
+   * Delivers one event to a subscription, retrying with backoff
+   * 
+   * @param state The subscription state
+   * @param record The event to deliver
+   * @returns The number of attempts and last error if every attempt failed, otherwise undefined
+   */
+  private async deliver(
+    state: SubscriptionState,
+    record: EventLogRecord
+  ): Promise<{ attempts: number; error: string } | undefined> {
+    let delay = this.retryPolicy.initialDelayMs;
+    
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await delivering.run(state, async () =>
+          state.subscription.callback(eventForSubscription(this.config, record.event, state.subscription))
+        );
+        state.delivered++;
+        return undefined;
+      } catch (error) {
+        state.failedAttempts++;
+        state.lastError = error instanceof Error ? error.message : String(error);
+        
+        if (attempt >= this.retryPolicy.maxAttempts) {
+          reportSubscriberError(this.config, error, record.event, state.subscription);
+          return { attempts: attempt, error: state.lastError };
+        }
+      }
+      
+      await this.sleep(delay);
+      delay = Math.min(delay * this.retryPolicy.backoffMultiplier, this.retryPolicy.maxDelayMs);
+    }
+  }
+}
+
+/**
+ * Whether an event may be for a subscription; a filter that throws is
+ * reported when the event is delivered
+ */
+function mayMatch(event: DomainEvent, state: SubscriptionState): boolean {
+  try {
+    return eventMatchesSubscription(event, state.subscription);
+  } catch {
+    return true;
+  }
+}
@@ -0,0 +1,158 @@
+import { DomainEvent } from '../domain/domain-agent';
+import { eventTypeMatches, InMemoryEventBus, once, waitFor } from './event-bus';
+
+function createEvent(type: string, payload: Record<string, any> = {}, correlationId = 'correlation-1'): DomainEvent {
+  return { type, payload, source: 'bidding', timestamp: new Date(), correlationId };
+}
+
+/**
+ * Promise that resolves when its release function is called
+ */
+function gate(): { opened: Promise<void>; release: () => void } {
+  let release!: () => void;
+  const opened = new Promise<void>(resolve => { release = resolve; });
+  return { opened, release };
+}
+
+describe('eventTypeMatches', () => {
+  it('matches exact types and a lone wildcard', () => {
+    expect(eventTypeMatches('bidding:bid_submitted', 'bidding:bid_submitted')).toBe(true);
+    expect(eventTypeMatches('*', 'project:created')).toBe(true);
+    expect(eventTypeMatches('bidding:bid_submitted', 'bidding:bid_accepted')).toBe(false);
+  });
+  
+  it('lets a trailing wildcard match every remaining segment', () => {
+    expect(eventTypeMatches('bidding:*', 'bidding:bid_submitted')).toBe(true);
+    expect(eventTypeMatches('bidding:*', 'bidding:bid_submitted:detailed')).toBe(true);
+    expect(eventTypeMatches('bidding:*', 'bidding')).toBe(false);
+    expect(eventTypeMatches('bidding:*', 'project:created')).toBe(false);
+  });
+  
+  it('lets an inner wildcard match exactly one segment', () => {
+    expect(eventTypeMatches('*:created', 'project:created')).toBe(true);
+    expect(eventTypeMatches('*:created', 'project:phase:created')).toBe(false);
+    expect(eventTypeMatches('*:created', 'project:updated')).toBe(false);
+  });
+});
+
+describe('InMemoryEventBus', () => {
+  let errors: Error[];
+  let bus: InMemoryEventBus;
+  
+  beforeEach(() => {
+    errors = [];
+    bus = new InMemoryEventBus({ errorHandler: error => { errors.push(error); } });
+  });
+  
+  it('delivers events matching the type patterns, domains and filter of a subscription', async () => {
+    const received: string[] = [];
+    bus.subscribe({
+      eventTypes: ['bidding:*'],
+      domains: ['bidding'],
+      filter: event => event.payload.amount > 1000,
+      callback: event => { received.push(event.payload.id); }
+    });
+    
+    await bus.publish(createEvent('bidding:bid_submitted', { id: 'large', amount: 5000 }));
+    await bus.publish(createEvent('bidding:bid_submitted', { id: 'small', amount: 500 }));
+    await bus.publish({ ...createEvent('bidding:bid_submitted', { id: 'foreign', amount: 5000 }), source: 'project' });
+    
+    expect(received).toEqual(['large']);
+  });
+  
+  it('reports a filter that throws and skips the event for that subscription only', async () => {
+    const received: string[] = [];
+    bus.subscribe({ eventTypes: ['*'], filter: () => { throw new Error('bad filter'); }, callback: () => undefined });
+    bus.subscribe({ eventTypes: ['*'], callback: event => { received.push(event.type); } });
+    
+    await bus.publish(createEvent('bidding:bid_submitted'));
+    
+    expect(received).toEqual(['bidding:bid_submitted']);
+    expect(errors.map(error => error.message)).toEqual(['bad filter']);
+  });
+  
+  it('delivers the events of one correlation in order while other correlations run alongside', async () => {
+    const started: string[] = [];
+    const first = gate();
+    bus.subscribe({
+      eventTypes: ['bidding:*'],
+      orderByCorrelation: true,
+      callback: async event => {
+        started.push(event.payload.id);
+        
+        if (event.payload.id === 'first') {
+          await first.opened;
+        }
+      }
+    });
+    
+    const publishing = [
+      bus.publish(createEvent('bidding:bid_submitted', { id: 'first' }, 'correlation-1')),
+      bus.publish(createEvent('bidding:bid_updated', { id: 'second' }, 'correlation-1')),
+      bus.publish(createEvent('bidding:bid_submitted', { id: 'other' }, 'correlation-2'))
+    ];
+    await new Promise(resolve => setImmediate(resolve));
+    
+    expect(started).toEqual(['first', 'other']);
+    
+    first.release();
+    await Promise.all(publishing);
+    
+    expect(started).toEqual(['first', 'other', 'second']);
+  });
+  
+  it('handles no more events at a time than the concurrency of a subscription', async () => {
+    let active = 0;
+    let peak = 0;
+    bus.subscribe({
+      eventTypes: ['*'],
+      concurrency: 2,
+      callback: async () => {
+        peak = Math.max(peak, ++active);
+        await new Promise(resolve => setImmediate(resolve));
+        active--;
+      }
+    });
+    
+    await Promise.all([1, 2, 3, 4, 5].map(id => bus.publish(createEvent('bidding:bid_submitted', { id }))));
+    
+    expect(peak).toBe(2);
+  });
+});
+
+describe('once and waitFor', () => {
+  let bus: InMemoryEventBus;
+  
+  beforeEach(() => {
+    bus = new InMemoryEventBus();
+  });
+  
+  it('runs a once subscription for the first matching event only', async () => {
+    const received: string[] = [];
+    once(bus, { eventTypes: ['bidding:*'], callback: event => { received.push(event.payload.id); } });
+    
+    await Promise.all([
+      bus.publish(createEvent('bidding:bid_submitted', { id: 'first' })),
+      bus.publish(createEvent('bidding:bid_submitted', { id: 'second' }))
+    ]);
+    
+    expect(received).toEqual(['first']);
+    expect(bus.getSubscriptions()).toHaveLength(0);
+  });
+  
+  it('resolves with the next event meeting the predicate', async () => {
+    const waiting = waitFor(bus, 'bidding:*', event => event.payload.id === 'wanted');
+    
+    await bus.publish(createEvent('bidding:bid_submitted', { id: 'other' }));
+    await bus.publish(createEvent('bidding:bid_accepted', { id: 'wanted' }));
+    
+    await expect(waiting).resolves.toMatchObject({ type: 'bidding:bid_accepted' });
+    expect(bus.getSubscriptions()).toHaveLength(0);
+  });
+  
+  it('rejects and unsubscribes when no event arrives in time', async () => {
+    await expect(waitFor(bus, 'bidding:bid_accepted', undefined, 5))
+      .rejects.toThrow('Timed out after 5ms waiting for event bidding:bid_accepted');
+    expect(bus.getSubscriptions()).toHaveLength(0);
+  });
+});
@@ -7,6 +7,10 @@
  */
 
 import { DomainEvent } from '../domain/domain-agent';
+import { DurableEventBus, DurableEventBusConfig } from './durable-event-bus';
+import { FileEventLog } from './event-log';
+import { EventSchemaRegistry } from './event-schema-registry';
+import { RedisStreamsClient, RedisStreamsEventLog } from './redis-event-log';
 
 export interface EventSubscription {
   /**
@@ -16,6 +20,9 @@ export interface EventSubscription {
   
   /**
    * The event types this subscription is interested in
+   * Besides exact types, entries can be patterns over the ':'-separated
+   * segments of a type (see eventTypeMatches): '*' matches every event,
+   * 'bidding:*' every bidding event and '*:created' every 'created' event
    */
   eventTypes: string[];
   
@@ -25,10 +32,51 @@ export interface EventSubscription {
    */
   domains?: string[];
   
+  /**
+   * Predicate further restricting the events delivered, e.g. on payload fields
+   * A filter that throws is reported like a failing callback and the event is skipped
+   */
+  filter?: (event: DomainEvent) => boolean;
+  
   /**
    * The callback function to be called when a matching event is published
    */
   callback: (event: DomainEvent) => void | Promise<void>;
+  
+  /**
+   * Maximum number of events the callback handles at the same time
+   * (defaults to no limit; durable event buses always deliver one at a time)
+   */
+  concurrency?: number;
+  
+  /**
+   * Whether events sharing a correlation ID are delivered one at a time, in
+   * the order they were published; events of different correlations still
+   * run side by side up to the concurrency limit
+   */
+  orderByCorrelation?: boolean;
+  
+  /**
+   * Payload version to deliver for each event type, for subscribers written
+   * against an older version; other registered types are delivered at their
+   * latest version (requires a schema registry on the event bus)
+   */
+  schemaVersions?: Record<string, number>;
+  
+  /**
+   * Stable name of the subscription
+   * Durable event buses track delivery under this name, so a subscription
+   * created with the same name after a restart resumes where it left off
+   * (defaults to the subscription ID)
+   */
+  name?: string;
+  
+  /**
+   * Where a durable subscription without a saved position starts reading:
+   * only events published from now on ('latest', the default) or every event
+   * in the log ('earliest')
+   */
+  startFrom?: 'latest' | 'earliest';
 }
 
 export interface EventBusConfig {
@@ -41,6 +89,12 @@ export interface EventBusConfig {
    * Optional function to handle errors in event processing
    */
   errorHandler?: (error: Error, event: DomainEvent, subscription: EventSubscription) => void;
+  
+  /**
+   * Registry of event payload versions; published events are stamped with
+   * their version and delivered upcast to the version each subscriber expects
+   */
+  schemaRegistry?: EventSchemaRegistry;
 }
 
 /**
@@ -84,6 +138,7 @@ export interface EventBus {
  */
 export class InMemoryEventBus implements EventBus {
   private subscriptions: Map<string, EventSubscription> = new Map();
+  private queues: Map<string, DeliveryQueue> = new Map();
   private config: EventBusConfig;
   
   constructor(config: EventBusConfig = {}) {
@@ -95,36 +150,34 @@ export class InMemoryEventBus implements EventBus {
       console.log(`[EventBus] Publishing event: ${event.type} from ${event.source}`);
     }
     
-    const promises: Promise<void>[] = [];
+    if (this.config.schemaRegistry) {
+      event = this.config.schemaRegistry.stamp(event);
+    }
     
-    for (const subscription of this.subscriptions.values()) {
-      if (this.eventMatchesSubscription(event, subscription)) {
-        try {
-          const result = subscription.callback(event);
-          if (result instanceof Promise) {
-            promises.push(result);
-          }
-        } catch (error) {
-          if (this.config.errorHandler) {
-            this.config.errorHandler(
-              error instanceof Error ? error : new Error(String(error)),
-              event,
-              subscription
-            );
-          } else {
-            console.error(`[EventBus] Error processing event ${event.type} in subscription ${subscription.id}:`, error);
+    const matching = Array.from(this.subscriptions.values())
+      .filter(subscription => matchesOrReports(this.config, event, subscription));
+    
+    // Wait for all handlers to complete; a failing handler, whether it throws
+    // or rejects, is reported without affecting the others. Each subscription's
+    // queue holds the event back while its concurrency or ordering requires
+    await Promise.all(matching.map(subscription =>
+      this.queues.get(subscription.id)!.run(
+        subscription.orderByCorrelation ? event.correlationId : undefined,
+        async () => {
+          try {
+            await subscription.callback(eventForSubscription(this.config, event, subscription));
+          } catch (error) {
+            reportSubscriberError(this.config, error, event, subscription);
           }
         }
-      }
-    }
-    
-    // Wait for all async handlers to complete
-    await Promise.all(promises);
+      )
+    ));
   }
   
   subscribe(subscription: Omit<EventSubscription, 'id'>): string {
     const id = `subscription_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     this.subscriptions.set(id, { ...subscription, id });
+    this.queues.set(id, new DeliveryQueue(subscription.concurrency || Infinity));
     
     if (this.config.logEvents) {
       console.log(`[EventBus] Created subscription ${id} for events: ${subscription.eventTypes.join(', ')}`);
@@ -135,6 +188,7 @@ export class InMemoryEventBus implements EventBus {
   
   unsubscribe(subscriptionId: string): boolean {
     const result = this.subscriptions.delete(subscriptionId);
+    this.queues.delete(subscriptionId);
     
     if (result && this.config.logEvents) {
       console.log(`[EventBus] Removed subscription ${subscriptionId}`);
@@ -146,29 +200,283 @@ export class InMemoryEventBus implements EventBus {
   getSubscriptions(): EventSubscription[] {
     return Array.from(this.subscriptions.values());
   }
+}
+
+/**
+ * Runs a subscription's deliveries within its concurrency limit, keeping
+ * deliveries with the same key in the order they were queued
+ */
+class DeliveryQueue {
+  private active = 0;
+  private waiting: Array<() => void> = [];
   
   /**
-   * Checks if an event matches a subscription's criteria
+   * Last delivery queued for each key, which the next one with the key waits for
+   */
+  private tails: Map<string, Promise<void>> = new Map();
+  
+  constructor(private readonly concurrency: number) {}
+  
+  /**
+   * Queues a delivery
    * 
-   * @param event The event to check
-   * @param subscription The subscription to check against
-   * @returns True if the event matches the subscription
+   * @param key Deliveries with the same key run one at a time, in order; undefined for none
+   * @param delivery The delivery, which must not reject
+   * @returns A promise that resolves once the delivery has run
    */
-  private eventMatchesSubscription(event: DomainEvent, subscription: EventSubscription): boolean {
-    // Check event type
-    if (!subscription.eventTypes.includes('*') && !subscription.eventTypes.includes(event.type)) {
-      return false;
+  run(key: string | undefined, delivery: () => Promise<void>): Promise<void> {
+    if (key === undefined) {
+      return this.withSlot(delivery);
     }
     
-    // Check source domain
-    if (subscription.domains && subscription.domains.length > 0) {
-      if (!subscription.domains.includes(event.source)) {
-        return false;
+    const previous = this.tails.get(key) || Promise.resolve();
+    const result = previous.then(() => this.withSlot(delivery));
+    this.tails.set(key, result);
+    
+    // Forget the key once nothing is queued behind this delivery
+    result.then(() => {
+      if (this.tails.get(key) === result) {
+        this.tails.delete(key);
       }
+    });
+    
+    return result;
+  }
+  
+  /**
+   * Runs a delivery once fewer than the concurrency limit are running
+   * 
+   * @param delivery The delivery
+   */
+  private async withSlot(delivery: () => Promise<void>): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      // The finishing delivery hands its slot over, so active stays the same
+      await new Promise<void>(resolve => this.waiting.push(resolve));
     }
     
+    try {
+      await delivery();
+    } finally {
+      const next = this.waiting.shift();
+      
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+/**
+ * Checks if an event matches a subscription's criteria
+ * 
+ * @param event The event to check
+ * @param subscription The subscription to check against
+ * @returns True if the event matches the subscription
+ */
+export function eventMatchesSubscription(event: DomainEvent, subscription: EventSubscription): boolean {
+  // Check event type
+  if (!subscription.eventTypes.some(pattern => eventTypeMatches(pattern, event.type))) {
+    return false;
+  }
+  
+  // Check source domain
+  if (subscription.domains && subscription.domains.length > 0) {
+    if (!subscription.domains.includes(event.source)) {
+      return false;
+    }
+  }
+  
+  // Check the subscription's own filter
+  if (subscription.filter && !subscription.filter(event)) {
+    return false;
+  }
+  
+  return true;
+}
+
+/**
+ * Checks if an event matches a subscription, reporting a filter that throws
+ * as a subscriber error instead of letting it reach the publisher
+ * 
+ * @param config Event bus configuration
+ * @param event The event to check
+ * @param subscription The subscription to check against
+ * @returns True if the event matches the subscription
+ */
+export function matchesOrReports(config: EventBusConfig, event: DomainEvent, subscription: EventSubscription): boolean {
+  try {
+    return eventMatchesSubscription(event, subscription);
+  } catch (error) {
+    reportSubscriberError(config, error, event, subscription);
+    return false;
+  }
+}
+
+/**
+ * Converts an event to the payload version a subscription expects
+ * 
+ * @param config Event bus configuration
+ * @param event The event being delivered
+ * @param subscription The subscription receiving it
+ * @returns The event to deliver
+ * @throws Error if the event is newer than the version the subscription expects
+ */
+export function eventForSubscription(config: EventBusConfig, event: DomainEvent, subscription: EventSubscription): DomainEvent {
+  if (!config.schemaRegistry || !config.schemaRegistry.has(event.type)) {
+    return event;
+  }
+  
+  return config.schemaRegistry.upcast(event, subscription.schemaVersions?.[event.type]);
+}
+
+/**
+ * Checks if an event type matches a subscription pattern
+ * 
+ * Patterns are compared segment by segment, segments being separated by ':'.
+ * A '*' segment matches any one segment, and a '*' at the end matches all the
+ * remaining segments, so 'bidding:*' matches 'bidding:bid_submitted' and
+ * 'bidding:bid_submitted:detailed' while '*:created' matches 'project:created'
+ * only. A pattern of '*' alone matches every type.
+ * 
+ * @param pattern The pattern or exact event type
+ * @param eventType The event type to check
+ * @returns True if the type matches the pattern
+ */
+export function eventTypeMatches(pattern: string, eventType: string): boolean {
+  if (pattern === '*' || pattern === eventType) {
     return true;
   }
+  
+  const patternSegments = pattern.split(':');
+  const typeSegments = eventType.split(':');
+  
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+    
+    if (segment === '*' && i === patternSegments.length - 1) {
+      return typeSegments.length > i;
+    }
+    
+    if (i >= typeSegments.length || (segment !== '*' && segment !== typeSegments[i])) {
+      return false;
+    }
+  }
+  
+  return patternSegments.length === typeSegments.length;
+}
+
+/**
+ * Subscribes to the next matching event only
+ * The subscription is removed before its callback runs, so the callback runs
+ * once even if more matching events are published meanwhile
+ * 
+ * @param eventBus The event bus to subscribe to
+ * @param subscription The subscription details
+ * @returns The ID of the created subscription, to cancel it before an event arrives
+ */
+export function once(eventBus: EventBus, subscription: Omit<EventSubscription, 'id'>): string {
+  let handled = false;
+  
+  const id = eventBus.subscribe({
+    ...subscription,
+    callback: async event => {
+      if (handled) {
+        return;
+      }
+      
+      handled = true;
+      eventBus.unsubscribe(id);
+      await subscription.callback(event);
+    }
+  });
+  
+  return id;
+}
+
+/**
+ * Waits for the next event of a type, e.g. for a saga step or a test to
+ * continue once another domain has reacted
+ * 
+ * @param eventBus The event bus to listen on
+ * @param eventType The event type or type pattern to wait for
+ * @param predicate Condition the event must also meet
+ * @param timeoutMs How long to wait before rejecting (defaults to waiting indefinitely)
+ * @returns A promise resolving with the event
+ */
+export function waitFor(
+  eventBus: EventBus,
+  eventType: string,
+  predicate?: (event: DomainEvent) => boolean,
+  timeoutMs?: number
+): Promise<DomainEvent> {
+  return new Promise((resolve, reject) => {
+    let timer: NodeJS.Timeout | undefined;
+    
+    const id = once(eventBus, {
+      eventTypes: [eventType],
+      filter: predicate,
+      callback: event => {
+        if (timer) {
+          clearTimeout(timer);
+        }
+        
+        resolve(event);
+      }
+    });
+    
+    if (timeoutMs !== undefined) {
+      timer = setTimeout(() => {
+        eventBus.unsubscribe(id);
+        reject(new Error(`Timed out after ${timeoutMs}ms waiting for event ${eventType}`));
+      }, timeoutMs);
+    }
+  });
+}
+
+/**
+ * Reports an error thrown by a subscriber to the configured error handler,
+ * or logs it if there is none
+ * 
+ * @param config Event bus configuration
+ * @param error The error thrown
+ * @param event The event being handled
+ * @param subscription The subscription that failed
+ */
+export function reportSubscriberError(
+  config: EventBusConfig,
+  error: unknown,
+  event: DomainEvent,
+  subscription: EventSubscription
+): void {
+  if (config.errorHandler) {
+    config.errorHandler(error instanceof Error ? error : new Error(String(error)), event, subscription);
+  } else {
+    console.error(`[EventBus] Error processing event ${event.type} in subscription ${subscription.id}:`, error);
+  }
+}
+
+/**
+ * Configuration for event buses created by the factory
+ */
+export interface EventBusFactoryConfig extends DurableEventBusConfig {
+  /**
+   * Directory holding the event log of a 'file' event bus
+   */
+  logDirectory?: string;
+  
+  /**
+   * Client for the Redis server holding the event log of a 'redis' event bus
+   */
+  redisClient?: RedisStreamsClient;
+  
+  /**
+   * Key of the Redis stream holding the events (defaults to 'ddaa:events')
+   */
+  redisStream?: string;
 }
 
 /**
@@ -177,19 +485,35 @@ export class InMemoryEventBus implements EventBus {
 export class EventBusFactory {
   /**
    * Creates an event bus based on configuration
+   * - local: in-memory delivery within the process
+   * - file: durable delivery with the event log kept in files
+   * - redis: durable delivery with the event log kept in a Redis stream
    * 
    * @param type The type of event bus to create
    * @param config Configuration for the event bus
    * @returns An event bus instance
    */
-  static create(type: 'local' | 'redis' = 'local', config: EventBusConfig = {}): EventBus {
+  static create(type: 'local' | 'file' | 'redis' = 'local', config: EventBusFactoryConfig = {}): EventBus {
     switch (type) {
       case 'local':
         return new InMemoryEventBus(config);
       
+      case 'file':
+        if (!config.logDirectory) {
+          throw new Error('A file event bus requires a logDirectory');
+        }
+        
+        return new DurableEventBus(new FileEventLog(config.logDirectory), config);
+      
       case 'redis':
-        // This would be implemented to use Redis for distributed event handling
-        throw new Error('Redis event bus not implemented');
+        if (!config.redisClient) {
+          throw new Error('A Redis event bus requires a redisClient');
+        }
+        
+        return new DurableEventBus(
+          new RedisStreamsEventLog(config.redisClient, { stream: config.redisStream }),
+          config
+        );
       
       default:
         throw new Error(`Unknown event bus type: ${type}`);
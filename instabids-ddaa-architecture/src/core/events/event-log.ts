@@ -0,0 +1,433 @@
+/**
+ * Event Log
+ * 
+ * An event log is the storage behind a durable event bus. It keeps every
+ * published event in order under an offset, the position each subscription
+ * has read up to, and the events a subscription gave up on (its dead letters).
+ * Because all of this outlives the process, subscriptions resume after a
+ * restart and can replay events they have already seen.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { DomainEvent } from '../domain/domain-agent';
+
+/**
+ * An event stored in the log
+ */
+export interface EventLogRecord {
+  /**
+   * Position of the event in the log
+   * Offsets are opaque strings; only the log that issued them can compare them
+   */
+  offset: string;
+  
+  /**
+   * The event
+   */
+  event: DomainEvent;
+}
+
+/**
+ * Where to start reading the log
+ * With neither field set, reading starts at the beginning of the log
+ */
+export interface EventLogPosition {
+  /**
+   * Read from this offset, including it
+   */
+  from?: string;
+  
+  /**
+   * Read after this offset
+   */
+  after?: string;
+}
+
+/**
+ * An event a subscription failed to handle after all retries
+ */
+export interface DeadLetter {
+  /**
+   * Name of the subscription that failed
+   */
+  subscriber: string;
+  
+  /**
+   * Offset of the event in the log
+   */
+  offset: string;
+  
+  /**
+   * The event
+   */
+  event: DomainEvent;
+  
+  /**
+   * Number of delivery attempts made
+   */
+  attempts: number;
+  
+  /**
+   * Error from the last attempt
+   */
+  error: string;
+  
+  /**
+   * When the event was dead-lettered
+   */
+  failedAt: Date;
+}
+
+/**
+ * Interface for event logs
+ */
+export interface EventLog {
+  /**
+   * Appends an event to the end of the log
+   * 
+   * @param event The event to store
+   * @returns The stored record with its offset
+   */
+  append(event: DomainEvent): Promise<EventLogRecord>;
+  
+  /**
+   * Reads events in log order
+   * 
+   * @param position Where to start reading
+   * @param limit Maximum number of events to return
+   * @returns The records found
+   */
+  read(position: EventLogPosition, limit: number): Promise<EventLogRecord[]>;
+  
+  /**
+   * Gets the offset of the last event in the log
+   * 
+   * @returns The offset, or undefined if the log is empty
+   */
+  latestOffset(): Promise<string | undefined>;
+  
+  /**
+   * Gets the offset of the last event a subscription has handled
+   * 
+   * @param subscriber Name of the subscription
+   * @returns The offset, or undefined if the subscription has not handled any event
+   */
+  getCheckpoint(subscriber: string): Promise<string | undefined>;
+  
+  /**
+   * Records the offset of the last event a subscription has handled
+   * 
+   * @param subscriber Name of the subscription
+   * @param offset Offset of the event
+   */
+  saveCheckpoint(subscriber: string, offset: string): Promise<void>;
+  
+  /**
+   * Stores an event a subscription failed to handle, replacing any dead
+   * letter for the same subscription and offset
+   * 
+   * @param letter The dead letter
+   */
+  addDeadLetter(letter: DeadLetter): Promise<void>;
+  
+  /**
+   * Gets the dead letters in log order
+   * 
+   * @param subscriber Name of a subscription to limit the results to
+   * @returns The dead letters
+   */
+  getDeadLetters(subscriber?: string): Promise<DeadLetter[]>;
+  
+  /**
+   * Removes a dead letter, e.g. after it was handled successfully
+   * 
+   * @param subscriber Name of the subscription
+   * @param offset Offset of the event
+   */
+  removeDeadLetter(subscriber: string, offset: string): Promise<void>;
+}
+
+/**
+ * Event log kept in memory, for tests and single-process use
+ * Offsets are the sequence numbers of the events, starting at 1
+ */
+export class InMemoryEventLog implements EventLog {
+  private records: EventLogRecord[] = [];
+  private checkpoints: Map<string, string> = new Map();
+  private deadLetters: Map<string, DeadLetter> = new Map();
+  
+  async append(event: DomainEvent): Promise<EventLogRecord> {
+    const record = { offset: String(this.records.length + 1), event };
+    this.records.push(record);
+    return record;
+  }
+  
+  async read(position: EventLogPosition, limit: number): Promise<EventLogRecord[]> {
+    const start = sequenceStart(position);
+    return this.records.slice(start - 1, start - 1 + limit);
+  }
+  
+  async latestOffset(): Promise<string | undefined> {
+    return this.records.length > 0 ? String(this.records.length) : undefined;
+  }
+  
+  async getCheckpoint(subscriber: string): Promise<string | undefined> {
+    return this.checkpoints.get(subscriber);
+  }
+  
+  async saveCheckpoint(subscriber: string, offset: string): Promise<void> {
+    this.checkpoints.set(subscriber, offset);
+  }
+  
+  async addDeadLetter(letter: DeadLetter): Promise<void> {
+    this.deadLetters.set(deadLetterKey(letter.subscriber, letter.offset), letter);
+  }
+  
+  async getDeadLetters(subscriber?: string): Promise<DeadLetter[]> {
+    return sortDeadLetters(Array.from(this.deadLetters.values()), subscriber);
+  }
+  
+  async removeDeadLetter(subscriber: string, offset: string): Promise<void> {
+    this.deadLetters.delete(deadLetterKey(subscriber, offset));
+  }
+}
+
+/**
+ * Event log kept in files, so events survive restarts without any server
+ * 
+ * The directory holds three files:
+ * - events.jsonl: one event per line, the line number being its offset
+ * - checkpoints.json: the last offset handled by each subscription
+ * - dead-letters.json: events subscriptions failed to handle
+ * 
+ * Writes from one process are serialized; the files must not be shared by
+ * several processes writing at the same time.
+ */
+export class FileEventLog implements EventLog {
+  private readonly eventsFile: string;
+  private readonly checkpointsFile: string;
+  private readonly deadLettersFile: string;
+  
+  /**
+   * Events read from the events file, loaded on first use
+   */
+  private records?: EventLogRecord[];
+  
+  /**
+   * Pending writes, so they reach the files one at a time
+   */
+  private writes: Promise<unknown> = Promise.resolve();
+  
+  /**
+   * Creates a file event log
+   * 
+   * @param directory Directory holding the log files; created if missing
+   */
+  constructor(private readonly directory: string) {
+    this.eventsFile = path.join(directory, 'events.jsonl');
+    this.checkpointsFile = path.join(directory, 'checkpoints.json');
+    this.deadLettersFile = path.join(directory, 'dead-letters.json');
+  }
+  
+  async append(event: DomainEvent): Promise<EventLogRecord> {
+    return this.serialize(async () => {
+      const records = await this.loadRecords();
+      const record = { offset: String(records.length + 1), event };
+      
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.appendFile(this.eventsFile, JSON.stringify(record) + '\n', 'utf8');
+      records.push(record);
+      
+      return record;
+    });
+  }
+  
+  async read(position: EventLogPosition, limit: number): Promise<EventLogRecord[]> {
+    const records = await this.loadRecords();
+    const start = sequenceStart(position);
+    return records.slice(start - 1, start - 1 + limit);
+  }
+  
+  async latestOffset(): Promise<string | undefined> {
+    const records = await this.loadRecords();
+    return records.length > 0 ? String(records.length) : undefined;
+  }
+  
+  async getCheckpoint(subscriber: string): Promise<string | undefined> {
+    const checkpoints = await this.readJson<Record<string, string>>(this.checkpointsFile, {});
+    return checkpoints[subscriber];
+  }
+  
+  async saveCheckpoint(subscriber: string, offset: string): Promise<void> {
+    await this.serialize(async () => {
+      const checkpoints = await this.readJson<Record<string, string>>(this.checkpointsFile, {});
+      checkpoints[subscriber] = offset;
+      await this.writeJson(this.checkpointsFile, checkpoints);
+    });
+  }
+  
+  async addDeadLetter(letter: DeadLetter): Promise<void> {
+    await this.serialize(async () => {
+      const letters = (await this.readDeadLetters())
+        .filter(existing => deadLetterKey(existing.subscriber, existing.offset) !== deadLetterKey(letter.subscriber, letter.offset));
+      
+      await this.writeJson(this.deadLettersFile, [...letters, letter]);
+    });
+  }
+  
+  async getDeadLetters(subscriber?: string): Promise<DeadLetter[]> {
+    return sortDeadLetters(await this.readDeadLetters(), subscriber);
+  }
+  
+  async removeDeadLetter(subscriber: string, offset: string): Promise<void> {
+    await this.serialize(async () => {
+      const letters = (await this.readDeadLetters())
+        .filter(existing => deadLetterKey(existing.subscriber, existing.offset) !== deadLetterKey(subscriber, offset));
+      
+      await this.writeJson(this.deadLettersFile, letters);
+    });
+  }
+  
+  /**
+   * Runs a write after the writes already queued
+   * 
+   * @param write The write to run
+   * @returns The result of the write
+   */
+  private serialize<T>(write: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(write, write);
+    this.writes = result.catch(() => undefined);
+    return result;
+  }
+  
+  /**
+   * Loads the events file into memory
+   * 
+   * @returns The records in the log
+   */
+  private async loadRecords(): Promise<EventLogRecord[]> {
+    if (!this.records) {
+      const content = await this.readFile(this.eventsFile);
+      
+      this.records = (content || '')
+        .split('\n')
+        .filter(line => line.trim().length > 0)
+        .map(line => {
+          const record = JSON.parse(line);
+          return { offset: record.offset, event: reviveEvent(record.event) };
+        });
+    }
+    
+    return this.records;
+  }
+  
+  /**
+   * Reads the dead letters file
+   * 
+   * @returns The dead letters
+   */
+  private async readDeadLetters(): Promise<DeadLetter[]> {
+    const letters = await this.readJson<any[]>(this.deadLettersFile, []);
+    
+    return letters.map(letter => ({
+      ...letter,
+      event: reviveEvent(letter.event),
+      failedAt: new Date(letter.failedAt)
+    }));
+  }
+  
+  /**
+   * Reads a JSON file
+   * 
+   * @param file Path of the file
+   * @param fallback Value to return if the file does not exist
+   * @returns The parsed content
+   */
+  private async readJson<T>(file: string, fallback: T): Promise<T> {
+    const content = await this.readFile(file);
+    return content ? JSON.parse(content) : fallback;
+  }
+  
+  /**
+   * Writes a JSON file, replacing it in one step so a crash never leaves it half written
+   * 
+   * @param file Path of the file
+   * @param value Value to write
+   */
+  private async writeJson(file: string, value: unknown): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(`${file}.tmp`, JSON.stringify(value, null, 2), 'utf8');
+    await fs.promises.rename(`${file}.tmp`, file);
+  }
+  
+  /**
+   * Reads a file
+   * 
+   * @param file Path of the file
+   * @returns The content, or undefined if the file does not exist
+   */
+  private async readFile(file: string): Promise<string | undefined> {
+    try {
+      return await fs.promises.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      
+      throw error;
+    }
+  }
+}
+
+/**
+ * Restores the fields of an event that do not survive JSON serialization
+ * 
+ * @param event The parsed event
+ * @returns The event with its timestamp as a Date
+ */
+export function reviveEvent(event: any): DomainEvent {
+  return { ...event, timestamp: new Date(event.timestamp) };
+}
+
+/**
+ * Gets the sequence number reading starts at, for logs whose offsets are sequence numbers
+ * 
+ * @param position Where to start reading
+ * @returns The first sequence number to read
+ */
+function sequenceStart(position: EventLogPosition): number {
+  if (position.from !== undefined) {
+    return Math.max(Number(position.from), 1);
+  }
+  
+  if (position.after !== undefined) {
+    return Number(position.after) + 1;
+  }
+  
+  return 1;
+}
+
+/**
+ * Key identifying a dead letter
+ * 
+ * @param subscriber Name of the subscription
+ * @param offset Offset of the event
+ * @returns The key
+ */
+function deadLetterKey(subscriber: string, offset: string): string {
+  return `${subscriber}|${offset}`;
+}
+
+/**
+ * Filters dead letters by subscription and puts them in log order
+ * 
+ * @param letters The dead letters
+ * @param subscriber Name of a subscription to limit the results to
+ * @returns The matching dead letters
+ */
+function sortDeadLetters(letters: DeadLetter[], subscriber?: string): DeadLetter[] {
+  return letters
+    .filter(letter => !subscriber || letter.subscriber === subscriber)
+    .sort((a, b) => Number(a.offset) - Number(b.offset));
+}
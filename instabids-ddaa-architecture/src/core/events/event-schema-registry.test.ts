@@ -0,0 +1,109 @@
+import { DomainEvent } from '../domain/domain-agent';
+import { EventSchemaRegistry } from './event-schema-registry';
+
+function createEvent(payload: Record<string, any>, schemaVersion?: number, source = 'bidding'): DomainEvent {
+  return {
+    type: 'bidding:bid_submitted',
+    payload,
+    source,
+    timestamp: new Date(),
+    correlationId: 'correlation-1',
+    ...(schemaVersion !== undefined ? { metadata: { schemaVersion } } : {})
+  };
+}
+
+describe('EventSchemaRegistry', () => {
+  let registry: EventSchemaRegistry;
+  
+  beforeEach(() => {
+    registry = new EventSchemaRegistry();
+    registry.register('bidding', {
+      type: 'bidding:bid_submitted',
+      version: 1,
+      payload: {
+        bidId: { type: 'string', description: 'ID of the bid', required: true },
+        amount: { type: 'number', description: 'Bid amount', required: true }
+      }
+    });
+    registry.register('bidding', {
+      type: 'bidding:bid_submitted',
+      version: 2,
+      payload: {
+        bidId: { type: 'string', description: 'ID of the bid', required: true },
+        amount: { type: 'object', description: 'Bid amount and currency', required: true }
+      },
+      upcast: payload => ({ ...payload, amount: { value: payload.amount, currency: 'USD' } })
+    });
+    registry.register('bidding', {
+      type: 'bidding:bid_submitted',
+      version: 3,
+      payload: {
+        bidId: { type: 'string', description: 'ID of the bid', required: true },
+        amount: { type: 'object', description: 'Bid amount and currency', required: true },
+        timelineInDays: { type: 'number', description: 'Proposed timeline', required: false }
+      },
+      upcast: payload => ({ ...payload, timelineInDays: null })
+    });
+  });
+  
+  it('refuses versions out of order, without an upcaster or outside the domain', () => {
+    const payload = {};
+    
+    expect(() => registry.register('bidding', { type: 'bidding:bid_submitted', version: 5, payload, upcast: p => p }))
+      .toThrow('Expected version 4 of event type bidding:bid_submitted, got version 5');
+    expect(() => registry.register('bidding', { type: 'bidding:bid_submitted', version: 4, payload }))
+      .toThrow('needs an upcaster from version 3');
+    expect(() => registry.register('project', { type: 'bidding:bid_accepted', version: 1, payload }))
+      .toThrow('Domain project cannot register event type bidding:bid_accepted');
+  });
+  
+  it('validates an event against the schema of its own version', () => {
+    expect(registry.validate(createEvent({ bidId: 'bid-1', amount: 2500 }, 1))).toEqual([]);
+    expect(registry.validate(createEvent({ bidId: 'bid-1', amount: 2500 }, 2)).map(error => error.code))
+      .toEqual(['invalid_type']);
+  });
+  
+  it('validates unversioned events against the latest version', () => {
+    const errors = registry.validate(createEvent({ amount: { value: 2500, currency: 'USD' } }));
+    
+    expect(errors).toEqual([expect.objectContaining({ code: 'missing_field', field: 'bidId' })]);
+  });
+  
+  it('reports unknown versions and events published by another domain', () => {
+    expect(registry.validate(createEvent({}, 7)).map(error => error.code)).toEqual(['unknown_event_version']);
+    expect(registry.validate(createEvent({ bidId: 'bid-1', amount: 2500 }, 1, 'project')).map(error => error.code))
+      .toEqual(['event_source_mismatch']);
+  });
+  
+  it('only fails unregistered event types when strict', () => {
+    const event = { ...createEvent({}), type: 'bidding:bid_withdrawn' };
+    
+    expect(registry.validate(event)).toEqual([]);
+    expect(new EventSchemaRegistry({ strict: true }).validate(event).map(error => error.code))
+      .toEqual(['unknown_event_type']);
+  });
+  
+  it('upcasts through every version in between', () => {
+    const upcast = registry.upcast(createEvent({ bidId: 'bid-1', amount: 2500 }, 1));
+    
+    expect(upcast.payload).toEqual({ bidId: 'bid-1', amount: { value: 2500, currency: 'USD' }, timelineInDays: null });
+    expect(upcast.metadata).toEqual({ schemaVersion: 3 });
+  });
+  
+  it('upcasts only as far as the version asked for', () => {
+    const upcast = registry.upcast(createEvent({ bidId: 'bid-1', amount: 2500 }, 1), 2);
+    
+    expect(upcast.payload).toEqual({ bidId: 'bid-1', amount: { value: 2500, currency: 'USD' } });
+    expect(upcast.metadata).toEqual({ schemaVersion: 2 });
+  });
+  
+  it('refuses to convert an event back to an older version', () => {
+    expect(() => registry.upcast(createEvent({ bidId: 'bid-1' }, 3), 1))
+      .toThrow('Cannot convert version 3 of event type bidding:bid_submitted back to version 1');
+  });
+  
+  it('stamps unversioned events with the latest version', () => {
+    expect(registry.stamp(createEvent({})).metadata).toEqual({ schemaVersion: 3 });
+    expect(registry.stamp(createEvent({}, 1)).metadata).toEqual({ schemaVersion: 1 });
+  });
+});
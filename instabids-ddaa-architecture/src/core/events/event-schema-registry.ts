@@ -0,0 +1,304 @@
+/**
+ * Event Schema Registry
+ * 
+ * Domains register the event types they publish with a schema for each
+ * version of the payload. The guard layer validates events against the
+ * registered schema before they are published, and event buses upcast the
+ * payloads they deliver to the version each subscriber asked for. A domain
+ * can therefore evolve its events by registering a new version with an
+ * upcaster, without every consumer changing at the same time.
+ * 
+ * The version of an event travels in its metadata as `schemaVersion`; event
+ * buses stamp unversioned events with the latest version when they are published.
+ */
+
+import { DomainEvent, IntentParameterSchema } from '../domain/domain-agent';
+import { ValidationError } from '../guard/guard-layer';
+
+/**
+ * A version of an event type's payload
+ */
+export interface EventSchema {
+  /**
+   * The event type (e.g., 'bidding:bid_submitted')
+   */
+  type: string;
+  
+  /**
+   * Version of the payload, starting at 1 and increasing by one
+   */
+  version: number;
+  
+  /**
+   * Description of the event
+   */
+  description?: string;
+  
+  /**
+   * Fields of the payload, described like intent parameters
+   * Fields not listed are allowed
+   */
+  payload: Record<string, IntentParameterSchema>;
+  
+  /**
+   * Converts a payload of the previous version to this version
+   * Required for every version after the first
+   */
+  upcast?: (payload: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Configuration for the event schema registry
+ */
+export interface EventSchemaRegistryConfig {
+  /**
+   * Whether events of unregistered types fail validation
+   * (defaults to false, so domains can adopt schemas one at a time)
+   */
+  strict?: boolean;
+}
+
+/**
+ * Registry of the event types of every domain and their payload versions
+ */
+export class EventSchemaRegistry {
+  /**
+   * Versions of each event type, indexed by version - 1
+   */
+  private schemas: Map<string, EventSchema[]> = new Map();
+  
+  /**
+   * Domain that registered each event type
+   */
+  private owners: Map<string, string> = new Map();
+  
+  private config: EventSchemaRegistryConfig;
+  
+  constructor(config: EventSchemaRegistryConfig = {}) {
+    this.config = config;
+  }
+  
+  /**
+   * Registers a version of an event type
+   * Versions of a type must be registered in order, and only by the domain
+   * whose namespace the type is in
+   * 
+   * @param domain The domain publishing the event
+   * @param schema The payload schema of the version
+   * @throws Error if the type is outside the domain's namespace, the version is out of order, or an upcaster is missing
+   */
+  register(domain: string, schema: EventSchema): void {
+    if (!schema.type.startsWith(`${domain}:`)) {
+      throw new Error(`Domain ${domain} cannot register event type ${schema.type}`);
+    }
+    
+    const versions = this.schemas.get(schema.type) || [];
+    
+    if (schema.version !== versions.length + 1) {
+      throw new Error(`Expected version ${versions.length + 1} of event type ${schema.type}, got version ${schema.version}`);
+    }
+    
+    if (schema.version > 1 && !schema.upcast) {
+      throw new Error(`Version ${schema.version} of event type ${schema.type} needs an upcaster from version ${schema.version - 1}`);
+    }
+    
+    this.schemas.set(schema.type, [...versions, schema]);
+    this.owners.set(schema.type, domain);
+  }
+  
+  /**
+   * Checks if an event type has been registered
+   * 
+   * @param type The event type
+   * @returns True if at least one version is registered
+   */
+  has(type: string): boolean {
+    return this.schemas.has(type);
+  }
+  
+  /**
+   * Gets a version of an event type's schema
+   * 
+   * @param type The event type
+   * @param version The version (defaults to the latest)
+   * @returns The schema, or null if not registered
+   */
+  getSchema(type: string, version?: number): EventSchema | null {
+    const versions = this.schemas.get(type);
+    
+    if (!versions) {
+      return null;
+    }
+    
+    return versions[(version || versions.length) - 1] || null;
+  }
+  
+  /**
+   * Gets the latest version of an event type
+   * 
+   * @param type The event type
+   * @returns The latest version, or undefined if the type is not registered
+   */
+  getLatestVersion(type: string): number | undefined {
+    return this.schemas.get(type)?.length;
+  }
+  
+  /**
+   * Gets the payload version of an event
+   * 
+   * @param event The event
+   * @returns The version in the event's metadata, or the latest version if it has none
+   */
+  getVersion(event: DomainEvent): number | undefined {
+    return event.metadata?.schemaVersion ?? this.getLatestVersion(event.type);
+  }
+  
+  /**
+   * Records the latest version in an event that has none, so the event keeps
+   * its meaning once newer versions are registered
+   * 
+   * @param event The event being published
+   * @returns The event with its version in the metadata
+   */
+  stamp(event: DomainEvent): DomainEvent {
+    if (!this.has(event.type) || event.metadata?.schemaVersion !== undefined) {
+      return event;
+    }
+    
+    return {
+      ...event,
+      metadata: { ...event.metadata, schemaVersion: this.getLatestVersion(event.type) }
+    };
+  }
+  
+  /**
+   * Validates an event against the schema of its version
+   * 
+   * @param event The event to validate
+   * @returns An array of validation errors (empty if valid)
+   */
+  validate(event: DomainEvent): ValidationError[] {
+    if (!this.has(event.type)) {
+      return this.config.strict
+        ? [{ code: 'unknown_event_type', message: `Event type ${event.type} is not registered` }]
+        : [];
+    }
+    
+    const version = this.getVersion(event)!;
+    const schema = this.getSchema(event.type, version);
+    
+    if (!schema) {
+      return [{
+        code: 'unknown_event_version',
+        message: `Version ${version} of event type ${event.type} is not registered`,
+        details: { version }
+      }];
+    }
+    
+    const errors: ValidationError[] = [];
+    const owner = this.owners.get(event.type);
+    
+    if (event.source !== owner) {
+      errors.push({
+        code: 'event_source_mismatch',
+        message: `Event type ${event.type} can only be published by the ${owner} domain, not ${event.source}`
+      });
+    }
+    
+    for (const [field, fieldSchema] of Object.entries(schema.payload)) {
+      const value = event.payload[field];
+      
+      if (value === undefined || value === null) {
+        if (fieldSchema.required) {
+          errors.push({
+            code: 'missing_field',
+            message: `Payload of ${event.type} is missing required field ${field}`,
+            field
+          });
+        }
+      } else if (!matchesType(fieldSchema.type, value)) {
+        errors.push({
+          code: 'invalid_type',
+          message: `Field ${field} of ${event.type} must be of type ${fieldSchema.type}`,
+          field,
+          details: { expected: fieldSchema.type }
+        });
+      }
+    }
+    
+    return errors;
+  }
+  
+  /**
+   * Converts an event's payload to a later version by applying the upcaster
+   * of each version in between
+   * 
+   * @param event The event to convert
+   * @param version The version to convert to (defaults to the latest)
+   * @returns The converted event, or the event itself if its type is not registered
+   * @throws Error if the event is newer than the requested version
+   */
+  upcast(event: DomainEvent, version?: number): DomainEvent {
+    const versions = this.schemas.get(event.type);
+    
+    if (!versions) {
+      return event;
+    }
+    
+    const from = this.getVersion(event)!;
+    const to = version || versions.length;
+    
+    if (from > to) {
+      throw new Error(`Cannot convert version ${from} of event type ${event.type} back to version ${to}`);
+    }
+    
+    if (to > versions.length) {
+      throw new Error(`Version ${to} of event type ${event.type} is not registered`);
+    }
+    
+    let payload = event.payload;
+    
+    for (let next = from + 1; next <= to; next++) {
+      payload = versions[next - 1].upcast!(payload);
+    }
+    
+    return {
+      ...event,
+      payload,
+      metadata: { ...event.metadata, schemaVersion: to }
+    };
+  }
+}
+
+/**
+ * Checks a payload value against a schema type
+ * Types without a check, such as 'any', accept every value
+ * 
+ * @param type The schema type
+ * @param value The value to check
+ * @returns True if the value has the type
+ */
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+    
+    case 'boolean':
+      return typeof value === 'boolean';
+    
+    case 'array':
+      return Array.isArray(value);
+    
+    case 'date':
+      return value instanceof Date || (typeof value === 'string' && !isNaN(Date.parse(value)));
+    
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value);
+    
+    default:
+      return true;
+  }
+}
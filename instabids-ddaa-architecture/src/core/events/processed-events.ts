@@ -0,0 +1,101 @@
+/**
+ * Processed Events
+ * 
+ * The same event can reach a subscriber more than once: durable event buses
+ * retry failed deliveries and replay their log, and publishers may publish
+ * an event again after a failure. A processed-event store remembers which
+ * events each subscriber has handled, so subscribers whose reactions must
+ * not run twice can skip the events they have already seen.
+ */
+
+import { createHash } from 'crypto';
+import { DomainEvent } from '../domain/domain-agent';
+
+/**
+ * Storage for the events subscribers have handled
+ */
+export interface ProcessedEventStore {
+  /**
+   * Checks whether a subscriber has handled an event
+   * 
+   * @param subscriber Name of the subscriber
+   * @param eventKey Key of the event (see getEventKey)
+   * @returns True if the event was recorded as handled
+   */
+  has(subscriber: string, eventKey: string): Promise<boolean>;
+  
+  /**
+   * Records that a subscriber has handled an event
+   * 
+   * @param subscriber Name of the subscriber
+   * @param eventKey Key of the event (see getEventKey)
+   */
+  record(subscriber: string, eventKey: string): Promise<void>;
+}
+
+/**
+ * Processed-event store kept in memory
+ * Each subscriber remembers its most recent events up to a capacity, so
+ * redeliveries are caught while memory stays bounded; use a persistent
+ * store to skip events handled before a restart.
+ */
+export class InMemoryProcessedEventStore implements ProcessedEventStore {
+  private processed: Map<string, Set<string>> = new Map();
+  
+  /**
+   * Creates an in-memory processed-event store
+   * 
+   * @param capacity Number of events remembered per subscriber (defaults to 10000)
+   */
+  constructor(private readonly capacity: number = 10000) {}
+  
+  async has(subscriber: string, eventKey: string): Promise<boolean> {
+    return this.processed.get(subscriber)?.has(eventKey) || false;
+  }
+  
+  async record(subscriber: string, eventKey: string): Promise<void> {
+    let keys = this.processed.get(subscriber);
+    
+    if (!keys) {
+      keys = new Set();
+      this.processed.set(subscriber, keys);
+    }
+    
+    keys.add(eventKey);
+    
+    // Forget the oldest events once over capacity; sets keep insertion order
+    for (const oldest of keys) {
+      if (keys.size <= this.capacity) {
+        break;
+      }
+      
+      keys.delete(oldest);
+    }
+  }
+}
+
+/**
+ * Gets the key identifying an event across deliveries
+ * Events carrying an ID in their metadata (`eventId`) are identified by it.
+ * Other events are identified by a hash of their type, source, correlation
+ * ID, timestamp and payload, which a redelivered event keeps. Metadata is
+ * left out because event buses add to it on delivery.
+ * 
+ * @param event The event
+ * @returns The key of the event
+ */
+export function getEventKey(event: DomainEvent): string {
+  if (typeof event.metadata?.eventId === 'string') {
+    return event.metadata.eventId;
+  }
+  
+  return createHash('sha256')
+    .update(JSON.stringify([
+      event.type,
+      event.source,
+      event.correlationId,
+      new Date(event.timestamp).toISOString(),
+      event.payload
+    ]))
+    .digest('hex');
+}
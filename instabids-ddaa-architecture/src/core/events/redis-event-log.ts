@@ -0,0 +1,254 @@
+/**
+ * Redis Streams Event Log
+ * 
+ * Stores the event log in a Redis stream so several processes can share it.
+ * Events are stream entries, and their offsets are the entry IDs Redis
+ * assigns. Checkpoints and dead letters are kept in hashes next to the stream.
+ * 
+ * The log talks to Redis through the small RedisStreamsClient interface
+ * rather than a specific client library; wrap the client your application
+ * uses (node-redis, ioredis) to provide it. InMemoryRedisStreams implements
+ * the same commands in memory, standing in for Redis in tests and offline.
+ */
+
+import { DomainEvent } from '../domain/domain-agent';
+import { DeadLetter, EventLog, EventLogPosition, EventLogRecord, reviveEvent } from './event-log';
+
+/**
+ * A stream entry: its ID and its fields
+ */
+export type RedisStreamEntry = [string, Record<string, string>];
+
+/**
+ * The Redis commands the event log uses
+ * Arguments follow the Redis command syntax, e.g. '-', '+' and '(' ranges for XRANGE
+ */
+export interface RedisStreamsClient {
+  /**
+   * XADD key * field value ...
+   * 
+   * @returns The ID of the new entry
+   */
+  xadd(key: string, fields: Record<string, string>): Promise<string>;
+  
+  /**
+   * XRANGE key start end [COUNT count]
+   */
+  xrange(key: string, start: string, end: string, count?: number): Promise<RedisStreamEntry[]>;
+  
+  /**
+   * XREVRANGE key end start [COUNT count]
+   */
+  xrevrange(key: string, end: string, start: string, count?: number): Promise<RedisStreamEntry[]>;
+  
+  /**
+   * HGET key field
+   */
+  hget(key: string, field: string): Promise<string | null>;
+  
+  /**
+   * HSET key field value
+   */
+  hset(key: string, field: string, value: string): Promise<unknown>;
+  
+  /**
+   * HDEL key field
+   */
+  hdel(key: string, field: string): Promise<unknown>;
+  
+  /**
+   * HGETALL key
+   */
+  hgetall(key: string): Promise<Record<string, string>>;
+}
+
+/**
+ * Configuration for the Redis Streams event log
+ */
+export interface RedisEventLogConfig {
+  /**
+   * Key of the stream holding the events (defaults to 'ddaa:events')
+   * Checkpoints and dead letters are kept under the same key with suffixes
+   */
+  stream?: string;
+}
+
+/**
+ * Event log stored in a Redis stream
+ */
+export class RedisStreamsEventLog implements EventLog {
+  private readonly stream: string;
+  private readonly checkpointsKey: string;
+  private readonly deadLettersKey: string;
+  
+  /**
+   * Creates a Redis Streams event log
+   * 
+   * @param client Client for the Redis server holding the stream
+   * @param config Configuration for the log
+   */
+  constructor(private readonly client: RedisStreamsClient, config: RedisEventLogConfig = {}) {
+    this.stream = config.stream || 'ddaa:events';
+    this.checkpointsKey = `${this.stream}:checkpoints`;
+    this.deadLettersKey = `${this.stream}:dead-letters`;
+  }
+  
+  async append(event: DomainEvent): Promise<EventLogRecord> {
+    const offset = await this.client.xadd(this.stream, { event: JSON.stringify(event) });
+    return { offset, event };
+  }
+  
+  async read(position: EventLogPosition, limit: number): Promise<EventLogRecord[]> {
+    const start = position.from !== undefined
+      ? position.from
+      : position.after !== undefined ? `(${position.after}` : '-';
+    
+    const entries = await this.client.xrange(this.stream, start, '+', limit);
+    
+    return entries.map(([offset, fields]) => ({ offset, event: reviveEvent(JSON.parse(fields.event)) }));
+  }
+  
+  async latestOffset(): Promise<string | undefined> {
+    const [latest] = await this.client.xrevrange(this.stream, '+', '-', 1);
+    return latest ? latest[0] : undefined;
+  }
+  
+  async getCheckpoint(subscriber: string): Promise<string | undefined> {
+    return (await this.client.hget(this.checkpointsKey, subscriber)) || undefined;
+  }
+  
+  async saveCheckpoint(subscriber: string, offset: string): Promise<void> {
+    await this.client.hset(this.checkpointsKey, subscriber, offset);
+  }
+  
+  async addDeadLetter(letter: DeadLetter): Promise<void> {
+    await this.client.hset(this.deadLettersKey, `${letter.subscriber}|${letter.offset}`, JSON.stringify(letter));
+  }
+  
+  async getDeadLetters(subscriber?: string): Promise<DeadLetter[]> {
+    const letters = Object.values(await this.client.hgetall(this.deadLettersKey))
+      .map(value => JSON.parse(value))
+      .map(letter => ({ ...letter, event: reviveEvent(letter.event), failedAt: new Date(letter.failedAt) }));
+    
+    return letters
+      .filter(letter => !subscriber || letter.subscriber === subscriber)
+      .sort((a, b) => compareStreamIds(a.offset, b.offset));
+  }
+  
+  async removeDeadLetter(subscriber: string, offset: string): Promise<void> {
+    await this.client.hdel(this.deadLettersKey, `${subscriber}|${offset}`);
+  }
+}
+
+/**
+ * In-memory stand-in for the Redis commands used by the event log
+ * Entry IDs and range arguments behave as in Redis, so a log tested against
+ * it works the same against a server.
+ */
+export class InMemoryRedisStreams implements RedisStreamsClient {
+  private streams: Map<string, RedisStreamEntry[]> = new Map();
+  private hashes: Map<string, Map<string, string>> = new Map();
+  private lastId: [number, number] = [0, 0];
+  
+  async xadd(key: string, fields: Record<string, string>): Promise<string> {
+    // IDs are the current time in milliseconds plus a sequence number for
+    // entries added in the same millisecond, and always increase
+    const now = Date.now();
+    this.lastId = now > this.lastId[0] ? [now, 0] : [this.lastId[0], this.lastId[1] + 1];
+    
+    const id = `${this.lastId[0]}-${this.lastId[1]}`;
+    this.getStream(key).push([id, { ...fields }]);
+    
+    return id;
+  }
+  
+  async xrange(key: string, start: string, end: string, count?: number): Promise<RedisStreamEntry[]> {
+    const entries = this.getStream(key).filter(([id]) => isInRange(id, start, end));
+    return count !== undefined ? entries.slice(0, count) : entries;
+  }
+  
+  async xrevrange(key: string, end: string, start: string, count?: number): Promise<RedisStreamEntry[]> {
+    const entries = this.getStream(key).filter(([id]) => isInRange(id, start, end)).reverse();
+    return count !== undefined ? entries.slice(0, count) : entries;
+  }
+  
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.hashes.get(key)?.get(field) ?? null;
+  }
+  
+  async hset(key: string, field: string, value: string): Promise<number> {
+    if (!this.hashes.has(key)) {
+      this.hashes.set(key, new Map());
+    }
+    
+    const hash = this.hashes.get(key)!;
+    const added = hash.has(field) ? 0 : 1;
+    hash.set(field, value);
+    
+    return added;
+  }
+  
+  async hdel(key: string, field: string): Promise<number> {
+    return this.hashes.get(key)?.delete(field) ? 1 : 0;
+  }
+  
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.hashes.get(key) || new Map());
+  }
+  
+  /**
+   * Gets a stream, creating it if it does not exist
+   * 
+   * @param key Key of the stream
+   * @returns The entries of the stream
+   */
+  private getStream(key: string): RedisStreamEntry[] {
+    if (!this.streams.has(key)) {
+      this.streams.set(key, []);
+    }
+    
+    return this.streams.get(key)!;
+  }
+}
+
+/**
+ * Compares two stream entry IDs
+ * 
+ * @param a First ID
+ * @param b Second ID
+ * @returns A negative number if a comes first, a positive number if b does, 0 if they are equal
+ */
+export function compareStreamIds(a: string, b: string): number {
+  const [aTime, aSequence = 0] = a.split('-').map(Number);
+  const [bTime, bSequence = 0] = b.split('-').map(Number);
+  
+  return aTime !== bTime ? aTime - bTime : aSequence - bSequence;
+}
+
+/**
+ * Checks whether an entry ID falls in an XRANGE range
+ * 
+ * @param id The entry ID
+ * @param start Start of the range: '-', an ID, or '(' followed by an ID to exclude it
+ * @param end End of the range: '+', an ID, or '(' followed by an ID to exclude it
+ * @returns True if the ID is in the range
+ */
+function isInRange(id: string, start: string, end: string): boolean {
+  if (start !== '-') {
+    const comparison = compareStreamIds(id, start.replace(/^\(/, ''));
+    
+    if (comparison < 0 || (comparison === 0 && start.startsWith('('))) {
+      return false;
+    }
+  }
+  
+  if (end !== '+') {
+    const comparison = compareStreamIds(id, end.replace(/^\(/, ''));
+    
+    if (comparison > 0 || (comparison === 0 && end.startsWith('('))) {
+      return false;
+    }
+  }
+  
+  return true;
+}
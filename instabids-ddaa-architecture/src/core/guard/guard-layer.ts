@@ -8,12 +8,22 @@
  */
 
 import { DomainEvent, Intent, IntentResult } from '../domain/domain-agent';
+import { EventSchemaRegistry } from '../events/event-schema-registry';
+import { RateLimiter, RateLimitStore } from './rate-limiter';
+import { ParamSchema, validateParams } from './param-schema';
 
 export interface GuardLayerConfig {
   patternRestrictions?: PatternRestriction[];
   rolePermissions?: RolePermission[];
   dataValidators?: DataValidator[];
   rateLimits?: RateLimit[];
+  
+  /**
+   * Where rate limit counters are kept (defaults to an in-memory store,
+   * which limits a single process)
+   */
+  rateLimitStore?: RateLimitStore;
+  eventSchemas?: EventSchemaRegistry;
 }
 
 export interface PatternRestriction {
@@ -30,21 +40,48 @@ export interface RolePermission {
 
 export interface DataValidator {
   intentName: string;
-  paramSchema: Record<string, any>; // Zod schema or similar
-  validate: (params: Record<string, any>) => boolean | Promise<boolean>;
-  errorMessage: string;
+  
+  /**
+   * Rules for the intent's params, checked field by field; values are
+   * coerced to the declared types and defaults applied before the intent
+   * reaches the domain layer
+   */
+  paramSchema?: ParamSchema;
+  
+  /**
+   * Further check of the params, after the schema's coercion and defaults
+   */
+  validate?: (params: Record<string, any>) => boolean | Promise<boolean>;
+  
+  /**
+   * Message of the error reported when validate returns false
+   */
+  errorMessage?: string;
 }
 
 export interface RateLimit {
-  intentName: string;
+  intentName: string; // '*' limits every intent
   limit: number;
   duration: number; // in milliseconds
   scope: 'user' | 'global' | 'role';
+  
+  /**
+   * How intents are counted (defaults to 'sliding_window')
+   * - sliding_window: at most `limit` intents in any `duration`
+   * - token_bucket: bursts of up to `limit` intents, refilled at `limit` per `duration`
+   */
+  algorithm?: 'sliding_window' | 'token_bucket';
 }
 
 export interface ValidationResult {
   valid: boolean;
   errors: ValidationError[];
+  
+  /**
+   * The intent's params after the data validators' coercion and defaults,
+   * which the domain layer should work with
+   */
+  params?: Record<string, any>;
 }
 
 export interface ValidationError {
@@ -97,14 +134,30 @@ export interface GuardLayer {
  */
 export abstract class BaseGuardLayer implements GuardLayer {
   protected config: GuardLayerConfig;
+  protected rateLimiter: RateLimiter;
   
   constructor(config: GuardLayerConfig = {}) {
     this.config = config;
+    this.rateLimiter = new RateLimiter(config.rateLimits || [], { store: config.rateLimitStore });
   }
   
   async validateIntent(intent: Intent): Promise<ValidationResult> {
     const errors: ValidationError[] = [];
     
+    // Check rate limits first; a limited intent is rejected without further checks
+    const rateLimitErrors = await this.checkRateLimits(intent);
+    
+    if (rateLimitErrors.length > 0) {
+      return {
+        valid: false,
+        errors: rateLimitErrors
+      };
+    }
+    
+    // Check the params first, so the other checks see them coerced and with their defaults
+    const { params, errors: dataErrors } = await this.validateData(intent);
+    intent = { ...intent, params };
+    
     // Check pattern restrictions
     if (this.config.patternRestrictions) {
       for (const restriction of this.config.patternRestrictions) {
@@ -127,26 +180,7 @@ export abstract class BaseGuardLayer implements GuardLayer {
       }
     }
     
-    // Check data validators
-    if (this.config.dataValidators) {
-      const validator = this.config.dataValidators.find(v => v.intentName === intent.name);
-      if (validator) {
-        try {
-          const valid = await validator.validate(intent.params);
-          if (!valid) {
-            errors.push({
-              code: 'validation_error',
-              message: validator.errorMessage
-            });
-          }
-        } catch (error) {
-          errors.push({
-            code: 'validation_error',
-            message: `Error validating intent params: ${error instanceof Error ? error.message : 'Unknown error'}`
-          });
-        }
-      }
-    }
+    errors.push(...dataErrors);
     
     // Domain-specific validations should be implemented in subclasses
     const domainValidationErrors = await this.performDomainValidation(intent);
@@ -154,10 +188,20 @@ export abstract class BaseGuardLayer implements GuardLayer {
     
     return {
       valid: errors.length === 0,
-      errors
+      errors,
+      params
     };
   }
   
+  /**
+   * Adds data validators, e.g. ones generated from an agent's intent schemas
+   * 
+   * @param validators The validators to add
+   */
+  addDataValidators(validators: DataValidator[]): void {
+    this.config.dataValidators = [...(this.config.dataValidators || []), ...validators];
+  }
+  
   async validateResult(result: IntentResult, intent: Intent): Promise<ValidationResult> {
     // Default implementation returns valid
     // Subclasses should override to provide domain-specific validation
@@ -168,11 +212,13 @@ export abstract class BaseGuardLayer implements GuardLayer {
   }
   
   async validateEvent(event: DomainEvent): Promise<ValidationResult> {
-    // Default implementation returns valid
-    // Subclasses should override to provide domain-specific validation
+    // Check the payload against the registered schema of its version
+    // Subclasses can override to add domain-specific validation
+    const errors = this.config.eventSchemas ? this.config.eventSchemas.validate(event) : [];
+    
     return {
-      valid: true,
-      errors: []
+      valid: errors.length === 0,
+      errors
     };
   }
   
@@ -202,6 +248,76 @@ export abstract class BaseGuardLayer implements GuardLayer {
     return false;
   }
   
+  /**
+   * Checks an intent's params with every data validator of its intent
+   * 
+   * @param intent The intent to check
+   * @returns The params after coercion and defaults, and the errors found
+   */
+  protected async validateData(intent: Intent): Promise<{ params: Record<string, any>; errors: ValidationError[] }> {
+    const errors: ValidationError[] = [];
+    let params = intent.params;
+    
+    for (const validator of (this.config.dataValidators || []).filter(v => v.intentName === intent.name)) {
+      if (validator.paramSchema) {
+        const result = validateParams(validator.paramSchema, params);
+        params = result.params;
+        errors.push(...result.errors);
+      }
+      
+      if (!validator.validate) {
+        continue;
+      }
+      
+      try {
+        const valid = await validator.validate(params);
+        if (!valid) {
+          errors.push({
+            code: 'validation_error',
+            message: validator.errorMessage || `Invalid params for ${intent.name}`
+          });
+        }
+      } catch (error) {
+        errors.push({
+          code: 'validation_error',
+          message: `Error validating intent params: ${error instanceof Error ? error.message : 'Unknown error'}`
+        });
+      }
+    }
+    
+    return { params, errors };
+  }
+  
+  /**
+   * Counts an intent against the configured rate limits
+   * 
+   * @param intent The intent to count
+   * @returns A rate_limited error for each limit the intent exceeded (empty if within all limits)
+   */
+  protected async checkRateLimits(intent: Intent): Promise<ValidationError[]> {
+    try {
+      const violations = await this.rateLimiter.check(intent);
+      
+      return violations.map(({ rateLimit, decision, retryAt }) => ({
+        code: 'rate_limited',
+        message: `Too many ${intent.name} requests; retry in ${Math.ceil(decision.retryAfterMs / 1000)} seconds`,
+        details: {
+          intentName: rateLimit.intentName,
+          scope: rateLimit.scope,
+          limit: rateLimit.limit,
+          duration: rateLimit.duration,
+          retryAfterMs: decision.retryAfterMs,
+          retryAt: retryAt.toISOString()
+        }
+      }));
+    } catch (error) {
+      return [{
+        code: 'rate_limit_check_error',
+        message: `Error checking rate limits: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }];
+    }
+  }
+  
   /**
    * Performs domain-specific validation on an intent
    * Subclasses should override this to implement custom validations
@@ -0,0 +1,69 @@
+import { ParamSchema, validateParams } from './param-schema';
+
+describe('validateParams', () => {
+  const schema: ParamSchema = {
+    bidId: { type: 'string', required: true },
+    amount: { type: 'number', required: true, constraints: { min: 1, max: 1000000 } },
+    timelineInDays: { type: 'number', constraints: { integer: true } },
+    isFinalOffer: { type: 'boolean', default: false },
+    startDate: { type: 'date', constraints: { min: '2026-01-01' } },
+    status: { type: 'string', default: 'draft', constraints: { enum: ['draft', 'submitted'] } },
+    materials: { type: 'array', constraints: { items: 'string', maxLength: 2 } }
+  };
+  
+  it('coerces values sent as strings to their declared type', () => {
+    const { params, errors } = validateParams(schema, {
+      bidId: 'bid-1',
+      amount: '2500.50',
+      timelineInDays: '30',
+      isFinalOffer: 'true',
+      startDate: '2026-03-01T00:00:00Z'
+    });
+    
+    expect(errors).toEqual([]);
+    expect(params).toMatchObject({ amount: 2500.5, timelineInDays: 30, isFinalOffer: true });
+    expect(params.startDate).toEqual(new Date('2026-03-01T00:00:00Z'));
+  });
+  
+  it('fills in defaults for missing and empty params and keeps params the schema does not name', () => {
+    const { params, errors } = validateParams(schema, { bidId: 'bid-1', amount: 100, status: '', note: 'Call first' });
+    
+    expect(errors).toEqual([]);
+    expect(params).toEqual({ bidId: 'bid-1', amount: 100, isFinalOffer: false, status: 'draft', note: 'Call first' });
+  });
+  
+  it('calls a default given as a function for each validation', () => {
+    let calls = 0;
+    const withFactory: ParamSchema = { submittedAt: { type: 'date', default: () => new Date(++calls) } };
+    
+    expect(validateParams(withFactory, {}).params.submittedAt).toEqual(new Date(1));
+    expect(validateParams(withFactory, {}).params.submittedAt).toEqual(new Date(2));
+  });
+  
+  it('reports every invalid param by field', () => {
+    const { errors } = validateParams(schema, {
+      amount: 'lots',
+      timelineInDays: '2.5',
+      isFinalOffer: 'yes',
+      startDate: '2025-06-01',
+      materials: ['wood', 3]
+    });
+    
+    expect(errors.map(error => [error.field, error.code])).toEqual([
+      ['bidId', 'missing_field'],
+      ['amount', 'invalid_type'],
+      ['timelineInDays', 'invalid_value'],
+      ['isFinalOffer', 'invalid_type'],
+      ['startDate', 'invalid_value'],
+      ['materials', 'invalid_value']
+    ]);
+    expect(errors[1]).toMatchObject({ message: 'amount must be a number', details: { expected: 'number', received: 'string' } });
+  });
+  
+  it('reports the constraint a value breaks', () => {
+    const { errors } = validateParams(schema, { bidId: 'bid-1', amount: 0, status: 'accepted', materials: ['a', 'b', 'c'] });
+    
+    expect(errors.map(error => error.details?.constraint)).toEqual(['min', 'enum', 'maxLength']);
+    expect(errors[0].message).toBe('amount must be at least 1');
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Param Schemas
+ * 
+ * Declarative schemas for the parameters of an intent. A guard layer checks
+ * an intent's params against the schema of its intent before the intent
+ * reaches the domain layer: each problem is reported as a validation error
+ * naming the offending field, values sent as strings (e.g. from a form or a
+ * query string) are coerced to the declared type, and missing params get
+ * their declared default. The schemas have the shape of the parameters in
+ * an agent's intent schemas, so they can be generated from the agent.
+ */
+
+import { DomainAgent, IntentParameterSchema } from '../domain/domain-agent';
+import { DataValidator, ValidationError } from './guard-layer';
+
+/**
+ * Rule for a single param
+ */
+export interface ParamRule {
+  /**
+   * Expected type: 'string', 'number', 'boolean', 'date', 'array', 'object' or 'any'
+   */
+  type: string;
+  description?: string;
+  required?: boolean;
+  
+  /**
+   * Value used when the param is missing
+   */
+  default?: any;
+  
+  /**
+   * Further constraints on the value
+   * - min / max: bounds of a number or date
+   * - minLength / maxLength: bounds of the length of a string or array
+   * - pattern: regular expression a string must match
+   * - enum: the allowed values
+   * - integer: whether a number must be whole
+   * - items: type of the elements of an array
+   */
+  constraints?: Record<string, any>;
+}
+
+/**
+ * Rules for the params of an intent, keyed by param name
+ */
+export type ParamSchema = Record<string, ParamRule | IntentParameterSchema>;
+
+/**
+ * Outcome of checking params against a schema
+ */
+export interface ParamValidationResult {
+  /**
+   * The params after coercion and defaults; params the schema does not name are kept as they are
+   */
+  params: Record<string, any>;
+  errors: ValidationError[];
+}
+
+/**
+ * Checks params against a schema, coercing values to their declared type and applying defaults
+ * 
+ * @param schema The schema
+ * @param params The params to check
+ * @returns The coerced params and an error per problem found
+ */
+export function validateParams(schema: ParamSchema, params: Record<string, any>): ParamValidationResult {
+  const result: Record<string, any> = { ...params };
+  const errors: ValidationError[] = [];
+  
+  for (const [field, rule] of Object.entries(schema)) {
+    let value = params[field];
+    
+    if (value === undefined || value === null || value === '') {
+      if (rule.default !== undefined) {
+        result[field] = typeof rule.default === 'function' ? rule.default() : rule.default;
+      } else if (rule.required) {
+        errors.push({
+          code: 'missing_field',
+          message: `${field} is required`,
+          field
+        });
+      }
+      
+      continue;
+    }
+    
+    value = coerce(rule.type, value);
+    
+    if (!matchesType(rule.type, value)) {
+      errors.push({
+        code: 'invalid_type',
+        message: `${field} must be ${article(rule.type)} ${rule.type}`,
+        field,
+        details: { expected: rule.type, received: Array.isArray(value) ? 'array' : typeof value }
+      });
+      
+      continue;
+    }
+    
+    const violation = checkConstraints(rule, value);
+    
+    if (violation) {
+      errors.push({
+        code: 'invalid_value',
+        message: `${field} ${violation.message}`,
+        field,
+        details: { constraint: violation.constraint, expected: rule.constraints![violation.constraint] }
+      });
+      
+      continue;
+    }
+    
+    result[field] = value;
+  }
+  
+  return { params: result, errors };
+}
+
+/**
+ * Creates a data validator checking the params of every intent of an agent
+ * against the parameters of its intent schema
+ * 
+ * @param agent The agent whose intent schemas to use
+ * @returns A data validator per intent with a schema
+ */
+export function createDataValidators(
+  agent: Pick<DomainAgent, 'getSupportedIntents' | 'getIntentSchema'>
+): DataValidator[] {
+  const validators: DataValidator[] = [];
+  
+  for (const intentName of agent.getSupportedIntents()) {
+    const schema = agent.getIntentSchema(intentName);
+    
+    if (schema) {
+      validators.push({
+        intentName,
+        paramSchema: schema.parameters
+      });
+    }
+  }
+  
+  return validators;
+}
+
+/**
+ * Converts a value sent as a string (or a timestamp, for dates) to the expected type
+ * Values that cannot be converted are returned unchanged, so the type check reports them.
+ * 
+ * @param type The expected type
+ * @param value The value
+ * @returns The converted value
+ */
+function coerce(type: string, value: any): any {
+  switch (type) {
+    case 'number':
+      return typeof value === 'string' && value.trim() !== '' && isFinite(Number(value)) ? Number(value) : value;
+      
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+      
+    case 'date':
+      if (typeof value === 'string' || typeof value === 'number') {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? value : date;
+      }
+      
+      return value;
+      
+    default:
+      return value;
+  }
+}
+
+/**
+ * Checks if a value has a param type
+ * 
+ * @param type The param type
+ * @param value The value
+ * @returns True if the value has the type
+ */
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+      
+    case 'number':
+      return typeof value === 'number' && !isNaN(value);
+      
+    case 'boolean':
+      return typeof value === 'boolean';
+      
+    case 'date':
+      return value instanceof Date && !isNaN(value.getTime());
+      
+    case 'array':
+      return Array.isArray(value);
+      
+    case 'object':
+      return typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+      
+    default:
+      return true;
+  }
+}
+
+/**
+ * Checks a value against the constraints of its rule
+ * 
+ * @param rule The rule
+ * @param value A value of the rule's type
+ * @returns The first constraint violated with a message, or null if none is
+ */
+function checkConstraints(rule: ParamRule, value: any): { constraint: string; message: string } | null {
+  const constraints = rule.constraints || {};
+  const comparable = value instanceof Date ? value.getTime() : value;
+  const bound = (limit: any) => limit instanceof Date || typeof limit === 'string' ? new Date(limit).getTime() : limit;
+  
+  if (constraints.enum && !constraints.enum.includes(value)) {
+    return { constraint: 'enum', message: `must be one of ${constraints.enum.join(', ')}` };
+  }
+  
+  if (constraints.integer && !Number.isInteger(value)) {
+    return { constraint: 'integer', message: 'must be a whole number' };
+  }
+  
+  if (constraints.min !== undefined && comparable < bound(constraints.min)) {
+    return { constraint: 'min', message: `must be at least ${constraints.min}` };
+  }
+  
+  if (constraints.max !== undefined && comparable > bound(constraints.max)) {
+    return { constraint: 'max', message: `must be at most ${constraints.max}` };
+  }
+  
+  if (constraints.minLength !== undefined && value.length < constraints.minLength) {
+    return { constraint: 'minLength', message: `must have a length of at least ${constraints.minLength}` };
+  }
+  
+  if (constraints.maxLength !== undefined && value.length > constraints.maxLength) {
+    return { constraint: 'maxLength', message: `must have a length of at most ${constraints.maxLength}` };
+  }
+  
+  if (constraints.pattern && !new RegExp(constraints.pattern).test(value)) {
+    return { constraint: 'pattern', message: `must match ${constraints.pattern}` };
+  }
+  
+  if (constraints.items && !value.every((item: any) => matchesType(constraints.items, item))) {
+    return { constraint: 'items', message: `must only contain ${constraints.items} values` };
+  }
+  
+  return null;
+}
+
+/**
+ * Gets the indefinite article of a type name
+ * 
+ * @param type The type name
+ * @returns 'an' or 'a'
+ */
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? 'an' : 'a';
+}
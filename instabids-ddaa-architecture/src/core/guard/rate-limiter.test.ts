@@ -0,0 +1,152 @@
+import { Intent } from '../domain/domain-agent';
+import { RateLimit } from './guard-layer';
+import { RateLimiter, SharedRateLimitStore, SharedStoreClient, getRateLimitKey } from './rate-limiter';
+
+function createIntent(name: string, userId?: string): Intent {
+  return { name, params: {}, source: 'test', timestamp: new Date(), userId, correlationId: 'correlation-1' };
+}
+
+/**
+ * Shared store client kept in memory, ignoring time to live
+ */
+class MemorySharedStoreClient implements SharedStoreClient {
+  values: Map<string, string> = new Map();
+  
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+  
+  async compareAndSet(key: string, expected: string | null, value: string): Promise<boolean> {
+    if ((this.values.get(key) ?? null) !== expected) {
+      return false;
+    }
+    
+    this.values.set(key, value);
+    return true;
+  }
+}
+
+describe('RateLimiter', () => {
+  let now: number;
+  
+  beforeEach(() => {
+    now = 1_000_000;
+  });
+  
+  it('allows at most limit intents in any window with the sliding window', async () => {
+    const limiter = new RateLimiter([{ intentName: 'submitBid', limit: 2, duration: 1000, scope: 'user' }], { now: () => now });
+    const intent = createIntent('submitBid', 'user-1');
+    
+    expect(await limiter.check(intent)).toEqual([]);
+    now += 400;
+    expect(await limiter.check(intent)).toEqual([]);
+    
+    const [violation] = await limiter.check(intent);
+    
+    expect(violation.decision).toEqual({ allowed: false, remaining: 0, retryAfterMs: 600 });
+    expect(violation.retryAt).toEqual(new Date(now + 600));
+    
+    now += 600;
+    expect(await limiter.check(intent)).toEqual([]);
+  });
+  
+  it('allows bursts and refills gradually with the token bucket', async () => {
+    const limiter = new RateLimiter(
+      [{ intentName: '*', limit: 2, duration: 1000, scope: 'global', algorithm: 'token_bucket' }],
+      { now: () => now }
+    );
+    const intent = createIntent('searchBids');
+    
+    expect(await limiter.check(intent)).toEqual([]);
+    expect(await limiter.check(intent)).toEqual([]);
+    
+    const [violation] = await limiter.check(intent);
+    expect(violation.decision.retryAfterMs).toBe(500);
+    
+    now += 500;
+    expect(await limiter.check(intent)).toEqual([]);
+    expect(await limiter.check(intent)).toHaveLength(1);
+  });
+  
+  it('counts user scoped limits per user and skips limits of other intents', async () => {
+    const limiter = new RateLimiter([{ intentName: 'submitBid', limit: 1, duration: 1000, scope: 'user' }], { now: () => now });
+    
+    expect(await limiter.check(createIntent('submitBid', 'user-1'))).toEqual([]);
+    expect(await limiter.check(createIntent('submitBid', 'user-2'))).toEqual([]);
+    expect(await limiter.check(createIntent('withdrawBid', 'user-1'))).toEqual([]);
+    expect(await limiter.check(createIntent('submitBid', 'user-1'))).toHaveLength(1);
+  });
+  
+  it('does not use up the limits that allowed a rejected intent', async () => {
+    const limiter = new RateLimiter([
+      { intentName: '*', limit: 3, duration: 1000, scope: 'user' },
+      { intentName: 'submitBid', limit: 1, duration: 1000, scope: 'user', algorithm: 'token_bucket' }
+    ], { now: () => now });
+    
+    expect(await limiter.check(createIntent('submitBid', 'user-1'))).toEqual([]);
+    
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const violations = await limiter.check(createIntent('submitBid', 'user-1'));
+      
+      expect(violations.map(violation => violation.rateLimit.intentName)).toEqual(['submitBid']);
+    }
+    
+    // Only the allowed intent counts against the global limit
+    expect(await limiter.check(createIntent('searchBids', 'user-1'))).toEqual([]);
+    expect(await limiter.check(createIntent('searchBids', 'user-1'))).toEqual([]);
+    expect(await limiter.check(createIntent('searchBids', 'user-1'))).toHaveLength(1);
+  });
+  
+  it('gives back the token an intent took when another limit rejects it', async () => {
+    const limiter = new RateLimiter([
+      { intentName: '*', limit: 2, duration: 1000, scope: 'user', algorithm: 'token_bucket' },
+      { intentName: 'submitBid', limit: 1, duration: 1000, scope: 'user' }
+    ], { now: () => now });
+    
+    expect(await limiter.check(createIntent('submitBid', 'user-1'))).toEqual([]);
+    expect(await limiter.check(createIntent('submitBid', 'user-1'))).toHaveLength(1);
+    expect(await limiter.check(createIntent('searchBids', 'user-1'))).toEqual([]);
+    expect(await limiter.check(createIntent('searchBids', 'user-1'))).toHaveLength(1);
+  });
+  
+  it('keys counters by scope', () => {
+    const rateLimit: RateLimit = { intentName: 'submitBid', limit: 5, duration: 60000, scope: 'role' };
+    const intent = { ...createIntent('submitBid', 'user-1'), metadata: { role: 'contractor' } };
+    
+    expect(getRateLimitKey(rateLimit, intent)).toBe('submitBid:5/60000:sliding_window:role:contractor');
+    expect(getRateLimitKey({ ...rateLimit, scope: 'user' }, createIntent('submitBid'))).toBe('submitBid:5/60000:sliding_window:user:anonymous');
+  });
+  
+  it('shares counters between limiters through a shared store', async () => {
+    const client = new MemorySharedStoreClient();
+    const rateLimits: RateLimit[] = [{ intentName: 'submitBid', limit: 1, duration: 1000, scope: 'global' }];
+    const first = new RateLimiter(rateLimits, { store: new SharedRateLimitStore(client), now: () => now });
+    const second = new RateLimiter(rateLimits, { store: new SharedRateLimitStore(client), now: () => now });
+    
+    expect(await first.check(createIntent('submitBid'))).toEqual([]);
+    expect(await second.check(createIntent('submitBid'))).toHaveLength(1);
+    expect(Array.from(client.values.keys())).toEqual(['ratelimit:submitBid:1/1000:sliding_window:global']);
+  });
+  
+  it('retries a shared update another process got in before', async () => {
+    const client = new MemorySharedStoreClient();
+    const compareAndSet = client.compareAndSet.bind(client);
+    let conflicts = 1;
+    
+    client.compareAndSet = async (key, expected, value) => {
+      if (conflicts-- > 0) {
+        client.values.set(key, JSON.stringify([now]));
+        return false;
+      }
+      
+      return compareAndSet(key, expected, value);
+    };
+    
+    const limiter = new RateLimiter(
+      [{ intentName: 'submitBid', limit: 1, duration: 1000, scope: 'global' }],
+      { store: new SharedRateLimitStore(client), now: () => now }
+    );
+    
+    expect(await limiter.check(createIntent('submitBid'))).toHaveLength(1);
+  });
+});
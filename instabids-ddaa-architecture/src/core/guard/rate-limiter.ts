@@ -0,0 +1,425 @@
+/**
+ * Rate Limiter
+ * 
+ * Enforces the rate limits of a guard layer. Each limit allows an intent a
+ * number of times per duration, counted per user, per role or across all
+ * callers. Two algorithms are available: a sliding window, which allows at
+ * most `limit` intents in any `duration`, and a token bucket, which allows
+ * bursts of up to `limit` intents and refills at `limit` per `duration`.
+ * 
+ * Counters live in a rate limit store. The in-memory store limits a single
+ * process; the shared store keeps counters in a key-value store such as
+ * Redis so every process behind a load balancer enforces the same limits.
+ */
+
+import { Intent } from '../domain/domain-agent';
+import { RateLimit } from './guard-layer';
+
+/**
+ * Number of updates between sweeps of the expired counters of an in-memory store
+ */
+const SWEEP_INTERVAL = 1000;
+
+/**
+ * Outcome of counting an intent against a rate limit
+ */
+export interface RateLimitDecision {
+  /**
+   * Whether the intent is within the limit
+   */
+  allowed: boolean;
+  
+  /**
+   * How many more intents the limit allows right now
+   */
+  remaining: number;
+  
+  /**
+   * How long until the limit allows another intent, in milliseconds (0 if allowed)
+   */
+  retryAfterMs: number;
+}
+
+/**
+ * A rate limit an intent exceeded
+ */
+export interface RateLimitViolation {
+  rateLimit: RateLimit;
+  
+  /**
+   * Key the intent was counted under
+   */
+  key: string;
+  decision: RateLimitDecision;
+  
+  /**
+   * When the limit allows another intent
+   */
+  retryAt: Date;
+}
+
+/**
+ * Storage for rate limit counters
+ */
+export interface RateLimitStore {
+  /**
+   * Atomically reads the state kept under a key and replaces it
+   * 
+   * @param key Key of the counter
+   * @param ttlMs How long the new state must be kept, in milliseconds
+   * @param update Computes the new state and the decision from the current state (undefined if none)
+   * @returns The decision computed by update
+   */
+  update(
+    key: string,
+    ttlMs: number,
+    update: (state: any | undefined) => { state: any; decision: RateLimitDecision }
+  ): Promise<RateLimitDecision>;
+}
+
+/**
+ * Rate limit store kept in memory, limiting a single process
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private entries: Map<string, { state: any; expiresAt: number }> = new Map();
+  
+  /**
+   * Updates since expired counters were last dropped
+   */
+  private updatesSinceSweep = 0;
+  
+  /**
+   * Creates an in-memory rate limit store
+   * 
+   * @param now Returns the current time in milliseconds (defaults to Date.now)
+   */
+  constructor(private readonly now: () => number = Date.now) {}
+  
+  async update(
+    key: string,
+    ttlMs: number,
+    update: (state: any | undefined) => { state: any; decision: RateLimitDecision }
+  ): Promise<RateLimitDecision> {
+    const now = this.now();
+    const entry = this.entries.get(key);
+    
+    const { state, decision } = update(entry && entry.expiresAt > now ? entry.state : undefined);
+    this.entries.set(key, { state, expiresAt: now + ttlMs });
+    
+    if (++this.updatesSinceSweep >= SWEEP_INTERVAL) {
+      this.removeExpired(now);
+    }
+    
+    return decision;
+  }
+  
+  /**
+   * Drops counters nobody has used within their time to live
+   * 
+   * @param now Current time in milliseconds
+   */
+  private removeExpired(now: number): void {
+    this.updatesSinceSweep = 0;
+    
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * The operations of a shared key-value store the shared rate limit store needs
+ * Wrap a client library to provide them; with Redis, compareAndSet is a
+ * WATCH/GET/MULTI/SET PX/EXEC sequence or a small Lua script.
+ */
+export interface SharedStoreClient {
+  /**
+   * Gets the value of a key
+   * 
+   * @param key The key
+   * @returns The value, or null if the key does not exist
+   */
+  get(key: string): Promise<string | null>;
+  
+  /**
+   * Sets a key if its value is still the one expected
+   * 
+   * @param key The key
+   * @param expected The value the key must have, or null if it must not exist
+   * @param value The new value
+   * @param ttlMs How long to keep the key, in milliseconds
+   * @returns True if the key was set, false if its value had changed
+   */
+  compareAndSet(key: string, expected: string | null, value: string, ttlMs: number): Promise<boolean>;
+}
+
+/**
+ * Configuration for the shared rate limit store
+ */
+export interface SharedRateLimitStoreConfig {
+  /**
+   * Prefix of the keys the counters are stored under (defaults to 'ratelimit:')
+   */
+  keyPrefix?: string;
+  
+  /**
+   * How many times to retry an update another process got in before (defaults to 10)
+   */
+  maxAttempts?: number;
+}
+
+/**
+ * Rate limit store kept in a shared key-value store, so all processes enforce the same limits
+ * Updates are optimistic: the state is read, updated and written back only
+ * if no other process changed it in the meantime, retrying otherwise.
+ */
+export class SharedRateLimitStore implements RateLimitStore {
+  private readonly keyPrefix: string;
+  private readonly maxAttempts: number;
+  
+  /**
+   * Creates a shared rate limit store
+   * 
+   * @param client Client of the shared key-value store
+   * @param config Configuration for the store
+   */
+  constructor(private readonly client: SharedStoreClient, config: SharedRateLimitStoreConfig = {}) {
+    this.keyPrefix = config.keyPrefix ?? 'ratelimit:';
+    this.maxAttempts = config.maxAttempts || 10;
+  }
+  
+  async update(
+    key: string,
+    ttlMs: number,
+    update: (state: any | undefined) => { state: any; decision: RateLimitDecision }
+  ): Promise<RateLimitDecision> {
+    const storeKey = this.keyPrefix + key;
+    
+    for (let attempt = 0; attempt < this.maxAttempts; attempt++) {
+      const current = await this.client.get(storeKey);
+      const { state, decision } = update(current === null ? undefined : JSON.parse(current));
+      
+      if (await this.client.compareAndSet(storeKey, current, JSON.stringify(state), ttlMs)) {
+        return decision;
+      }
+    }
+    
+    throw new Error(`Rate limit counter ${key} kept changing; gave up after ${this.maxAttempts} attempts`);
+  }
+}
+
+/**
+ * Configuration for a rate limiter
+ */
+export interface RateLimiterConfig {
+  /**
+   * Where the counters are kept (defaults to an in-memory store)
+   */
+  store?: RateLimitStore;
+  
+  /**
+   * Returns the current time in milliseconds (defaults to Date.now)
+   */
+  now?: () => number;
+}
+
+/**
+ * Checks intents against rate limits
+ */
+export class RateLimiter {
+  private readonly store: RateLimitStore;
+  private readonly now: () => number;
+  
+  /**
+   * Creates a rate limiter
+   * 
+   * @param rateLimits The limits to enforce
+   * @param config Configuration for the rate limiter
+   */
+  constructor(private readonly rateLimits: RateLimit[], config: RateLimiterConfig = {}) {
+    this.now = config.now || Date.now;
+    this.store = config.store || new InMemoryRateLimitStore(this.now);
+  }
+  
+  /**
+   * Counts an intent against every limit that applies to it
+   * An intent exceeding any limit is rejected, so it is taken back from the
+   * limits that allowed it rather than using them up.
+   * 
+   * @param intent The intent
+   * @returns The limits the intent exceeded (empty if it is allowed)
+   */
+  async check(intent: Intent): Promise<RateLimitViolation[]> {
+    const violations: RateLimitViolation[] = [];
+    const counted: Array<{ rateLimit: RateLimit; key: string; now: number }> = [];
+    
+    for (const rateLimit of this.rateLimits) {
+      if (rateLimit.intentName !== '*' && rateLimit.intentName !== intent.name) {
+        continue;
+      }
+      
+      const key = getRateLimitKey(rateLimit, intent);
+      const now = this.now();
+      const decision = await this.store.update(key, rateLimit.duration, state =>
+        rateLimit.algorithm === 'token_bucket'
+          ? takeToken(state, rateLimit, now)
+          : recordInWindow(state, rateLimit, now)
+      );
+      
+      if (!decision.allowed) {
+        violations.push({ rateLimit, key, decision, retryAt: new Date(now + decision.retryAfterMs) });
+      } else {
+        counted.push({ rateLimit, key, now });
+      }
+    }
+    
+    if (violations.length > 0) {
+      for (const { rateLimit, key, now } of counted) {
+        await this.store.update(key, rateLimit.duration, state =>
+          rateLimit.algorithm === 'token_bucket'
+            ? returnToken(state, rateLimit, now)
+            : removeFromWindow(state, rateLimit, now)
+        );
+      }
+    }
+    
+    return violations;
+  }
+}
+
+/**
+ * Gets the key an intent is counted under for a rate limit
+ * Intents without a user (or role) share one counter for user (or role) scoped limits.
+ * 
+ * @param rateLimit The rate limit
+ * @param intent The intent
+ * @returns The key of the counter
+ */
+export function getRateLimitKey(rateLimit: RateLimit, intent: Intent): string {
+  const algorithm = rateLimit.algorithm || 'sliding_window';
+  const base = `${rateLimit.intentName}:${rateLimit.limit}/${rateLimit.duration}:${algorithm}`;
+  
+  switch (rateLimit.scope) {
+    case 'user':
+      return `${base}:user:${intent.userId || 'anonymous'}`;
+      
+    case 'role':
+      return `${base}:role:${intent.metadata?.role || 'none'}`;
+      
+    default:
+      return `${base}:global`;
+  }
+}
+
+/**
+ * Sliding window: records the times of the intents allowed within the last duration
+ * 
+ * @param state Times of the intents allowed so far
+ * @param rateLimit The rate limit
+ * @param now Current time in milliseconds
+ * @returns The new state and the decision
+ */
+function recordInWindow(
+  state: number[] | undefined,
+  rateLimit: RateLimit,
+  now: number
+): { state: number[]; decision: RateLimitDecision } {
+  const hits = (state || []).filter(time => time > now - rateLimit.duration);
+  
+  if (hits.length >= rateLimit.limit) {
+    // Another intent is allowed once the oldest one counted leaves the window
+    const oldest = hits[hits.length - rateLimit.limit];
+    
+    return {
+      state: hits,
+      decision: { allowed: false, remaining: 0, retryAfterMs: oldest + rateLimit.duration - now }
+    };
+  }
+  
+  hits.push(now);
+  
+  return {
+    state: hits,
+    decision: { allowed: true, remaining: rateLimit.limit - hits.length, retryAfterMs: 0 }
+  };
+}
+
+/**
+ * Token bucket: holds up to limit tokens, refilled at limit per duration; each intent takes one
+ * 
+ * @param state Tokens left and when they were counted
+ * @param rateLimit The rate limit
+ * @param now Current time in milliseconds
+ * @returns The new state and the decision
+ */
+function takeToken(
+  state: { tokens: number; updatedAt: number } | undefined,
+  rateLimit: RateLimit,
+  now: number
+): { state: { tokens: number; updatedAt: number }; decision: RateLimitDecision } {
+  const refillPerMs = rateLimit.limit / rateLimit.duration;
+  const tokens = state
+    ? Math.min(rateLimit.limit, state.tokens + (now - state.updatedAt) * refillPerMs)
+    : rateLimit.limit;
+  
+  if (tokens < 1) {
+    return {
+      state: { tokens, updatedAt: now },
+      decision: { allowed: false, remaining: 0, retryAfterMs: Math.ceil((1 - tokens) / refillPerMs) }
+    };
+  }
+  
+  return {
+    state: { tokens: tokens - 1, updatedAt: now },
+    decision: { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 }
+  };
+}
+
+/**
+ * Sliding window: takes back an intent recorded at a time
+ * 
+ * @param state Times of the intents allowed so far
+ * @param rateLimit The rate limit
+ * @param time When the intent was recorded, in milliseconds
+ * @returns The new state and the decision
+ */
+function removeFromWindow(
+  state: number[] | undefined,
+  rateLimit: RateLimit,
+  time: number
+): { state: number[]; decision: RateLimitDecision } {
+  const hits = [...(state || [])];
+  const index = hits.lastIndexOf(time);
+  
+  if (index !== -1) {
+    hits.splice(index, 1);
+  }
+  
+  return {
+    state: hits,
+    decision: { allowed: true, remaining: Math.max(0, rateLimit.limit - hits.length), retryAfterMs: 0 }
+  };
+}
+
+/**
+ * Token bucket: puts back a token taken at a time
+ * 
+ * @param state Tokens left and when they were counted
+ * @param rateLimit The rate limit
+ * @param time When the token was taken, in milliseconds
+ * @returns The new state and the decision
+ */
+function returnToken(
+  state: { tokens: number; updatedAt: number } | undefined,
+  rateLimit: RateLimit,
+  time: number
+): { state: { tokens: number; updatedAt: number }; decision: RateLimitDecision } {
+  const tokens = state ? Math.min(rateLimit.limit, state.tokens + 1) : rateLimit.limit;
+  
+  return {
+    state: { tokens, updatedAt: state ? state.updatedAt : time },
+    decision: { allowed: true, remaining: Math.floor(tokens), retryAfterMs: 0 }
+  };
+}
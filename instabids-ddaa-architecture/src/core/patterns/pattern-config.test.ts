@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Intent } from '../domain/domain-agent';
+import { PatternConfigLoader, PatternConfigLoadResult, validatePatternConfig } from './pattern-config';
+import { PatternRegistry } from './pattern-registry';
+
+function createIntent(params: Record<string, any>, role?: string): Intent {
+  return {
+    name: 'submitBid',
+    params,
+    source: 'bidding',
+    timestamp: new Date(),
+    correlationId: 'correlation-1',
+    ...(role ? { metadata: { role } } : {})
+  };
+}
+
+describe('PatternConfigLoader', () => {
+  let directory: string;
+  
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pattern-config-'));
+  });
+  
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+  
+  it('loads a pattern set from a YAML file', async () => {
+    const filePath = path.join(directory, 'patterns.yaml');
+    fs.writeFileSync(filePath, [
+      'version: 3',
+      'patterns:',
+      '  - id: bidding:reasonable_timeline',
+      '    name: Reasonable Timeline',
+      '    intentTypes: [submitBid]',
+      '    rules:',
+      '      - { type: numeric_range, field: timelineInDays, min: 1, max: 365 }'
+    ].join('\n'));
+    
+    const registry = new PatternRegistry();
+    const result = await new PatternConfigLoader(registry).load(filePath);
+    
+    expect(result).toMatchObject({ applied: true, version: '3', patternIds: ['bidding:reasonable_timeline'], errors: [] });
+    expect(registry.getPattern('bidding:reasonable_timeline')).toBeDefined();
+  });
+  
+  it('does not apply a YAML file that cannot be parsed', async () => {
+    const filePath = path.join(directory, 'patterns.yml');
+    fs.writeFileSync(filePath, 'version: 3\npatterns: [unclosed');
+    
+    const registry = new PatternRegistry();
+    const result = await new PatternConfigLoader(registry).load(filePath);
+    
+    expect(result.applied).toBe(false);
+    expect(result.errors[0]).toMatch(/^Could not read /);
+    expect(registry.getPatternSets()).toEqual([]);
+  });
+  
+  it('evaluates every rule of a pattern and reports each failure', async () => {
+    const filePath = path.join(directory, 'patterns.json');
+    fs.writeFileSync(filePath, JSON.stringify({
+      version: 1,
+      patterns: [{
+        id: 'bidding:complete_bid',
+        name: 'Complete Bid',
+        intentTypes: ['submitBid'],
+        rules: [
+          { type: 'field_required', fields: ['projectId', 'address.zip'] },
+          { type: 'numeric_range', field: 'amount', min: 1, max: 100000 },
+          { type: 'relation_exists', relation: 'project', field: 'projectId' },
+          { type: 'role_in', roles: ['contractor'] }
+        ]
+      }]
+    }));
+    
+    const registry = new PatternRegistry();
+    await new PatternConfigLoader(registry, {
+      relations: { project: async id => id === 'project-1' }
+    }).load(filePath);
+    
+    const valid = await registry.validateIntent(
+      createIntent({ projectId: 'project-1', address: { zip: '78701' }, amount: '2500' }, 'contractor'),
+      { currentDomain: 'bidding' }
+    );
+    const invalid = await registry.validateIntent(
+      createIntent({ projectId: 'project-9', address: {}, amount: 0 }, 'homeowner'),
+      { currentDomain: 'bidding' }
+    );
+    
+    expect(valid.valid).toBe(true);
+    expect(invalid.valid).toBe(false);
+    expect(invalid.results[0].details?.failures).toEqual([
+      { rule: 'field_required', message: 'Missing required fields: address.zip' },
+      { rule: 'numeric_range', message: 'amount must be at least 1' },
+      { rule: 'relation_exists', message: 'project project-9 does not exist' },
+      { rule: 'role_in', message: 'Only contractor can submitBid' }
+    ]);
+  });
+  
+  it('reports each problem of an invalid configuration with its location', () => {
+    const errors = validatePatternConfig({
+      version: 1,
+      toggles: { 'bidding:strict': 'yes' },
+      patterns: [
+        { id: 'bidding:range', name: 'Range', severity: 'fatal', rules: [{ type: 'numeric_range', field: 'amount', min: 10, max: 1 }] },
+        { id: 'bidding:range', name: 'Duplicate', rules: [{ type: 'relation_exists', relation: 'project', field: 'projectId' }] },
+        { id: 'bidding:empty', name: 'Empty', rules: [] }
+      ]
+    }, ['contractor']);
+    
+    expect(errors).toEqual([
+      'toggles must map pattern IDs to true or false',
+      'patterns[0]: severity must be one of error, warning, info',
+      'patterns[0].rules[0]: min cannot exceed max',
+      'patterns[1]: id bidding:range is used by another pattern',
+      'patterns[1].rules[0]: relation must be one of the known relations (contractor)',
+      'patterns[2]: rules must be a non-empty list'
+    ]);
+  });
+  
+  it('keeps the applied pattern set when a changed file is invalid', async () => {
+    const filePath = path.join(directory, 'patterns.yaml');
+    fs.writeFileSync(filePath, 'version: 1\npatterns:\n  - { id: bidding:named, name: Named, rules: [{ type: field_required, fields: [name] }] }');
+    
+    const registry = new PatternRegistry();
+    const loader = new PatternConfigLoader(registry);
+    await loader.load(filePath);
+    
+    fs.writeFileSync(filePath, 'version: 2\npatterns:\n  - { id: bidding:named, name: Named, rules: [{ type: unknown }] }');
+    const result = await loader.load(filePath);
+    
+    expect(result.applied).toBe(false);
+    expect(result.errors).toEqual([
+      'patterns[0].rules[0]: type must be one of field_required, numeric_range, relation_exists, role_in'
+    ]);
+    expect(registry.getPatternSets().map(set => set.version)).toEqual(['1']);
+    expect(registry.getPattern('bidding:named')).toBeDefined();
+  });
+  
+  it('reloads a watched file when it changes', async () => {
+    const filePath = path.join(directory, 'patterns.yaml');
+    fs.writeFileSync(filePath, 'version: 1\ntoggles: {}');
+    
+    const registry = new PatternRegistry();
+    let reloaded!: (result: PatternConfigLoadResult) => void;
+    const reload = new Promise<PatternConfigLoadResult>(resolve => { reloaded = resolve; });
+    const loader = new PatternConfigLoader(registry, { pollIntervalMs: 10, onReload: result => reloaded(result) });
+    
+    try {
+      await loader.watch(filePath);
+      fs.writeFileSync(filePath, 'version: 2\npatterns:\n  - { id: bidding:named, name: Named, rules: [{ type: field_required, fields: [name] }] }');
+      
+      expect(await reload).toMatchObject({ applied: true, version: '2', patternIds: ['bidding:named'] });
+      expect(registry.getPattern('bidding:named')).toBeDefined();
+    } finally {
+      loader.stop();
+    }
+  });
+});
@@ -0,0 +1,600 @@
+/**
+ * Pattern Configuration
+ * 
+ * Patterns declared in JSON or YAML files instead of code. A file holds a
+ * versioned set of patterns written in a small rule language (required
+ * fields, numeric ranges, existing relations, allowed roles) and toggles
+ * enabling or disabling any registered pattern by ID. The loader validates
+ * a file before applying it to a pattern registry and can watch it,
+ * reloading the set whenever the file changes; a file that fails validation
+ * leaves the previously applied set in place.
+ */
+
+import * as fs from 'fs';
+import * as yaml from 'js-yaml';
+import * as path from 'path';
+import { Intent } from '../domain/domain-agent';
+import { PatternDefinition, PatternRegistry, PatternSeverity } from './pattern-registry';
+
+/**
+ * Rule requiring params to be present
+ */
+export interface FieldRequiredRule {
+  type: 'field_required';
+  
+  /**
+   * Params to require; dotted paths reach into nested params
+   */
+  fields: string[];
+  message?: string;
+}
+
+/**
+ * Rule bounding a numeric param, when present
+ */
+export interface NumericRangeRule {
+  type: 'numeric_range';
+  field: string;
+  min?: number;
+  max?: number;
+  message?: string;
+}
+
+/**
+ * Rule requiring the record a param refers to to exist, when the param is present
+ */
+export interface RelationExistsRule {
+  type: 'relation_exists';
+  
+  /**
+   * Name of the relation, checked through the loader's relation checks (e.g. 'project')
+   */
+  relation: string;
+  
+  /**
+   * Param holding the ID of the related record
+   */
+  field: string;
+  message?: string;
+}
+
+/**
+ * Rule allowing only some roles (metadata.role of the intent)
+ */
+export interface RoleInRule {
+  type: 'role_in';
+  roles: string[];
+  message?: string;
+}
+
+export type PatternRule = FieldRequiredRule | NumericRangeRule | RelationExistsRule | RoleInRule;
+
+/**
+ * A pattern as declared in a configuration file
+ */
+export interface PatternConfig {
+  id: string;
+  name: string;
+  description?: string;
+  
+  /**
+   * Defaults to 'error'
+   */
+  severity?: `${PatternSeverity}`;
+  
+  /**
+   * Defaults to true
+   */
+  enabled?: boolean;
+  domains?: string[];
+  intentTypes?: string[];
+  violationMessage?: string;
+  
+  /**
+   * Rules an intent must satisfy, all of them
+   */
+  rules: PatternRule[];
+}
+
+/**
+ * Contents of a pattern configuration file
+ */
+export interface PatternConfigFile {
+  /**
+   * Version of the pattern set, recorded with every intent it validates
+   */
+  version: string | number;
+  patterns?: PatternConfig[];
+  
+  /**
+   * Patterns of any source to enable (true) or disable (false), by ID
+   */
+  toggles?: Record<string, boolean>;
+}
+
+/**
+ * Checks that the record a relation_exists rule refers to exists
+ */
+export type RelationCheck = (id: any, intent: Intent) => Promise<boolean>;
+
+/**
+ * Outcome of loading a pattern configuration file
+ */
+export interface PatternConfigLoadResult {
+  /**
+   * Path of the file
+   */
+  source: string;
+  
+  /**
+   * Whether the file's pattern set was applied
+   */
+  applied: boolean;
+  
+  /**
+   * Version declared by the file
+   */
+  version?: string;
+  
+  /**
+   * IDs of the patterns of the applied set
+   */
+  patternIds: string[];
+  
+  /**
+   * Why the file was not applied
+   */
+  errors: string[];
+  
+  /**
+   * Version of the registry's patterns after loading
+   */
+  patternSetVersion: string;
+}
+
+/**
+ * Configuration for a pattern configuration loader
+ */
+export interface PatternConfigLoaderOptions {
+  /**
+   * Relation checks available to relation_exists rules, by relation name
+   */
+  relations?: Record<string, RelationCheck>;
+  
+  /**
+   * Parsers of file contents by extension (e.g. '.toml'), next to the
+   * built-in '.json', '.yaml' and '.yml' ones
+   */
+  parsers?: Record<string, (content: string) => any>;
+  
+  /**
+   * How often watched files are checked for changes (defaults to 1000 ms)
+   */
+  pollIntervalMs?: number;
+  
+  /**
+   * Called after a watched file is reloaded, whether it was applied or not
+   * (defaults to logging the files that could not be applied)
+   */
+  onReload?: (result: PatternConfigLoadResult) => void;
+}
+
+const RULE_TYPES = ['field_required', 'numeric_range', 'relation_exists', 'role_in'];
+
+const SEVERITIES: string[] = Object.values(PatternSeverity);
+
+/**
+ * Loads pattern sets from configuration files into a pattern registry
+ */
+export class PatternConfigLoader {
+  private watched: Map<string, (current: fs.Stats, previous: fs.Stats) => void> = new Map();
+  
+  constructor(
+    private readonly registry: PatternRegistry,
+    private readonly options: PatternConfigLoaderOptions = {}
+  ) {}
+  
+  /**
+   * Loads a file and applies its pattern set, replacing the set previously
+   * loaded from it; a file that cannot be read, parsed or validated is not
+   * applied
+   * 
+   * @param filePath Path of the file
+   * @returns The outcome of loading the file
+   */
+  async load(filePath: string): Promise<PatternConfigLoadResult> {
+    let config: any;
+    
+    try {
+      config = this.parse(filePath, await fs.promises.readFile(filePath, 'utf8'));
+    } catch (error) {
+      return this.failed(filePath, [`Could not read ${filePath}: ${error instanceof Error ? error.message : String(error)}`]);
+    }
+    
+    const relations = this.options.relations || {};
+    const errors = validatePatternConfig(config, Object.keys(relations));
+    
+    if (errors.length > 0) {
+      return this.failed(filePath, errors);
+    }
+    
+    const patterns = compilePatterns(config, relations);
+    
+    try {
+      this.registry.applyPatternSet({
+        source: filePath,
+        version: String(config.version),
+        patterns,
+        toggles: config.toggles
+      });
+    } catch (error) {
+      return this.failed(filePath, [error instanceof Error ? error.message : String(error)]);
+    }
+    
+    return {
+      source: filePath,
+      applied: true,
+      version: String(config.version),
+      patternIds: patterns.map(pattern => pattern.id),
+      errors: [],
+      patternSetVersion: this.registry.getVersion()
+    };
+  }
+  
+  /**
+   * Loads a file and reloads it whenever it changes
+   * 
+   * @param filePath Path of the file
+   * @returns The outcome of the first load
+   */
+  async watch(filePath: string): Promise<PatternConfigLoadResult> {
+    const result = await this.load(filePath);
+    
+    if (!this.watched.has(filePath)) {
+      // Reload one change at a time, in order
+      let reloading = Promise.resolve();
+      
+      const listener = (current: fs.Stats, previous: fs.Stats) => {
+        if (current.mtimeMs === previous.mtimeMs && current.size === previous.size) {
+          return;
+        }
+        
+        reloading = reloading.then(async () => {
+          const reloaded = await this.load(filePath);
+          
+          if (this.options.onReload) {
+            this.options.onReload(reloaded);
+          } else if (!reloaded.applied) {
+            console.error(`[PatternConfigLoader] Kept the previous patterns of ${filePath}:`, reloaded.errors);
+          }
+        }).catch(error => {
+          console.error(`[PatternConfigLoader] Error reloading ${filePath}:`, error);
+        });
+      };
+      
+      fs.watchFile(filePath, { interval: this.options.pollIntervalMs || 1000, persistent: false }, listener);
+      this.watched.set(filePath, listener);
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Stops watching a file; its pattern set stays applied
+   * 
+   * @param filePath Path of the file
+   */
+  unwatch(filePath: string): void {
+    const listener = this.watched.get(filePath);
+    
+    if (listener) {
+      fs.unwatchFile(filePath, listener);
+      this.watched.delete(filePath);
+    }
+  }
+  
+  /**
+   * Stops watching every file
+   */
+  stop(): void {
+    for (const filePath of Array.from(this.watched.keys())) {
+      this.unwatch(filePath);
+    }
+  }
+  
+  private parse(filePath: string, content: string): any {
+    const extension = path.extname(filePath).toLowerCase();
+    const parser = (this.options.parsers || {})[extension] ||
+      (extension === '.yaml' || extension === '.yml' ? yaml.load : JSON.parse);
+    
+    return parser(content);
+  }
+  
+  private failed(filePath: string, errors: string[]): PatternConfigLoadResult {
+    return {
+      source: filePath,
+      applied: false,
+      patternIds: [],
+      errors,
+      patternSetVersion: this.registry.getVersion()
+    };
+  }
+}
+
+/**
+ * Checks the contents of a pattern configuration file
+ * 
+ * @param config The parsed contents
+ * @param relations Names of the relations relation_exists rules may refer to
+ * @returns A message per problem found, e.g. 'patterns[0].rules[1]: min must be a number'
+ */
+export function validatePatternConfig(config: any, relations: string[] = []): string[] {
+  const errors: string[] = [];
+  
+  if (!isObject(config)) {
+    return ['The configuration must be an object'];
+  }
+  
+  if (typeof config.version !== 'string' && typeof config.version !== 'number') {
+    errors.push('version must be a string or a number');
+  }
+  
+  if (config.toggles !== undefined) {
+    if (!isObject(config.toggles) || !Object.values(config.toggles).every(value => typeof value === 'boolean')) {
+      errors.push('toggles must map pattern IDs to true or false');
+    }
+  }
+  
+  if (config.patterns === undefined) {
+    return errors;
+  }
+  
+  if (!Array.isArray(config.patterns)) {
+    return [...errors, 'patterns must be a list'];
+  }
+  
+  const ids = new Set<string>();
+  
+  config.patterns.forEach((pattern: any, index: number) => {
+    const at = `patterns[${index}]`;
+    
+    if (!isObject(pattern)) {
+      errors.push(`${at}: must be an object`);
+      return;
+    }
+    
+    if (!isNonEmptyString(pattern.id)) {
+      errors.push(`${at}: id must be a non-empty string`);
+    } else if (ids.has(pattern.id)) {
+      errors.push(`${at}: id ${pattern.id} is used by another pattern`);
+    } else {
+      ids.add(pattern.id);
+    }
+    
+    if (!isNonEmptyString(pattern.name)) {
+      errors.push(`${at}: name must be a non-empty string`);
+    }
+    
+    for (const field of ['description', 'violationMessage']) {
+      if (pattern[field] !== undefined && typeof pattern[field] !== 'string') {
+        errors.push(`${at}: ${field} must be a string`);
+      }
+    }
+    
+    if (pattern.severity !== undefined && !SEVERITIES.includes(pattern.severity)) {
+      errors.push(`${at}: severity must be one of ${SEVERITIES.join(', ')}`);
+    }
+    
+    if (pattern.enabled !== undefined && typeof pattern.enabled !== 'boolean') {
+      errors.push(`${at}: enabled must be true or false`);
+    }
+    
+    for (const field of ['domains', 'intentTypes']) {
+      if (pattern[field] !== undefined && !isStringList(pattern[field])) {
+        errors.push(`${at}: ${field} must be a list of strings`);
+      }
+    }
+    
+    if (!Array.isArray(pattern.rules) || pattern.rules.length === 0) {
+      errors.push(`${at}: rules must be a non-empty list`);
+      return;
+    }
+    
+    pattern.rules.forEach((rule: any, ruleIndex: number) => {
+      errors.push(...validateRule(rule, relations).map(error => `${at}.rules[${ruleIndex}]: ${error}`));
+    });
+  });
+  
+  return errors;
+}
+
+/**
+ * Turns the patterns of a validated configuration into pattern definitions
+ * 
+ * @param config The configuration, as checked by validatePatternConfig
+ * @param relations Relation checks for relation_exists rules, by relation name
+ * @returns The pattern definitions
+ */
+export function compilePatterns(
+  config: PatternConfigFile,
+  relations: Record<string, RelationCheck> = {}
+): PatternDefinition[] {
+  return (config.patterns || []).map(pattern => ({
+    id: pattern.id,
+    name: pattern.name,
+    description: pattern.description || pattern.name,
+    severity: (pattern.severity || PatternSeverity.ERROR) as PatternSeverity,
+    enabled: pattern.enabled !== false,
+    domains: pattern.domains,
+    intentTypes: pattern.intentTypes,
+    violationMessage: pattern.violationMessage || `${pattern.name} violated`,
+    validator: async (intent: Intent) => {
+      const failures: { rule: string; message: string }[] = [];
+      
+      for (const rule of pattern.rules) {
+        const message = await evaluateRule(rule, intent, relations);
+        
+        if (message) {
+          failures.push({ rule: rule.type, message });
+        }
+      }
+      
+      return failures.length === 0
+        ? { valid: true }
+        : {
+          valid: false,
+          message: failures.map(failure => failure.message).join('; '),
+          details: { failures }
+        };
+    }
+  }));
+}
+
+/**
+ * Checks a single rule of a pattern
+ * 
+ * @param rule The rule
+ * @param relations Names of the known relations
+ * @returns A message per problem found
+ */
+function validateRule(rule: any, relations: string[]): string[] {
+  if (!isObject(rule) || !RULE_TYPES.includes(rule.type)) {
+    return [`type must be one of ${RULE_TYPES.join(', ')}`];
+  }
+  
+  const errors: string[] = [];
+  
+  if (rule.message !== undefined && typeof rule.message !== 'string') {
+    errors.push('message must be a string');
+  }
+  
+  switch (rule.type) {
+    case 'field_required':
+      if (!isStringList(rule.fields) || rule.fields.length === 0) {
+        errors.push('fields must be a non-empty list of strings');
+      }
+      break;
+    
+    case 'numeric_range':
+      if (!isNonEmptyString(rule.field)) {
+        errors.push('field must be a non-empty string');
+      }
+      
+      for (const bound of ['min', 'max']) {
+        if (rule[bound] !== undefined && (typeof rule[bound] !== 'number' || !isFinite(rule[bound]))) {
+          errors.push(`${bound} must be a number`);
+        }
+      }
+      
+      if (rule.min === undefined && rule.max === undefined) {
+        errors.push('min or max is required');
+      } else if (rule.min > rule.max) {
+        errors.push('min cannot exceed max');
+      }
+      break;
+    
+    case 'relation_exists':
+      if (!isNonEmptyString(rule.field)) {
+        errors.push('field must be a non-empty string');
+      }
+      
+      if (!relations.includes(rule.relation)) {
+        errors.push(`relation must be one of the known relations (${relations.join(', ') || 'none'})`);
+      }
+      break;
+    
+    case 'role_in':
+      if (!isStringList(rule.roles) || rule.roles.length === 0) {
+        errors.push('roles must be a non-empty list of strings');
+      }
+      break;
+  }
+  
+  return errors;
+}
+
+/**
+ * Evaluates a rule against an intent
+ * 
+ * @param rule The rule
+ * @param intent The intent
+ * @param relations Relation checks by relation name
+ * @returns Why the intent violates the rule, or undefined if it satisfies it
+ */
+async function evaluateRule(
+  rule: PatternRule,
+  intent: Intent,
+  relations: Record<string, RelationCheck>
+): Promise<string | undefined> {
+  switch (rule.type) {
+    case 'field_required': {
+      const missing = rule.fields.filter(field => isMissing(getParam(intent.params, field)));
+      
+      return missing.length > 0
+        ? rule.message || `Missing required fields: ${missing.join(', ')}`
+        : undefined;
+    }
+    
+    case 'numeric_range': {
+      const value = getParam(intent.params, rule.field);
+      
+      if (isMissing(value)) {
+        return undefined;
+      }
+      
+      const number = Number(value);
+      
+      if (isNaN(number)) {
+        return rule.message || `${rule.field} must be a number`;
+      }
+      
+      if (rule.min !== undefined && number < rule.min) {
+        return rule.message || `${rule.field} must be at least ${rule.min}`;
+      }
+      
+      if (rule.max !== undefined && number > rule.max) {
+        return rule.message || `${rule.field} cannot exceed ${rule.max}`;
+      }
+      
+      return undefined;
+    }
+    
+    case 'relation_exists': {
+      const id = getParam(intent.params, rule.field);
+      
+      if (isMissing(id) || await relations[rule.relation](id, intent)) {
+        return undefined;
+      }
+      
+      return rule.message || `${rule.relation} ${id} does not exist`;
+    }
+    
+    case 'role_in': {
+      const role = intent.metadata?.role;
+      
+      return role && rule.roles.includes(role)
+        ? undefined
+        : rule.message || `Only ${rule.roles.join(', ')} can ${intent.name}`;
+    }
+  }
+}
+
+function getParam(params: Record<string, any>, field: string): any {
+  return field.split('.').reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), params);
+}
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function isObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonEmptyString(value: any): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isStringList(value: any): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
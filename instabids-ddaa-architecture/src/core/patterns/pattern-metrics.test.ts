@@ -0,0 +1,120 @@
+import { PatternEvaluation, PatternMetricsCollector } from './pattern-metrics';
+import { PatternSeverity } from './pattern-registry';
+
+const MINUTE = 60 * 1000;
+
+describe('PatternMetricsCollector', () => {
+  let now: number;
+  let metrics: PatternMetricsCollector;
+  
+  /**
+   * Records an evaluation made the given number of minutes ago
+   */
+  const record = (minutesAgo: number, evaluation: Partial<PatternEvaluation> = {}): void => metrics.record({
+    patternId: 'bidding:valid_bid_amount',
+    severity: PatternSeverity.ERROR,
+    domain: 'bidding',
+    intentName: 'submitBid',
+    outcome: 'passed',
+    latencyMs: 2,
+    timestamp: new Date(now - minutesAgo * MINUTE),
+    ...evaluation
+  });
+  
+  beforeEach(() => {
+    now = new Date('2026-03-01T12:00:00Z').getTime();
+    metrics = new PatternMetricsCollector({ now: () => now, latencyBuckets: [0.005, 0.001] });
+  });
+  
+  it('aggregates evaluations by pattern with their violation rate and latency', () => {
+    record(1, { latencyMs: 1 });
+    record(1, { outcome: 'violated', latencyMs: 3 });
+    record(2, { outcome: 'error', latencyMs: 8 });
+    record(2, { outcome: 'passed', latencyMs: 4 });
+    
+    expect(metrics.query()).toEqual([{
+      patternId: 'bidding:valid_bid_amount',
+      evaluations: 4,
+      passed: 2,
+      violated: 1,
+      errors: 1,
+      violationRate: 0.5,
+      averageLatencyMs: 4
+    }]);
+  });
+  
+  it('only counts the evaluations inside the window', () => {
+    record(90, { outcome: 'violated' });
+    record(30, { outcome: 'violated' });
+    record(5);
+    
+    expect(metrics.query({ windowMs: 60 * MINUTE })[0]).toMatchObject({ evaluations: 2, violated: 1 });
+    expect(metrics.query()[0]).toMatchObject({ evaluations: 3, violated: 2 });
+  });
+  
+  it('filters and groups by domain and intent', () => {
+    record(1, { outcome: 'violated' });
+    record(1, { intentName: 'updateBid', outcome: 'violated' });
+    record(1, { domain: 'project', intentName: 'createProject' });
+    
+    expect(metrics.query({ domain: 'bidding', groupBy: ['intentName'] })).toEqual([
+      expect.objectContaining({ intentName: 'submitBid', violated: 1 }),
+      expect.objectContaining({ intentName: 'updateBid', violated: 1 })
+    ]);
+    expect(metrics.query({ groupBy: ['domain'] }).map(row => [row.domain, row.evaluations])).toEqual([
+      ['bidding', 2],
+      ['project', 1]
+    ]);
+  });
+  
+  it('ranks the most violated patterns and leaves out the ones never violated', () => {
+    record(1, { patternId: 'bidding:reasonable_timeline', outcome: 'violated' });
+    record(1, { outcome: 'violated' });
+    record(1, { outcome: 'violated' });
+    record(1, { patternId: 'bidding:clean', outcome: 'passed' });
+    
+    expect(metrics.topViolations().map(row => [row.patternId, row.violated])).toEqual([
+      ['bidding:valid_bid_amount', 2],
+      ['bidding:reasonable_timeline', 1]
+    ]);
+    expect(metrics.topViolations({}, 1)).toHaveLength(1);
+  });
+  
+  it('leaves evaluations older than the retention out of queries but not out of the totals', () => {
+    metrics = new PatternMetricsCollector({ now: () => now, retentionMs: 10 * MINUTE });
+    record(30, { outcome: 'violated' });
+    record(1);
+    
+    expect(metrics.query()[0]).toMatchObject({ evaluations: 1, violated: 0 });
+    expect(metrics.toPrometheus()).toContain('outcome="violated"} 1');
+  });
+  
+  it('exports running totals and a latency histogram in the Prometheus format', () => {
+    record(1, { latencyMs: 0.5 });
+    record(1, { outcome: 'violated', latencyMs: 3 });
+    
+    const labels = 'pattern="bidding:valid_bid_amount",severity="error",domain="bidding",intent="submitBid"';
+    
+    expect(metrics.toPrometheus().split('\n')).toEqual([
+      '# HELP ddaa_pattern_evaluations_total Pattern evaluations by outcome.',
+      '# TYPE ddaa_pattern_evaluations_total counter',
+      `ddaa_pattern_evaluations_total{${labels},outcome="passed"} 1`,
+      `ddaa_pattern_evaluations_total{${labels},outcome="violated"} 1`,
+      `ddaa_pattern_evaluations_total{${labels},outcome="error"} 0`,
+      '# HELP ddaa_pattern_evaluation_duration_seconds Time taken to evaluate patterns.',
+      '# TYPE ddaa_pattern_evaluation_duration_seconds histogram',
+      `ddaa_pattern_evaluation_duration_seconds_bucket{${labels},le="0.001"} 1`,
+      `ddaa_pattern_evaluation_duration_seconds_bucket{${labels},le="0.005"} 2`,
+      `ddaa_pattern_evaluation_duration_seconds_bucket{${labels},le="+Inf"} 2`,
+      `ddaa_pattern_evaluation_duration_seconds_sum{${labels}} 0.0035`,
+      `ddaa_pattern_evaluation_duration_seconds_count{${labels}} 2`,
+      ''
+    ]);
+  });
+  
+  it('escapes label values', () => {
+    record(1, { intentName: 'say "hi"\\now' });
+    
+    expect(metrics.toPrometheus()).toContain('intent="say \\"hi\\"\\\\now"');
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Pattern Metrics
+ * 
+ * Records every pattern evaluation of a pattern registry: which pattern ran
+ * for which intent in which domain, whether the intent passed, violated the
+ * pattern or made it fail, and how long the evaluation took. Evaluations are
+ * aggregated in time buckets so counts and violation rates can be queried
+ * over recent windows (e.g. which business rules rejected the most bids in
+ * the last hour), and in running totals exported in the Prometheus text
+ * format for scraping.
+ */
+
+import { PatternSeverity } from './pattern-registry';
+
+/**
+ * How a pattern evaluation ended
+ * - passed: the intent satisfied the pattern
+ * - violated: the intent violated the pattern
+ * - error: the pattern's validator threw
+ */
+export type PatternOutcome = 'passed' | 'violated' | 'error';
+
+/**
+ * A single evaluation of a pattern against an intent
+ */
+export interface PatternEvaluation {
+  patternId: string;
+  severity: PatternSeverity;
+  domain: string;
+  intentName: string;
+  outcome: PatternOutcome;
+  
+  /**
+   * How long the evaluation took, in milliseconds
+   */
+  latencyMs: number;
+  timestamp: Date;
+}
+
+/**
+ * Where a pattern registry records its evaluations
+ */
+export interface PatternMetricsRecorder {
+  record(evaluation: PatternEvaluation): void;
+}
+
+/**
+ * Dimensions evaluations can be grouped by
+ */
+export type PatternMetricsDimension = 'patternId' | 'domain' | 'intentName';
+
+/**
+ * Which evaluations to aggregate
+ */
+export interface PatternMetricsQuery {
+  /**
+   * Only evaluations of the last windowMs milliseconds (defaults to everything retained)
+   */
+  windowMs?: number;
+  patternId?: string;
+  domain?: string;
+  intentName?: string;
+  
+  /**
+   * Dimensions to aggregate by (defaults to patternId)
+   */
+  groupBy?: PatternMetricsDimension[];
+}
+
+/**
+ * Aggregated evaluations of a group
+ * Only the dimensions grouped by are set
+ */
+export interface PatternMetricsRow {
+  patternId?: string;
+  domain?: string;
+  intentName?: string;
+  evaluations: number;
+  passed: number;
+  violated: number;
+  errors: number;
+  
+  /**
+   * Share of the evaluations that violated the pattern or failed, from 0 to 1
+   */
+  violationRate: number;
+  averageLatencyMs: number;
+}
+
+/**
+ * Configuration for a pattern metrics collector
+ */
+export interface PatternMetricsConfig {
+  /**
+   * Length of the time buckets evaluations are aggregated in (defaults to one minute)
+   */
+  bucketMs?: number;
+  
+  /**
+   * How long evaluations can be queried (defaults to one day)
+   */
+  retentionMs?: number;
+  
+  /**
+   * Upper bounds of the latency histogram buckets, in seconds
+   */
+  latencyBuckets?: number[];
+  
+  /**
+   * Prefix of the exported metric names (defaults to 'ddaa')
+   */
+  namespace?: string;
+  
+  /**
+   * Returns the current time in milliseconds (defaults to Date.now)
+   */
+  now?: () => number;
+}
+
+/**
+ * Counts of one series (pattern, domain, intent) in a time bucket
+ */
+interface BucketCounts {
+  patternId: string;
+  domain: string;
+  intentName: string;
+  passed: number;
+  violated: number;
+  errors: number;
+  latencyMs: number;
+}
+
+/**
+ * Running totals of one series (pattern, severity, domain, intent)
+ */
+interface SeriesTotals {
+  patternId: string;
+  severity: PatternSeverity;
+  domain: string;
+  intentName: string;
+  outcomes: Record<PatternOutcome, number>;
+  latencySeconds: number;
+  
+  /**
+   * Evaluations no slower than each latency bucket
+   */
+  latencyBuckets: number[];
+}
+
+const DEFAULT_LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1];
+
+const OUTCOMES: PatternOutcome[] = ['passed', 'violated', 'error'];
+
+/**
+ * Collects pattern evaluations in memory
+ */
+export class PatternMetricsCollector implements PatternMetricsRecorder {
+  private readonly bucketMs: number;
+  private readonly retentionMs: number;
+  private readonly latencyBuckets: number[];
+  private readonly namespace: string;
+  private readonly now: () => number;
+  
+  /**
+   * Time buckets by start time, each holding its series by key
+   */
+  private buckets: Map<number, Map<string, BucketCounts>> = new Map();
+  private totals: Map<string, SeriesTotals> = new Map();
+  
+  constructor(config: PatternMetricsConfig = {}) {
+    this.bucketMs = config.bucketMs || 60 * 1000;
+    this.retentionMs = config.retentionMs || 24 * 60 * 60 * 1000;
+    this.latencyBuckets = [...(config.latencyBuckets || DEFAULT_LATENCY_BUCKETS)].sort((a, b) => a - b);
+    this.namespace = config.namespace || 'ddaa';
+    this.now = config.now || Date.now;
+  }
+  
+  record(evaluation: PatternEvaluation): void {
+    const { patternId, severity, domain, intentName, outcome, latencyMs } = evaluation;
+    const start = Math.floor(evaluation.timestamp.getTime() / this.bucketMs) * this.bucketMs;
+    
+    // Evaluations already past the retention only count towards the running totals
+    if (start + this.bucketMs > this.now() - this.retentionMs) {
+      if (!this.buckets.has(start)) {
+        this.removeExpired();
+        this.buckets.set(start, new Map());
+      }
+      
+      const bucket = this.buckets.get(start) as Map<string, BucketCounts>;
+      const key = JSON.stringify([patternId, domain, intentName]);
+      const counts = bucket.get(key) || { patternId, domain, intentName, passed: 0, violated: 0, errors: 0, latencyMs: 0 };
+      
+      counts[outcome === 'error' ? 'errors' : outcome]++;
+      counts.latencyMs += latencyMs;
+      bucket.set(key, counts);
+    }
+    
+    const seriesKey = JSON.stringify([patternId, severity, domain, intentName]);
+    const totals = this.totals.get(seriesKey) || {
+      patternId,
+      severity,
+      domain,
+      intentName,
+      outcomes: { passed: 0, violated: 0, error: 0 },
+      latencySeconds: 0,
+      latencyBuckets: this.latencyBuckets.map(() => 0)
+    };
+    
+    totals.outcomes[outcome]++;
+    totals.latencySeconds += latencyMs / 1000;
+    this.latencyBuckets.forEach((bound, index) => {
+      if (latencyMs / 1000 <= bound) {
+        totals.latencyBuckets[index]++;
+      }
+    });
+    this.totals.set(seriesKey, totals);
+  }
+  
+  /**
+   * Aggregates the retained evaluations
+   * 
+   * @param query Which evaluations to aggregate and how to group them
+   * @returns A row per group, the groups with the most violations first
+   */
+  query(query: PatternMetricsQuery = {}): PatternMetricsRow[] {
+    const groupBy = query.groupBy || ['patternId'];
+    const since = query.windowMs !== undefined ? this.now() - query.windowMs : -Infinity;
+    const rows: Map<string, PatternMetricsRow & { latencyMs: number }> = new Map();
+    
+    for (const [start, bucket] of this.buckets) {
+      if (start + this.bucketMs <= since) {
+        continue;
+      }
+      
+      for (const counts of bucket.values()) {
+        if (
+          (query.patternId && counts.patternId !== query.patternId) ||
+          (query.domain && counts.domain !== query.domain) ||
+          (query.intentName && counts.intentName !== query.intentName)
+        ) {
+          continue;
+        }
+        
+        const key = JSON.stringify(groupBy.map(dimension => counts[dimension]));
+        const row = rows.get(key) || {
+          ...Object.fromEntries(groupBy.map(dimension => [dimension, counts[dimension]])),
+          evaluations: 0,
+          passed: 0,
+          violated: 0,
+          errors: 0,
+          violationRate: 0,
+          averageLatencyMs: 0,
+          latencyMs: 0
+        };
+        
+        row.passed += counts.passed;
+        row.violated += counts.violated;
+        row.errors += counts.errors;
+        row.evaluations += counts.passed + counts.violated + counts.errors;
+        row.latencyMs += counts.latencyMs;
+        rows.set(key, row);
+      }
+    }
+    
+    return Array.from(rows.values())
+      .map(({ latencyMs, ...row }) => ({
+        ...row,
+        violationRate: row.evaluations > 0 ? (row.violated + row.errors) / row.evaluations : 0,
+        averageLatencyMs: row.evaluations > 0 ? latencyMs / row.evaluations : 0
+      }))
+      .sort((a, b) => (b.violated + b.errors) - (a.violated + a.errors));
+  }
+  
+  /**
+   * Gets the patterns violated most often, e.g. the business rules rejecting the most bids
+   * 
+   * @param query Which evaluations to consider
+   * @param limit Number of patterns to return
+   * @returns A row per violated pattern, the most violated first
+   */
+  topViolations(query: Omit<PatternMetricsQuery, 'groupBy'> = {}, limit: number = 10): PatternMetricsRow[] {
+    return this.query({ ...query, groupBy: ['patternId'] })
+      .filter(row => row.violated + row.errors > 0)
+      .slice(0, limit);
+  }
+  
+  /**
+   * Exports the running totals in the Prometheus text exposition format
+   * 
+   * @returns The metrics, e.g. for a /metrics endpoint
+   */
+  toPrometheus(): string {
+    const evaluations = `${this.namespace}_pattern_evaluations_total`;
+    const duration = `${this.namespace}_pattern_evaluation_duration_seconds`;
+    const lines = [
+      `# HELP ${evaluations} Pattern evaluations by outcome.`,
+      `# TYPE ${evaluations} counter`
+    ];
+    
+    for (const totals of this.totals.values()) {
+      for (const outcome of OUTCOMES) {
+        lines.push(`${evaluations}{${formatLabels(totals, { outcome })}} ${totals.outcomes[outcome]}`);
+      }
+    }
+    
+    lines.push(
+      `# HELP ${duration} Time taken to evaluate patterns.`,
+      `# TYPE ${duration} histogram`
+    );
+    
+    for (const totals of this.totals.values()) {
+      const count = OUTCOMES.reduce((sum, outcome) => sum + totals.outcomes[outcome], 0);
+      
+      this.latencyBuckets.forEach((bound, index) => {
+        lines.push(`${duration}_bucket{${formatLabels(totals, { le: String(bound) })}} ${totals.latencyBuckets[index]}`);
+      });
+      lines.push(`${duration}_bucket{${formatLabels(totals, { le: '+Inf' })}} ${count}`);
+      lines.push(`${duration}_sum{${formatLabels(totals)}} ${totals.latencySeconds}`);
+      lines.push(`${duration}_count{${formatLabels(totals)}} ${count}`);
+    }
+    
+    return lines.join('\n') + '\n';
+  }
+  
+  /**
+   * Clears every recorded evaluation
+   */
+  reset(): void {
+    this.buckets.clear();
+    this.totals.clear();
+  }
+  
+  /**
+   * Drops the time buckets older than the retention
+   */
+  private removeExpired(): void {
+    const oldest = this.now() - this.retentionMs;
+    
+    for (const start of Array.from(this.buckets.keys())) {
+      if (start + this.bucketMs <= oldest) {
+        this.buckets.delete(start);
+      }
+    }
+  }
+}
+
+/**
+ * Formats the labels of a series for the Prometheus text format
+ * 
+ * @param totals The series
+ * @param extra Additional labels, e.g. the outcome
+ * @returns The labels, e.g. 'pattern="bidding:valid_bid_amount",domain="bidding"'
+ */
+function formatLabels(totals: SeriesTotals, extra: Record<string, string> = {}): string {
+  const labels: Record<string, string> = {
+    pattern: totals.patternId,
+    severity: totals.severity,
+    domain: totals.domain,
+    intent: totals.intentName,
+    ...extra
+  };
+  
+  return Object.entries(labels)
+    .map(([name, value]) => `${name}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
@@ -0,0 +1,79 @@
+import { Intent } from '../domain/domain-agent';
+import { PatternDefinition, PatternRegistry, PatternSeverity } from './pattern-registry';
+
+/**
+ * Pattern rejecting every intent
+ */
+function rejectingPattern(id: string): PatternDefinition {
+  return {
+    id,
+    name: id,
+    description: `Rejects every intent (${id})`,
+    severity: PatternSeverity.ERROR,
+    validator: async () => ({ valid: false }),
+    violationMessage: `Violated ${id}`,
+    enabled: true
+  };
+}
+
+const intent: Intent = {
+  name: 'submitBid',
+  params: {},
+  source: 'bidding',
+  timestamp: new Date(),
+  correlationId: 'correlation-1'
+};
+
+describe('PatternRegistry', () => {
+  let registry: PatternRegistry;
+  
+  beforeEach(() => {
+    registry = new PatternRegistry();
+    registry.registerPattern(rejectingPattern('bidding:strict'));
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('lets setPatternEnabled override the toggles of pattern sets', async () => {
+    registry.setPatternEnabled('bidding:strict', false);
+    registry.applyPatternSet({ source: 'patterns.yaml', version: '1', patterns: [], toggles: { 'bidding:strict': true } });
+    
+    expect((await registry.validateIntent(intent, { currentDomain: 'bidding' })).valid).toBe(true);
+    
+    registry.clearPatternEnabled('bidding:strict');
+    
+    expect((await registry.validateIntent(intent, { currentDomain: 'bidding' })).valid).toBe(false);
+  });
+  
+  it('lets later pattern sets toggle over earlier ones', async () => {
+    registry.applyPatternSet({ source: 'base.yaml', version: '1', patterns: [], toggles: { 'bidding:strict': false } });
+    
+    expect((await registry.validateIntent(intent, { currentDomain: 'bidding' })).valid).toBe(true);
+    
+    registry.applyPatternSet({ source: 'override.yaml', version: '1', patterns: [], toggles: { 'bidding:strict': true } });
+    
+    expect((await registry.validateIntent(intent, { currentDomain: 'bidding' })).valid).toBe(false);
+  });
+  
+  it('validates intents when the audit log fails', async () => {
+    const failing = new PatternRegistry({ auditLog: { record: async () => { throw new Error('audit log down'); } } });
+    failing.registerPattern(rejectingPattern('bidding:strict'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    
+    const summary = await failing.validateIntent(intent, { currentDomain: 'bidding' });
+    
+    expect(summary.valid).toBe(false);
+    expect(console.error).toHaveBeenCalled();
+  });
+  
+  it('stamps validations with a version that changes with the patterns', async () => {
+    const before = registry.getVersion();
+    registry.applyPatternSet({ source: 'patterns.yaml', version: '3', patterns: [] });
+    
+    expect(registry.getVersion()).not.toBe(before);
+    expect(registry.getVersion()).toMatch(/;patterns\.yaml@3$/);
+    expect((await registry.validateIntent(intent, { currentDomain: 'bidding' })).patternSetVersion).toBe(registry.getVersion());
+  });
+});
@@ -6,7 +6,9 @@
  * defining, registering, and validating patterns.
  */
 
+import { performance } from 'perf_hooks';
 import { Intent } from '../domain/domain-agent';
+import { PatternMetricsRecorder, PatternOutcome } from './pattern-metrics';
 
 export enum PatternSeverity {
   ERROR = 'error',       // Pattern violation will prevent operation
@@ -116,6 +118,119 @@ export interface PatternValidationSummary {
     domain?: string;
     timestamp: Date;
   };
+  
+  /**
+   * Version of the pattern set the intent was validated with (see getVersion)
+   */
+  patternSetVersion: string;
+}
+
+/**
+ * Patterns loaded together from one source, e.g. a configuration file,
+ * and replaced together when the source changes
+ */
+export interface PatternSet {
+  /**
+   * Identifies the set, e.g. the path of its file
+   */
+  source: string;
+  
+  /**
+   * Version of the set as declared by its source
+   */
+  version: string;
+  
+  /**
+   * Patterns of the set
+   */
+  patterns: PatternDefinition[];
+  
+  /**
+   * Patterns of any source to enable (true) or disable (false), by ID
+   * Patterns enabled or disabled with setPatternEnabled ignore these
+   */
+  toggles?: Record<string, boolean>;
+}
+
+/**
+ * Record of the patterns an intent was validated against
+ */
+export interface PatternAuditEntry {
+  intentName: string;
+  domain: string;
+  userId?: string;
+  correlationId: string;
+  
+  /**
+   * Version of the pattern set the intent was validated with
+   */
+  patternSetVersion: string;
+  valid: boolean;
+  
+  /**
+   * IDs of the patterns the intent was validated against
+   */
+  patternIds: string[];
+  
+  /**
+   * IDs of the patterns the intent violated
+   */
+  violations: string[];
+  timestamp: Date;
+}
+
+/**
+ * Where the registry records which patterns validated each intent
+ */
+export interface PatternAuditLog {
+  record(entry: PatternAuditEntry): void | Promise<void>;
+}
+
+/**
+ * Audit log keeping the latest entries in memory
+ */
+export class InMemoryPatternAuditLog implements PatternAuditLog {
+  private entries: PatternAuditEntry[] = [];
+  
+  /**
+   * @param capacity Number of entries to keep; older ones are dropped
+   */
+  constructor(private readonly capacity: number = 1000) {}
+  
+  record(entry: PatternAuditEntry): void {
+    this.entries.push(entry);
+    
+    if (this.entries.length > this.capacity) {
+      this.entries.splice(0, this.entries.length - this.capacity);
+    }
+  }
+  
+  /**
+   * Gets the recorded entries, oldest first
+   * 
+   * @param correlationId Only the entries of intents with this correlation ID
+   * @returns The entries
+   */
+  getEntries(correlationId?: string): PatternAuditEntry[] {
+    return correlationId
+      ? this.entries.filter(entry => entry.correlationId === correlationId)
+      : [...this.entries];
+  }
+}
+
+/**
+ * Configuration for a pattern registry
+ */
+export interface PatternRegistryOptions {
+  /**
+   * Where to record which patterns validated each intent
+   */
+  auditLog?: PatternAuditLog;
+  
+  /**
+   * Where to record every pattern evaluation, e.g. a PatternMetricsCollector
+   */
+  metrics?: PatternMetricsRecorder;
 }
 
 /**
@@ -124,6 +239,24 @@ export interface PatternValidationSummary {
 export class PatternRegistry {
   private patterns: Map<string, PatternDefinition> = new Map();
   
+  /**
+   * Loaded pattern sets by source
+   */
+  private patternSets: Map<string, PatternSet> = new Map();
+  
+  /**
+   * Patterns enabled or disabled with setPatternEnabled, which take
+   * precedence over the toggles of pattern sets
+   */
+  private enabledOverrides: Map<string, boolean> = new Map();
+  
+  /**
+   * Number of changes made to the registered patterns
+   */
+  private revision = 0;
+  
+  constructor(private readonly options: PatternRegistryOptions = {}) {}
+  
   /**
    * Registers a new pattern
    * 
@@ -136,6 +269,7 @@ export class PatternRegistry {
     }
     
     this.patterns.set(pattern.id, pattern);
+    this.revision++;
   }
   
   /**
@@ -152,6 +286,41 @@ export class PatternRegistry {
     }
     
     this.patterns.set(patternId, { ...pattern, ...updates });
+    this.revision++;
+  }
+  
+  /**
+   * Enables or disables a pattern, whatever the toggles of pattern sets say
+   * The setting outlasts reloads of the pattern sets until it is cleared
+   * 
+   * @param patternId The ID of the pattern
+   * @param enabled Whether the pattern is enforced
+   * @throws Error if the pattern doesn't exist
+   */
+  setPatternEnabled(patternId: string, enabled: boolean): void {
+    if (!this.patterns.has(patternId)) {
+      throw new Error(`Pattern with ID ${patternId} not found`);
+    }
+    
+    this.enabledOverrides.set(patternId, enabled);
+    this.revision++;
+  }
+  
+  /**
+   * Clears the setting of setPatternEnabled, so pattern set toggles and the
+   * pattern's own enabled flag decide again
+   * 
+   * @param patternId The ID of the pattern
+   * @returns True if the pattern had a setting, false otherwise
+   */
+  clearPatternEnabled(patternId: string): boolean {
+    const cleared = this.enabledOverrides.delete(patternId);
+    
+    if (cleared) {
+      this.revision++;
+    }
+    
+    return cleared;
   }
   
   /**
@@ -161,7 +330,91 @@ export class PatternRegistry {
    * @returns True if the pattern was unregistered, false if it wasn't found
    */
   unregisterPattern(patternId: string): boolean {
-    return this.patterns.delete(patternId);
+    const removed = this.patterns.delete(patternId);
+    
+    if (removed) {
+      this.enabledOverrides.delete(patternId);
+      this.revision++;
+    }
+    
+    return removed;
+  }
+  
+  /**
+   * Applies a pattern set, replacing the set previously applied from the same source
+   * The set is applied entirely or, if one of its patterns has the ID of a
+   * pattern from elsewhere, not at all
+   * 
+   * @param set The pattern set to apply
+   * @throws Error if a pattern ID is already used by another source
+   */
+  applyPatternSet(set: PatternSet): void {
+    const previous = this.patternSets.get(set.source);
+    const previousIds = new Set(previous ? previous.patterns.map(pattern => pattern.id) : []);
+    const conflicts = set.patterns
+      .filter(pattern => this.patterns.has(pattern.id) && !previousIds.has(pattern.id))
+      .map(pattern => pattern.id);
+    
+    if (conflicts.length > 0) {
+      throw new Error(`Patterns ${conflicts.join(', ')} of ${set.source} already exist`);
+    }
+    
+    for (const id of previousIds) {
+      this.patterns.delete(id);
+    }
+    
+    for (const pattern of set.patterns) {
+      this.patterns.set(pattern.id, pattern);
+    }
+    
+    this.patternSets.set(set.source, set);
+    this.revision++;
+  }
+  
+  /**
+   * Removes the patterns and toggles of a pattern set
+   * 
+   * @param source The source of the set
+   * @returns True if the set was removed, false if it wasn't applied
+   */
+  removePatternSet(source: string): boolean {
+    const set = this.patternSets.get(source);
+    
+    if (!set) {
+      return false;
+    }
+    
+    for (const pattern of set.patterns) {
+      this.patterns.delete(pattern.id);
+    }
+    
+    this.patternSets.delete(source);
+    this.revision++;
+    
+    return true;
+  }
+  
+  /**
+   * Gets the applied pattern sets
+   * 
+   * @returns The pattern sets, in the order they were first applied
+   */
+  getPatternSets(): PatternSet[] {
+    return Array.from(this.patternSets.values());
+  }
+  
+  /**
+   * Gets the version of the registered patterns, e.g. 'r7;patterns.yaml@3'
+   * It names the registry's revision, which changes with every change to
+   * its patterns, and the version of each applied pattern set
+   * 
+   * @returns The version
+   */
+  getVersion(): string {
+    return [
+      `r${this.revision}`,
+      ...this.getPatternSets().map(set => `${set.source}@${set.version}`)
+    ].join(';');
   }
   
   /**
@@ -191,14 +444,18 @@ export class PatternRegistry {
    * @returns A promise resolving to a validation summary
    */
   async validateIntent(intent: Intent, context: PatternContext): Promise<PatternValidationSummary> {
+    const patternSetVersion = this.getVersion();
     const applicablePatterns = this.getApplicablePatterns(intent, context.currentDomain);
     const results = [];
     let valid = true;
     
     for (const pattern of applicablePatterns) {
+      const startedAt = performance.now();
+      
       try {
         const result = await pattern.validator(intent, context);
         
+        this.recordEvaluation(pattern, intent, context, result.valid ? 'passed' : 'violated', startedAt);
         results.push({
           patternId: pattern.id,
           patternName: pattern.name,
@@ -214,6 +471,7 @@ export class PatternRegistry {
         }
       } catch (error) {
         // If pattern validation throws an error, consider it a failure
+        this.recordEvaluation(pattern, intent, context, 'error', startedAt);
         results.push({
           patternId: pattern.id,
           patternName: pattern.name,
@@ -228,6 +486,25 @@ export class PatternRegistry {
       }
     }
     
+    if (this.options.auditLog) {
+      try {
+        await this.options.auditLog.record({
+          intentName: intent.name,
+          domain: context.currentDomain,
+          userId: intent.userId,
+          correlationId: intent.correlationId,
+          patternSetVersion,
+          valid,
+          patternIds: applicablePatterns.map(pattern => pattern.id),
+          violations: results.filter(result => !result.valid).map(result => result.patternId),
+          timestamp: new Date()
+        });
+      } catch (error) {
+        // Auditing must never affect validation
+        console.error(`Error recording the audit entry of intent ${intent.name}:`, error);
+      }
+    }
+    
     return {
       valid,
       results,
@@ -235,10 +512,47 @@ export class PatternRegistry {
         name: intent.name,
         domain: intent.source,
         timestamp: new Date()
-      }
+      },
+      patternSetVersion
     };
   }
   
+  /**
+   * Records an evaluation of a pattern in the metrics, if any
+   * 
+   * @param pattern The evaluated pattern
+   * @param intent The intent it was evaluated against
+   * @param context The context of the evaluation
+   * @param outcome How the evaluation ended
+   * @param startedAt When the evaluation started (performance.now())
+   */
+  private recordEvaluation(
+    pattern: PatternDefinition,
+    intent: Intent,
+    context: PatternContext,
+    outcome: PatternOutcome,
+    startedAt: number
+  ): void {
+    if (!this.options.metrics) {
+      return;
+    }
+    
+    try {
+      this.options.metrics.record({
+        patternId: pattern.id,
+        severity: pattern.severity,
+        domain: context.currentDomain,
+        intentName: intent.name,
+        outcome,
+        latencyMs: performance.now() - startedAt,
+        timestamp: new Date()
+      });
+    } catch (error) {
+      // Metrics must never affect validation
+      console.error(`Error recording metrics of pattern ${pattern.id}:`, error);
+    }
+  }
+  
   /**
    * Gets patterns that apply to a specific intent and domain
    * 
@@ -249,7 +563,7 @@ export class PatternRegistry {
   private getApplicablePatterns(intent: Intent, domain: string): PatternDefinition[] {
     return Array.from(this.patterns.values()).filter(pattern => {
       // Skip disabled patterns
-      if (!pattern.enabled) {
+      if (!this.isEnabled(pattern)) {
         return false;
       }
       
@@ -270,4 +584,30 @@ export class PatternRegistry {
       return true;
     });
   }
+  
+  /**
+   * Checks whether a pattern is enforced: setPatternEnabled decides if it was
+   * called for the pattern, then the pattern sets toggling it (later sets over
+   * earlier ones), otherwise its own enabled flag
+   * 
+   * @param pattern The pattern to check
+   * @returns Whether the pattern is enabled
+   */
+  private isEnabled(pattern: PatternDefinition): boolean {
+    const override = this.enabledOverrides.get(pattern.id);
+    
+    if (override !== undefined) {
+      return override;
+    }
+    
+    let enabled = pattern.enabled;
+    
+    for (const set of this.patternSets.values()) {
+      if (set.toggles && set.toggles[pattern.id] !== undefined) {
+        enabled = set.toggles[pattern.id];
+      }
+    }
+    
+    return enabled;
+  }
 }
@@ -0,0 +1,133 @@
+import { DomainEvent, Intent } from '../../core/domain/domain-agent';
+import { EventBus } from '../../core/events/event-bus';
+import { getEventKey } from '../../core/events/processed-events';
+import { BiddingAgent, BiddingReactionEvents } from './bidding-agent';
+import { BiddingDataInterface } from './bidding-data-interface';
+import { BiddingGuard, BiddingIntents } from './bidding-guard';
+
+describe('BiddingAgent', () => {
+  let dataInterface: BiddingDataInterface;
+  let guard: BiddingGuard;
+  let agent: BiddingAgent;
+  let validated: Intent[];
+  
+  beforeEach(() => {
+    dataInterface = {} as unknown as BiddingDataInterface;
+    guard = new BiddingGuard();
+    agent = new BiddingAgent(dataInterface, guard);
+    validated = [];
+    
+    jest.spyOn(guard, 'validateIntent').mockImplementation(async intent => {
+      validated.push(intent);
+      return { valid: false, errors: [{ code: 'stopped', message: 'Stopped' }] };
+    });
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('takes the user and role from the authenticated caller', async () => {
+    await agent.fulfillIntent(
+      BiddingIntents.GET_BID,
+      { bidId: 'bid-1', userId: 'someone-else', role: 'admin' },
+      { userId: 'contractor-1', role: 'contractor' }
+    );
+    
+    expect(validated[0].userId).toBe('contractor-1');
+    expect(validated[0].metadata).toEqual({ role: 'contractor' });
+  });
+  
+  it('ignores a role given in the params', async () => {
+    await agent.fulfillIntent(BiddingIntents.GET_BID, { bidId: 'bid-1', userId: 'contractor-1', role: 'admin' });
+    
+    expect(validated[0].metadata?.role).toBeUndefined();
+  });
+  
+  it('still reports success when an event of a saved bid is invalid', async () => {
+    const published: DomainEvent[] = [];
+    const create = jest.fn(async (bid: any) => ({ ...bid, id: 'bid-1' }));
+    
+    agent = new BiddingAgent({ create } as unknown as BiddingDataInterface, guard, {
+      performValidation: false,
+      detailedEvents: false,
+      eventBus: { publish: async (event: DomainEvent) => { published.push(event); } } as unknown as EventBus
+    });
+    jest.spyOn(guard, 'validateEvent').mockResolvedValue({
+      valid: false,
+      errors: [{ code: 'invalid_payload', message: 'amount is required' }]
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    
+    const result = await agent.fulfillIntent(
+      BiddingIntents.SUBMIT_BID,
+      { projectId: 'project-1', amount: 2500, description: 'Renovation', timelineInDays: 30 },
+      { userId: 'contractor-1', role: 'contractor' }
+    );
+    
+    expect(result.success).toBe(true);
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(published).toEqual([]);
+  });
+  
+  describe('processEvent', () => {
+    const projectCreated: DomainEvent = {
+      type: BiddingReactionEvents.PROJECT_CREATED,
+      payload: { projectId: 'project-1', ownerId: 'homeowner-1', biddingDeadline: '2026-03-01T12:00:00Z' },
+      source: 'project',
+      timestamp: new Date('2026-02-01T12:00:00Z'),
+      correlationId: 'correlation-1'
+    };
+    
+    let published: DomainEvent[];
+    let saveBidTracking: jest.Mock;
+    
+    beforeEach(() => {
+      published = [];
+      saveBidTracking = jest.fn(async (tracking: any) => tracking);
+      agent = new BiddingAgent(
+        { findBidTracking: async () => null, saveBidTracking } as unknown as BiddingDataInterface,
+        guard,
+        { eventBus: { publish: async (event: DomainEvent) => { published.push(event); } } as unknown as EventBus }
+      );
+    });
+    
+    it('reacts to a redelivered event once', async () => {
+      await agent.processEvent(projectCreated);
+      await agent.processEvent({ ...projectCreated, metadata: { deliveryAttempt: 2 } });
+      
+      expect(saveBidTracking).toHaveBeenCalledTimes(1);
+      expect(published.map(event => event.type)).toEqual(['bidding:bid_tracking_initialized']);
+      expect(published[0].metadata?.causationId).toBe(getEventKey(projectCreated));
+    });
+    
+    it('reacts once to deliveries of the same event that arrive together', async () => {
+      await Promise.all([agent.processEvent(projectCreated), agent.processEvent({ ...projectCreated })]);
+      
+      expect(saveBidTracking).toHaveBeenCalledTimes(1);
+    });
+    
+    it('handles an event again after its reaction failed', async () => {
+      saveBidTracking.mockRejectedValueOnce(new Error('database unavailable'));
+      
+      await expect(agent.processEvent(projectCreated)).rejects.toThrow('database unavailable');
+      await agent.processEvent(projectCreated);
+      
+      expect(saveBidTracking).toHaveBeenCalledTimes(2);
+      expect(published).toHaveLength(1);
+    });
+    
+    it('tells events with an event ID apart by it alone', async () => {
+      await agent.processEvent({ ...projectCreated, metadata: { eventId: 'event-1' } });
+      await agent.processEvent({ ...projectCreated, metadata: { eventId: 'event-2' } });
+      
+      expect(saveBidTracking).toHaveBeenCalledTimes(2);
+    });
+    
+    it('ignores events it does not react to', async () => {
+      await agent.processEvent({ ...projectCreated, type: 'project:archived' });
+      
+      expect(saveBidTracking).not.toHaveBeenCalled();
+    });
+  });
+});
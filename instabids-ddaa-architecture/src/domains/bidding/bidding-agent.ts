@@ -6,9 +6,10 @@
  * provides an intent-based interface for other components to interact with.
  */
 
-import { BaseDomainAgent, DomainEvent, Intent, IntentResult, IntentSchema } from '../../core/domain/domain-agent';
+import { BaseDomainAgent, CallerContext, DomainEvent, Intent, IntentResult, IntentSchema } from '../../core/domain/domain-agent';
 import { EventBus } from '../../core/events/event-bus';
-import { BiddingDataInterface, Bid, BidStatus } from './bidding-data-interface';
+import { getEventKey, InMemoryProcessedEventStore, ProcessedEventStore } from '../../core/events/processed-events';
+import { BiddingDataInterface, Bid, BidStatus, BidVisibility } from './bidding-data-interface';
 import { BiddingGuard, BiddingIntents } from './bidding-guard';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -31,8 +32,63 @@ export interface BiddingAgentConfig {
    * (If false, assumes validation is performed externally)
    */
   performValidation?: boolean;
+  
+  /**
+   * Where the agent records the events of other domains it has processed,
+   * so redelivered events are not processed twice (defaults to an in-memory store)
+   */
+  processedEvents?: ProcessedEventStore;
+}
+
+/**
+ * Events of other domains the bidding agent reacts to
+ */
+export enum BiddingReactionEvents {
+  PROJECT_CREATED = 'project:created',
+  PROJECT_DEADLINE_UPDATED = 'project:deadline_updated',
+  PAYMENT_MILESTONE_COMPLETED = 'payment:milestone_completed'
+}
+
+/**
+ * Payload the bidding agent reads from project:created
+ */
+export interface ProjectCreatedPayload {
+  projectId: string;
+  ownerId?: string;
+  biddingDeadline?: Date | string;
+}
+
+/**
+ * Payload the bidding agent reads from project:deadline_updated
+ */
+export interface ProjectDeadlineUpdatedPayload {
+  projectId: string;
+  biddingDeadline: Date | string;
 }
 
+/**
+ * Payload the bidding agent reads from payment:milestone_completed
+ */
+export interface MilestoneCompletedPayload {
+  projectId: string;
+  
+  /**
+   * The bid the milestone belongs to; all accepted bids of the project if omitted
+   */
+  bidId?: string;
+  milestoneId?: string;
+  
+  /**
+   * Whether this was the last milestone of the project
+   */
+  isFinal?: boolean;
+}
+
+/**
+ * Statuses of bids still open on a project, whose expiration follows the project's deadline
+ */
+const OPEN_BID_STATUSES = [BidStatus.DRAFT, BidStatus.SUBMITTED, BidStatus.UNDER_REVIEW, BidStatus.COUNTERED];
+
 /**
  * Implementation of the bidding domain agent
  */
@@ -40,6 +96,12 @@ export class BiddingAgent extends BaseDomainAgent {
   private dataInterface: BiddingDataInterface;
   private guard: BiddingGuard;
   private config: BiddingAgentConfig;
+  private processedEvents: ProcessedEventStore;
+  
+  /**
+   * Keys of the events being processed, so a concurrent redelivery is skipped
+   */
+  private processingEvents: Set<string> = new Set();
   
   /**
    * Creates a new bidding agent
@@ -62,6 +124,7 @@ export class BiddingAgent extends BaseDomainAgent {
       detailedEvents: true,
       ...config
     };
+    this.processedEvents = this.config.processedEvents || new InMemoryProcessedEventStore();
   }
   
   /**
@@ -69,17 +132,19 @@ export class BiddingAgent extends BaseDomainAgent {
    * 
    * @param intentName The name of the intent to fulfill
    * @param params Parameters needed to fulfill the intent
+   * @param caller The authenticated caller, whose role the guard checks
    * @returns A promise resolving to the result of the intent
    */
-  async fulfillIntent<T = any>(intentName: string, params: Record<string, any>): Promise<IntentResult<T>> {
+  async fulfillIntent<T = any>(intentName: string, params: Record<string, any>, caller?: CallerContext): Promise<IntentResult<T>> {
     const intent: Intent = {
       name: intentName,
       params,
       source: this.domainName,
       timestamp: new Date(),
-      // In a real implementation, these would be provided by the caller
-      userId: params.userId,
-      correlationId: params.correlationId || uuidv4()
+      userId: caller?.userId || params.userId,
+      correlationId: params.correlationId || uuidv4(),
+      // Only the authenticated caller can vouch for a role
+      metadata: caller?.role ? { role: caller.role } : undefined
     };
     
     // Validate the intent if configured to do so
@@ -95,6 +160,9 @@ export class BiddingAgent extends BaseDomainAgent {
           }
         };
       }
+      
+      // Continue with the params as coerced and defaulted by the guard
+      intent.params = validationResult.params || intent.params;
     }
     
     // Route the intent to the appropriate handler
@@ -149,30 +217,69 @@ export class BiddingAgent extends BaseDomainAgent {
   
   /**
    * Processes an event from another domain
+   * Each event is handled once: events already processed, or being processed,
+   * are skipped. A failed reaction throws, so the event bus can retry the
+   * event, and is not recorded as processed.
    * 
    * @param event The domain event to process
+   * @throws Error if the event lacks the data its reaction needs or the reaction fails
    */
   async processEvent(event: DomainEvent): Promise<void> {
-    // Handle events from other domains
-    switch (event.type) {
-      case 'project:created':
-        // Handle project creation event
-        // (e.g., initialize bid tracking for the project)
-        break;
-        
-      case 'project:deadline_updated':
-        // Handle project deadline update
-        // (e.g., update bid expiration dates)
-        break;
-        
-      case 'payment:milestone_completed':
-        // Update bid status based on payment events
-        break;
-        
-      default:
-        // Ignore unrelated events
-        break;
+    if (!this.getSubscribedEventTypes().includes(event.type)) {
+      // Ignore unrelated events
+      return;
+    }
+    
+    const eventKey = getEventKey(event);
+    
+    // Claim the event before looking it up, so a delivery arriving meanwhile is skipped
+    if (this.processingEvents.has(eventKey)) {
+      return;
     }
+    
+    this.processingEvents.add(eventKey);
+    
+    try {
+      if (await this.processedEvents.has(this.domainName, eventKey)) {
+        return;
+      }
+      
+      let events: DomainEvent[];
+      
+      switch (event.type) {
+        case BiddingReactionEvents.PROJECT_CREATED:
+          events = await this.handleProjectCreated(event);
+          break;
+          
+        case BiddingReactionEvents.PROJECT_DEADLINE_UPDATED:
+          events = await this.handleProjectDeadlineUpdated(event);
+          break;
+          
+        default:
+          events = await this.handleMilestoneCompleted(event);
+          break;
+      }
+      
+      // Follow-up events are part of the reaction; if they cannot be published
+      // the event is handled again on redelivery
+      await this.publishEvents(events.map(followUp => ({
+        ...followUp,
+        metadata: { ...followUp.metadata, causationId: eventKey }
+      })));
+      
+      await this.processedEvents.record(this.domainName, eventKey);
+    } finally {
+      this.processingEvents.delete(eventKey);
+    }
+  }
+  
+  /**
+   * Lists the event types of other domains this agent reacts to
+   * 
+   * @returns An array of event types to subscribe the agent to
+   */
+  getSubscribedEventTypes(): string[] {
+    return Object.values(BiddingReactionEvents);
   }
   
   /**
@@ -225,6 +332,13 @@ export class BiddingAgent extends BaseDomainAgent {
             type: 'date',
             description: 'Proposed start date',
             required: false
+          },
+          visibility: {
+            type: 'string',
+            description: 'Who can see the bid',
+            required: false,
+            default: BidVisibility.PRIVATE,
+            constraints: { enum: Object.values(BidVisibility) }
           }
         },
         returns: {
@@ -272,9 +386,148 @@ export class BiddingAgent extends BaseDomainAgent {
           type: 'object',
           description: 'The updated bid'
         }
+      },
+      
+      [BiddingIntents.WITHDRAW_BID]: {
+        name: BiddingIntents.WITHDRAW_BID,
+        description: 'Withdraw a submitted bid',
+        parameters: {
+          bidId: {
+            type: 'string',
+            description: 'The ID of the bid to withdraw',
+            required: true
+          }
+        },
+        returns: {
+          type: 'object',
+          description: 'The withdrawn bid'
+        }
+      },
+      
+      [BiddingIntents.ACCEPT_BID]: {
+        name: BiddingIntents.ACCEPT_BID,
+        description: 'Accept a bid on your project',
+        parameters: {
+          bidId: {
+            type: 'string',
+            description: 'The ID of the bid to accept',
+            required: true
+          }
+        },
+        returns: {
+          type: 'object',
+          description: 'The accepted bid'
+        }
+      },
+      
+      [BiddingIntents.REJECT_BID]: {
+        name: BiddingIntents.REJECT_BID,
+        description: 'Reject a bid on your project',
+        parameters: {
+          bidId: {
+            type: 'string',
+            description: 'The ID of the bid to reject',
+            required: true
+          },
+          reason: {
+            type: 'string',
+            description: 'Reason for the rejection',
+            required: false
+          }
+        },
+        returns: {
+          type: 'object',
+          description: 'The rejected bid'
+        }
+      },
+      
+      [BiddingIntents.COUNTER_BID]: {
+        name: BiddingIntents.COUNTER_BID,
+        description: 'Propose a counter to an existing bid',
+        parameters: {
+          bidId: {
+            type: 'string',
+            description: 'The ID of the bid to counter',
+            required: true
+          },
+          counterAmount: {
+            type: 'number',
+            description: 'Proposed amount in dollars',
+            required: false,
+            constraints: { min: 0 }
+          },
+          counterTerms: {
+            type: 'string',
+            description: 'Proposed terms',
+            required: false
+          }
+        },
+        returns: {
+          type: 'object',
+          description: 'The countered bid'
+        }
+      },
+      
+      [BiddingIntents.GET_BID]: {
+        name: BiddingIntents.GET_BID,
+        description: 'Get details of a specific bid',
+        parameters: {
+          bidId: {
+            type: 'string',
+            description: 'The ID of the bid',
+            required: true
+          }
+        },
+        returns: {
+          type: 'object',
+          description: 'The bid'
+        }
+      },
+      
+      [BiddingIntents.LIST_BIDS]: {
+        name: BiddingIntents.LIST_BIDS,
+        description: 'List the bids on a project or by a contractor',
+        parameters: {
+          projectId: {
+            type: 'string',
+            description: 'The ID of the project whose bids to list',
+            required: false
+          },
+          contractorId: {
+            type: 'string',
+            description: 'The ID of the contractor whose bids to list',
+            required: false
+          },
+          status: {
+            type: 'array',
+            description: 'Statuses of the bids to list',
+            required: false,
+            constraints: { items: 'string' }
+          }
+        },
+        returns: {
+          type: 'array',
+          description: 'The matching bids'
+        }
+      },
+      
+      [BiddingIntents.GET_BID_STATS]: {
+        name: BiddingIntents.GET_BID_STATS,
+        description: 'Get statistics about the bids on a project',
+        parameters: {
+          projectId: {
+            type: 'string',
+            description: 'The ID of the project',
+            required: true
+          }
+        },
+        returns: {
+          type: 'object',
+          description: 'Statistics about the bids'
+        }
       }
       
-      // Additional schemas would be defined for other intents
+      // Group bid schemas will be defined once group bids are implemented
     };
     
     return schemas[intentName] || null;
@@ -302,7 +555,7 @@ export class BiddingAgent extends BaseDomainAgent {
       materials,
       startDate: startDate ? new Date(startDate) : undefined,
       status: BidStatus.SUBMITTED,
-      visibility: intent.params.visibility || 'private',
+      visibility: intent.params.visibility || BidVisibility.PRIVATE,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -338,12 +591,8 @@ export class BiddingAgent extends BaseDomainAgent {
       });
     }
     
-    // Propagate events
-    if (this.config.eventBus) {
-      for (const event of events) {
-        await this.config.eventBus.publish(event);
-      }
-    }
+    // Validate and propagate events
+    await this.publishEvents(events);
     
     return {
       success: true,
@@ -412,12 +661,8 @@ export class BiddingAgent extends BaseDomainAgent {
       });
     }
     
-    // Propagate events
-    if (this.config.eventBus) {
-      for (const event of events) {
-        await this.config.eventBus.publish(event);
-      }
-    }
+    // Validate and propagate events
+    await this.publishEvents(events);
     
     return {
       success: true,
@@ -468,10 +713,8 @@ export class BiddingAgent extends BaseDomainAgent {
       correlationId: intent.correlationId
     };
     
-    // Propagate event
-    if (this.config.eventBus) {
-      await this.config.eventBus.publish(event);
-    }
+    // Validate and propagate event
+    await this.publishEvents([event]);
     
     return {
       success: true,
@@ -529,10 +772,8 @@ export class BiddingAgent extends BaseDomainAgent {
       correlationId: intent.correlationId
     };
     
-    // Propagate event
-    if (this.config.eventBus) {
-      await this.config.eventBus.publish(event);
-    }
+    // Validate and propagate event
+    await this.publishEvents([event]);
     
     return {
       success: true,
@@ -567,10 +808,8 @@ export class BiddingAgent extends BaseDomainAgent {
       correlationId: intent.correlationId
     };
     
-    // Propagate event
-    if (this.config.eventBus) {
-      await this.config.eventBus.publish(event);
-    }
+    // Validate and propagate event
+    await this.publishEvents([event]);
     
     return {
       success: true,
@@ -688,4 +927,170 @@ export class BiddingAgent extends BaseDomainAgent {
       error: new Error('Not implemented')
     };
   }
+  
+  // Event handlers
+  
+  /**
+   * Handles the project created event by starting to track bidding on the project
+   * 
+   * @param event The event to handle
+   * @returns The follow-up events
+   */
+  private async handleProjectCreated(event: DomainEvent): Promise<DomainEvent[]> {
+    const { projectId, ownerId, biddingDeadline } = event.payload as ProjectCreatedPayload;
+    requireProjectId(event);
+    
+    const existing = await this.dataInterface.findBidTracking(projectId);
+    const tracking = await this.dataInterface.saveBidTracking({
+      projectId,
+      ownerId,
+      biddingDeadline: biddingDeadline ? new Date(biddingDeadline) : undefined,
+      createdAt: existing?.createdAt || new Date(),
+      updatedAt: new Date()
+    });
+    
+    return [{
+      type: 'bidding:bid_tracking_initialized',
+      payload: {
+        projectId: tracking.projectId,
+        biddingDeadline: tracking.biddingDeadline
+      },
+      source: this.domainName,
+      timestamp: new Date(),
+      correlationId: event.correlationId
+    }];
+  }
+  
+  /**
+   * Handles the project deadline updated event by moving the expiration date
+   * of the project's open bids to the new deadline
+   * 
+   * @param event The event to handle
+   * @returns The follow-up events
+   */
+  private async handleProjectDeadlineUpdated(event: DomainEvent): Promise<DomainEvent[]> {
+    const { projectId, biddingDeadline } = event.payload as ProjectDeadlineUpdatedPayload;
+    requireProjectId(event);
+    
+    if (!biddingDeadline) {
+      throw new Error(`Event ${event.type} has no biddingDeadline`);
+    }
+    
+    const expiresAt = new Date(biddingDeadline);
+    const bids = await this.dataInterface.findBidsByProject(projectId, OPEN_BID_STATUSES);
+    
+    for (const bid of bids) {
+      await this.dataInterface.update(bid.id, {
+        expiresAt,
+        updatedAt: new Date()
+      });
+    }
+    
+    // Keep the project's tracking in step, creating it if the project predates it
+    const tracking = await this.dataInterface.findBidTracking(projectId);
+    await this.dataInterface.saveBidTracking({
+      projectId,
+      ...tracking,
+      biddingDeadline: expiresAt,
+      createdAt: tracking?.createdAt || new Date(),
+      updatedAt: new Date()
+    });
+    
+    return [{
+      type: 'bidding:bid_expirations_updated',
+      payload: {
+        projectId,
+        expiresAt,
+        bidIds: bids.map(bid => bid.id)
+      },
+      source: this.domainName,
+      timestamp: new Date(),
+      correlationId: event.correlationId
+    }];
+  }
+  
+  /**
+   * Handles the payment milestone completed event by marking the project's
+   * accepted bids completed once the final milestone is paid
+   * 
+   * @param event The event to handle
+   * @returns The follow-up events
+   */
+  private async handleMilestoneCompleted(event: DomainEvent): Promise<DomainEvent[]> {
+    const { projectId, bidId, milestoneId, isFinal } = event.payload as MilestoneCompletedPayload;
+    requireProjectId(event);
+    
+    // Earlier milestones do not change the bid
+    if (!isFinal) {
+      return [];
+    }
+    
+    // Bids completed by an earlier delivery of this event are reported again
+    const bids = (await this.dataInterface.findBidsByProject(projectId, [BidStatus.ACCEPTED, BidStatus.COMPLETED]))
+      .filter(bid => !bidId || bid.id === bidId);
+    
+    const events: DomainEvent[] = [];
+    
+    for (const bid of bids) {
+      const completedBid = bid.status === BidStatus.COMPLETED
+        ? bid
+        : await this.dataInterface.updateBidStatus(bid.id, BidStatus.COMPLETED, { milestoneId });
+      
+      events.push({
+        type: 'bidding:bid_completed',
+        payload: {
+          bidId: completedBid.id,
+          projectId: completedBid.projectId,
+          contractorId: completedBid.contractorId,
+          milestoneId
+        },
+        source: this.domainName,
+        timestamp: new Date(),
+        correlationId: event.correlationId
+      });
+    }
+    
+    return events;
+  }
+  
+  /**
+   * Validates events against their schemas through the guard, then publishes
+   * the valid ones if an event bus is configured
+   * The writes the events report are already made by the time they are
+   * published, so an invalid event is logged and dropped rather than failing
+   * an operation that has in fact succeeded (and would be repeated on retry).
+   * 
+   * @param events The events to publish
+   */
+  private async publishEvents(events: DomainEvent[]): Promise<void> {
+    const validEvents: DomainEvent[] = [];
+    
+    for (const event of events) {
+      const validationResult = await this.guard.validateEvent(event);
+      
+      if (validationResult.valid) {
+        validEvents.push(event);
+      } else {
+        console.error(`[BiddingAgent] Dropped invalid event ${event.type}:`, validationResult.errors.map(e => e.message));
+      }
+    }
+    
+    if (this.config.eventBus) {
+      for (const event of validEvents) {
+        await this.config.eventBus.publish(event);
+      }
+    }
+  }
+}
+
+/**
+ * Checks that an event of another domain names the project it is about
+ * 
+ * @param event The event
+ * @throws Error if the event has no project ID
+ */
+function requireProjectId(event: DomainEvent): void {
+  if (!event.payload.projectId) {
+    throw new Error(`Event ${event.type} has no projectId`);
+  }
 }
@@ -44,7 +44,8 @@ export enum BidStatus {
   REJECTED = 'rejected',
   EXPIRED = 'expired',
   WITHDRAWN = 'withdrawn',
-  COUNTERED = 'countered'
+  COUNTERED = 'countered',
+  COMPLETED = 'completed'
 }
 
 /**
@@ -56,6 +57,18 @@ export enum BidVisibility {
   GROUP = 'group'           // Visible to project owner and group members
 }
 
+/**
+ * Bidding state the bidding domain keeps for a project, set up when the
+ * project is created and kept in step with the project's deadline
+ */
+export interface BidTracking {
+  projectId: string;
+  ownerId?: string;
+  biddingDeadline?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 /**
  * Custom queries specific to the bidding domain
  */
@@ -152,6 +165,22 @@ export interface BiddingDataInterface extends BaseDataInterface<Bid>, BiddingQue
    * @returns The updated bid
    */
   addBidToGroup(bidId: string, groupBidId: string, isLeadBid?: boolean): Promise<Bid>;
+  
+  /**
+   * Finds the bid tracking of a project
+   * 
+   * @param projectId The project's ID
+   * @returns The bid tracking, or null if bidding is not tracked for the project
+   */
+  findBidTracking(projectId: string): Promise<BidTracking | null>;
+  
+  /**
+   * Creates or replaces the bid tracking of a project
+   * 
+   * @param tracking The bid tracking
+   * @returns The saved bid tracking
+   */
+  saveBidTracking(tracking: BidTracking): Promise<BidTracking>;
 }
 
 /**
@@ -277,6 +306,23 @@ export class SupabaseBiddingDataInterface extends SupabaseDataInterface<Bid> imp
     // Implementation with Supabase
     throw new Error('Method not implemented');
   }
+  
+  async findBidTracking(projectId: string): Promise<BidTracking | null> {
+    // Implementation with Supabase
+    throw new Error('Method not implemented');
+  }
+  
+  async saveBidTracking(tracking: BidTracking): Promise<BidTracking> {
+    // Implementation would upsert on the project ID:
+    // const result = await supabase
+    //   .from('bid_tracking')
+    //   .upsert(tracking, { onConflict: 'projectId' })
+    //   .select()
+    //   .single();
+    // return result.data;
+    
+    throw new Error('Method not implemented');
+  }
 }
 
 /**
@@ -0,0 +1,152 @@
+/**
+ * Bidding Domain Event Schemas
+ * 
+ * Payload schemas of the events the bidding domain publishes. Register them
+ * in the event schema registry shared by the domains so bidding events are
+ * validated before they are published. To change a payload, add the next
+ * version of the event here with an upcaster from the previous one.
+ */
+
+import { EventSchema, EventSchemaRegistry } from '../../core/events/event-schema-registry';
+
+/**
+ * Types of the events published by the bidding domain
+ */
+export const BiddingEventTypes = {
+  BID_SUBMITTED: 'bidding:bid_submitted',
+  BID_SUBMITTED_DETAILED: 'bidding:bid_submitted:detailed',
+  BID_UPDATED: 'bidding:bid_updated',
+  BID_UPDATED_DETAILED: 'bidding:bid_updated:detailed',
+  BID_WITHDRAWN: 'bidding:bid_withdrawn',
+  BID_ACCEPTED: 'bidding:bid_accepted',
+  BID_REJECTED: 'bidding:bid_rejected',
+  BID_TRACKING_INITIALIZED: 'bidding:bid_tracking_initialized',
+  BID_EXPIRATIONS_UPDATED: 'bidding:bid_expirations_updated',
+  BID_COMPLETED: 'bidding:bid_completed'
+};
+
+/**
+ * Schemas of the bidding events, every version of each type in order
+ */
+export const BIDDING_EVENT_SCHEMAS: EventSchema[] = [
+  {
+    type: BiddingEventTypes.BID_SUBMITTED,
+    version: 1,
+    description: 'A contractor submitted a bid on a project',
+    payload: {
+      bidId: { type: 'string', description: 'ID of the bid', required: true },
+      projectId: { type: 'string', description: 'ID of the project', required: true },
+      contractorId: { type: 'string', description: 'ID of the contractor', required: true },
+      amount: { type: 'number', description: 'Bid amount', required: true },
+      timelineInDays: { type: 'number', description: 'Estimated days to complete', required: false }
+    }
+  },
+  {
+    type: BiddingEventTypes.BID_SUBMITTED_DETAILED,
+    version: 1,
+    description: 'A contractor submitted a bid, with the full bid',
+    payload: {
+      bid: { type: 'object', description: 'The submitted bid', required: true }
+    }
+  },
+  {
+    type: BiddingEventTypes.BID_UPDATED,
+    version: 1,
+    description: 'A contractor updated a bid',
+    payload: {
+      bidId: { type: 'string', description: 'ID of the bid', required: true },
+      projectId: { type: 'string', description: 'ID of the project', required: true },
+      contractorId: { type: 'string', description: 'ID of the contractor', required: true },
+      updates: { type: 'array', description: 'Names of the updated fields', required: true }
+    }
+  },
+  {
+    type: BiddingEventTypes.BID_UPDATED_DETAILED,
+    version: 1,
+    description: 'A contractor updated a bid, with the bid before and after the update',
+    payload: {
+      bid: { type: 'object', description: 'The updated bid', required: true },
+      previousBid: { type: 'object', description: 'The bid before the update', required: true }
+    }
+  },
+  {
+    type: BiddingEventTypes.BID_WITHDRAWN,
+    version: 1,
+    description: 'A contractor withdrew a bid',
+    payload: {
+      bidId: { type: 'string', description: 'ID of the bid', required: true },
+      projectId: { type: 'string', description: 'ID of the project', required: true },
+      contractorId: { type: 'string', description: 'ID of the contractor', required: true }
+    }
+  },
+  {
+    type: BiddingEventTypes.BID_ACCEPTED,
+    version: 1,
+    description: 'A homeowner accepted a bid',
+    payload: {
+      bidId: { type: 'string', description: 'ID of the bid', required: true },
+      projectId: { type: 'string', description: 'ID of the project', required: true },
+      contractorId: { type: 'string', description: 'ID of the contractor', required: true },
+      amount: { type: 'number', description: 'Accepted amount', required: true },
+      timelineInDays: { type: 'number', description: 'Estimated days to complete', required: false }
+    }
+  },
+  {
+    type: BiddingEventTypes.BID_REJECTED,
+    version: 1,
+    description: 'A homeowner rejected a bid',
+    payload: {
+      bidId: { type: 'string', description: 'ID of the bid', required: true },
+      projectId: { type: 'string', description: 'ID of the project', required: true },
+      contractorId: { type: 'string', description: 'ID of the contractor', required: true },
+      reason: { type: 'string', description: 'Reason given for the rejection', required: false }
+    }
+  },
+  {
+    type: BiddingEventTypes.BID_TRACKING_INITIALIZED,
+    version: 1,
+    description: 'Bidding started being tracked for a newly created project',
+    payload: {
+      projectId: { type: 'string', description: 'ID of the project', required: true },
+      biddingDeadline: { type: 'date', description: 'When bidding on the project closes', required: false }
+    }
+  },
+  {
+    type: BiddingEventTypes.BID_EXPIRATIONS_UPDATED,
+    version: 1,
+    description: 'The open bids on a project were given the project\'s new deadline as expiration date',
+    payload: {
+      projectId: { type: 'string', description: 'ID of the project', required: true },
+      expiresAt: { type: 'date', description: 'New expiration date of the bids', required: true },
+      bidIds: { type: 'array', description: 'IDs of the updated bids', required: true }
+    }
+  },
+  {
+    type: BiddingEventTypes.BID_COMPLETED,
+    version: 1,
+    description: 'The work of an accepted bid was completed and paid for',
+    payload: {
+      bidId: { type: 'string', description: 'ID of the bid', required: true },
+      projectId: { type: 'string', description: 'ID of the project', required: true },
+      contractorId: { type: 'string', description: 'ID of the contractor', required: true },
+      milestoneId: { type: 'string', description: 'ID of the final payment milestone', required: false }
+    }
+  }
+];
+
+/**
+ * Registers the bidding event schemas, skipping types already registered
+ * (e.g., when several bidding components share one registry)
+ * 
+ * @param registry The registry to register the schemas in
+ * @returns The registry
+ */
+export function registerBiddingEventSchemas(registry: EventSchemaRegistry): EventSchemaRegistry {
+  for (const schema of BIDDING_EVENT_SCHEMAS) {
+    if ((registry.getLatestVersion(schema.type) || 0) < schema.version) {
+      registry.register('bidding', schema);
+    }
+  }
+  
+  return registry;
+}
@@ -6,10 +6,13 @@
  * the bidding domain through its intent-based interface.
  */
 
-import { EventBus, EventBusFactory } from '../../core/events/event-bus';
+import { EventBus, EventBusFactory, EventBusFactoryConfig } from '../../core/events/event-bus';
+import { EventSchemaRegistry } from '../../core/events/event-schema-registry';
 import { BiddingAgent, BiddingAgentConfig } from './bidding-agent';
 import { BiddingDataInterface, BiddingDataInterfaceFactory } from './bidding-data-interface';
+import { registerBiddingEventSchemas } from './bidding-event-schemas';
 import { BiddingGuard, BiddingGuardConfig } from './bidding-guard';
+import { createDataValidators } from '../../core/guard/param-schema';
 
 /**
  * Configuration for the bidding domain factory
@@ -43,9 +46,34 @@ export interface BiddingFactoryConfig {
   /**
    * The type of event bus to create if not sharing
    */
-  eventBusType?: 'local' | 'redis';
+  eventBusType?: 'local' | 'file' | 'redis';
+  
+  /**
+   * Configuration for the event bus created if not sharing, e.g. the log
+   * directory of a 'file' bus or the client of a 'redis' bus
+   */
+  eventBusConfig?: EventBusFactoryConfig;
+  
+  /**
+   * Event schema registry shared with the other domains
+   * The bidding event schemas are registered in it; a new registry is
+   * created if none is given
+   */
+  eventSchemas?: EventSchemaRegistry;
+  
+  /**
+   * Whether createComponents subscribes the agent to the events of other
+   * domains it reacts to (defaults to true when there is an event bus)
+   */
+  subscribeToEvents?: boolean;
 }
 
+/**
+ * Name of the agent's subscription to the events of other domains
+ * Durable event buses track the subscription's progress under this name.
+ */
+export const BIDDING_AGENT_SUBSCRIPTION = 'bidding:agent';
+
 /**
  * Factory for creating and wiring up bidding domain components
  */
@@ -69,8 +97,11 @@ export class BiddingFactory {
       config.persistenceImplementation || 'supabase'
     );
     
+    // Register the bidding event schemas
+    const eventSchemas = registerBiddingEventSchemas(config.eventSchemas || new EventSchemaRegistry());
+    
     // Create guard layer
-    const guard = new BiddingGuard(config.guardConfig);
+    const guard = new BiddingGuard({ ...config.guardConfig, eventSchemas });
     
     // Set up event bus
     let eventBus: EventBus | undefined;
@@ -79,7 +110,9 @@ export class BiddingFactory {
       eventBus = config.sharedEventBus;
     } else if (config.eventBusType) {
       eventBus = EventBusFactory.create(config.eventBusType, {
-        logEvents: true
+        logEvents: true,
+        schemaRegistry: eventSchemas,
+        ...config.eventBusConfig
       });
     }
     
@@ -93,6 +126,9 @@ export class BiddingFactory {
       }
     );
     
+    // Check intent params against the agent's intent schemas
+    guard.addDataValidators(createDataValidators(agent));
+    
     // Store as singleton if no specific config was provided
     if (Object.keys(config).length === 0) {
       this.instance = agent;
@@ -114,8 +150,11 @@ export class BiddingFactory {
       config.persistenceImplementation || 'supabase'
     );
     
+    // Register the bidding event schemas
+    const eventSchemas = registerBiddingEventSchemas(config.eventSchemas || new EventSchemaRegistry());
+    
     // Create guard layer
-    const guard = new BiddingGuard(config.guardConfig);
+    const guard = new BiddingGuard({ ...config.guardConfig, eventSchemas });
     
     // Set up event bus
     let eventBus: EventBus | undefined;
@@ -124,7 +163,9 @@ export class BiddingFactory {
       eventBus = config.sharedEventBus;
     } else if (config.eventBusType) {
       eventBus = EventBusFactory.create(config.eventBusType, {
-        logEvents: true
+        logEvents: true,
+        schemaRegistry: eventSchemas,
+        ...config.eventBusConfig
       });
     }
     
@@ -138,11 +179,28 @@ export class BiddingFactory {
       }
     );
     
+    // Check intent params against the agent's intent schemas
+    guard.addDataValidators(createDataValidators(agent));
+    
+    // Let the agent react to the events of other domains
+    let subscriptionId: string | undefined;
+    
+    if (eventBus && config.subscribeToEvents !== false) {
+      subscriptionId = eventBus.subscribe({
+        name: BIDDING_AGENT_SUBSCRIPTION,
+        eventTypes: agent.getSubscribedEventTypes(),
+        orderByCorrelation: true,
+        callback: event => agent.processEvent(event)
+      });
+    }
+    
     return {
       dataInterface,
       guard,
       agent,
-      eventBus
+      eventBus,
+      eventSchemas,
+      subscriptionId
     };
   }
 }
@@ -162,7 +220,7 @@ export class BiddingFactory {
  * });
  * 
  * // Advanced usage with explicit configuration
- * const { dataInterface, guard, agent, eventBus } = BiddingFactory.createComponents({
+ * const { dataInterface, guard, agent, eventBus, subscriptionId } = BiddingFactory.createComponents({
  *   persistenceImplementation: 'supabase',
  *   guardConfig: {
  *     strictMode: true,
@@ -174,5 +232,8 @@ export class BiddingFactory {
  *   },
  *   eventBusType: 'local'
  * });
+ * 
+ * // The agent is subscribed to the events it reacts to; unsubscribe to stop it
+ * eventBus.unsubscribe(subscriptionId);
  * ```
  */
@@ -7,8 +7,12 @@
  */
 
 import { Intent } from '../../core/domain/domain-agent';
-import { BaseGuardLayer, ValidationError } from '../../core/guard/guard-layer';
-import { PatternContext, PatternDefinition, PatternRegistry, PatternSeverity } from '../../core/patterns/pattern-registry';
+import { BaseGuardLayer, RateLimit, ValidationError } from '../../core/guard/guard-layer';
+import { RateLimitStore } from '../../core/guard/rate-limiter';
+import { EventSchemaRegistry } from '../../core/events/event-schema-registry';
+import { PatternAuditLog, PatternContext, PatternDefinition, PatternRegistry, PatternSeverity } from '../../core/patterns/pattern-registry';
+import { PatternConfigLoader, PatternConfigLoadResult, RelationCheck } from '../../core/patterns/pattern-config';
+import { PatternMetricsRecorder } from '../../core/patterns/pattern-metrics';
 import { Bid, BidStatus } from './bidding-data-interface';
 
 /**
@@ -25,6 +29,31 @@ export interface BiddingGuardConfig {
    */
   additionalPatterns?: PatternDefinition[];
   
+  /**
+   * Pattern configuration files (JSON or YAML) to enforce beyond the default patterns
+   */
+  patternFiles?: string[];
+  
+  /**
+   * Whether to reload the pattern files when they change
+   */
+  watchPatternFiles?: boolean;
+  
+  /**
+   * Relation checks available to relation_exists rules in pattern files, by relation name
+   */
+  patternRelations?: Record<string, RelationCheck>;
+  
+  /**
+   * Where to record which pattern set version validated each intent
+   */
+  patternAuditLog?: PatternAuditLog;
+  
+  /**
+   * Where to record every pattern evaluation, e.g. a PatternMetricsCollector
+   */
+  patternMetrics?: PatternMetricsRecorder;
+  
   /**
    * Whether to log validation results
    */
@@ -39,6 +68,22 @@ export interface BiddingGuardConfig {
    * Minimum bid amount allowed
    */
   minBidAmount?: number;
+  
+  /**
+   * Registry bidding events are validated against before they are published
+   */
+  eventSchemas?: EventSchemaRegistry;
+  
+  /**
+   * Rate limits to enforce (defaults to DEFAULT_BIDDING_RATE_LIMITS)
+   */
+  rateLimits?: RateLimit[];
+  
+  /**
+   * Where rate limit counters are kept; use a shared store when several
+   * processes serve the bidding domain (defaults to an in-memory store)
+   */
+  rateLimitStore?: RateLimitStore;
 }
 
 /**
@@ -93,11 +138,32 @@ export enum BiddingIntents {
   JOIN_GROUP_BID = 'joinGroupBid'
 }
 
+/**
+ * Rate limits keeping contractors from flooding projects with bids and counter-offers
+ */
+export const DEFAULT_BIDDING_RATE_LIMITS: RateLimit[] = [
+  {
+    intentName: BiddingIntents.SUBMIT_BID,
+    limit: 10,
+    duration: 60 * 60 * 1000, // 10 bids per hour
+    scope: 'user'
+  },
+  {
+    intentName: BiddingIntents.COUNTER_BID,
+    limit: 5,
+    duration: 10 * 60 * 1000, // Bursts of 5 counter-offers, refilled over 10 minutes
+    scope: 'user',
+    algorithm: 'token_bucket'
+  }
+];
+
 /**
  * Guard layer implementation for the bidding domain
  */
 export class BiddingGuard extends BaseGuardLayer {
   private patternRegistry: PatternRegistry;
+  private patternLoader: PatternConfigLoader;
+  private patternFilesLoaded: Promise<PatternConfigLoadResult[]>;
   private biddingConfig: BiddingGuardConfig;
   
   constructor(config: BiddingGuardConfig = {}) {
@@ -132,7 +198,10 @@ export class BiddingGuard extends BaseGuardLayer {
           role: 'admin',
           allowedIntents: ['*'] // All intents
         }
-      ]
+      ],
+      rateLimits: config.rateLimits || DEFAULT_BIDDING_RATE_LIMITS,
+      rateLimitStore: config.rateLimitStore,
+      eventSchemas: config.eventSchemas
     });
     
     this.biddingConfig = {
@@ -144,13 +213,64 @@ export class BiddingGuard extends BaseGuardLayer {
     };
     
     this.patternRegistry = this.initializePatternRegistry();
+    this.patternLoader = new PatternConfigLoader(this.patternRegistry, {
+      relations: this.biddingConfig.patternRelations
+    });
+    this.patternFilesLoaded = this.loadPatternFiles();
+  }
+  
+  /**
+   * Gets the registry of the patterns this guard enforces, e.g. to toggle patterns at runtime
+   */
+  getPatternRegistry(): PatternRegistry {
+    return this.patternRegistry;
+  }
+  
+  /**
+   * Waits for the pattern files to be loaded
+   * 
+   * @returns The outcome of loading each pattern file
+   */
+  whenPatternFilesLoaded(): Promise<PatternConfigLoadResult[]> {
+    return this.patternFilesLoaded;
+  }
+  
+  /**
+   * Stops watching the pattern files
+   */
+  stopWatchingPatternFiles(): void {
+    this.patternLoader.stop();
+  }
+  
+  /**
+   * Loads the configured pattern files, watching them if configured to
+   */
+  private async loadPatternFiles(): Promise<PatternConfigLoadResult[]> {
+    const results: PatternConfigLoadResult[] = [];
+    
+    for (const file of this.biddingConfig.patternFiles || []) {
+      const result = this.biddingConfig.watchPatternFiles
+        ? await this.patternLoader.watch(file)
+        : await this.patternLoader.load(file);
+      
+      if (!result.applied) {
+        console.error(`[BiddingGuard] Could not load pattern file ${file}:`, result.errors);
+      }
+      
+      results.push(result);
+    }
+    
+    return results;
   }
   
   /**
    * Initializes the pattern registry with bidding-specific patterns
    */
   private initializePatternRegistry(): PatternRegistry {
-    const registry = new PatternRegistry();
+    const registry = new PatternRegistry({
+      auditLog: this.biddingConfig.patternAuditLog,
+      metrics: this.biddingConfig.patternMetrics
+    });
     
     // Register built-in patterns
     registry.registerPattern({
@@ -266,7 +386,8 @@ export class BiddingGuard extends BaseGuardLayer {
   protected async performDomainValidation(intent: Intent): Promise<ValidationError[]> {
     const errors: ValidationError[] = [];
     
-    // Validate against patterns
+    // Validate against patterns, including those of the pattern files
+    await this.patternFilesLoaded;
     const validationSummary = await this.patternRegistry.validateIntent(intent, {
       currentDomain: 'bidding'
     });
@@ -275,9 +396,12 @@ export class BiddingGuard extends BaseGuardLayer {
       console.log(`[BiddingGuard] Pattern validation for ${intent.name}:`, validationSummary);
     }
     
-    // Convert pattern validation errors to guard validation errors
+    // Convert pattern validation errors to guard validation errors; warnings
+    // are only logged and info violations only recorded in the metrics
     for (const result of validationSummary.results) {
-      if (!result.valid) {
+      if (!result.valid && result.severity === PatternSeverity.WARNING) {
+        console.warn(`[BiddingGuard] Pattern ${result.patternId} warning for ${intent.name}: ${result.message}`);
+      } else if (!result.valid && result.severity === PatternSeverity.ERROR) {
         errors.push({
           code: `pattern_violation:${result.patternId}`,
           message: result.message || 'Pattern validation failed',
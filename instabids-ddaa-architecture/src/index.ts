@@ -8,14 +8,24 @@
 // Core types and interfaces
 export * from './core/domain/domain-agent';
 export * from './core/guard/guard-layer';
+export * from './core/guard/rate-limiter';
+export * from './core/guard/param-schema';
 export * from './core/persistence/data-interface';
 export * from './core/events/event-bus';
+export * from './core/events/event-log';
+export * from './core/events/durable-event-bus';
+export * from './core/events/redis-event-log';
+export * from './core/events/event-schema-registry';
+export * from './core/events/processed-events';
 export * from './core/patterns/pattern-registry';
+export * from './core/patterns/pattern-config';
+export * from './core/patterns/pattern-metrics';
 
 // Bidding domain exports
 export * from './domains/bidding/bidding-agent';
 export * from './domains/bidding/bidding-data-interface';
 export * from './domains/bidding/bidding-guard';
+export * from './domains/bidding/bidding-event-schemas';
 export * from './domains/bidding/bidding-factory';
 
 // Example utilities
@@ -0,0 +1,75 @@
+-- =============================================================================
+-- INSTABIDS BIDDING UNIT OF WORK SUPPORT (DDAA)
+-- =============================================================================
+-- The Supabase JS client cannot hold a database transaction open across
+-- several requests, so the bidding data interface journals every write made
+-- inside a unit of work together with the step that undoes it.
+--
+-- When a unit of work fails, the journaled compensations are sent to the
+-- function below, which applies all of them inside a single Postgres
+-- transaction: either every write is undone, or none is.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- COMPENSATING ROLLBACK
+-- -----------------------------------------------------------------------------
+
+-- Apply compensation steps in order, atomically
+--
+-- Each step is a JSON object with:
+--   action - 'delete' (undo an insert), 'restore' (undo an update or soft
+--            delete) or 'insert' (undo a hard delete)
+--   table  - schema-qualified table name, e.g. 'bidding.bids'
+--   id     - ID of the affected row
+--   data   - column values to restore or re-insert
+CREATE OR REPLACE FUNCTION bidding.apply_compensations(steps JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  step JSONB;
+  target_schema TEXT;
+  target_table TEXT;
+  column_list TEXT;
+  applied INTEGER := 0;
+BEGIN
+  FOR step IN SELECT * FROM jsonb_array_elements(steps)
+  LOOP
+    target_schema := split_part(step->>'table', '.', 1);
+    target_table := split_part(step->>'table', '.', 2);
+
+    -- Compensations may only touch tables owned by the bidding domain
+    IF target_schema <> 'bidding' THEN
+      RAISE EXCEPTION 'Compensation on table % is outside the bidding schema', step->>'table';
+    END IF;
+
+    IF step->>'action' = 'delete' THEN
+      EXECUTE format('DELETE FROM %I.%I WHERE id = $1', target_schema, target_table)
+      USING (step->>'id')::UUID;
+
+    ELSIF step->>'action' = 'restore' THEN
+      SELECT string_agg(quote_ident(key), ', ')
+      INTO column_list
+      FROM jsonb_object_keys(step->'data') AS key;
+
+      EXECUTE format(
+        'UPDATE %I.%I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::%I.%I, $1)) WHERE id = $2',
+        target_schema, target_table, column_list, column_list, target_schema, target_table
+      )
+      USING step->'data', (step->>'id')::UUID;
+
+    ELSIF step->>'action' = 'insert' THEN
+      EXECUTE format(
+        'INSERT INTO %I.%I SELECT * FROM jsonb_populate_record(NULL::%I.%I, $1)',
+        target_schema, target_table, target_schema, target_table
+      )
+      USING step->'data';
+
+    ELSE
+      RAISE EXCEPTION 'Unknown compensation action: %', step->>'action';
+    END IF;
+
+    applied := applied + 1;
+  END LOOP;
+
+  RETURN applied;
+END;
+$$ LANGUAGE plpgsql;
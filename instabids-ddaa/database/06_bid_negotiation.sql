@@ -0,0 +1,133 @@
+-- =============================================================================
+-- INSTABIDS BID NEGOTIATION SCHEMA (DDAA)
+-- =============================================================================
+-- Bids open to negotiation can be countered by the homeowner, and the
+-- contractor can answer with a counter-offer of their own. Each bid has at
+-- most one negotiation thread; every offer made in it is one round, and each
+-- round is also recorded as a bid revision so the bid's history stays in
+-- bidding.bid_revisions alongside revisions caused by bid card changes.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- BID STATUS
+-- -----------------------------------------------------------------------------
+
+-- Bids under negotiation have status 'negotiating' until the latest offer is
+-- answered
+ALTER TABLE bidding.bids DROP CONSTRAINT bids_status_check;
+ALTER TABLE bidding.bids ADD CONSTRAINT bids_status_check CHECK (status IN (
+  'submitted', 'viewed', 'shortlisted', 'negotiating', 'accepted', 'declined', 'expired', 'withdrawn'
+));
+
+ALTER TABLE bidding.bids ADD COLUMN withdrawn_at TIMESTAMPTZ;
+ALTER TABLE bidding.bids ADD COLUMN declined_at TIMESTAMPTZ;
+ALTER TABLE bidding.bids ADD COLUMN decline_reason TEXT;
+
+-- -----------------------------------------------------------------------------
+-- NEGOTIATION THREADS
+-- -----------------------------------------------------------------------------
+
+-- One negotiation thread per bid
+CREATE TABLE bidding.bid_negotiations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bid_id UUID NOT NULL UNIQUE REFERENCES bidding.bids(id) ON DELETE CASCADE,
+  bid_card_id UUID NOT NULL REFERENCES bidding.bid_cards(id) ON DELETE CASCADE,
+  homeowner_id UUID NOT NULL REFERENCES core.users(id),
+  contractor_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open', -- 'open', 'settled', 'closed'
+  current_round INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT bid_negotiations_status_check CHECK (status IN ('open', 'settled', 'closed'))
+);
+
+-- Offers made in a negotiation thread, one per round
+-- The opening offer is the bid itself, so round 1 is the first counter-offer
+CREATE TABLE bidding.bid_negotiation_offers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  negotiation_id UUID NOT NULL REFERENCES bidding.bid_negotiations(id) ON DELETE CASCADE,
+  bid_id UUID NOT NULL REFERENCES bidding.bids(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL,
+  offered_by TEXT NOT NULL, -- 'homeowner', 'contractor'
+  offered_by_user_id UUID NOT NULL REFERENCES core.users(id),
+  amount DECIMAL(10,2) NOT NULL,
+  amount_delta DECIMAL(10,2) NOT NULL DEFAULT 0, -- Change from the terms being countered
+  timeline JSONB,
+  timeline_delta JSONB, -- Changed timeline fields as { field: { previous, new } }
+  message TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'accepted', 'rejected', 'countered', 'expired', 'cancelled'
+  response_message TEXT,
+  responded_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(negotiation_id, round_number),
+  CONSTRAINT bid_negotiation_offers_offered_by_check CHECK (offered_by IN ('homeowner', 'contractor')),
+  CONSTRAINT bid_negotiation_offers_status_check CHECK (status IN (
+    'pending', 'accepted', 'rejected', 'countered', 'expired', 'cancelled'
+  ))
+);
+
+CREATE INDEX idx_bid_negotiation_offers_bid_id ON bidding.bid_negotiation_offers(bid_id);
+
+-- At most one offer per bid can be awaiting a response
+CREATE UNIQUE INDEX idx_bid_negotiation_offers_pending
+ON bidding.bid_negotiation_offers(bid_id) WHERE status = 'pending';
+
+-- -----------------------------------------------------------------------------
+-- BID REVISIONS FOR NEGOTIATION ROUNDS
+-- -----------------------------------------------------------------------------
+
+-- Revisions are caused either by a bid card revision or by a negotiation round
+ALTER TABLE bidding.bid_revisions ALTER COLUMN bid_card_revision_id DROP NOT NULL;
+ALTER TABLE bidding.bid_revisions ADD COLUMN revision_type TEXT NOT NULL DEFAULT 'bid_card_revision';
+ALTER TABLE bidding.bid_revisions ADD COLUMN negotiation_offer_id UUID
+  REFERENCES bidding.bid_negotiation_offers(id) ON DELETE CASCADE;
+ALTER TABLE bidding.bid_revisions ADD COLUMN round_number INTEGER;
+
+ALTER TABLE bidding.bid_revisions ADD CONSTRAINT bid_revisions_source_check CHECK (
+  (revision_type = 'bid_card_revision' AND bid_card_revision_id IS NOT NULL) OR
+  (revision_type = 'counter_offer' AND negotiation_offer_id IS NOT NULL)
+);
+
+-- Counter-offer revisions follow the status of their offer
+ALTER TABLE bidding.bid_revisions ADD CONSTRAINT bid_revisions_status_check CHECK (status IN (
+  'pending', 'submitted', 'no_change', 'accepted', 'rejected', 'countered', 'expired', 'cancelled'
+));
+
+-- -----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY
+-- -----------------------------------------------------------------------------
+
+ALTER TABLE bidding.bid_negotiations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE bidding.bid_negotiation_offers ENABLE ROW LEVEL SECURITY;
+
+-- Both parties to a bid can see its negotiation
+CREATE POLICY bid_negotiations_select_parties ON bidding.bid_negotiations FOR SELECT USING (
+  auth.uid() = homeowner_id OR
+  auth.uid() = (SELECT user_id FROM user_management.contractors WHERE id = contractor_id)
+);
+
+CREATE POLICY bid_negotiation_offers_select_parties ON bidding.bid_negotiation_offers FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM bidding.bid_negotiations n
+    WHERE n.id = negotiation_id AND (
+      auth.uid() = n.homeowner_id OR
+      auth.uid() = (SELECT user_id FROM user_management.contractors WHERE id = n.contractor_id)
+    )
+  )
+);
+
+-- -----------------------------------------------------------------------------
+-- DATABASE TRIGGERS
+-- -----------------------------------------------------------------------------
+
+CREATE TRIGGER update_bid_negotiations_timestamp
+BEFORE UPDATE ON bidding.bid_negotiations
+FOR EACH ROW EXECUTE FUNCTION core.update_timestamp();
+
+CREATE TRIGGER update_bid_negotiation_offers_timestamp
+BEFORE UPDATE ON bidding.bid_negotiation_offers
+FOR EACH ROW EXECUTE FUNCTION core.update_timestamp();
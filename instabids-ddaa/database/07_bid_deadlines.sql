@@ -0,0 +1,63 @@
+-- =============================================================================
+-- INSTABIDS BID DEADLINE SCHEMA (DDAA)
+-- =============================================================================
+-- The deadline scheduler closes bid cards once their bid deadline passes,
+-- expires what is left outstanding after the review period, reminds the
+-- parties ahead of deadlines and applies group bid deadline extensions.
+-- This script adds the state it needs to do each of these exactly once.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- GROUP BID EXTENSIONS
+-- -----------------------------------------------------------------------------
+
+-- Extensions are requested by the group and applied by the scheduler when the
+-- group bid's acceptance deadline is reached
+ALTER TABLE bidding.group_bid_extensions ADD COLUMN status TEXT NOT NULL DEFAULT 'pending';
+ALTER TABLE bidding.group_bid_extensions ADD COLUMN applied_at TIMESTAMPTZ;
+
+ALTER TABLE bidding.group_bid_extensions ADD CONSTRAINT group_bid_extensions_status_check CHECK (
+  status IN ('pending', 'applied', 'rejected')
+);
+
+CREATE INDEX idx_group_bid_extensions_group_bid_id ON bidding.group_bid_extensions(group_bid_id);
+
+-- Group bid members can see the extensions of their group's bid
+CREATE POLICY group_bid_extensions_select_members ON bidding.group_bid_extensions FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM bidding.group_bids gb
+    JOIN bidding.bid_group_members m ON m.bid_group_id = gb.bid_group_id
+    WHERE gb.id = group_bid_id AND m.user_id = auth.uid()
+  )
+);
+
+-- -----------------------------------------------------------------------------
+-- DEADLINE REMINDERS
+-- -----------------------------------------------------------------------------
+
+-- Reminders sent ahead of a bid deadline
+-- The deadline is part of the key so moving the deadline allows a new reminder
+CREATE TABLE bidding.bid_deadline_reminders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bid_card_id UUID NOT NULL REFERENCES bidding.bid_cards(id) ON DELETE CASCADE,
+  bid_deadline TIMESTAMPTZ NOT NULL,
+  hours_before INTEGER NOT NULL,
+  recipient_count INTEGER NOT NULL DEFAULT 0,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(bid_card_id, bid_deadline, hours_before)
+);
+
+ALTER TABLE bidding.bid_deadline_reminders ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- DEADLINE LOOKUPS
+-- -----------------------------------------------------------------------------
+
+-- The scheduler looks up bid cards by status and deadline on every run
+CREATE INDEX idx_bid_cards_status_bid_deadline ON bidding.bid_cards(status, bid_deadline);
+
+CREATE INDEX idx_group_bids_status_acceptance_deadline ON bidding.group_bids(status, acceptance_deadline);
+
+CREATE INDEX idx_bid_negotiation_offers_pending_expiry
+ON bidding.bid_negotiation_offers(expires_at) WHERE status = 'pending';
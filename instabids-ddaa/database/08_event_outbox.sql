@@ -0,0 +1,48 @@
+-- =============================================================================
+-- INSTABIDS EVENT OUTBOX (DDAA)
+-- =============================================================================
+-- Domain events are recorded in the outbox by the same unit of work as the
+-- writes they report, and published to the event bus by the outbox relay.
+-- The table lives in the bidding schema so rolling back a unit of work
+-- (bidding.apply_compensations) also removes the events it recorded.
+-- Delivery to other domains goes through the outbox; the trigger-fed
+-- events.bidding_events table remains as an audit log.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- OUTBOX
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE bidding.event_outbox (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  event_id UUID NOT NULL UNIQUE,
+  event_type TEXT NOT NULL,
+  event_version INTEGER NOT NULL,
+  domain TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  correlation_id TEXT NOT NULL,
+  causation_id TEXT,
+  user_id UUID,
+  occurred_at TIMESTAMPTZ NOT NULL,
+
+  -- Identifies the fact the event reports, so it is recorded only once
+  dedupe_key TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL DEFAULT 'staged',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT event_outbox_status_check CHECK (
+    status IN ('staged', 'pending', 'published', 'failed')
+  )
+);
+
+-- The relay looks up due entries by status and next attempt on every run
+CREATE INDEX idx_event_outbox_status_next_attempt_at ON bidding.event_outbox(status, next_attempt_at);
+
+CREATE INDEX idx_event_outbox_correlation_id ON bidding.event_outbox(correlation_id);
+
+-- Only the service role reads and writes the outbox
+ALTER TABLE bidding.event_outbox ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,74 @@
+-- =============================================================================
+-- INSTABIDS SAGAS (DDAA)
+-- =============================================================================
+-- Saga instances drive workflows that span domains, such as taking an
+-- accepted bid through contractor confirmation, the connection payment and
+-- the contact release to a project. The saga engine records each instance's
+-- progress here so workflows survive restarts and time out on schedule.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- SAGA INSTANCES
+-- -----------------------------------------------------------------------------
+
+CREATE TABLE bidding.saga_instances (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  saga_name TEXT NOT NULL,
+
+  -- Identifies the instance among the saga's instances, e.g. the acceptance ID
+  saga_key TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running',
+  current_step INTEGER NOT NULL DEFAULT 0,
+  step_name TEXT,
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  performed_steps TEXT[] NOT NULL DEFAULT '{}',
+  compensated_steps TEXT[] NOT NULL DEFAULT '{}',
+  handled_events TEXT[] NOT NULL DEFAULT '{}',
+  correlation_id TEXT NOT NULL,
+  deadline_at TIMESTAMPTZ,
+  error TEXT,
+  error_message TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+
+  UNIQUE(saga_name, saga_key),
+
+  CONSTRAINT saga_instances_status_check CHECK (
+    status IN ('running', 'waiting', 'completed', 'compensating', 'compensated', 'failed')
+  )
+);
+
+-- The engine looks up waiting instances by deadline and stalled ones by last update
+CREATE INDEX idx_saga_instances_status_deadline_at ON bidding.saga_instances(status, deadline_at);
+CREATE INDEX idx_saga_instances_status_updated_at ON bidding.saga_instances(status, updated_at);
+
+-- Only the service role reads and writes saga instances
+ALTER TABLE bidding.saga_instances ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------------------------------
+-- BID TO CONTRACT
+-- -----------------------------------------------------------------------------
+
+-- Acceptances now wait for the contractor to confirm before payment
+ALTER TABLE bidding.bid_acceptances ALTER COLUMN status SET DEFAULT 'pending_contractor_confirmation';
+ALTER TABLE bidding.bid_acceptances ADD COLUMN confirmed_at TIMESTAMPTZ;
+ALTER TABLE bidding.bid_acceptances ADD COLUMN paid_at TIMESTAMPTZ;
+ALTER TABLE bidding.bid_acceptances ADD COLUMN declined_at TIMESTAMPTZ;
+ALTER TABLE bidding.bid_acceptances ADD COLUMN decline_reason TEXT;
+ALTER TABLE bidding.bid_acceptances ADD COLUMN revoked_at TIMESTAMPTZ;
+ALTER TABLE bidding.bid_acceptances ADD COLUMN revoke_reason TEXT;
+ALTER TABLE bidding.bid_acceptances ADD CONSTRAINT bid_acceptances_status_check CHECK (status IN (
+  'pending_contractor_confirmation', 'pending_payment', 'paid', 'declined', 'expired', 'cancelled'
+));
+
+-- Contacts are released once per acceptance
+ALTER TABLE bidding.contact_releases ADD CONSTRAINT contact_releases_bid_acceptance_id_key UNIQUE (bid_acceptance_id);
+
+-- The project set up for an awarded bid card once work starts
+ALTER TABLE bidding.bid_cards ADD COLUMN project_id UUID;
+
+-- The bidding data interface resolves tables in the bidding schema; the
+-- payment domain owns the connection payments, so expose them through a view
+CREATE VIEW bidding.connection_payments AS
+  SELECT * FROM payment.connection_payments;
@@ -0,0 +1,9 @@
+-- =============================================================================
+-- INSTABIDS BID PRIVATE NOTES (DDAA)
+-- =============================================================================
+-- Contractors can keep private notes on their bids. The bidding guard layer
+-- removes them from every result shown to anyone but the bid's contractor,
+-- so homeowners never see them and neither do competing contractors.
+-- =============================================================================
+
+ALTER TABLE bidding.bids ADD COLUMN private_notes TEXT;
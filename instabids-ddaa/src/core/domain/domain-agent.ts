@@ -16,7 +16,11 @@
 
 import { GuardLayer } from '../guard/guard-layer';
 import { DataInterface } from '../persistence/data-interface';
-import { EventEmitter } from 'events';
+import { IntentRegistry, OperationDescription } from './intent-registry';
+import { TransactionalOutbox } from '../persistence/outbox';
+import { EventBus, EventDefinition, DomainEvent, InMemoryEventBus, createEvent } from '../events/event-bus';
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Result of a domain operation
@@ -46,24 +50,40 @@ export interface DomainAgentContext {
   userProfiles?: string[];
   sessionId?: string;
   requestId?: string;
+  
+  /**
+   * ID tying together the events of one user action (defaults to the request ID)
+   */
+  correlationId?: string;
+  
+  /**
+   * ID of the event this agent is reacting to, if any
+   */
+  causationId?: string;
   ip?: string;
   timestamp: number;
   meta?: Record<string, any>;
 }
 
+/**
+ * Correlation ID of the intent being fulfilled, so events published while
+ * handling it share one ID even when an agent handles several intents at once
+ */
+const intentScope = new AsyncLocalStorage<{ correlationId: string }>();
+
 /**
  * Abstract base class for all domain agents
  */
 export abstract class DomainAgent {
   /**
-   * Domain-specific event emitter for intra-domain events
+   * Domain name - must be overridden by implementing classes
    */
-  protected events: EventEmitter;
+  protected abstract readonly domain: string;
   
   /**
-   * Domain name - must be overridden by implementing classes
+   * Operations supported by this agent, registered by implementing classes
    */
-  protected abstract readonly domain: string;
+  protected readonly intents: IntentRegistry = new IntentRegistry();
   
   /**
    * Constructor for domain agent
@@ -71,17 +91,16 @@ export abstract class DomainAgent {
    * @param guardLayer Domain-specific guard layer
    * @param dataInterface Domain-specific persistence layer
    * @param context Context containing user and session info
+   * @param eventBus Bus domain events are published to, shared with other agents
+   * @param outbox Outbox domain events are recorded in, if they are published through one
    */
   constructor(
     protected guardLayer: GuardLayer,
     protected dataInterface: DataInterface,
-    protected context: DomainAgentContext
-  ) {
-    this.events = new EventEmitter();
-    
-    // Set max listeners to avoid warnings for complex domains
-    this.events.setMaxListeners(50);
-  }
+    protected context: DomainAgentContext,
+    protected eventBus: EventBus = new InMemoryEventBus(),
+    protected outbox?: TransactionalOutbox
+  ) {}
   
   /**
    * Main entry point for the domain agent - interprets and fulfills intents
@@ -93,6 +112,26 @@ export abstract class DomainAgent {
     intent: DomainIntent
   ): Promise<DomainOperationResult> {
     try {
+      if (!this.intents.has(intent.operation)) {
+        return {
+          success: false,
+          error: 'UNKNOWN_OPERATION',
+          message: `Unknown operation: ${intent.operation}`
+        };
+      }
+      
+      // Validate the intent parameters against the operation's schema
+      const paramsResult = this.intents.validate(intent);
+      
+      if (!paramsResult.valid) {
+        return {
+          success: false,
+          error: 'VALIDATION_ERROR',
+          message: `Invalid parameters for ${intent.operation}: ${paramsResult.errors.map(e => e.path).join(', ')}`,
+          meta: { errors: paramsResult.errors }
+        };
+      }
+      
       // Validate the intent through the guard layer
       const validationResult = await this.guardLayer.validateIntent(
         intent,
@@ -104,20 +143,48 @@ export abstract class DomainAgent {
           success: false,
           error: 'VALIDATION_ERROR',
           message: validationResult.message || 'Invalid intent',
-          meta: validationResult.meta
+          meta: { ...validationResult.meta, violations: validationResult.violations || [] }
+        };
+      }
+      
+      // Authorize the user for the resource the operation touches
+      const access = this.intents.resolveAccess(intent);
+      
+      if (access && !(await this.guardLayer.validateAccess(access.resource, access.action, this.context))) {
+        return {
+          success: false,
+          error: 'PERMISSION_DENIED',
+          message: `You do not have permission to ${access.action} ${access.resource}`,
+          meta: access
         };
       }
       
       // Execute the specific operation for this intent
-      const result = await this.executeIntent(intent);
+      const correlationId = this.context.correlationId || this.context.requestId || uuidv4();
+      const result = await intentScope.run({ correlationId }, () => this.executeIntent(intent));
       
       // Run post-execution hooks if any
-      const finalResult = await this.guardLayer.applyPostExecutionHooks(
+      const hookedResult = await this.guardLayer.applyPostExecutionHooks(
         intent,
         result,
         this.context
       );
       
+      // Hide the fields of the returned records the user may not see
+      const finalResult = await this.guardLayer.redactResult(
+        hookedResult,
+        this.intents.get(intent.operation)?.output,
+        this.context
+      );
+      
+      // Surface non-blocking violations (warnings and info) alongside the result
+      if (validationResult.violations && validationResult.violations.length > 0) {
+        return {
+          ...finalResult,
+          meta: { ...finalResult.meta, violations: validationResult.violations }
+        };
+      }
+      
       return finalResult;
     } catch (error) {
       console.error(`Error in ${this.domain} domain agent:`, error);
@@ -131,14 +198,61 @@ export abstract class DomainAgent {
   
   /**
    * Execute the specific operation for the intent
-   * This must be implemented by each domain agent
+   * Dispatches to the handler registered for the operation
    * 
    * @param intent Domain-specific intent to execute
    * @returns Result of the operation
    */
-  protected abstract executeIntent(
+  protected async executeIntent(
     intent: DomainIntent
-  ): Promise<DomainOperationResult>;
+  ): Promise<DomainOperationResult> {
+    const definition = this.intents.get(intent.operation);
+    
+    if (!definition) {
+      return {
+        success: false,
+        error: 'UNKNOWN_OPERATION',
+        message: `Unknown operation: ${intent.operation}`
+      };
+    }
+    
+    return definition.handler(intent.params);
+  }
+  
+  /**
+   * Publish a domain event on the event bus
+   * Events published while fulfilling an intent carry that intent's correlation ID.
+   * Publish inside the transaction that makes the writes the event reports: the
+   * event goes out only once that unit of work commits. With an outbox, it is
+   * recorded in the unit of work and published by the outbox relay.
+   * 
+   * @param definition Definition of the event
+   * @param payload Event payload
+   * @param dedupeKey Key identifying the fact the event reports among events of its type,
+   *   e.g. the ID of the entity that changed, so the outbox records it only once
+   * @returns The published event
+   */
+  protected async publishEvent<P>(
+    definition: EventDefinition<P>,
+    payload: P,
+    dedupeKey?: string
+  ): Promise<DomainEvent<P>> {
+    const event = createEvent(definition, payload, {
+      domain: this.domain,
+      correlationId: intentScope.getStore()?.correlationId || this.context.correlationId || this.context.requestId,
+      causationId: this.context.causationId,
+      userId: this.context.userId
+    });
+    
+    if (this.outbox) {
+      await this.outbox.record(event, dedupeKey ? `${definition.type}:${dedupeKey}` : event.id);
+    } else {
+      // Without an outbox, subscribers still only hear about writes that were kept
+      await this.dataInterface.afterCommit(() => this.eventBus.publish(event));
+    }
+    
+    return event;
+  }
   
   /**
    * Get the list of supported operations in this domain
@@ -146,21 +260,14 @@ export abstract class DomainAgent {
    * 
    * @returns Array of supported operations with descriptions
    */
-  public abstract getSupportedOperations(): Array<{
-    operation: string;
-    description: string;
-    parameters: Array<{
-      name: string;
-      type: string;
-      description: string;
-      required: boolean;
-    }>;
-  }>;
+  public getSupportedOperations(): OperationDescription[] {
+    return this.intents.describe();
+  }
   
   /**
    * Close any resources held by this domain agent
    */
   public async close(): Promise<void> {
-    this.events.removeAllListeners();
+    // The event bus is shared with other agents, so it is left open
   }
 }
@@ -0,0 +1,107 @@
+import { defineIntent, IntentRegistry } from './intent-registry';
+
+const updateBidCard = defineIntent({
+  operation: 'update_bid_card',
+  description: 'Update a bid card',
+  access: { resource: 'bid_cards', action: 'update', idParam: 'id' },
+  params: {
+    id: { type: 'string', description: 'Bid card ID', required: true },
+    status: { type: 'string', description: 'New status', enum: ['open', 'closed'] },
+    budget: { type: 'number', description: 'Budget' },
+    bid_deadline: { type: 'date', description: 'Bidding deadline' },
+    location: {
+      type: 'object',
+      description: 'Project location',
+      properties: {
+        city: { type: 'string', description: 'City', required: true }
+      }
+    },
+    tags: { type: 'array', description: 'Tags', items: { type: 'string', description: 'Tag' } }
+  }
+});
+
+const listBidCards = defineIntent({
+  operation: 'list_bid_cards',
+  description: 'List bid cards',
+  access: { resource: 'bid_cards', action: 'read' },
+  params: {}
+});
+
+describe('IntentRegistry', () => {
+  let registry: IntentRegistry;
+  
+  beforeEach(() => {
+    registry = new IntentRegistry();
+    registry.register(updateBidCard, async () => ({ success: true }));
+    registry.register(listBidCards, async () => ({ success: true }));
+    registry.register(defineIntent({ operation: 'ping', description: 'Ping', params: {} }), async () => ({ success: true }));
+  });
+  
+  it('accepts parameters matching the schema', () => {
+    const result = registry.validate({
+      operation: 'update_bid_card',
+      params: {
+        id: 'card-1',
+        status: 'closed',
+        budget: 5000,
+        bid_deadline: '2026-03-01T12:00:00Z',
+        location: { city: 'Austin' },
+        tags: ['kitchen']
+      }
+    });
+    
+    expect(result).toEqual({ valid: true, errors: [] });
+  });
+  
+  it('reports every invalid field with its path and code', () => {
+    const result = registry.validate({
+      operation: 'update_bid_card',
+      params: {
+        status: 'archived',
+        budget: Number.NaN,
+        bid_deadline: 'not a date',
+        location: {},
+        tags: ['kitchen', 7, null],
+        color: 'blue'
+      }
+    });
+    
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(error => [error.path, error.code])).toEqual([
+      ['id', 'required'],
+      ['status', 'invalid_enum'],
+      ['budget', 'invalid_type'],
+      ['bid_deadline', 'invalid_type'],
+      ['location.city', 'required'],
+      ['tags[1]', 'invalid_type'],
+      ['tags[2]', 'required'],
+      ['color', 'unknown_param']
+    ]);
+  });
+  
+  it('rejects params that are not an object', () => {
+    const result = registry.validate({ operation: 'update_bid_card', params: ['card-1'] as any });
+    
+    expect(result.errors).toEqual([{ path: 'params', code: 'invalid_type', message: 'params must be an object' }]);
+  });
+  
+  it('throws for unknown operations and duplicate registrations', () => {
+    expect(() => registry.validate({ operation: 'delete_everything', params: {} })).toThrow('Unknown operation');
+    expect(() => registry.register(listBidCards, async () => ({ success: true }))).toThrow('already registered');
+  });
+  
+  it('resolves access against the resource instance named by the ID parameter', () => {
+    expect(registry.resolveAccess({ operation: 'update_bid_card', params: { id: 'card-1' } }))
+      .toEqual({ resource: 'bid_cards:card-1', action: 'update' });
+  });
+  
+  it('resolves access against the collection when no ID parameter is declared', () => {
+    expect(registry.resolveAccess({ operation: 'list_bid_cards', params: {} }))
+      .toEqual({ resource: 'bid_cards', action: 'read' });
+  });
+  
+  it('resolves no access for operations without an access rule', () => {
+    expect(registry.resolveAccess({ operation: 'ping', params: {} })).toBeUndefined();
+    expect(registry.resolveAccess({ operation: 'delete_everything', params: {} })).toBeUndefined();
+  });
+});
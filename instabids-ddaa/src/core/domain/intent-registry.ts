@@ -0,0 +1,448 @@
+/**
+ * Intent Registry - Typed definitions of the operations a domain agent supports
+ * 
+ * Each operation declares its parameter schema exactly once. The same
+ * definition is used to validate incoming intents, to type the parameters
+ * handed to the operation's handler, and to describe the operation for
+ * discovery and documentation, so the three can never drift apart.
+ */
+
+import { DomainIntent, DomainOperationResult } from './domain-agent';
+
+/**
+ * Supported parameter types
+ * - date: ISO 8601 string or Date instance
+ */
+export type ParamType = 'string' | 'number' | 'boolean' | 'date' | 'object' | 'array';
+
+/**
+ * Schema for a single intent parameter
+ */
+export interface ParamSchema {
+  type: ParamType;
+  description: string;
+  required?: boolean;
+  
+  /**
+   * Allowed values, for string and number parameters
+   */
+  enum?: readonly (string | number)[];
+  
+  /**
+   * Nested parameters, for object parameters
+   * Objects without properties are free-form
+   */
+  properties?: ParamSchemaMap;
+  
+  /**
+   * Element schema, for array parameters
+   */
+  items?: ParamSchema;
+}
+
+/**
+ * Parameter schemas keyed by parameter name
+ */
+export type ParamSchemaMap = Record<string, ParamSchema>;
+
+/**
+ * TypeScript type of a value described by a parameter schema
+ */
+export type ParamValue<S extends ParamSchema> =
+  S extends { enum: readonly (infer E)[] } ? E :
+  S['type'] extends 'string' ? string :
+  S['type'] extends 'number' ? number :
+  S['type'] extends 'boolean' ? boolean :
+  S['type'] extends 'date' ? string | Date :
+  S['type'] extends 'array' ? (S extends { items: infer I extends ParamSchema } ? ParamValue<I>[] : any[]) :
+  S['type'] extends 'object' ? (S extends { properties: infer P extends ParamSchemaMap } ? InferParams<P> : Record<string, any>) :
+  unknown;
+
+/**
+ * Names of the required parameters in a schema map
+ */
+type RequiredParamNames<M extends ParamSchemaMap> = {
+  [K in keyof M]: M[K] extends { required: true } ? K : never
+}[keyof M];
+
+/**
+ * TypeScript type of the parameters described by a schema map
+ */
+export type InferParams<M extends ParamSchemaMap> =
+  { [K in RequiredParamNames<M>]: ParamValue<M[K]> } &
+  { [K in Exclude<keyof M, RequiredParamNames<M>>]?: ParamValue<M[K]> };
+
+/**
+ * Resource and action an operation is authorized against
+ */
+export interface IntentAccess {
+  /**
+   * Resource type, e.g. 'bid_cards'
+   */
+  resource: string;
+  
+  /**
+   * Action performed on the resource, e.g. 'read' or 'update'
+   */
+  action: string;
+  
+  /**
+   * Parameter holding the ID of the resource instance
+   * Operations without one are authorized against the whole collection
+   */
+  idParam?: string;
+}
+
+/**
+ * Records of an entity in an operation's result, redacted by the guard layer
+ */
+export interface IntentOutput {
+  /**
+   * Entity of the records, e.g. 'bids'
+   */
+  entity: string;
+  
+  /**
+   * Dotted path of the records in the result data, e.g. 'items'
+   * The data itself when omitted; lists are redacted record by record
+   */
+  path?: string;
+}
+
+/**
+ * Declarative description of an operation and its parameters
+ */
+export interface IntentSpec<M extends ParamSchemaMap = ParamSchemaMap> {
+  operation: string;
+  description: string;
+  params: M;
+  access?: IntentAccess;
+  
+  /**
+   * Records the operation returns, for field redaction
+   */
+  output?: IntentOutput[];
+}
+
+/**
+ * TypeScript type of the parameters of an operation specification
+ */
+export type IntentParams<I extends IntentSpec<any>> = I extends IntentSpec<infer M> ? InferParams<M> : never;
+
+/**
+ * Handler that fulfills a validated intent
+ */
+export type IntentHandler<M extends ParamSchemaMap = ParamSchemaMap> = (
+  params: InferParams<M>
+) => Promise<DomainOperationResult>;
+
+/**
+ * An operation specification bound to the handler that fulfills it
+ */
+export interface IntentDefinition<M extends ParamSchemaMap = ParamSchemaMap> extends IntentSpec<M> {
+  handler: IntentHandler<M>;
+}
+
+/**
+ * A single parameter validation failure
+ */
+export interface ParamValidationError {
+  /**
+   * Path to the offending field, e.g. 'location.city' or 'value_propositions[2]'
+   */
+  path: string;
+  code: 'required' | 'invalid_type' | 'invalid_enum' | 'unknown_param';
+  message: string;
+}
+
+/**
+ * Result of validating intent parameters against an operation's schema
+ */
+export interface ParamValidationResult {
+  valid: boolean;
+  errors: ParamValidationError[];
+}
+
+/**
+ * Description of a supported operation, for discovery and documentation
+ */
+export interface OperationDescription {
+  operation: string;
+  description: string;
+  parameters: Array<{
+    name: string;
+    type: string;
+    description: string;
+    required: boolean;
+    enum?: Array<string | number>;
+  }>;
+}
+
+/**
+ * Declare an operation specification, preserving literal types so the
+ * handler's parameter type can be inferred from the schema
+ * 
+ * @param spec Operation specification
+ * @returns The same specification
+ */
+export function defineIntent<const M extends ParamSchemaMap>(spec: IntentSpec<M>): IntentSpec<M> {
+  return spec;
+}
+
+/**
+ * Registry of the operations supported by a domain agent
+ */
+export class IntentRegistry {
+  /**
+   * Registered operations keyed by operation name
+   */
+  private definitions: Map<string, IntentDefinition<any>> = new Map();
+  
+  /**
+   * Register an operation with the handler that fulfills it
+   * 
+   * @param spec Operation specification
+   * @param handler Handler receiving the validated parameters
+   */
+  public register<M extends ParamSchemaMap>(spec: IntentSpec<M>, handler: IntentHandler<M>): void {
+    if (this.definitions.has(spec.operation)) {
+      throw new Error(`Operation '${spec.operation}' is already registered`);
+    }
+    
+    this.definitions.set(spec.operation, { ...spec, handler });
+  }
+  
+  /**
+   * Get the definition of an operation
+   * 
+   * @param operation Operation name
+   * @returns The definition or undefined if the operation is not registered
+   */
+  public get(operation: string): IntentDefinition<any> | undefined {
+    return this.definitions.get(operation);
+  }
+  
+  /**
+   * Check whether an operation is registered
+   * 
+   * @param operation Operation name
+   * @returns Whether the operation is registered
+   */
+  public has(operation: string): boolean {
+    return this.definitions.has(operation);
+  }
+  
+  /**
+   * Validate an intent's parameters against its operation's schema
+   * 
+   * @param intent Intent to validate
+   * @returns Validation result listing every invalid field
+   */
+  public validate(intent: DomainIntent): ParamValidationResult {
+    const definition = this.definitions.get(intent.operation);
+    
+    if (!definition) {
+      throw new Error(`Unknown operation: ${intent.operation}`);
+    }
+    
+    const errors: ParamValidationError[] = [];
+    
+    if (!isPlainObject(intent.params)) {
+      errors.push({ path: 'params', code: 'invalid_type', message: 'params must be an object' });
+    } else {
+      validateMap(definition.params, intent.params, '', errors);
+    }
+    
+    return {
+      valid: errors.length === 0,
+      errors
+    };
+  }
+  
+  /**
+   * Resolve the resource and action an intent must be authorized for
+   * Instance resources are identified as '<resource>:<id>', e.g. 'bid_cards:123'
+   * 
+   * @param intent Intent to resolve
+   * @returns Resource and action, or undefined if the operation declares no access rule
+   */
+  public resolveAccess(intent: DomainIntent): { resource: string; action: string } | undefined {
+    const access = this.definitions.get(intent.operation)?.access;
+    
+    if (!access) {
+      return undefined;
+    }
+    
+    return {
+      resource: access.idParam ? `${access.resource}:${intent.params[access.idParam]}` : access.resource,
+      action: access.action
+    };
+  }
+  
+  /**
+   * Describe every registered operation
+   * Nested object properties are listed with dotted names, e.g. 'timeline.start'
+   * 
+   * @returns Array of operation descriptions
+   */
+  public describe(): OperationDescription[] {
+    return Array.from(this.definitions.values()).map(definition => ({
+      operation: definition.operation,
+      description: definition.description,
+      parameters: describeMap(definition.params, '', true)
+    }));
+  }
+}
+
+/**
+ * Validate values against a schema map, collecting errors
+ * 
+ * @param schemas Parameter schemas
+ * @param values Values to validate
+ * @param prefix Path of the enclosing object
+ * @param errors Collected errors
+ */
+function validateMap(
+  schemas: ParamSchemaMap,
+  values: Record<string, any>,
+  prefix: string,
+  errors: ParamValidationError[]
+): void {
+  for (const [name, schema] of Object.entries(schemas)) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    const value = values[name];
+    
+    if (value === undefined || value === null) {
+      if (schema.required) {
+        errors.push({ path, code: 'required', message: `${path} is required` });
+      }
+      continue;
+    }
+    
+    validateValue(schema, value, path, errors);
+  }
+  
+  for (const name of Object.keys(values)) {
+    if (!(name in schemas)) {
+      const path = prefix ? `${prefix}.${name}` : name;
+      errors.push({ path, code: 'unknown_param', message: `${path} is not a supported parameter` });
+    }
+  }
+}
+
+/**
+ * Validate a single value against its schema, collecting errors
+ * 
+ * @param schema Parameter schema
+ * @param value Value to validate (never null or undefined)
+ * @param path Path of the value
+ * @param errors Collected errors
+ */
+function validateValue(
+  schema: ParamSchema,
+  value: any,
+  path: string,
+  errors: ParamValidationError[]
+): void {
+  if (!matchesType(schema.type, value)) {
+    errors.push({ path, code: 'invalid_type', message: `${path} must be of type ${schema.type}` });
+    return;
+  }
+  
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({
+      path,
+      code: 'invalid_enum',
+      message: `${path} must be one of: ${schema.enum.join(', ')}`
+    });
+    return;
+  }
+  
+  if (schema.type === 'object' && schema.properties) {
+    validateMap(schema.properties, value, path, errors);
+  }
+  
+  if (schema.type === 'array' && schema.items) {
+    const items = schema.items;
+    value.forEach((item: any, index: number) => {
+      const itemPath = `${path}[${index}]`;
+      
+      if (item === undefined || item === null) {
+        errors.push({ path: itemPath, code: 'required', message: `${itemPath} is required` });
+      } else {
+        validateValue(items, item, itemPath, errors);
+      }
+    });
+  }
+}
+
+/**
+ * Check whether a value has the given parameter type
+ * 
+ * @param type Parameter type
+ * @param value Value to check
+ * @returns Whether the value matches
+ */
+function matchesType(type: ParamType, value: any): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'date':
+      return (value instanceof Date || typeof value === 'string') && !isNaN(new Date(value).getTime());
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check whether a value is a plain object (not an array, date or null)
+ * 
+ * @param value Value to check
+ * @returns Whether the value is a plain object
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+/**
+ * Flatten a schema map into parameter descriptions
+ * 
+ * @param schemas Parameter schemas
+ * @param prefix Path of the enclosing object
+ * @param parentRequired Whether the enclosing object is required
+ * @returns Parameter descriptions
+ */
+function describeMap(
+  schemas: ParamSchemaMap,
+  prefix: string,
+  parentRequired: boolean
+): OperationDescription['parameters'] {
+  const parameters: OperationDescription['parameters'] = [];
+  
+  for (const [name, schema] of Object.entries(schemas)) {
+    const path = prefix ? `${prefix}.${name}` : name;
+    const required = parentRequired && !!schema.required;
+    
+    parameters.push({
+      name: path,
+      type: schema.type === 'array' && schema.items ? `array<${schema.items.type}>` : schema.type,
+      description: schema.description,
+      required,
+      ...(schema.enum ? { enum: [...schema.enum] } : {})
+    });
+    
+    if (schema.type === 'object' && schema.properties) {
+      parameters.push(...describeMap(schema.properties, path, required));
+    }
+  }
+  
+  return parameters;
+}
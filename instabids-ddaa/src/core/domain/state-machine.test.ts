@@ -0,0 +1,88 @@
+import { StateMachine, defineStateMachine } from './state-machine';
+
+describe('StateMachine', () => {
+  const orderMachine = defineStateMachine({
+    entity: 'orders',
+    label: 'Order',
+    states: ['open', 'paid', 'shipped', 'cancelled'],
+    initial: 'open',
+    transitions: [
+      {
+        name: 'pay',
+        description: 'be paid',
+        from: ['open'],
+        to: 'paid',
+        guard: (order, data) => data.amount >= order.total ? undefined : {
+          error: 'INSUFFICIENT_PAYMENT',
+          message: 'The payment does not cover the order'
+        },
+        effects: (order, data) => ({ paid_amount: data.amount })
+      },
+      {
+        name: 'ship',
+        description: 'be shipped',
+        from: ['paid'],
+        to: 'shipped'
+      },
+      {
+        name: 'annotate',
+        description: 'be annotated',
+        from: ['open', 'paid', 'shipped']
+      },
+      {
+        name: 'cancel',
+        description: 'be cancelled',
+        from: ['open', 'paid'],
+        to: 'cancelled'
+      }
+    ]
+  });
+  
+  const order = { id: 'order-1', status: 'open', total: 100 };
+  
+  it('rejects transitions using unknown states', () => {
+    expect(() => new StateMachine({
+      entity: 'orders',
+      label: 'Order',
+      states: ['open'],
+      initial: 'open',
+      transitions: [{ name: 'close', description: 'be closed', from: ['open'], to: 'closed' }]
+    })).toThrow("Transition 'close' of orders uses unknown states: closed");
+  });
+  
+  it('blocks a transition from a state it does not start from', () => {
+    expect(orderMachine.check(order, 'ship')).toEqual({
+      error: 'INVALID_STATUS',
+      message: "Order with status 'open' cannot be shipped"
+    });
+  });
+  
+  it('blocks a transition its guard rejects', () => {
+    expect(orderMachine.check(order, 'pay', { amount: 50 })).toMatchObject({ error: 'INSUFFICIENT_PAYMENT' });
+    expect(orderMachine.check(order, 'pay', { amount: 100 })).toBeUndefined();
+  });
+  
+  it('builds the status change with the effects of a transition', () => {
+    expect(orderMachine.apply(order, 'pay', { amount: 120 })).toEqual({
+      status: 'paid',
+      paid_amount: 120,
+      updated_at: expect.any(Date)
+    });
+  });
+  
+  it('leaves the status alone for a transition without a target state', () => {
+    expect(orderMachine.apply(order, 'annotate')).toEqual({ updated_at: expect.any(Date) });
+  });
+  
+  it('throws when applying a blocked or unknown transition', () => {
+    expect(() => orderMachine.apply(order, 'ship')).toThrow("Order with status 'open' cannot be shipped");
+    expect(() => orderMachine.apply(order, 'refund')).toThrow("Unknown transition 'refund' for orders");
+  });
+  
+  it('lists the transitions allowed for an entity', () => {
+    expect(orderMachine.getAvailableTransitions(order, { amount: 100 }).map(transition => transition.name))
+      .toEqual(['pay', 'annotate', 'cancel']);
+    expect(orderMachine.getAvailableTransitions({ ...order, status: 'shipped' }).map(transition => transition.name))
+      .toEqual(['annotate']);
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * State Machine - Declarative lifecycle definitions for domain entities
+ * 
+ * A state machine lists the states an entity can be in and the named
+ * transitions between them. Each transition declares the states it may start
+ * from, the state it leads to, an optional guard that can block it and the
+ * side effects (additional field changes) applied with it. Domain agents
+ * check transitions before changing an entity and apply them to build the
+ * update, so the legal lifecycle lives in one place.
+ */
+
+/**
+ * Reason a transition is not allowed
+ */
+export interface TransitionBlock {
+  error: string;
+  message: string;
+}
+
+/**
+ * A named transition between states
+ */
+export interface Transition<S extends string = string> {
+  name: string;
+  
+  /**
+   * Verb phrase used in messages, e.g. 'receive bids'
+   */
+  description: string;
+  
+  /**
+   * States the transition may start from
+   */
+  from: readonly S[];
+  
+  /**
+   * State the transition leads to (omitted when the status is unchanged)
+   */
+  to?: S;
+  
+  /**
+   * Intent operation that performs this transition on behalf of a user
+   */
+  operation?: string;
+  
+  /**
+   * Additional condition the entity must satisfy
+   * Receives data the caller loaded for the check, e.g. a related entity
+   */
+  guard?: (entity: Record<string, any>, data: Record<string, any>) => TransitionBlock | undefined;
+  
+  /**
+   * Field changes applied together with the status change
+   */
+  effects?: (entity: Record<string, any>, data: Record<string, any>) => Record<string, any>;
+}
+
+/**
+ * Definition of an entity lifecycle
+ */
+export interface StateMachineDefinition<S extends string = string> {
+  /**
+   * Table holding the entity, e.g. 'bid_cards'
+   */
+  entity: string;
+  
+  /**
+   * Human-readable entity name used in messages, e.g. 'Bid card'
+   */
+  label: string;
+  
+  states: readonly S[];
+  initial: S;
+  transitions: Transition<S>[];
+}
+
+/**
+ * Executable lifecycle of an entity
+ */
+export class StateMachine<S extends string = string> {
+  /**
+   * Transitions keyed by name
+   */
+  private transitions: Map<string, Transition<S>>;
+  
+  /**
+   * Constructor for a state machine
+   * 
+   * @param definition Lifecycle definition
+   */
+  constructor(public readonly definition: StateMachineDefinition<S>) {
+    this.transitions = new Map();
+    
+    for (const transition of definition.transitions) {
+      const unknownStates = [...transition.from, ...(transition.to ? [transition.to] : [])]
+        .filter(state => !definition.states.includes(state));
+      
+      if (unknownStates.length > 0) {
+        throw new Error(
+          `Transition '${transition.name}' of ${definition.entity} uses unknown states: ${unknownStates.join(', ')}`
+        );
+      }
+      
+      this.transitions.set(transition.name, transition);
+    }
+  }
+  
+  /**
+   * State new entities are created in
+   */
+  public get initial(): S {
+    return this.definition.initial;
+  }
+  
+  /**
+   * Get a transition by name
+   * 
+   * @param name Transition name
+   * @returns The transition
+   */
+  public getTransition(name: string): Transition<S> {
+    const transition = this.transitions.get(name);
+    
+    if (!transition) {
+      throw new Error(`Unknown transition '${name}' for ${this.definition.entity}`);
+    }
+    
+    return transition;
+  }
+  
+  /**
+   * Check whether a transition is allowed for an entity
+   * 
+   * @param entity Entity in its current state
+   * @param name Transition name
+   * @param data Data the transition guard needs
+   * @returns Why the transition is blocked, or undefined if it is allowed
+   */
+  public check(
+    entity: Record<string, any>,
+    name: string,
+    data: Record<string, any> = {}
+  ): TransitionBlock | undefined {
+    const transition = this.getTransition(name);
+    
+    if (!transition.from.includes(entity.status)) {
+      return {
+        error: 'INVALID_STATUS',
+        message: `${this.definition.label} with status '${entity.status}' cannot ${transition.description}`
+      };
+    }
+    
+    return transition.guard ? transition.guard(entity, data) : undefined;
+  }
+  
+  /**
+   * Build the changes that perform a transition
+   * 
+   * @param entity Entity in its current state
+   * @param name Transition name
+   * @param data Data the transition guard and effects need
+   * @returns Fields to update on the entity
+   * @throws Error if the transition is not allowed
+   */
+  public apply(
+    entity: Record<string, any>,
+    name: string,
+    data: Record<string, any> = {}
+  ): Record<string, any> {
+    const block = this.check(entity, name, data);
+    
+    if (block) {
+      throw new Error(block.message);
+    }
+    
+    const transition = this.getTransition(name);
+    
+    return {
+      ...(transition.to ? { status: transition.to } : {}),
+      ...(transition.effects ? transition.effects(entity, data) : {}),
+      updated_at: new Date()
+    };
+  }
+  
+  /**
+   * List the transitions currently allowed for an entity
+   * 
+   * @param entity Entity in its current state
+   * @param data Data the transition guards need
+   * @returns Allowed transitions
+   */
+  public getAvailableTransitions(
+    entity: Record<string, any>,
+    data: Record<string, any> = {}
+  ): Transition<S>[] {
+    return this.definition.transitions.filter(transition => !this.check(entity, transition.name, data));
+  }
+}
+
+/**
+ * Create a state machine, inferring its states from the definition
+ * 
+ * @param definition Lifecycle definition
+ * @returns State machine
+ */
+export function defineStateMachine<const S extends string>(definition: StateMachineDefinition<S>): StateMachine<S> {
+  return new StateMachine(definition);
+}
@@ -0,0 +1,99 @@
+import { createEvent, defineEvent, DomainEvent, InMemoryEventBus } from './event-bus';
+
+const bidSubmitted = defineEvent<{ bid: { id: string; amount: number } }>(
+  'bidding.bid_submitted', 2, 'A contractor submitted a bid'
+);
+const bidWithdrawn = defineEvent<{ bid: { id: string } }>(
+  'bidding.bid_withdrawn', 1, 'A contractor withdrew a bid'
+);
+
+describe('createEvent', () => {
+  it('stamps the event with its type, version and origin', () => {
+    const event = createEvent(bidSubmitted, { bid: { id: 'bid-1', amount: 5000 } }, {
+      domain: 'bidding',
+      correlationId: 'request-1',
+      userId: 'contractor-1'
+    });
+    
+    expect(event).toMatchObject({
+      type: 'bidding.bid_submitted',
+      version: 2,
+      domain: 'bidding',
+      payload: { bid: { id: 'bid-1', amount: 5000 } },
+      correlationId: 'request-1',
+      userId: 'contractor-1'
+    });
+    expect(event.id).toEqual(expect.any(String));
+    expect(event.occurredAt).toBeInstanceOf(Date);
+  });
+  
+  it('starts a new correlation when the origin has none', () => {
+    const first = createEvent(bidWithdrawn, { bid: { id: 'bid-1' } }, { domain: 'bidding' });
+    const second = createEvent(bidWithdrawn, { bid: { id: 'bid-1' } }, { domain: 'bidding' });
+    
+    expect(first.correlationId).toEqual(expect.any(String));
+    expect(first.correlationId).not.toBe(second.correlationId);
+  });
+});
+
+describe('InMemoryEventBus', () => {
+  let bus: InMemoryEventBus;
+  let errors: unknown[];
+  
+  const submitted = (): DomainEvent<any> =>
+    createEvent(bidSubmitted, { bid: { id: 'bid-1', amount: 5000 } }, { domain: 'bidding' });
+  const withdrawn = (): DomainEvent<any> =>
+    createEvent(bidWithdrawn, { bid: { id: 'bid-1' } }, { domain: 'bidding' });
+  
+  beforeEach(() => {
+    errors = [];
+    bus = new InMemoryEventBus({ onError: error => errors.push(error) });
+  });
+  
+  it('delivers events to the subscribers of their type, by definition or by name', async () => {
+    const amounts: number[] = [];
+    const names: string[] = [];
+    bus.subscribe(bidSubmitted, event => { amounts.push(event.payload.bid.amount); });
+    bus.subscribe('bidding.bid_withdrawn', event => { names.push(event.type); });
+    
+    await bus.publish(submitted());
+    await bus.publish(withdrawn());
+    
+    expect(amounts).toEqual([5000]);
+    expect(names).toEqual(['bidding.bid_withdrawn']);
+  });
+  
+  it('delivers every event to wildcard subscribers, once per event', async () => {
+    const types: string[] = [];
+    bus.subscribe(['*', bidSubmitted], event => { types.push(event.type); });
+    
+    await bus.publish(submitted());
+    await bus.publish(withdrawn());
+    
+    expect(types).toEqual(['bidding.bid_submitted', 'bidding.bid_withdrawn']);
+  });
+  
+  it('stops delivering once unsubscribed', async () => {
+    const received: DomainEvent<any>[] = [];
+    const unsubscribe = bus.subscribe([bidSubmitted, bidWithdrawn], event => { received.push(event); });
+    
+    unsubscribe();
+    await bus.publish(submitted());
+    
+    expect(received).toEqual([]);
+    expect(bus.listenerCount('bidding.bid_submitted')).toBe(0);
+    expect(bus.listenerCount('bidding.bid_withdrawn')).toBe(0);
+  });
+  
+  it('reports a failing subscriber without affecting the others or the publisher', async () => {
+    const received: string[] = [];
+    bus.subscribe(bidSubmitted, async () => { throw new Error('mailer down'); });
+    bus.subscribe(bidSubmitted, event => { received.push(event.id); });
+    const event = submitted();
+    
+    await expect(bus.publish(event)).resolves.toBeUndefined();
+    
+    expect(received).toEqual([event.id]);
+    expect(errors).toEqual([new Error('mailer down')]);
+  });
+});
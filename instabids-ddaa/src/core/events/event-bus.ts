@@ -0,0 +1,234 @@
+/**
+ * Event Bus - Cross-domain publication of domain events
+ * 
+ * Domain agents publish what happened in their domain as versioned events
+ * on a bus shared by every agent a factory creates. Other domains subscribe
+ * by event type ('<domain>.<event>'), so they can react to bidding, payment
+ * or messaging events without importing the code of the domain that emits them.
+ * Every event carries the correlation ID of the request that caused it, which
+ * ties together the events and follow-up work of a single user action.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * An event published by a domain
+ */
+export interface DomainEvent<P = Record<string, any>> {
+  /**
+   * Unique ID of this event
+   */
+  id: string;
+  
+  /**
+   * Event type, namespaced by domain, e.g. 'bidding.bid_submitted'
+   */
+  type: string;
+  
+  /**
+   * Version of the event's payload shape
+   */
+  version: number;
+  
+  /**
+   * Domain that published the event
+   */
+  domain: string;
+  
+  payload: P;
+  
+  /**
+   * ID shared by all events caused by the same request
+   */
+  correlationId: string;
+  
+  /**
+   * ID of the event that caused this one, if any
+   */
+  causationId?: string;
+  
+  /**
+   * User whose action caused the event, if any
+   */
+  userId?: string;
+  
+  occurredAt: Date;
+}
+
+/**
+ * Declaration of an event type and the current version of its payload
+ * The payload type parameter lets publishers and subscribers share a typed payload
+ */
+export interface EventDefinition<P = Record<string, any>> {
+  type: string;
+  version: number;
+  description: string;
+  
+  /**
+   * Carries the payload type only; never set at runtime
+   */
+  readonly __payload?: P;
+}
+
+/**
+ * Declare an event type
+ * 
+ * @param type Event type, namespaced by domain
+ * @param version Current version of the payload shape
+ * @param description What the event means
+ * @returns The event definition
+ */
+export function defineEvent<P>(type: string, version: number, description: string): EventDefinition<P> {
+  return { type, version, description };
+}
+
+/**
+ * Payload type of an event definition
+ */
+export type EventPayload<D> = D extends EventDefinition<infer P> ? P : never;
+
+/**
+ * Handler of published events
+ */
+export type EventHandler<P = Record<string, any>> = (event: DomainEvent<P>) => void | Promise<void>;
+
+/**
+ * Fields of an event set by the publisher; the rest are filled in by createEvent
+ */
+export interface EventOrigin {
+  domain: string;
+  correlationId?: string;
+  causationId?: string;
+  userId?: string;
+}
+
+/**
+ * Create an event of a declared type
+ * 
+ * @param definition Event definition
+ * @param payload Event payload
+ * @param origin Domain and request the event comes from
+ * @returns The event, ready to publish
+ */
+export function createEvent<P>(
+  definition: EventDefinition<P>,
+  payload: P,
+  origin: EventOrigin
+): DomainEvent<P> {
+  return {
+    id: uuidv4(),
+    type: definition.type,
+    version: definition.version,
+    domain: origin.domain,
+    payload,
+    correlationId: origin.correlationId || uuidv4(),
+    causationId: origin.causationId,
+    userId: origin.userId,
+    occurredAt: new Date()
+  };
+}
+
+/**
+ * Interface for event buses
+ */
+export interface EventBus {
+  /**
+   * Publish an event to every subscriber of its type
+   * Resolves once all subscribers have handled it; a failing subscriber does
+   * not affect the others or the publisher
+   * 
+   * @param event The event to publish
+   */
+  publish(event: DomainEvent<any>): Promise<void>;
+  
+  /**
+   * Subscribe to events of one or more types
+   * '*' subscribes to every event
+   * 
+   * @param types Event types or definitions to subscribe to
+   * @param handler Handler called for each matching event
+   * @returns Function that removes the subscription
+   */
+  subscribe<P>(types: EventDefinition<P> | string, handler: EventHandler<P>): () => void;
+  subscribe(types: Array<EventDefinition<any> | string>, handler: EventHandler<any>): () => void;
+}
+
+/**
+ * Event bus configuration
+ */
+export interface InMemoryEventBusOptions {
+  /**
+   * Called when a subscriber fails to handle an event (defaults to logging it)
+   */
+  onError?: (error: unknown, event: DomainEvent<any>) => void;
+}
+
+/**
+ * Event bus that delivers events to subscribers in the same process
+ */
+export class InMemoryEventBus implements EventBus {
+  /**
+   * Handlers keyed by event type
+   */
+  private handlers: Map<string, Set<EventHandler<any>>> = new Map();
+  
+  private readonly onError: (error: unknown, event: DomainEvent<any>) => void;
+  
+  /**
+   * Constructor for the in-memory event bus
+   * 
+   * @param options Event bus configuration
+   */
+  constructor(options: InMemoryEventBusOptions = {}) {
+    this.onError = options.onError || ((error, event) => {
+      console.error(`Error handling event ${event.type} (${event.id}):`, error);
+    });
+  }
+  
+  public async publish(event: DomainEvent<any>): Promise<void> {
+    const handlers = new Set([
+      ...(this.handlers.get(event.type) || []),
+      ...(this.handlers.get('*') || [])
+    ]);
+    
+    await Promise.all([...handlers].map(async handler => {
+      try {
+        await handler(event);
+      } catch (error) {
+        this.onError(error, event);
+      }
+    }));
+  }
+  
+  public subscribe(
+    types: EventDefinition<any> | string | Array<EventDefinition<any> | string>,
+    handler: EventHandler<any>
+  ): () => void {
+    const typeNames = (Array.isArray(types) ? types : [types])
+      .map(type => typeof type === 'string' ? type : type.type);
+    
+    for (const type of typeNames) {
+      if (!this.handlers.has(type)) {
+        this.handlers.set(type, new Set());
+      }
+      
+      this.handlers.get(type)!.add(handler);
+    }
+    
+    return () => {
+      for (const type of typeNames) {
+        this.handlers.get(type)?.delete(handler);
+      }
+    };
+  }
+  
+  /**
+   * Number of subscriptions to an event type
+   * 
+   * @param type Event type
+   * @returns Number of handlers subscribed to it
+   */
+  public listenerCount(type: string): number {
+    return this.handlers.get(type)?.size || 0;
+  }
+}
@@ -0,0 +1,98 @@
+import { InMemoryDataInterface } from '../persistence/in-memory-data-interface';
+import { TransactionalOutbox } from '../persistence/outbox';
+import { ManualClock } from '../scheduling/scheduler';
+import { DomainEvent, EventBus, InMemoryEventBus, createEvent, defineEvent } from './event-bus';
+import { OutboxRelay } from './outbox-relay';
+
+const BidSubmitted = defineEvent<{ bidId: string }>('bidding:bid_submitted', 1, 'A bid was submitted');
+
+describe('OutboxRelay', () => {
+  let clock: ManualClock;
+  let outbox: TransactionalOutbox;
+  let eventBus: InMemoryEventBus;
+  let published: DomainEvent<any>[];
+  
+  beforeEach(() => {
+    // Entries are due from when their event occurred, by the system time
+    clock = new ManualClock(new Date(Date.now() + 1000));
+    outbox = new TransactionalOutbox(new InMemoryDataInterface('bidding'));
+    eventBus = new InMemoryEventBus();
+    published = [];
+    
+    eventBus.subscribe('*', event => { published.push(event); });
+  });
+  
+  function record(bidId: string) {
+    return outbox.record(createEvent(BidSubmitted, { bidId }, { domain: 'bidding' }));
+  }
+  
+  it('publishes released entries oldest first and marks them published', async () => {
+    const relay = new OutboxRelay(outbox, eventBus, { clock });
+    
+    await record('bid-1');
+    await record('bid-2');
+    
+    expect(await relay.flush()).toMatchObject({ processed: 2, failures: [] });
+    expect(published.map(event => event.payload.bidId)).toEqual(['bid-1', 'bid-2']);
+    expect(await outbox.count('published')).toBe(2);
+    
+    expect(await relay.flush()).toMatchObject({ processed: 0 });
+    expect(published).toHaveLength(2);
+  });
+  
+  it('publishes entries as soon as their unit of work releases them', async () => {
+    const relay = new OutboxRelay(outbox, eventBus, { clock });
+    outbox.onRelease(async () => { await relay.flush(); });
+    
+    await record('bid-1');
+    
+    expect(published.map(event => event.payload.bidId)).toEqual(['bid-1']);
+  });
+  
+  it('retries an entry the bus rejects with backoff, then marks it failed', async () => {
+    const failingBus: EventBus = {
+      publish: jest.fn(async () => { throw new Error('bus unavailable'); }),
+      subscribe: () => () => undefined
+    };
+    const relay = new OutboxRelay(outbox, failingBus, { clock, maxAttempts: 3, retryDelayMs: 1000 });
+    
+    await record('bid-1');
+    
+    expect(await relay.flush()).toMatchObject({
+      processed: 0,
+      failures: [expect.objectContaining({ error: 'PUBLISH_FAILED', message: 'bus unavailable' })]
+    });
+    
+    // Not due again until the retry delay has passed
+    expect(await relay.flush()).toMatchObject({ failures: [] });
+    
+    clock.advance(1000);
+    await relay.flush();
+    
+    clock.advance(1999);
+    expect(await relay.flush()).toMatchObject({ failures: [] });
+    
+    clock.advance(1);
+    await relay.flush();
+    
+    expect(failingBus.publish).toHaveBeenCalledTimes(3);
+    expect(await outbox.count('failed')).toBe(1);
+    expect(await outbox.count('pending')).toBe(0);
+  });
+  
+  it('runs again for entries released while it was publishing', async () => {
+    const relay = new OutboxRelay(outbox, eventBus, { clock });
+    outbox.onRelease(async () => { await relay.flush(); });
+    
+    eventBus.subscribe(BidSubmitted, async event => {
+      if (event.payload.bidId === 'bid-1') {
+        await record('bid-2');
+      }
+    });
+    
+    await record('bid-1');
+    
+    expect(published.map(event => event.payload.bidId)).toEqual(['bid-1', 'bid-2']);
+    expect(await outbox.count('published')).toBe(2);
+  });
+});
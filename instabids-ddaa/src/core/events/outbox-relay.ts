@@ -0,0 +1,194 @@
+/**
+ * Outbox Relay - Publishes events from the transactional outbox
+ * 
+ * The relay takes pending outbox entries, oldest first, publishes them to the
+ * event bus and marks them published. An entry is only marked after the bus
+ * accepted it, so a failure in between publishes it again on a later run:
+ * delivery is at least once, and subscribers that must not act twice can
+ * recognize a redelivered event by its ID, which stays the same. Entries the
+ * bus rejects are retried with exponential backoff and marked failed after
+ * too many attempts.
+ * 
+ * The relay is a scheduled job, so it can run on a scheduler's interval; it
+ * can also be flushed right after a unit of work releases new entries.
+ */
+
+import { EventBus } from './event-bus';
+import { TransactionalOutbox } from '../persistence/outbox';
+import { Clock, JobRunResult, ScheduledJob, systemClock } from '../scheduling/scheduler';
+
+/**
+ * Relay configuration
+ */
+export interface OutboxRelayOptions {
+  /**
+   * Maximum number of entries published per run (defaults to 100)
+   */
+  batchSize?: number;
+  
+  /**
+   * Attempts before an entry is marked failed (defaults to 10)
+   */
+  maxAttempts?: number;
+  
+  /**
+   * Delay before the first retry, doubled on every further attempt (defaults to one second)
+   */
+  retryDelayMs?: number;
+  
+  /**
+   * Longest delay between retries (defaults to one hour)
+   */
+  maxRetryDelayMs?: number;
+  
+  /**
+   * Age after which a staged entry is published although its unit of work
+   * never released it, e.g. because the process stopped right after the
+   * commit (defaults to five minutes)
+   */
+  stagedTimeoutMs?: number;
+  
+  /**
+   * Clock used by flush() (defaults to the system clock)
+   */
+  clock?: Clock;
+}
+
+/**
+ * Publishes pending outbox entries to an event bus
+ */
+export class OutboxRelay implements ScheduledJob {
+  public readonly name = 'events.outbox_relay';
+  public readonly description = 'Publish pending outbox events to the event bus';
+  
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly stagedTimeoutMs: number;
+  private readonly clock: Clock;
+  
+  /**
+   * Whether a run is in progress
+   */
+  private running = false;
+  
+  /**
+   * Time of the latest run requested while another was in progress
+   */
+  private rerunAt?: Date;
+  
+  /**
+   * Constructor for the outbox relay
+   * 
+   * @param outbox Outbox to publish from
+   * @param eventBus Event bus to publish to
+   * @param options Relay configuration
+   */
+  constructor(
+    private readonly outbox: TransactionalOutbox,
+    private readonly eventBus: EventBus,
+    options: OutboxRelayOptions = {}
+  ) {
+    this.batchSize = options.batchSize || 100;
+    this.maxAttempts = options.maxAttempts || 10;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 60 * 60 * 1000;
+    this.stagedTimeoutMs = options.stagedTimeoutMs ?? 5 * 60 * 1000;
+    this.clock = options.clock || systemClock;
+  }
+  
+  /**
+   * Publish the entries that are due
+   * A run requested while another is in progress returns right away and the
+   * run in progress publishes another batch once it is done. Waiting for it
+   * instead would deadlock when a subscriber's own writes request the run.
+   * 
+   * @param now Current time
+   * @returns Summary of the run
+   */
+  public async run(now: Date): Promise<JobRunResult> {
+    const result: JobRunResult = { processed: 0, skipped: 0, failures: [] };
+    
+    if (this.running) {
+      this.rerunAt = this.rerunAt && this.rerunAt > now ? this.rerunAt : now;
+      return result;
+    }
+    
+    this.running = true;
+    
+    try {
+      let at: Date | undefined = now;
+      
+      while (at) {
+        this.rerunAt = undefined;
+        
+        const batch = await this.publishDue(at);
+        result.processed += batch.processed;
+        result.failures.push(...batch.failures);
+        
+        at = this.rerunAt;
+      }
+    } finally {
+      this.running = false;
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Publish the entries that are due now
+   * 
+   * @returns Summary of the run
+   */
+  public flush(): Promise<JobRunResult> {
+    return this.run(this.clock.now());
+  }
+  
+  /**
+   * Publish one batch of due entries
+   * 
+   * @param now Current time
+   * @returns Summary of the batch
+   */
+  private async publishDue(now: Date): Promise<JobRunResult> {
+    const result: JobRunResult = { processed: 0, skipped: 0, failures: [] };
+    const entries = await this.outbox.findDue(now, this.batchSize, new Date(now.getTime() - this.stagedTimeoutMs));
+    
+    for (const entry of entries) {
+      try {
+        await this.eventBus.publish(this.outbox.toEvent(entry));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const attempts = entry.attempts + 1;
+        const nextAttemptAt = attempts < this.maxAttempts
+          ? new Date(now.getTime() + Math.min(this.retryDelayMs * 2 ** (attempts - 1), this.maxRetryDelayMs))
+          : undefined;
+        
+        result.failures.push({ id: entry.id, error: 'PUBLISH_FAILED', message });
+        
+        try {
+          await this.outbox.markAttemptFailed(entry, message, nextAttemptAt);
+        } catch (markError) {
+          console.error(`Error recording failed attempt for outbox entry ${entry.id}:`, markError);
+        }
+        
+        continue;
+      }
+      
+      // If this fails the entry stays pending and is published again later
+      try {
+        await this.outbox.markPublished(entry.id);
+        result.processed++;
+      } catch (error) {
+        result.failures.push({
+          id: entry.id,
+          error: 'ACKNOWLEDGE_FAILED',
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    
+    return result;
+  }
+}
@@ -0,0 +1,99 @@
+import { DomainAgentContext } from '../domain/domain-agent';
+import { GuardLayer, Pattern, PatternSeverity } from './guard-layer';
+
+/**
+ * Guard layer allowing every access, to exercise the pattern checks alone
+ */
+class TestGuard extends GuardLayer {
+  constructor(patterns: Pattern[]) {
+    super('test');
+    patterns.forEach(pattern => this.registerPattern(pattern));
+  }
+  
+  public async validateAccess(): Promise<boolean> {
+    return true;
+  }
+}
+
+/**
+ * Pattern that always fails with the given severity
+ */
+function failing(name: string, severity?: PatternSeverity, operations?: string[]): Pattern {
+  return {
+    name,
+    description: `Fails (${name})`,
+    severity,
+    operations,
+    validate: async () => ({ valid: false, message: `${name} failed` })
+  };
+}
+
+describe('GuardLayer.validateIntent', () => {
+  const context: DomainAgentContext = { userId: 'user-1', timestamp: Date.now() };
+  const intent = { operation: 'submitBid', params: {} };
+  
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('reports every failing pattern rather than stopping at the first', async () => {
+    const guard = new TestGuard([failing('first'), failing('second')]);
+    
+    const result = await guard.validateIntent(intent, context);
+    
+    expect(result.valid).toBe(false);
+    expect(result.violations?.map(violation => violation.pattern)).toEqual(['first', 'second']);
+    expect(result.message).toBe(
+      "Pattern 'first' validation failed: first failed; Pattern 'second' validation failed: second failed"
+    );
+  });
+  
+  it('lets warnings and info through while still reporting them', async () => {
+    const guard = new TestGuard([
+      failing('warned', PatternSeverity.WARNING),
+      failing('noted', PatternSeverity.INFO)
+    ]);
+    
+    const result = await guard.validateIntent(intent, context);
+    
+    expect(result.valid).toBe(true);
+    expect(result.violations?.map(violation => violation.severity)).toEqual([PatternSeverity.WARNING, PatternSeverity.INFO]);
+    expect(console.warn).toHaveBeenCalledTimes(1);
+  });
+  
+  it('treats patterns without a severity as errors', async () => {
+    const result = await new TestGuard([failing('unspecified')]).validateIntent(intent, context);
+    
+    expect(result.valid).toBe(false);
+    expect(result.violations?.[0].severity).toBe(PatternSeverity.ERROR);
+  });
+  
+  it('only applies patterns to the operations they list', async () => {
+    const guard = new TestGuard([failing('elsewhere', PatternSeverity.ERROR, ['createBidCard'])]);
+    
+    expect(await guard.validateIntent(intent, context)).toEqual({ valid: true, violations: [] });
+    expect((await guard.validateIntent({ operation: 'createBidCard', params: {} }, context)).valid).toBe(false);
+  });
+  
+  it('reports a pattern that throws as a violation of its severity', async () => {
+    const guard = new TestGuard([{
+      name: 'broken',
+      description: 'Throws',
+      severity: PatternSeverity.WARNING,
+      validate: async () => { throw new Error('lookup failed'); }
+    }]);
+    
+    const result = await guard.validateIntent(intent, context);
+    
+    expect(result.valid).toBe(true);
+    expect(result.violations).toEqual([{
+      pattern: 'broken',
+      severity: PatternSeverity.WARNING,
+      message: 'Error validating pattern: lookup failed'
+    }]);
+  });
+});
@@ -8,6 +8,27 @@
  */
 
 import { DomainIntent, DomainOperationResult, DomainAgentContext } from '../domain/domain-agent';
+import { IntentOutput } from '../domain/intent-registry';
+import { RedactionRule, redactOutput } from './redaction';
+
+/**
+ * Severity of a pattern violation
+ */
+export enum PatternSeverity {
+  ERROR = 'error',       // Pattern violation will prevent operation
+  WARNING = 'warning',   // Pattern violation will be logged but operation proceeds
+  INFO = 'info'          // Pattern violation will be recorded for metrics only
+}
+
+/**
+ * A single pattern violation reported for an intent
+ */
+export interface PatternViolation {
+  pattern: string;
+  severity: PatternSeverity;
+  message: string;
+  meta?: Record<string, any>;
+}
 
 /**
  * Result of intent validation
@@ -16,6 +37,11 @@ export interface IntentValidationResult {
   valid: boolean;
   message?: string;
   meta?: Record<string, any>;
+  
+  /**
+   * Every violation reported by the applicable patterns, blocking or not
+   */
+  violations?: PatternViolation[];
 }
 
 /**
@@ -25,6 +51,16 @@ export interface Pattern {
   name: string;
   description: string;
   validate: (context: PatternValidationContext) => Promise<PatternValidationResult>;
+  
+  /**
+   * Severity of violations (defaults to ERROR)
+   */
+  severity?: PatternSeverity;
+  
+  /**
+   * Operations this pattern applies to (empty/undefined means all operations)
+   */
+  operations?: string[];
 }
 
 /**
@@ -60,6 +96,11 @@ export abstract class GuardLayer {
    */
   protected patterns: Map<string, Pattern> = new Map();
   
+  /**
+   * Redaction rules of each entity
+   */
+  protected redactionRules: Map<string, RedactionRule[]> = new Map();
+  
   /**
    * Domain this guard layer is responsible for
    */
@@ -79,7 +120,18 @@ export abstract class GuardLayer {
   }
   
   /**
-   * Validate an intent against all registered patterns
+   * Register a rule hiding fields of an entity's records from some viewers
+   * 
+   * @param entity Entity the rule applies to, e.g. 'bids'
+   * @param rule Rule to register
+   */
+  public registerRedactionRule(entity: string, rule: RedactionRule): void {
+    this.redactionRules.set(entity, [...(this.redactionRules.get(entity) || []), rule]);
+  }
+  
+  /**
+   * Validate an intent against all applicable patterns
+   * Only ERROR violations make the intent invalid
    * 
    * @param intent Intent to validate
    * @param context Context in which the intent is being executed
@@ -107,24 +159,65 @@ export abstract class GuardLayer {
       }
     };
     
-    // Validate against all patterns
-    // Convert Map.values() to array for safer iteration
-    const patternsArray = Array.from(this.patterns.values());
+    // Evaluate every applicable pattern so all violations are reported at once
+    const violations: PatternViolation[] = [];
     
-    for (const pattern of patternsArray) {
-      const result = await pattern.validate(patternContext);
+    for (const pattern of this.getApplicablePatterns(intent.operation)) {
+      const severity = pattern.severity || PatternSeverity.ERROR;
       
-      if (!result.valid) {
-        return {
-          valid: false,
-          message: `Pattern '${pattern.name}' validation failed: ${result.message}`,
-          meta: result.meta
-        };
+      try {
+        const result = await pattern.validate(patternContext);
+        
+        if (!result.valid) {
+          violations.push({
+            pattern: pattern.name,
+            severity,
+            message: result.message || pattern.description,
+            meta: result.meta
+          });
+        }
+      } catch (error) {
+        // If pattern validation throws an error, consider it a violation
+        violations.push({
+          pattern: pattern.name,
+          severity,
+          message: `Error validating pattern: ${error instanceof Error ? error.message : String(error)}`
+        });
+      }
+    }
+    
+    // Warnings are logged but do not block the operation
+    for (const violation of violations) {
+      if (violation.severity === PatternSeverity.WARNING) {
+        console.warn(`Pattern '${violation.pattern}' warning for ${intent.operation}: ${violation.message}`);
       }
     }
     
-    // All patterns passed
-    return { valid: true };
+    const errors = violations.filter(violation => violation.severity === PatternSeverity.ERROR);
+    
+    if (errors.length > 0) {
+      return {
+        valid: false,
+        message: errors
+          .map(violation => `Pattern '${violation.pattern}' validation failed: ${violation.message}`)
+          .join('; '),
+        violations
+      };
+    }
+    
+    return { valid: true, violations };
+  }
+  
+  /**
+   * Get the registered patterns that apply to an operation
+   * 
+   * @param operation Operation being performed
+   * @returns Applicable patterns
+   */
+  protected getApplicablePatterns(operation: string): Pattern[] {
+    return Array.from(this.patterns.values()).filter(pattern =>
+      !pattern.operations || pattern.operations.length === 0 || pattern.operations.includes(operation)
+    );
   }
   
   /**
@@ -145,6 +238,46 @@ export abstract class GuardLayer {
     return result;
   }
   
+  /**
+   * Remove the fields the viewer may not see from the records of a result
+   * The removed fields are listed in meta.redactedFields
+   * 
+   * @param result Result of the domain operation
+   * @param outputs Records the operation returns
+   * @param context Context in which the intent was executed
+   * @returns The result with the hidden fields removed
+   */
+  public async redactResult(
+    result: DomainOperationResult,
+    outputs: IntentOutput[] | undefined,
+    context: DomainAgentContext
+  ): Promise<DomainOperationResult> {
+    if (!result.success || result.data === undefined || !outputs) {
+      return result;
+    }
+    
+    const redacted = new Set<string>();
+    let data = result.data;
+    
+    for (const output of outputs) {
+      const rules = this.redactionRules.get(output.entity);
+      
+      if (rules && rules.length > 0) {
+        data = await redactOutput(data, output, rules, context, redacted);
+      }
+    }
+    
+    if (redacted.size === 0) {
+      return result;
+    }
+    
+    return {
+      ...result,
+      data,
+      meta: { ...result.meta, redactedFields: Array.from(redacted) }
+    };
+  }
+  
   /**
    * Validate domain-specific access control
    * 
@@ -0,0 +1,74 @@
+import { DomainAgentContext } from '../domain/domain-agent';
+import { RedactionRule, redactOutput } from './redaction';
+
+describe('redactOutput', () => {
+  const contactDetails: RedactionRule = {
+    description: 'Contact details stay hidden until the bid is accepted',
+    fields: ['contact_phone', 'contractor.business_phone'],
+    roles: ['homeowner'],
+    visibleWhen: record => record.status === 'accepted'
+  };
+  const internalNotes: RedactionRule = {
+    description: 'Internal notes are for admins',
+    fields: ['internal_notes'],
+    exemptRoles: ['admin']
+  };
+  
+  function contextFor(userRole: string): DomainAgentContext {
+    return { userRole, timestamp: Date.now() };
+  }
+  
+  const bid = {
+    id: 'bid-1',
+    status: 'submitted',
+    contact_phone: '555-0100',
+    internal_notes: 'Follow up',
+    contractor: { name: 'Acme', business_phone: '555-0199' }
+  };
+  
+  it('removes hidden fields, including nested ones, without touching the original', async () => {
+    const redacted = new Set<string>();
+    const result = await redactOutput(bid, { entity: 'bids' }, [contactDetails, internalNotes], contextFor('homeowner'), redacted);
+    
+    expect(result).toEqual({ id: 'bid-1', status: 'submitted', contractor: { name: 'Acme' } });
+    expect([...redacted].sort()).toEqual(['contact_phone', 'contractor.business_phone', 'internal_notes']);
+    expect(bid.contact_phone).toBe('555-0100');
+  });
+  
+  it('keeps fields the viewer may see', async () => {
+    const redacted = new Set<string>();
+    const accepted = { ...bid, status: 'accepted' };
+    const result = await redactOutput(accepted, { entity: 'bids' }, [contactDetails], contextFor('homeowner'), redacted);
+    
+    expect(result).toEqual(accepted);
+    expect(redacted.size).toBe(0);
+  });
+  
+  it('applies rules only to their roles and skips exempt roles', async () => {
+    const result = await redactOutput(bid, { entity: 'bids' }, [contactDetails, internalNotes], contextFor('admin'), new Set());
+    
+    expect(result).toEqual(bid);
+  });
+  
+  it('redacts every record of a list at the output path', async () => {
+    const data = { items: [bid, { ...bid, id: 'bid-2', status: 'accepted' }], total: 2 };
+    const result = await redactOutput(data, { entity: 'bids', path: 'items' }, [contactDetails], contextFor('homeowner'), new Set());
+    
+    expect(result.total).toBe(2);
+    expect(result.items[0].contact_phone).toBeUndefined();
+    expect(result.items[1].contact_phone).toBe('555-0100');
+  });
+  
+  it('hides the fields when the visibility check throws', async () => {
+    const failing: RedactionRule = {
+      ...contactDetails,
+      visibleWhen: () => { throw new Error('lookup failed'); }
+    };
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    
+    const result = await redactOutput({ ...bid, status: 'accepted' }, { entity: 'bids' }, [failing], contextFor('homeowner'), new Set());
+    
+    expect(result.contact_phone).toBeUndefined();
+    consoleError.mockRestore();
+  });
+});
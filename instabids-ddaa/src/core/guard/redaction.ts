@@ -0,0 +1,221 @@
+/**
+ * Redaction - Field-level visibility of operation results
+ * 
+ * Guard layers declare, per entity, the fields of a record that some viewers
+ * may not see. Once an operation succeeds, the records of each entity in its
+ * result are found through the operation's declared output and the fields
+ * hidden from the current viewer are removed, from single records and lists
+ * alike, before the result leaves the domain.
+ */
+
+import { DomainAgentContext } from '../domain/domain-agent';
+import { IntentOutput } from '../domain/intent-registry';
+
+/**
+ * Rule hiding fields of an entity's records from some viewers
+ */
+export interface RedactionRule {
+  /**
+   * What the rule protects, e.g. 'Contact details stay hidden until released'
+   */
+  description: string;
+  
+  /**
+   * Fields hidden by the rule
+   * Dotted paths reach into nested records, e.g. 'contractor.business_phone'
+   */
+  fields: string[];
+  
+  /**
+   * Roles the rule applies to (empty/undefined means all roles)
+   */
+  roles?: string[];
+  
+  /**
+   * Roles that always see the fields
+   */
+  exemptRoles?: string[];
+  
+  /**
+   * Whether the viewer may see the fields of a record
+   * Without it the fields are hidden from every role the rule applies to;
+   * if it throws, the fields are hidden
+   */
+  visibleWhen?: (record: Record<string, any>, context: DomainAgentContext) => Promise<boolean> | boolean;
+}
+
+/**
+ * Remove the fields the viewer may not see from the records of an output
+ * 
+ * @param data Result data
+ * @param output Where the records of the entity are in the data
+ * @param rules Redaction rules of the entity
+ * @param context Context of the viewer
+ * @param redacted Collects the paths of the removed fields
+ * @returns The data with the fields removed; the original data is left untouched
+ */
+export async function redactOutput(
+  data: any,
+  output: IntentOutput,
+  rules: RedactionRule[],
+  context: DomainAgentContext,
+  redacted: Set<string>
+): Promise<any> {
+  const role = context.userRole || 'guest';
+  const applicable = rules.filter(rule =>
+    (!rule.roles || rule.roles.length === 0 || rule.roles.includes(role)) &&
+    !(rule.exemptRoles && rule.exemptRoles.includes(role))
+  );
+  
+  if (applicable.length === 0) {
+    return data;
+  }
+  
+  return updateAt(data, splitPath(output.path), record => redactRecord(record, applicable, context, redacted));
+}
+
+/**
+ * Remove the fields of the applicable rules the viewer may not see from a record
+ * 
+ * @param record Record to redact
+ * @param rules Rules applying to the viewer's role
+ * @param context Context of the viewer
+ * @param redacted Collects the paths of the removed fields
+ * @returns The redacted record
+ */
+async function redactRecord(
+  record: Record<string, any>,
+  rules: RedactionRule[],
+  context: DomainAgentContext,
+  redacted: Set<string>
+): Promise<Record<string, any>> {
+  let result = record;
+  
+  for (const rule of rules) {
+    const present = rule.fields.filter(field => hasField(result, splitPath(field)));
+    
+    // Only look up visibility when there is something to hide
+    if (present.length === 0 || await isVisible(rule, record, context)) {
+      continue;
+    }
+    
+    for (const field of present) {
+      const path = splitPath(field);
+      const key = path.pop() as string;
+      
+      result = await updateAt(result, path, async parent => {
+        const { [key]: _removed, ...rest } = parent;
+        return rest;
+      });
+      redacted.add(field);
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Check whether a rule lets the viewer see the fields of a record
+ * 
+ * @param rule Redaction rule
+ * @param record Record being redacted
+ * @param context Context of the viewer
+ * @returns Whether the fields are visible
+ */
+async function isVisible(
+  rule: RedactionRule,
+  record: Record<string, any>,
+  context: DomainAgentContext
+): Promise<boolean> {
+  if (!rule.visibleWhen) {
+    return false;
+  }
+  
+  try {
+    return await rule.visibleWhen(record, context);
+  } catch (error) {
+    // Fail closed: a failed check hides the fields
+    console.error(`Error checking visibility of ${rule.fields.join(', ')}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Replace the records at a path with updated copies
+ * Lists along the path are updated item by item
+ * 
+ * @param value Value to descend into
+ * @param path Keys leading to the records
+ * @param update Produces the updated copy of a record
+ * @returns A copy of the value with the records updated
+ */
+async function updateAt(
+  value: any,
+  path: string[],
+  update: (record: Record<string, any>) => Promise<Record<string, any>>
+): Promise<any> {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map(item => updateAt(item, path, update)));
+  }
+  
+  if (!isRecord(value)) {
+    return value;
+  }
+  
+  if (path.length === 0) {
+    return update(value);
+  }
+  
+  const [key, ...rest] = path;
+  
+  if (!(key in value)) {
+    return value;
+  }
+  
+  return { ...value, [key]: await updateAt(value[key], rest, update) };
+}
+
+/**
+ * Check whether a field is present in a record or in any of its nested records
+ * 
+ * @param value Value to look in
+ * @param path Keys leading to the field
+ * @returns Whether the field is present
+ */
+function hasField(value: any, path: string[]): boolean {
+  if (Array.isArray(value)) {
+    return value.some(item => hasField(item, path));
+  }
+  
+  if (!isRecord(value) || path.length === 0) {
+    return false;
+  }
+  
+  const [key, ...rest] = path;
+  
+  if (!(key in value) || value[key] === undefined) {
+    return false;
+  }
+  
+  return rest.length === 0 || hasField(value[key], rest);
+}
+
+/**
+ * Split a dotted path into its keys
+ * 
+ * @param path Dotted path, e.g. 'contractor.business_phone'
+ * @returns The keys, none for an empty path
+ */
+function splitPath(path?: string): string[] {
+  return path ? path.split('.') : [];
+}
+
+/**
+ * Check whether a value is a record (not an array, date or null)
+ * 
+ * @param value Value to check
+ * @returns Whether the value is a record
+ */
+function isRecord(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
@@ -0,0 +1,66 @@
+import { InMemoryDataInterface } from './in-memory-data-interface';
+
+describe('DataInterface units of work', () => {
+  let dataInterface: InMemoryDataInterface;
+  
+  beforeEach(() => {
+    dataInterface = new InMemoryDataInterface('bidding');
+  });
+  
+  it('runs commit callbacks once the unit of work commits', async () => {
+    const calls: string[] = [];
+    
+    await dataInterface.withTransaction(async () => {
+      await dataInterface.afterCommit(() => { calls.push('committed'); });
+      calls.push('work');
+    });
+    
+    expect(calls).toEqual(['work', 'committed']);
+  });
+  
+  it('drops the commit callbacks of a unit of work that is rolled back', async () => {
+    const calls: string[] = [];
+    
+    await expect(dataInterface.withTransaction(async () => {
+      await dataInterface.afterCommit(() => { calls.push('committed'); });
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+    
+    expect(calls).toEqual([]);
+  });
+  
+  it('runs the callbacks of a nested unit of work with the enclosing one', async () => {
+    const calls: string[] = [];
+    
+    await dataInterface.withTransaction(async () => {
+      await dataInterface.withTransaction(async () => {
+        await dataInterface.afterCommit(() => { calls.push('nested'); });
+      });
+      calls.push('enclosing work');
+    });
+    
+    expect(calls).toEqual(['enclosing work', 'nested']);
+  });
+  
+  it('keeps the callbacks of overlapping units of work apart', async () => {
+    const calls: string[] = [];
+    let release: () => void = () => undefined;
+    const started = new Promise<void>(resolve => { release = resolve; });
+    
+    const slow = dataInterface.withTransaction(async () => {
+      await started;
+      await dataInterface.afterCommit(() => { calls.push('slow'); });
+    });
+    const failing = dataInterface.withTransaction(async () => {
+      release();
+      await dataInterface.afterCommit(() => { calls.push('failing'); });
+      await new Promise(resolve => setImmediate(resolve));
+      throw new Error('failed');
+    });
+    
+    await expect(failing).rejects.toThrow('failed');
+    await slow;
+    
+    expect(calls).toEqual(['slow']);
+  });
+});
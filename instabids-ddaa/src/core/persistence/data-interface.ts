@@ -6,8 +6,13 @@
  * underlying database implementation and ensures proper schema separation.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+
 /**
  * Query criteria for filtering data
+ * Values match by equality, or by operator objects: `{ $in: [...] }` and the
+ * range operators `$lt`, `$lte`, `$gt` and `$gte`, which may be combined,
+ * e.g. `{ bid_deadline: { $gt: now, $lte: later } }`
  */
 export type QueryCriteria = Record<string, any>;
 
@@ -44,6 +49,14 @@ export interface BulkOperationResult {
   errors?: string[];
 }
 
+/**
+ * A unit of work in progress and the callbacks waiting for it to commit
+ */
+interface UnitOfWork {
+  context: TransactionContext;
+  commitCallbacks: Array<() => Promise<void> | void>;
+}
+
 /**
  * Base interface for domain-specific data interfaces
  * This is the bottom slice of the sandwich architecture
@@ -59,6 +72,18 @@ export abstract class DataInterface {
    */
   protected readonly schema: string;
   
+  /**
+   * Unit of work the code in progress runs in
+   * Tracked per asynchronous call chain, so units of work running side by
+   * side for different requests stay apart.
+   */
+  private readonly unitOfWork = new AsyncLocalStorage<UnitOfWork>();
+  
+  /**
+   * Set while withTransaction begins the transaction of a unit of work
+   */
+  private readonly openingUnitOfWork = new AsyncLocalStorage<boolean>();
+  
   /**
    * Constructor for the data interface
    * 
@@ -94,6 +119,20 @@ export abstract class DataInterface {
     options?: QueryOptions
   ): Promise<T | null>;
   
+  /**
+   * Find a single entity by criteria
+   * 
+   * @param entity Entity type (table name)
+   * @param criteria Query criteria
+   * @param options Query options
+   * @returns The entity or null if not found
+   */
+  public abstract findOne<T = any>(
+    entity: string,
+    criteria: QueryCriteria,
+    options?: QueryOptions
+  ): Promise<T | null>;
+  
   /**
    * Find multiple entities by criteria
    * 
@@ -202,6 +241,107 @@ export abstract class DataInterface {
     context: TransactionContext
   ): Promise<boolean>;
   
+  /**
+   * Run a unit of work inside a transaction
+   * The transaction is committed if the work succeeds and rolled back if it throws,
+   * so multi-step operations either apply every write or none of them
+   * 
+   * @param work Function performing the transactional operations
+   * @param meta Transaction metadata
+   * @returns Result of the unit of work
+   */
+  public async withTransaction<R>(
+    work: (context: TransactionContext) => Promise<R>,
+    meta?: Record<string, any>
+  ): Promise<R> {
+    const enclosing = this.unitOfWork.getStore();
+    const context = await this.openingUnitOfWork.run(true, () => this.beginTransaction(meta));
+    const unit: UnitOfWork = { context, commitCallbacks: [] };
+    let result: R;
+    
+    try {
+      result = await this.unitOfWork.run(unit, () => work(context));
+    } catch (error) {
+      const rolledBack = await this.rollbackTransaction(context);
+      
+      if (!rolledBack) {
+        console.error(`Failed to roll back transaction ${context.transactionId} in ${this.domain} domain`);
+      }
+      
+      throw error;
+    }
+    
+    const committed = await this.commitTransaction(context);
+    
+    if (!committed) {
+      throw new Error(`Failed to commit transaction ${context.transactionId}`);
+    }
+    
+    // A nested unit of work only commits for good with the one enclosing it
+    if (enclosing) {
+      enclosing.commitCallbacks.push(...unit.commitCallbacks);
+    } else {
+      for (const callback of unit.commitCallbacks) {
+        await this.runCommitCallback(callback);
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Run a callback once the unit of work in progress has committed
+   * The callback is dropped if the unit of work is rolled back, and runs
+   * immediately when no unit of work is in progress. Errors it throws are
+   * logged, since the writes it follows are already committed.
+   * 
+   * @param callback Function to run after the commit
+   */
+  public async afterCommit(callback: () => Promise<void> | void): Promise<void> {
+    const unit = this.unitOfWork.getStore();
+    
+    if (unit) {
+      unit.commitCallbacks.push(callback);
+      return;
+    }
+    
+    await this.runCommitCallback(callback);
+  }
+  
+  /**
+   * Get the transaction of the unit of work the code in progress runs in
+   * Transactions begun by a nested unit of work see the enclosing one here.
+   * 
+   * @returns Transaction context, or undefined outside a unit of work
+   */
+  protected currentTransaction(): TransactionContext | undefined {
+    return this.unitOfWork.getStore()?.context;
+  }
+  
+  /**
+   * Check whether the transaction being begun is for a unit of work
+   * False when beginTransaction is called directly, in which case nothing
+   * scopes the writes to it and they have to be attributed another way.
+   * 
+   * @returns Whether withTransaction is beginning the transaction
+   */
+  protected opensUnitOfWork(): boolean {
+    return this.openingUnitOfWork.getStore() === true;
+  }
+  
+  /**
+   * Run a commit callback, logging any error
+   * 
+   * @param callback Function to run after the commit
+   */
+  private async runCommitCallback(callback: () => Promise<void> | void): Promise<void> {
+    try {
+      await callback();
+    } catch (error) {
+      console.error(`Error running commit callback in ${this.domain} domain:`, error);
+    }
+  }
+  
   /**
    * Create multiple entities in a single operation
    * 
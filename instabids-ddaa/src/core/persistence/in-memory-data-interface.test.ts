@@ -0,0 +1,113 @@
+import { InMemoryDataInterface } from './in-memory-data-interface';
+
+describe('InMemoryDataInterface', () => {
+  let dataInterface: InMemoryDataInterface;
+  
+  beforeEach(() => {
+    dataInterface = new InMemoryDataInterface('bidding');
+    dataInterface.seed('bids', [{ id: 'bid-1', amount: 100, status: 'submitted' }]);
+  });
+  
+  it('queries records by criteria and range operators', async () => {
+    await dataInterface.create('bids', { id: 'bid-2', amount: 250, status: 'submitted' });
+    await dataInterface.create('bids', { id: 'bid-3', amount: 400, status: 'withdrawn' });
+    
+    const bids = await dataInterface.findMany<any>(
+      'bids',
+      { status: { $in: ['submitted'] }, amount: { $gt: 150 } }
+    );
+    
+    expect(bids.map(bid => bid.id)).toEqual(['bid-2']);
+  });
+  
+  it('hides soft deleted records unless asked for them', async () => {
+    await dataInterface.delete('bids', 'bid-1');
+    
+    expect(await dataInterface.findById('bids', 'bid-1')).toBeNull();
+    expect(await dataInterface.findById('bids', 'bid-1', { includeSoftDeleted: true })).not.toBeNull();
+  });
+  
+  it('undoes the creates, updates and deletes of a rolled back transaction', async () => {
+    await expect(dataInterface.withTransaction(async () => {
+      await dataInterface.create('bids', { id: 'bid-2', amount: 250 });
+      await dataInterface.update('bids', 'bid-1', { amount: 150 });
+      await dataInterface.update('bids', 'bid-1', { amount: 175 });
+      await dataInterface.delete('bids', 'bid-2', true);
+      await dataInterface.create('bids', { id: 'bid-2', amount: 300 });
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+    
+    expect(await dataInterface.findById('bids', 'bid-2')).toBeNull();
+    expect(await dataInterface.findById<any>('bids', 'bid-1')).toMatchObject({ amount: 100 });
+  });
+  
+  it('undoes a committed nested transaction when the enclosing one rolls back', async () => {
+    await expect(dataInterface.withTransaction(async () => {
+      await dataInterface.withTransaction(async () => {
+        await dataInterface.update('bids', 'bid-1', { status: 'accepted' });
+      });
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+    
+    expect(await dataInterface.findById<any>('bids', 'bid-1')).toMatchObject({ status: 'submitted' });
+  });
+  
+  it('keeps the writes of the enclosing transaction when a nested one rolls back', async () => {
+    await dataInterface.withTransaction(async () => {
+      await dataInterface.create('bids', { id: 'bid-2', amount: 250 });
+      
+      await expect(dataInterface.withTransaction(async () => {
+        await dataInterface.update('bids', 'bid-2', { amount: 300 });
+        throw new Error('failed');
+      })).rejects.toThrow('failed');
+    });
+    
+    expect(await dataInterface.findById<any>('bids', 'bid-2')).toMatchObject({ amount: 250 });
+  });
+  
+  it('rolls back a transaction without undoing an overlapping one', async () => {
+    let release: () => void = () => undefined;
+    const written = new Promise<void>(resolve => { release = resolve; });
+    
+    const committing = dataInterface.withTransaction(async () => {
+      await dataInterface.create('bids', { id: 'bid-2', amount: 250 });
+      await dataInterface.update('bids', 'bid-1', { status: 'accepted' });
+      release();
+    });
+    const failing = dataInterface.withTransaction(async () => {
+      await written;
+      await dataInterface.create('bids', { id: 'bid-3', amount: 400 });
+      throw new Error('failed');
+    });
+    
+    await committing;
+    await expect(failing).rejects.toThrow('failed');
+    
+    expect(await dataInterface.findById('bids', 'bid-2')).not.toBeNull();
+    expect(await dataInterface.findById<any>('bids', 'bid-1')).toMatchObject({ status: 'accepted' });
+    expect(await dataInterface.findById('bids', 'bid-3')).toBeNull();
+  });
+  
+  it('rolls back the writes of a transaction begun and rolled back directly', async () => {
+    const context = await dataInterface.beginTransaction();
+    await dataInterface.create('bids', { id: 'bid-2', amount: 250 });
+    await dataInterface.update('bids', 'bid-1', { amount: 150 });
+    
+    expect(await dataInterface.rollbackTransaction(context)).toBe(true);
+    
+    expect(await dataInterface.findById('bids', 'bid-2')).toBeNull();
+    expect(await dataInterface.findById<any>('bids', 'bid-1')).toMatchObject({ amount: 100 });
+  });
+  
+  it('rolls back a transaction begun directly inside a unit of work on its own', async () => {
+    await dataInterface.withTransaction(async () => {
+      await dataInterface.create('bids', { id: 'bid-2', amount: 250 });
+      
+      const context = await dataInterface.beginTransaction();
+      await dataInterface.update('bids', 'bid-2', { amount: 300 });
+      await dataInterface.rollbackTransaction(context);
+    });
+    
+    expect(await dataInterface.findById<any>('bids', 'bid-2')).toMatchObject({ amount: 250 });
+  });
+});
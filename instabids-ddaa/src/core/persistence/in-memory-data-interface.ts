@@ -0,0 +1,797 @@
+/**
+ * In-Memory Data Interface - A storage-free implementation of the persistence layer
+ * 
+ * This implementation keeps every entity in process memory, which lets a domain
+ * agent run its full sandwich without a database. It supports the same query
+ * criteria as the Supabase-backed interfaces (equality, `$or`, `$in`), soft and
+ * hard deletes, and transactions that can be rolled back.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { DataInterface, QueryCriteria, QueryOptions, TransactionContext, BulkOperationResult } from './data-interface';
+
+/**
+ * Entity storage - maps table name to records keyed by ID
+ */
+type EntityStore = Map<string, Map<string, Record<string, any>>>;
+
+/**
+ * Open transaction with the records it has written, as they were before
+ */
+interface TransactionWriteSet {
+  context: TransactionContext;
+  
+  /**
+   * Transaction of the unit of work this one is nested in
+   */
+  parentId?: string;
+  
+  /**
+   * Whether beginTransaction was called directly rather than by withTransaction
+   */
+  direct: boolean;
+  
+  /**
+   * Records before the transaction first wrote them, keyed by entity type and
+   * then by ID; undefined for records the transaction created
+   */
+  previous: Map<string, Map<string, Record<string, any> | undefined>>;
+}
+
+/**
+ * Data interface implementation that stores all entities in memory
+ */
+export class InMemoryDataInterface extends DataInterface {
+  /**
+   * Entity records, keyed by table name and then by ID
+   */
+  private store: EntityStore = new Map();
+  
+  /**
+   * Open transactions by ID, oldest first
+   */
+  private transactions: Map<string, TransactionWriteSet> = new Map();
+  
+  /**
+   * Constructor
+   * 
+   * @param domain Domain name
+   * @param schema Database schema name (defaults to the domain name)
+   */
+  constructor(domain: string, schema: string = domain) {
+    super(domain, schema);
+  }
+  
+  /**
+   * Load records into a table, replacing any records with the same ID
+   * Useful for seeding reference data (users, contractors) in demos and tests
+   * 
+   * @param entity Entity type (table name)
+   * @param records Records to load
+   */
+  public seed<T = any>(entity: string, records: Partial<T>[]): void {
+    const table = this.getTable(entity);
+    
+    for (const record of records) {
+      const stored = this.withId(clone(record as Record<string, any>));
+      table.set(stored.id, stored);
+    }
+  }
+  
+  /**
+   * Remove every record from every table
+   */
+  public clear(): void {
+    this.store.clear();
+    this.transactions.clear();
+  }
+  
+  /**
+   * Find a single entity by ID
+   * 
+   * @param entity Entity type (table name)
+   * @param id Entity ID
+   * @param options Query options
+   * @returns The entity or null if not found
+   */
+  public async findById<T = any>(
+    entity: string,
+    id: string,
+    options?: QueryOptions
+  ): Promise<T | null> {
+    const record = this.getTable(entity).get(id);
+    
+    if (!record || (this.isSoftDeleted(record) && !options?.includeSoftDeleted)) {
+      return null;
+    }
+    
+    return this.project(record, options) as T;
+  }
+  
+  /**
+   * Find a single entity by criteria
+   * 
+   * @param entity Entity type (table name)
+   * @param criteria Query criteria
+   * @param options Query options
+   * @returns The entity or null if not found
+   */
+  public async findOne<T = any>(
+    entity: string,
+    criteria: QueryCriteria,
+    options?: QueryOptions
+  ): Promise<T | null> {
+    const results = await this.findMany<T>(entity, criteria, { ...options, limit: 1 });
+    
+    return results.length > 0 ? results[0] : null;
+  }
+  
+  /**
+   * Find multiple entities by criteria
+   * 
+   * @param entity Entity type (table name)
+   * @param criteria Query criteria
+   * @param options Query options
+   * @returns Array of matching entities
+   */
+  public async findMany<T = any>(
+    entity: string,
+    criteria?: QueryCriteria,
+    options?: QueryOptions
+  ): Promise<T[]> {
+    let records = this.filter(entity, criteria, options?.includeSoftDeleted);
+    
+    // Apply ordering
+    if (options?.orderBy) {
+      const field = options.orderBy;
+      const direction = options.orderDirection || 'desc';
+      
+      records.sort((a, b) => {
+        const comparison = compareValues(a[field], b[field]);
+        return direction === 'asc' ? comparison : -comparison;
+      });
+    }
+    
+    // Apply pagination options
+    const offset = options?.offset || 0;
+    const end = options?.limit ? offset + options.limit : undefined;
+    records = records.slice(offset, end);
+    
+    return records.map(record => this.project(record, options) as T);
+  }
+  
+  /**
+   * Count entities by criteria
+   * 
+   * @param entity Entity type (table name)
+   * @param criteria Query criteria
+   * @returns Count of matching entities
+   */
+  public async count(
+    entity: string,
+    criteria?: QueryCriteria
+  ): Promise<number> {
+    return this.filter(entity, criteria).length;
+  }
+  
+  /**
+   * Create a new entity
+   * 
+   * @param entity Entity type (table name)
+   * @param data Entity data
+   * @returns The created entity
+   */
+  public async create<T = any>(
+    entity: string,
+    data: Partial<T>
+  ): Promise<T> {
+    const table = this.getTable(entity);
+    const record = this.withId(clone(data as Record<string, any>));
+    
+    if (table.has(record.id)) {
+      throw new Error(`Failed to create ${entity}: duplicate ID ${record.id}`);
+    }
+    
+    this.write(entity, record.id, record);
+    
+    return clone(record) as T;
+  }
+  
+  /**
+   * Update an existing entity
+   * 
+   * @param entity Entity type (table name)
+   * @param id Entity ID
+   * @param data Updated entity data
+   * @returns The updated entity
+   */
+  public async update<T = any>(
+    entity: string,
+    id: string,
+    data: Partial<T>
+  ): Promise<T> {
+    const existing = this.getTable(entity).get(id);
+    
+    if (!existing) {
+      throw new Error(`Failed to update ${entity}: no record with ID ${id}`);
+    }
+    
+    const updated = { ...existing, ...clone(data as Record<string, any>), id };
+    this.write(entity, id, updated);
+    
+    return clone(updated) as T;
+  }
+  
+  /**
+   * Delete an entity
+   * 
+   * @param entity Entity type (table name)
+   * @param id Entity ID
+   * @param permanent Whether to permanently delete the entity
+   * @returns Success indicator
+   */
+  public async delete(
+    entity: string,
+    id: string,
+    permanent?: boolean
+  ): Promise<boolean> {
+    const existing = this.getTable(entity).get(id);
+    
+    if (!existing) {
+      return false;
+    }
+    
+    if (permanent) {
+      // Hard delete - actually remove the record
+      this.write(entity, id, undefined);
+    } else {
+      // Soft delete - set the deleted_at field
+      this.write(entity, id, { ...existing, deleted_at: new Date() });
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Perform a raw SQL query
+   * 
+   * @param sql SQL query
+   * @param params Query parameters
+   * @returns Query results
+   */
+  public async rawQuery<T = any>(
+    sql: string,
+    params?: any[]
+  ): Promise<T[]> {
+    throw new Error('Failed to execute raw query: raw SQL is not supported by the in-memory data interface');
+  }
+  
+  /**
+   * Start a database transaction
+   * The records it writes are remembered as they were so they can be restored on rollback.
+   * When called directly, the transaction takes the writes made where it was
+   * begun (outside any unit of work, or in the same unit of work) until it ends.
+   * 
+   * @param meta Transaction metadata
+   * @returns Transaction context
+   */
+  public async beginTransaction(
+    meta?: Record<string, any>
+  ): Promise<TransactionContext> {
+    const context: TransactionContext = {
+      transactionId: `tx-${uuidv4()}`,
+      timestamp: Date.now(),
+      userId: meta?.userId,
+      meta
+    };
+    
+    const direct = !this.opensUnitOfWork();
+    const enclosing = this.currentTransaction();
+    const parent = direct ? this.writingTransaction() : enclosing && this.transactions.get(enclosing.transactionId);
+    
+    this.transactions.set(context.transactionId, {
+      context,
+      parentId: parent?.context.transactionId,
+      direct,
+      previous: new Map()
+    });
+    
+    return context;
+  }
+  
+  /**
+   * Commit a database transaction
+   * A nested transaction hands its write set to the enclosing one, in case
+   * that is rolled back later
+   * 
+   * @param context Transaction context
+   * @returns Success indicator
+   */
+  public async commitTransaction(
+    context: TransactionContext
+  ): Promise<boolean> {
+    const transaction = this.transactions.get(context.transactionId);
+    
+    if (!transaction) {
+      return false;
+    }
+    
+    const parent = transaction.parentId !== undefined ? this.transactions.get(transaction.parentId) : undefined;
+    
+    this.transactions.delete(context.transactionId);
+    
+    if (parent) {
+      for (const [entity, records] of Array.from(transaction.previous.entries())) {
+        for (const [id, previous] of Array.from(records.entries())) {
+          this.remember(parent, entity, id, previous);
+        }
+      }
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Rollback a database transaction
+   * Restores the records written by the transaction and any transactions
+   * nested inside it; the writes of transactions running alongside it stay
+   * 
+   * @param context Transaction context
+   * @returns Success indicator
+   */
+  public async rollbackTransaction(
+    context: TransactionContext
+  ): Promise<boolean> {
+    if (!this.transactions.has(context.transactionId)) {
+      return false;
+    }
+    
+    // Newest first, so each record ends up as it was before its first write
+    for (const transaction of this.findTransactions(context).reverse()) {
+      this.transactions.delete(transaction.context.transactionId);
+      
+      for (const [entity, records] of Array.from(transaction.previous.entries())) {
+        const table = this.getTable(entity);
+        
+        for (const [id, previous] of Array.from(records.entries())) {
+          if (previous) {
+            table.set(id, previous);
+          } else {
+            table.delete(id);
+          }
+        }
+      }
+    }
+    
+    return true;
+  }
+  
+  /**
+   * Create multiple entities in a single operation
+   * 
+   * @param entity Entity type (table name)
+   * @param data Array of entity data
+   * @returns Bulk operation result
+   */
+  public async bulkCreate<T = any>(
+    entity: string,
+    data: Partial<T>[]
+  ): Promise<BulkOperationResult> {
+    const table = this.getTable(entity);
+    const records = data.map(item => this.withId(clone(item as Record<string, any>)));
+    
+    // Insert all or nothing, like a single multi-row INSERT
+    const duplicateIds = records
+      .filter((record, index) =>
+        table.has(record.id) || records.findIndex(other => other.id === record.id) !== index
+      )
+      .map(record => record.id);
+    
+    if (duplicateIds.length > 0) {
+      return {
+        success: false,
+        count: 0,
+        failedIds: duplicateIds,
+        errors: [`Duplicate IDs: ${duplicateIds.join(', ')}`]
+      };
+    }
+    
+    for (const record of records) {
+      this.write(entity, record.id, record);
+    }
+    
+    return {
+      success: true,
+      count: records.length
+    };
+  }
+  
+  /**
+   * Update multiple entities in a single operation
+   * 
+   * @param entity Entity type (table name)
+   * @param criteria Query criteria
+   * @param data Updated entity data
+   * @returns Bulk operation result
+   */
+  public async bulkUpdate<T = any>(
+    entity: string,
+    criteria: QueryCriteria,
+    data: Partial<T>
+  ): Promise<BulkOperationResult> {
+    const matches = this.filter(entity, criteria);
+    
+    for (const record of matches) {
+      this.write(entity, record.id, { ...record, ...clone(data as Record<string, any>), id: record.id });
+    }
+    
+    return {
+      success: true,
+      count: matches.length
+    };
+  }
+  
+  /**
+   * Delete multiple entities in a single operation
+   * 
+   * @param entity Entity type (table name)
+   * @param criteria Query criteria
+   * @param permanent Whether to permanently delete the entities
+   * @returns Bulk operation result
+   */
+  public async bulkDelete(
+    entity: string,
+    criteria: QueryCriteria,
+    permanent?: boolean
+  ): Promise<BulkOperationResult> {
+    const matches = this.filter(entity, criteria);
+    
+    for (const record of matches) {
+      await this.delete(entity, record.id, permanent);
+    }
+    
+    return {
+      success: true,
+      count: matches.length
+    };
+  }
+  
+  /**
+   * Get the record map for a table, creating it if needed
+   * 
+   * @param entity Entity type (table name)
+   * @returns Records keyed by ID
+   */
+  private getTable(entity: string): Map<string, Record<string, any>> {
+    const tableName = this.getTableName(entity);
+    let table = this.store.get(tableName);
+    
+    if (!table) {
+      table = new Map();
+      this.store.set(tableName, table);
+    }
+    
+    return table;
+  }
+  
+  /**
+   * Get the stored records of a table that match the given criteria
+   * 
+   * @param entity Entity type (table name)
+   * @param criteria Query criteria
+   * @param includeSoftDeleted Whether to include soft-deleted records
+   * @returns Matching records (not cloned)
+   */
+  private filter(
+    entity: string,
+    criteria?: QueryCriteria,
+    includeSoftDeleted?: boolean
+  ): Record<string, any>[] {
+    return Array.from(this.getTable(entity).values()).filter(record =>
+      (includeSoftDeleted || !this.isSoftDeleted(record)) &&
+      (!criteria || matchesCriteria(record, criteria))
+    );
+  }
+  
+  /**
+   * Check whether a record has been soft deleted
+   * 
+   * @param record Stored record
+   * @returns Whether the record is soft deleted
+   */
+  private isSoftDeleted(record: Record<string, any>): boolean {
+    return record.deleted_at !== undefined && record.deleted_at !== null;
+  }
+  
+  /**
+   * Copy a stored record, keeping only the selected fields
+   * 
+   * @param record Stored record
+   * @param options Query options
+   * @returns Copy of the record safe to hand to callers
+   */
+  private project(record: Record<string, any>, options?: QueryOptions): Record<string, any> {
+    if (options?.select && options.select.length > 0 && !options.select.includes('*')) {
+      const selected: Record<string, any> = {};
+      
+      for (const field of options.select) {
+        if (field in record) {
+          selected[field] = clone(record[field]);
+        }
+      }
+      
+      return selected;
+    }
+    
+    return clone(record);
+  }
+  
+  /**
+   * Assign an ID to a record if it doesn't already have one
+   * 
+   * @param record Record data
+   * @returns The record with an ID
+   */
+  private withId(record: Record<string, any>): Record<string, any> {
+    if (!record.id) {
+      record.id = uuidv4();
+    }
+    
+    return record;
+  }
+  
+  /**
+   * Store or remove a record, remembering it for rollback if a transaction is open
+   * 
+   * @param entity Entity type (table name)
+   * @param id Record ID
+   * @param record The record to store, or undefined to remove it
+   */
+  private write(entity: string, id: string, record: Record<string, any> | undefined): void {
+    const table = this.getTable(entity);
+    const transaction = this.writingTransaction();
+    
+    if (transaction) {
+      this.remember(transaction, entity, id, table.get(id));
+    }
+    
+    if (record) {
+      table.set(id, record);
+    } else {
+      table.delete(id);
+    }
+  }
+  
+  /**
+   * Find the open transaction that writes made now belong to
+   * That is the transaction of the unit of work in progress, unless a
+   * transaction begun directly in it (or outside any unit of work) is still open.
+   * 
+   * @returns The transaction, or undefined if writes aren't transactional
+   */
+  private writingTransaction(): TransactionWriteSet | undefined {
+    const context = this.currentTransaction();
+    let transaction = context && this.transactions.get(context.transactionId);
+    
+    for (;;) {
+      const parentId = transaction?.context.transactionId;
+      const direct = Array.from(this.transactions.values())
+        .reverse()
+        .find(candidate => candidate.direct && candidate.parentId === parentId);
+      
+      if (!direct) {
+        return transaction;
+      }
+      
+      transaction = direct;
+    }
+  }
+  
+  /**
+   * Add a record to a transaction's write set, unless it was written before
+   * Stored records are replaced on every write rather than changed, so the
+   * previous one can be kept as it is.
+   * 
+   * @param transaction The transaction
+   * @param entity Entity type (table name)
+   * @param id Record ID
+   * @param previous The record before the write, or undefined if there was none
+   */
+  private remember(
+    transaction: TransactionWriteSet,
+    entity: string,
+    id: string,
+    previous: Record<string, any> | undefined
+  ): void {
+    let records = transaction.previous.get(entity);
+    
+    if (!records) {
+      records = new Map();
+      transaction.previous.set(entity, records);
+    }
+    
+    if (!records.has(id)) {
+      records.set(id, previous);
+    }
+  }
+  
+  /**
+   * Find an open transaction and the transactions nested in it
+   * 
+   * @param context Transaction context
+   * @returns The transactions, oldest first
+   */
+  private findTransactions(context: TransactionContext): TransactionWriteSet[] {
+    const isWithin = (transaction?: TransactionWriteSet): boolean => !!transaction && (
+      transaction.context.transactionId === context.transactionId ||
+      (transaction.parentId !== undefined && isWithin(this.transactions.get(transaction.parentId)))
+    );
+    
+    return Array.from(this.transactions.values()).filter(transaction => isWithin(transaction));
+  }
+}
+
+/**
+ * Check whether a record satisfies query criteria
+ * Supports plain equality, `$or` arrays of nested criteria, `{ $in: [...] }` values
+ * and range operators (`$lt`, `$lte`, `$gt`, `$gte`)
+ * 
+ * @param record Stored record
+ * @param criteria Query criteria
+ * @returns Whether the record matches
+ */
+function matchesCriteria(record: Record<string, any>, criteria: QueryCriteria): boolean {
+  for (const [key, value] of Object.entries(criteria)) {
+    // Handle special OR operator
+    if (key === '$or' && Array.isArray(value)) {
+      if (!value.some(condition => matchesCriteria(record, condition))) {
+        return false;
+      }
+      continue;
+    }
+    
+    // Handle $in operator
+    if (value && typeof value === 'object' && '$in' in value) {
+      if (!Array.isArray(value.$in) || !value.$in.some((item: any) => valuesEqual(record[key], item))) {
+        return false;
+      }
+      continue;
+    }
+    
+    // Handle range operators
+    if (isRangeCondition(value)) {
+      if (!matchesRange(record[key], value)) {
+        return false;
+      }
+      continue;
+    }
+    
+    // Handle normal equality
+    if (!valuesEqual(record[key], value)) {
+      return false;
+    }
+  }
+  
+  return true;
+}
+
+/**
+ * Range operators supported in query criteria
+ */
+const RANGE_OPERATORS = ['$lt', '$lte', '$gt', '$gte'];
+
+/**
+ * Check whether a criteria value is a range condition
+ * 
+ * @param value Criteria value
+ * @returns Whether the value is an object of range operators
+ */
+function isRangeCondition(value: any): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !(value instanceof Date) && !Array.isArray(value) &&
+    Object.keys(value).length > 0 && Object.keys(value).every(key => RANGE_OPERATORS.includes(key));
+}
+
+/**
+ * Check whether a field value satisfies every operator of a range condition
+ * Missing values never match, as in SQL comparisons with NULL
+ * 
+ * @param value Field value
+ * @param range Range condition
+ * @returns Whether the value is in range
+ */
+function matchesRange(value: any, range: Record<string, any>): boolean {
+  if (value === undefined || value === null) {
+    return false;
+  }
+  
+  return Object.entries(range).every(([operator, bound]) => {
+    const comparison = compareValues(value, bound);
+    
+    switch (operator) {
+      case '$lt':
+        return comparison < 0;
+      case '$lte':
+        return comparison <= 0;
+      case '$gt':
+        return comparison > 0;
+      case '$gte':
+        return comparison >= 0;
+      default:
+        return false;
+    }
+  });
+}
+
+/**
+ * Compare two field values for equality, treating dates by their timestamp
+ * 
+ * @param a First value
+ * @param b Second value
+ * @returns Whether the values are equal
+ */
+function valuesEqual(a: any, b: any): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return a != null && b != null && new Date(a).getTime() === new Date(b).getTime();
+  }
+  
+  if (a === undefined || a === null) {
+    return b === undefined || b === null;
+  }
+  
+  return a === b;
+}
+
+/**
+ * Compare two field values for sorting
+ * Null and undefined sort after other values, so they come first when descending (as in Postgres)
+ * 
+ * @param a First value
+ * @param b Second value
+ * @returns Negative, zero or positive like Array.prototype.sort comparators
+ */
+function compareValues(a: any, b: any): number {
+  const aMissing = a === undefined || a === null;
+  const bMissing = b === undefined || b === null;
+  
+  if (aMissing || bMissing) {
+    return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  }
+  
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a).getTime() - new Date(b).getTime();
+  }
+  
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  
+  return String(a).localeCompare(String(b));
+}
+
+/**
+ * Deep copy a value so callers can't mutate stored records
+ * 
+ * @param value Value to copy
+ * @returns The copy
+ */
+function clone<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as unknown as T;
+  }
+  
+  if (Array.isArray(value)) {
+    return value.map(item => clone(item)) as unknown as T;
+  }
+  
+  if (value && typeof value === 'object') {
+    const copy: Record<string, any> = {};
+    
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = clone(item);
+    }
+    
+    return copy as T;
+  }
+  
+  return value;
+}
@@ -0,0 +1,85 @@
+import { InMemoryDataInterface } from './in-memory-data-interface';
+import { TransactionalOutbox } from './outbox';
+import { createEvent, defineEvent } from '../events/event-bus';
+
+const BidSubmitted = defineEvent<{ bidId: string }>('bidding:bid_submitted', 1, 'A bid was submitted');
+
+describe('TransactionalOutbox', () => {
+  let dataInterface: InMemoryDataInterface;
+  let outbox: TransactionalOutbox;
+  
+  beforeEach(() => {
+    dataInterface = new InMemoryDataInterface('bidding');
+    outbox = new TransactionalOutbox(dataInterface);
+  });
+  
+  function bidSubmitted(bidId: string = 'bid-1') {
+    return createEvent(BidSubmitted, { bidId }, { domain: 'bidding', correlationId: 'correlation-1' });
+  }
+  
+  it('stages an event until its unit of work commits', async () => {
+    await dataInterface.withTransaction(async () => {
+      await outbox.record(bidSubmitted());
+      
+      expect(await outbox.count('staged')).toBe(1);
+      expect(await outbox.findDue(new Date(), 10)).toHaveLength(0);
+    });
+    
+    expect(await outbox.count('staged')).toBe(0);
+    expect(await outbox.findDue(new Date(), 10)).toHaveLength(1);
+  });
+  
+  it('discards the event of a unit of work that is rolled back', async () => {
+    const released = jest.fn();
+    outbox.onRelease(released);
+    
+    await expect(dataInterface.withTransaction(async () => {
+      await dataInterface.create('bids', { id: 'bid-1' });
+      await outbox.record(bidSubmitted());
+      throw new Error('failed');
+    })).rejects.toThrow('failed');
+    
+    expect(await outbox.count('staged')).toBe(0);
+    expect(await outbox.count('pending')).toBe(0);
+    expect(released).not.toHaveBeenCalled();
+  });
+  
+  it('notifies release listeners once the entry is pending', async () => {
+    const pendingOnRelease: number[] = [];
+    outbox.onRelease(async () => { pendingOnRelease.push(await outbox.count('pending')); });
+    
+    await outbox.record(bidSubmitted());
+    
+    expect(pendingOnRelease).toEqual([1]);
+  });
+  
+  it('records an event only once per dedupe key', async () => {
+    expect(await outbox.record(bidSubmitted('bid-1'), 'bid-1:submitted')).not.toBeNull();
+    expect(await outbox.record(bidSubmitted('bid-1'), 'bid-1:submitted')).toBeNull();
+    
+    expect(await outbox.count('pending')).toBe(1);
+  });
+  
+  it('treats entries staged long ago as committed', async () => {
+    await dataInterface.create('event_outbox', {
+      event_id: 'event-1',
+      event_type: 'bidding:bid_submitted',
+      status: 'staged',
+      attempts: 0,
+      next_attempt_at: new Date('2024-01-01T00:00:00Z'),
+      created_at: new Date('2024-01-01T00:00:00Z')
+    });
+    
+    const now = new Date('2024-01-01T00:10:00Z');
+    
+    expect(await outbox.findDue(now, 10)).toHaveLength(0);
+    expect(await outbox.findDue(now, 10, new Date('2024-01-01T00:05:00Z'))).toHaveLength(1);
+  });
+  
+  it('rebuilds the recorded event from an entry', async () => {
+    const event = bidSubmitted();
+    const entry = await outbox.record(event);
+    
+    expect(outbox.toEvent(entry!)).toEqual(event);
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Transactional Outbox - Domain events stored with the writes that cause them
+ * 
+ * An agent that writes rows and then publishes an event separately can lose
+ * the event when it fails in between, or publish an event for writes that
+ * were rolled back. Instead, events are recorded in an outbox table inside
+ * the same unit of work as the domain writes, so they are kept or discarded
+ * together. Recorded events are staged until the unit of work commits and
+ * then become pending; the outbox relay publishes pending events to the
+ * event bus at least once.
+ */
+
+import { DataInterface } from './data-interface';
+import { DomainEvent } from '../events/event-bus';
+
+/**
+ * Outbox entry statuses
+ * - staged: recorded by a unit of work that has not committed yet
+ * - pending: waiting to be published
+ * - published: delivered to the event bus
+ * - failed: gave up after too many attempts
+ */
+export type OutboxStatus = 'staged' | 'pending' | 'published' | 'failed';
+
+/**
+ * An event stored in the outbox
+ */
+export interface OutboxEntry {
+  id: string;
+  event_id: string;
+  event_type: string;
+  event_version: number;
+  domain: string;
+  payload: Record<string, any>;
+  correlation_id: string;
+  causation_id?: string;
+  user_id?: string;
+  occurred_at: Date | string;
+  
+  /**
+   * Key identifying the fact the event reports; an event whose key is
+   * already in the outbox is not recorded again
+   */
+  dedupe_key: string;
+  status: OutboxStatus;
+  attempts: number;
+  last_error?: string;
+  next_attempt_at: Date | string;
+  published_at?: Date | string;
+  created_at: Date | string;
+}
+
+/**
+ * Outbox configuration
+ */
+export interface OutboxOptions {
+  /**
+   * Table holding the outbox (defaults to 'event_outbox')
+   */
+  table?: string;
+}
+
+/**
+ * Outbox stored through a domain's data interface
+ */
+export class TransactionalOutbox {
+  private readonly table: string;
+  
+  /**
+   * Listeners notified when entries become pending
+   */
+  private releaseListeners: Array<() => Promise<void> | void> = [];
+  
+  /**
+   * Constructor for the outbox
+   * 
+   * @param dataInterface Data interface of the domain whose events are stored
+   * @param options Outbox configuration
+   */
+  constructor(
+    private readonly dataInterface: DataInterface,
+    options: OutboxOptions = {}
+  ) {
+    this.table = options.table || 'event_outbox';
+  }
+  
+  /**
+   * Record an event to be published once the unit of work in progress commits
+   * Call this inside the unit of work that makes the writes the event reports.
+   * Outside a unit of work, the event is recorded in one of its own.
+   * 
+   * @param event The event
+   * @param dedupeKey Key identifying the fact the event reports (defaults to the event ID)
+   * @returns The staged entry, or null if an entry with the same key exists
+   */
+  public async record(event: DomainEvent<any>, dedupeKey: string = event.id): Promise<OutboxEntry | null> {
+    return this.dataInterface.withTransaction(async () => {
+      const existing = await this.dataInterface.findOne<OutboxEntry>(this.table, { dedupe_key: dedupeKey });
+      
+      if (existing) {
+        return null;
+      }
+      
+      const entry = await this.dataInterface.create<OutboxEntry>(this.table, {
+        event_id: event.id,
+        event_type: event.type,
+        event_version: event.version,
+        domain: event.domain,
+        payload: event.payload,
+        correlation_id: event.correlationId,
+        causation_id: event.causationId,
+        user_id: event.userId,
+        occurred_at: event.occurredAt,
+        dedupe_key: dedupeKey,
+        status: 'staged',
+        attempts: 0,
+        next_attempt_at: event.occurredAt,
+        created_at: new Date()
+      });
+      
+      await this.dataInterface.afterCommit(() => this.release(entry.id));
+      
+      return entry;
+    }, { operation: 'recordEvent' });
+  }
+  
+  /**
+   * Get entries that are due to be published, oldest first
+   * Entries staged before the given time are included: their unit of work
+   * committed but stopped before releasing them, since none lasts that long.
+   * 
+   * @param now Current time
+   * @param limit Maximum number of entries
+   * @param stagedBefore Time before which staged entries are treated as committed
+   * @returns Entries whose next attempt is due
+   */
+  public async findDue(now: Date, limit: number, stagedBefore?: Date): Promise<OutboxEntry[]> {
+    const pending = { status: 'pending', next_attempt_at: { $lte: now } };
+    
+    return this.dataInterface.findMany<OutboxEntry>(this.table, stagedBefore ? {
+      $or: [pending, { status: 'staged', created_at: { $lte: stagedBefore } }]
+    } : pending, {
+      orderBy: 'created_at',
+      orderDirection: 'asc',
+      limit
+    });
+  }
+  
+  /**
+   * Mark an entry as published
+   * 
+   * @param id Entry ID
+   */
+  public async markPublished(id: string): Promise<void> {
+    await this.dataInterface.update(this.table, id, {
+      status: 'published',
+      published_at: new Date()
+    });
+  }
+  
+  /**
+   * Record a failed attempt to publish an entry
+   * 
+   * @param entry The entry
+   * @param error Why publishing failed
+   * @param nextAttemptAt When to try again, or undefined to give up
+   */
+  public async markAttemptFailed(entry: OutboxEntry, error: string, nextAttemptAt?: Date): Promise<void> {
+    await this.dataInterface.update(this.table, entry.id, {
+      status: nextAttemptAt ? 'pending' : 'failed',
+      attempts: entry.attempts + 1,
+      last_error: error,
+      ...(nextAttemptAt ? { next_attempt_at: nextAttemptAt } : {})
+    });
+  }
+  
+  /**
+   * Count entries by status
+   * 
+   * @param status Entry status
+   * @returns Number of entries with the status
+   */
+  public async count(status: OutboxStatus): Promise<number> {
+    return this.dataInterface.count(this.table, { status });
+  }
+  
+  /**
+   * Listen for entries becoming pending, e.g. to publish them right away
+   * The unit of work that released the entries waits for the listeners
+   * 
+   * @param listener Function called after a unit of work releases an entry
+   * @returns Function that removes the listener
+   */
+  public onRelease(listener: () => Promise<void> | void): () => void {
+    this.releaseListeners.push(listener);
+    
+    return () => {
+      this.releaseListeners = this.releaseListeners.filter(existing => existing !== listener);
+    };
+  }
+  
+  /**
+   * Rebuild the event stored in an entry
+   * 
+   * @param entry The entry
+   * @returns The event as it was recorded
+   */
+  public toEvent(entry: OutboxEntry): DomainEvent<any> {
+    return {
+      id: entry.event_id,
+      type: entry.event_type,
+      version: entry.event_version,
+      domain: entry.domain,
+      payload: entry.payload,
+      correlationId: entry.correlation_id,
+      causationId: entry.causation_id,
+      userId: entry.user_id,
+      occurredAt: new Date(entry.occurred_at)
+    };
+  }
+  
+  /**
+   * Make a staged entry pending once its unit of work has committed
+   * 
+   * @param id Entry ID
+   */
+  private async release(id: string): Promise<void> {
+    await this.dataInterface.update(this.table, id, { status: 'pending' });
+    
+    for (const listener of this.releaseListeners) {
+      await listener();
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import { InMemoryDataInterface } from '../persistence/in-memory-data-interface';
+import { InMemoryEventBus, createEvent, defineEvent } from '../events/event-bus';
+import { ManualClock } from '../scheduling/scheduler';
+import { SagaEngine, SagaStepResult, defineSaga } from './saga-engine';
+
+const OrderPlaced = defineEvent<{ orderId: string }>('test:order_placed', 1, 'An order was placed');
+const PaymentSettled = defineEvent<{ orderId: string; paid: boolean }>('test:payment_settled', 1, 'A payment was settled');
+
+describe('SagaEngine', () => {
+  let clock: ManualClock;
+  let eventBus: InMemoryEventBus;
+  let engine: SagaEngine;
+  let calls: string[];
+  let confirmResult: SagaStepResult;
+  
+  const origin = { domain: 'test' };
+  
+  beforeEach(() => {
+    clock = new ManualClock(new Date('2024-01-01T00:00:00Z'));
+    eventBus = new InMemoryEventBus();
+    engine = new SagaEngine(new InMemoryDataInterface('test'), eventBus, { clock });
+    calls = [];
+    confirmResult = { success: true };
+    
+    engine.register(defineSaga<{ orderId: string; reservation?: string }>({
+      name: 'order',
+      description: 'Reserve stock, wait for the payment and confirm the order',
+      startedBy: OrderPlaced,
+      start: event => ({ key: event.payload.orderId, state: { orderId: event.payload.orderId } }),
+      steps: [
+        {
+          name: 'reserve',
+          description: 'Reserve the stock',
+          run: async () => {
+            calls.push('reserve');
+            return { success: true, state: { reservation: 'reservation-1' } };
+          },
+          compensate: async context => {
+            calls.push(`release ${context.state.reservation}`);
+            return { success: true };
+          }
+        },
+        {
+          name: 'charge',
+          description: 'Charge the customer and wait for the payment',
+          run: async () => {
+            calls.push('charge');
+            return { success: true };
+          },
+          compensate: async () => {
+            calls.push('refund');
+            return { success: true };
+          },
+          awaits: {
+            events: [PaymentSettled],
+            key: event => event.payload.orderId,
+            timeoutMs: 60000,
+            onEvent: event => event.payload.paid
+              ? { success: true }
+              : { success: false, error: 'PAYMENT_DECLINED' }
+          }
+        },
+        {
+          name: 'confirm',
+          description: 'Confirm the order',
+          run: async () => {
+            calls.push('confirm');
+            return confirmResult;
+          }
+        }
+      ]
+    }));
+  });
+  
+  async function placeOrder(): Promise<void> {
+    await eventBus.publish(createEvent(OrderPlaced, { orderId: 'order-1' }, origin));
+  }
+  
+  async function settlePayment(paid: boolean): Promise<void> {
+    await eventBus.publish(createEvent(PaymentSettled, { orderId: 'order-1', paid }, origin));
+  }
+  
+  it('waits for the awaited event and completes', async () => {
+    await placeOrder();
+    
+    expect(await engine.getInstance('order', 'order-1')).toMatchObject({ status: 'waiting', step_name: 'charge' });
+    
+    await settlePayment(true);
+    
+    expect(await engine.getInstance('order', 'order-1')).toMatchObject({
+      status: 'completed',
+      performed_steps: ['reserve', 'charge', 'confirm'],
+      state: { orderId: 'order-1', reservation: 'reservation-1' }
+    });
+    expect(calls).toEqual(['reserve', 'charge', 'confirm']);
+  });
+  
+  it('ignores a redelivered starting event', async () => {
+    const event = createEvent(OrderPlaced, { orderId: 'order-1' }, origin);
+    
+    await eventBus.publish(event);
+    await eventBus.publish(event);
+    
+    expect(calls).toEqual(['reserve', 'charge']);
+  });
+  
+  it('compensates the performed steps in reverse order when a step fails', async () => {
+    await placeOrder();
+    await settlePayment(false);
+    
+    expect(await engine.getInstance('order', 'order-1')).toMatchObject({
+      status: 'compensated',
+      error: 'PAYMENT_DECLINED',
+      compensated_steps: ['charge', 'reserve']
+    });
+    expect(calls).toEqual(['reserve', 'charge', 'refund', 'release reservation-1']);
+  });
+  
+  it('compensates when a later action fails', async () => {
+    confirmResult = { success: false, error: 'OUT_OF_STOCK', message: 'No stock left' };
+    
+    await placeOrder();
+    await settlePayment(true);
+    
+    expect(await engine.getInstance('order', 'order-1')).toMatchObject({
+      status: 'compensated',
+      error: 'OUT_OF_STOCK',
+      error_message: 'No stock left'
+    });
+    expect(calls).toEqual(['reserve', 'charge', 'confirm', 'refund', 'release reservation-1']);
+  });
+  
+  it('times out a step whose event does not arrive and compensates', async () => {
+    await placeOrder();
+    
+    clock.advance(30000);
+    expect(await engine.run(clock.now())).toMatchObject({ processed: 0 });
+    
+    clock.advance(30000);
+    expect(await engine.run(clock.now())).toMatchObject({ processed: 1, failures: [] });
+    
+    expect(await engine.getInstance('order', 'order-1')).toMatchObject({
+      status: 'compensated',
+      error: 'TIMEOUT',
+      error_message: "Step 'charge' timed out"
+    });
+    expect(calls).toEqual(['reserve', 'charge', 'refund', 'release reservation-1']);
+    
+    // An event arriving after the timeout no longer moves the saga
+    await settlePayment(true);
+    
+    expect(calls).not.toContain('confirm');
+  });
+  
+  it('leaves an instance failed when a compensation fails', async () => {
+    engine.register(defineSaga<{ orderId: string }>({
+      name: 'unrecoverable',
+      description: 'A saga whose first step cannot be undone',
+      startedBy: OrderPlaced,
+      start: event => ({ key: event.payload.orderId, state: { orderId: event.payload.orderId } }),
+      steps: [
+        {
+          name: 'ship',
+          description: 'Ship the order',
+          run: async () => ({ success: true }),
+          compensate: async () => { throw new Error('already shipped'); }
+        },
+        {
+          name: 'invoice',
+          description: 'Invoice the order',
+          run: async () => ({ success: false, error: 'INVOICE_FAILED' })
+        }
+      ]
+    }));
+    
+    await placeOrder();
+    
+    expect(await engine.getInstance('unrecoverable', 'order-1')).toMatchObject({
+      status: 'failed',
+      error: 'COMPENSATION_FAILED',
+      error_message: "Compensating step 'ship' failed: already shipped"
+    });
+  });
+  
+  it('does not compensate once a pivot step was performed', async () => {
+    engine.register(defineSaga<{ orderId: string }>({
+      name: 'pivoted',
+      description: 'A saga that cannot be undone after its first step',
+      startedBy: OrderPlaced,
+      start: event => ({ key: event.payload.orderId, state: { orderId: event.payload.orderId } }),
+      steps: [
+        {
+          name: 'capture',
+          description: 'Capture the payment',
+          pivot: true,
+          run: async () => ({ success: true }),
+          compensate: async () => {
+            calls.push('uncapture');
+            return { success: true };
+          }
+        },
+        {
+          name: 'notify',
+          description: 'Notify the customer',
+          run: async () => ({ success: false, error: 'NOTIFY_FAILED' })
+        }
+      ]
+    }));
+    
+    await placeOrder();
+    
+    expect(await engine.getInstance('pivoted', 'order-1')).toMatchObject({ status: 'failed', error: 'NOTIFY_FAILED' });
+    expect(calls).not.toContain('uncapture');
+  });
+});
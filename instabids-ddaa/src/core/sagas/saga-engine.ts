@@ -0,0 +1,714 @@
+/**
+ * Saga Engine - Long-running workflows that span domains
+ * 
+ * Some business processes outlive a single unit of work: they act in one
+ * domain, wait for another domain to report back, and act again. A saga
+ * declares such a process as a sequence of steps. A step may perform an
+ * action, may wait for events from other domains, and may declare how to
+ * undo its action. The engine starts a saga instance when the event that
+ * starts the saga is published, moves it forward as the awaited events
+ * arrive, and times out steps whose events never come. When a step fails,
+ * the steps already performed are compensated in reverse order, unless the
+ * saga has passed a pivot step; past that point it cannot be undone and the
+ * instance is left failed for manual recovery.
+ * 
+ * Instances are stored through a data interface, so they survive restarts.
+ * An instance is recorded before each step's action runs and again after
+ * it, so an action interrupted by a crash is run again when the engine
+ * resumes the instance; step actions and compensations must be idempotent.
+ */
+
+import { DataInterface } from '../persistence/data-interface';
+import { DomainEvent, EventBus, EventDefinition } from '../events/event-bus';
+import { Clock, JobRunResult, ScheduledJob, systemClock } from '../scheduling/scheduler';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Instances whose lock is held by the work in progress
+ */
+const heldLocks = new AsyncLocalStorage<Set<string>>();
+
+/**
+ * Saga instance statuses
+ * - running: performing its current step's action
+ * - waiting: waiting for an event of its current step
+ * - completed: every step was performed
+ * - compensating: undoing the steps performed after one failed
+ * - compensated: every performed step was undone
+ * - failed: could not be completed or compensated and needs manual recovery
+ */
+export type SagaStatus = 'running' | 'waiting' | 'completed' | 'compensating' | 'compensated' | 'failed';
+
+/**
+ * A stored saga instance
+ */
+export interface SagaInstance<S = Record<string, any>> {
+  id: string;
+  saga_name: string;
+  
+  /**
+   * Key identifying the instance among the saga's instances, e.g. the ID of
+   * the entity the workflow is about
+   */
+  saga_key: string;
+  status: SagaStatus;
+  
+  /**
+   * Index of the step in progress
+   */
+  current_step: number;
+  step_name?: string;
+  state: S;
+  
+  /**
+   * Names of the steps whose action was performed, in order
+   */
+  performed_steps: string[];
+  
+  /**
+   * Names of the performed steps that were compensated
+   */
+  compensated_steps: string[];
+  
+  /**
+   * IDs of the events the instance has handled, so redelivered events are ignored
+   */
+  handled_events: string[];
+  
+  correlation_id: string;
+  
+  /**
+   * When the step being waited on times out
+   */
+  deadline_at?: Date | string;
+  error?: string;
+  error_message?: string;
+  created_at: Date | string;
+  updated_at: Date | string;
+  completed_at?: Date | string;
+}
+
+/**
+ * Outcome of a step's action, event handler or compensation
+ */
+export interface SagaStepResult<S = Record<string, any>> {
+  success: boolean;
+  
+  /**
+   * Values merged into the instance's state
+   */
+  state?: Partial<S>;
+  error?: string;
+  message?: string;
+}
+
+/**
+ * What a step's callbacks know about the instance they act for
+ */
+export interface SagaStepContext<S = Record<string, any>> {
+  sagaId: string;
+  key: string;
+  state: S;
+  
+  /**
+   * Correlation ID of the event that started the saga, for the events its steps cause
+   */
+  correlationId: string;
+  
+  /**
+   * ID of the event that moved the saga to this point, if any
+   */
+  causationId?: string;
+  
+  /**
+   * Error the saga failed with, when compensating
+   */
+  error?: string;
+  now: Date;
+}
+
+/**
+ * Events a step waits for before the saga moves on
+ */
+export interface SagaAwait<S = Record<string, any>> {
+  events: Array<EventDefinition<any> | string>;
+  
+  /**
+   * Key of the instance an event belongs to, or undefined if it belongs to none
+   */
+  key: (event: DomainEvent<any>) => string | undefined;
+  
+  /**
+   * How long to wait, in milliseconds, before the step fails with TIMEOUT
+   */
+  timeoutMs: number;
+  
+  /**
+   * Decide what an awaited event means for the instance
+   * Return null to ignore the event and keep waiting, a successful result
+   * to complete the step, or a failed result to fail the saga.
+   */
+  onEvent: (
+    event: DomainEvent<any>,
+    context: SagaStepContext<S>
+  ) => SagaStepResult<S> | null | Promise<SagaStepResult<S> | null>;
+}
+
+/**
+ * A step of a saga
+ */
+export interface SagaStep<S = Record<string, any>> {
+  name: string;
+  description: string;
+  
+  /**
+   * Action performed when the step starts
+   */
+  run?: (context: SagaStepContext<S>) => Promise<SagaStepResult<S>>;
+  
+  /**
+   * Events to wait for once the action is performed
+   */
+  awaits?: SagaAwait<S>;
+  
+  /**
+   * Undo the step when a later step fails
+   */
+  compensate?: (context: SagaStepContext<S>) => Promise<SagaStepResult<S>>;
+  
+  /**
+   * Whether the saga can no longer be compensated once this step is performed
+   */
+  pivot?: boolean;
+}
+
+/**
+ * Declaration of a saga
+ */
+export interface SagaDefinition<S = Record<string, any>> {
+  name: string;
+  description: string;
+  
+  /**
+   * Event that starts an instance
+   */
+  startedBy: EventDefinition<any> | string;
+  
+  /**
+   * Key and initial state of the instance an event starts, or undefined if
+   * the event does not start one
+   */
+  start: (event: DomainEvent<any>) => { key: string; state: S } | undefined;
+  
+  steps: SagaStep<S>[];
+}
+
+/**
+ * Declare a saga
+ * 
+ * @param definition The saga
+ * @returns The validated saga
+ * @throws Error if the saga has no steps or two steps share a name
+ */
+export function defineSaga<S>(definition: SagaDefinition<S>): SagaDefinition<S> {
+  if (definition.steps.length === 0) {
+    throw new Error(`Saga '${definition.name}' has no steps`);
+  }
+  
+  const names = new Set<string>();
+  
+  for (const step of definition.steps) {
+    if (names.has(step.name)) {
+      throw new Error(`Saga '${definition.name}' has more than one step named '${step.name}'`);
+    }
+    
+    names.add(step.name);
+  }
+  
+  return definition;
+}
+
+/**
+ * Saga engine configuration
+ */
+export interface SagaEngineOptions {
+  /**
+   * Table holding the saga instances (defaults to 'saga_instances')
+   */
+  table?: string;
+  
+  /**
+   * Clock step deadlines are computed from (defaults to the system clock)
+   */
+  clock?: Clock;
+  
+  /**
+   * How long an instance may stay running or compensating before the engine
+   * assumes it was interrupted and resumes it, in milliseconds (defaults to five minutes)
+   */
+  stalledAfterMs?: number;
+  
+  /**
+   * Maximum number of instances each run times out or resumes (defaults to 100)
+   */
+  batchSize?: number;
+}
+
+/**
+ * Runs sagas on an event bus
+ * Run the engine on a scheduler to time out steps and resume interrupted instances.
+ */
+export class SagaEngine implements ScheduledJob {
+  public readonly name = 'sagas.deadlines';
+  public readonly description = 'Time out saga steps whose events did not arrive and resume interrupted sagas';
+  
+  private readonly table: string;
+  private readonly clock: Clock;
+  private readonly stalledAfterMs: number;
+  private readonly batchSize: number;
+  
+  /**
+   * Registered sagas keyed by name
+   */
+  private sagas: Map<string, SagaDefinition<any>> = new Map();
+  
+  /**
+   * Work queued on each instance, so events for one instance are handled one at a time
+   */
+  private locks: Map<string, Promise<void>> = new Map();
+  
+  /**
+   * Constructor for the saga engine
+   * 
+   * @param dataInterface Data interface the instances are stored through
+   * @param eventBus Event bus the sagas listen to
+   * @param options Engine configuration
+   */
+  constructor(
+    private readonly dataInterface: DataInterface,
+    private readonly eventBus: EventBus,
+    options: SagaEngineOptions = {}
+  ) {
+    this.table = options.table || 'saga_instances';
+    this.clock = options.clock || systemClock;
+    this.stalledAfterMs = options.stalledAfterMs ?? 5 * 60 * 1000;
+    this.batchSize = options.batchSize || 100;
+  }
+  
+  /**
+   * Register a saga and subscribe to the events it starts on and waits for
+   * 
+   * @param saga The saga
+   * @returns Function that unsubscribes the saga
+   */
+  public register(saga: SagaDefinition<any>): () => void {
+    if (this.sagas.has(saga.name)) {
+      throw new Error(`Saga '${saga.name}' is already registered`);
+    }
+    
+    const startType = eventType(saga.startedBy);
+    const types = new Set([startType]);
+    
+    for (const step of saga.steps) {
+      for (const event of step.awaits?.events || []) {
+        types.add(eventType(event));
+      }
+    }
+    
+    this.sagas.set(saga.name, saga);
+    
+    const unsubscribe = this.eventBus.subscribe([...types], async event => {
+      if (event.type === startType) {
+        await this.start(saga, event);
+      }
+      
+      for (let index = 0; index < saga.steps.length; index++) {
+        const awaits = saga.steps[index].awaits;
+        
+        if (!awaits || !awaits.events.some(awaited => eventType(awaited) === event.type)) {
+          continue;
+        }
+        
+        const key = awaits.key(event);
+        
+        if (key !== undefined) {
+          await this.deliver(saga, index, key, event);
+        }
+      }
+    });
+    
+    return () => {
+      unsubscribe();
+      this.sagas.delete(saga.name);
+    };
+  }
+  
+  /**
+   * Get an instance of a saga
+   * 
+   * @param sagaName Name of the saga
+   * @param key Key of the instance
+   * @returns The instance, or null if none was started for the key
+   */
+  public async getInstance<S = Record<string, any>>(sagaName: string, key: string): Promise<SagaInstance<S> | null> {
+    return this.dataInterface.findOne<SagaInstance<S>>(this.table, { saga_name: sagaName, saga_key: key });
+  }
+  
+  /**
+   * Time out the steps whose deadline has passed and resume interrupted instances
+   * 
+   * @param now Current time
+   * @returns Summary of the run
+   */
+  public async run(now: Date): Promise<JobRunResult> {
+    const result: JobRunResult = { processed: 0, skipped: 0, failures: [] };
+    
+    const expired = await this.dataInterface.findMany<SagaInstance>(this.table, {
+      status: 'waiting',
+      deadline_at: { $lte: now }
+    }, { limit: this.batchSize });
+    
+    const stalled = await this.dataInterface.findMany<SagaInstance>(this.table, {
+      status: { $in: ['running', 'compensating'] },
+      updated_at: { $lte: new Date(now.getTime() - this.stalledAfterMs) }
+    }, { limit: this.batchSize });
+    
+    for (const found of [...expired, ...stalled]) {
+      const saga = this.sagas.get(found.saga_name);
+      
+      if (!saga) {
+        result.skipped++;
+        continue;
+      }
+      
+      try {
+        const handled = await this.withLock(saga, found.saga_key, async () => {
+          // The instance may have moved on since it was looked up
+          const instance = await this.getInstance(saga.name, found.saga_key);
+          
+          if (!instance || instance.status !== found.status || instance.current_step !== found.current_step) {
+            return false;
+          }
+          
+          if (instance.status === 'waiting') {
+            await this.fail(saga, instance, {
+              success: false,
+              error: 'TIMEOUT',
+              message: `Step '${saga.steps[instance.current_step].name}' timed out`
+            });
+          } else if (instance.status === 'running') {
+            await this.advance(saga, instance);
+          } else {
+            await this.compensate(saga, instance);
+          }
+          
+          return true;
+        });
+        
+        if (handled) {
+          result.processed++;
+        } else {
+          result.skipped++;
+        }
+      } catch (error) {
+        result.failures.push({
+          id: found.id,
+          error: 'SAGA_ERROR',
+          message: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Start an instance for an event, unless the event starts none or its instance exists
+   * 
+   * @param saga The saga
+   * @param event The starting event
+   */
+  private async start(saga: SagaDefinition<any>, event: DomainEvent<any>): Promise<void> {
+    const started = saga.start(event);
+    
+    if (!started) {
+      return;
+    }
+    
+    await this.withLock(saga, started.key, async () => {
+      if (await this.getInstance(saga.name, started.key)) {
+        return;
+      }
+      
+      const now = this.clock.now();
+      const instance = await this.dataInterface.create<SagaInstance>(this.table, {
+        saga_name: saga.name,
+        saga_key: started.key,
+        status: 'running',
+        current_step: 0,
+        step_name: saga.steps[0].name,
+        state: started.state,
+        performed_steps: [],
+        compensated_steps: [],
+        handled_events: [event.id],
+        correlation_id: event.correlationId,
+        created_at: now,
+        updated_at: now
+      });
+      
+      await this.advance(saga, instance, event.id);
+    });
+  }
+  
+  /**
+   * Hand an awaited event to the instance it belongs to
+   * The event is ignored unless the instance is waiting on the step that awaits it
+   * 
+   * @param saga The saga
+   * @param index Index of the step awaiting the event
+   * @param key Key of the instance
+   * @param event The event
+   */
+  private async deliver(saga: SagaDefinition<any>, index: number, key: string, event: DomainEvent<any>): Promise<void> {
+    await this.withLock(saga, key, async () => {
+      let instance = await this.getInstance(saga.name, key);
+      
+      if (!instance || instance.status !== 'waiting' || instance.current_step !== index) {
+        return;
+      }
+      
+      if (instance.handled_events.includes(event.id)) {
+        return;
+      }
+      
+      const result = await settle(() => saga.steps[index].awaits!.onEvent(event, this.contextFor(instance!, event.id)));
+      
+      if (!result) {
+        return;
+      }
+      
+      instance = await this.save(instance, {
+        state: { ...instance.state, ...result.state },
+        handled_events: [...instance.handled_events, event.id]
+      });
+      
+      if (!result.success) {
+        await this.fail(saga, instance, result);
+        return;
+      }
+      
+      instance = await this.save(instance, {
+        status: 'running',
+        current_step: index + 1,
+        step_name: saga.steps[index + 1]?.name,
+        deadline_at: null
+      });
+      
+      await this.advance(saga, instance, event.id);
+    });
+  }
+  
+  /**
+   * Perform steps from the current one until a step waits, the saga fails or it completes
+   * 
+   * @param saga The saga
+   * @param instance The instance, running
+   * @param causationId ID of the event that moved the instance to its current step
+   */
+  private async advance(saga: SagaDefinition<any>, instance: SagaInstance, causationId?: string): Promise<void> {
+    while (instance.current_step < saga.steps.length) {
+      const step = saga.steps[instance.current_step];
+      
+      if (!instance.performed_steps.includes(step.name)) {
+        if (step.run) {
+          const result = await settle(() => step.run!(this.contextFor(instance, causationId)));
+          
+          if (!result.success) {
+            await this.fail(saga, instance, result);
+            return;
+          }
+          
+          instance = await this.save(instance, { state: { ...instance.state, ...result.state } });
+        }
+        
+        instance = await this.save(instance, { performed_steps: [...instance.performed_steps, step.name] });
+      }
+      
+      if (step.awaits) {
+        await this.save(instance, {
+          status: 'waiting',
+          deadline_at: new Date(this.clock.now().getTime() + step.awaits.timeoutMs)
+        });
+        
+        return;
+      }
+      
+      instance = await this.save(instance, {
+        current_step: instance.current_step + 1,
+        step_name: saga.steps[instance.current_step + 1]?.name
+      });
+    }
+    
+    await this.save(instance, {
+      status: 'completed',
+      completed_at: this.clock.now()
+    });
+  }
+  
+  /**
+   * Fail an instance, compensating its performed steps unless it passed a pivot step
+   * 
+   * @param saga The saga
+   * @param instance The instance
+   * @param result The failed result
+   */
+  private async fail(saga: SagaDefinition<any>, instance: SagaInstance, result: SagaStepResult): Promise<void> {
+    const error = {
+      error: result.error || 'STEP_FAILED',
+      error_message: result.message,
+      deadline_at: null
+    };
+    
+    const pastPivot = saga.steps.some(step => step.pivot && instance.performed_steps.includes(step.name));
+    
+    if (pastPivot) {
+      await this.save(instance, { ...error, status: 'failed' });
+      return;
+    }
+    
+    await this.compensate(saga, await this.save(instance, { ...error, status: 'compensating' }));
+  }
+  
+  /**
+   * Undo the performed steps that are not compensated yet, latest first
+   * A compensation that fails leaves the instance failed, with the steps
+   * still to undo recorded in it.
+   * 
+   * @param saga The saga
+   * @param instance The instance, compensating
+   */
+  private async compensate(saga: SagaDefinition<any>, instance: SagaInstance): Promise<void> {
+    const steps = saga.steps
+      .filter(step => instance.performed_steps.includes(step.name) && !instance.compensated_steps.includes(step.name))
+      .reverse();
+    
+    for (const step of steps) {
+      if (step.compensate) {
+        const result = await settle(() => step.compensate!(this.contextFor(instance)));
+        
+        if (!result.success) {
+          await this.save(instance, {
+            status: 'failed',
+            error: 'COMPENSATION_FAILED',
+            error_message: `Compensating step '${step.name}' failed: ${result.message || result.error}`
+          });
+          
+          return;
+        }
+        
+        instance = await this.save(instance, { state: { ...instance.state, ...result.state } });
+      }
+      
+      instance = await this.save(instance, { compensated_steps: [...instance.compensated_steps, step.name] });
+    }
+    
+    await this.save(instance, {
+      status: 'compensated',
+      completed_at: this.clock.now()
+    });
+  }
+  
+  /**
+   * Build the context passed to a step's callbacks
+   * 
+   * @param instance The instance
+   * @param causationId ID of the event being handled, if any
+   * @returns The step context
+   */
+  private contextFor(instance: SagaInstance, causationId?: string): SagaStepContext {
+    return {
+      sagaId: instance.id,
+      key: instance.saga_key,
+      state: instance.state,
+      correlationId: instance.correlation_id,
+      causationId,
+      error: instance.error,
+      now: this.clock.now()
+    };
+  }
+  
+  /**
+   * Store changes to an instance
+   * 
+   * @param instance The instance
+   * @param changes Fields to change
+   * @returns The updated instance
+   */
+  private async save(instance: SagaInstance, changes: Record<string, any>): Promise<SagaInstance> {
+    return this.dataInterface.update<SagaInstance>(this.table, instance.id, {
+      ...changes,
+      updated_at: this.clock.now()
+    });
+  }
+  
+  /**
+   * Run work on an instance once the work already queued on it is done
+   * Work queued from inside work on the same instance, e.g. by an event its
+   * step published, can only start after it, so it is queued without waiting.
+   * 
+   * @param saga The saga
+   * @param key Key of the instance
+   * @param work The work
+   * @returns Result of the work, or undefined if it was queued without waiting
+   */
+  private async withLock<R>(saga: SagaDefinition<any>, key: string, work: () => Promise<R>): Promise<R | undefined> {
+    const lockKey = `${saga.name}:${key}`;
+    const held = heldLocks.getStore();
+    const previous = this.locks.get(lockKey) || Promise.resolve();
+    const result = previous.then(() => heldLocks.run(new Set([...(held || []), lockKey]), work));
+    const done = result.then(() => undefined, () => undefined);
+    
+    this.locks.set(lockKey, done);
+    
+    done.then(() => {
+      if (this.locks.get(lockKey) === done) {
+        this.locks.delete(lockKey);
+      }
+    });
+    
+    if (held?.has(lockKey)) {
+      result.catch(error => console.error(`Error in saga '${saga.name}' instance ${key}:`, error));
+      return undefined;
+    }
+    
+    return result;
+  }
+}
+
+/**
+ * Name of an event type
+ * 
+ * @param type Event definition or type name
+ * @returns The type name
+ */
+function eventType(type: EventDefinition<any> | string): string {
+  return typeof type === 'string' ? type : type.type;
+}
+
+/**
+ * Run a step callback, turning a thrown error into a failed result
+ * 
+ * @param callback The callback
+ * @returns Its result
+ */
+async function settle<R extends SagaStepResult | null>(callback: () => R | Promise<R>): Promise<R | SagaStepResult> {
+  try {
+    return await callback();
+  } catch (error) {
+    return {
+      success: false,
+      error: 'STEP_ERROR',
+      message: error instanceof Error ? error.message : String(error)
+    };
+  }
+}
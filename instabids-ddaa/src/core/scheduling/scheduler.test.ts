@@ -0,0 +1,110 @@
+import { JobRunResult, ManualClock, ScheduledJob, Scheduler, SchedulerTickReport, TimerDriver } from './scheduler';
+
+const done: JobRunResult = { processed: 1, skipped: 0, failures: [] };
+
+/**
+ * Job recording the times it ran at
+ */
+function recordingJob(name: string, runs: Date[], run: () => Promise<JobRunResult> = async () => done): ScheduledJob {
+  return {
+    name,
+    description: `Records its runs (${name})`,
+    run: async now => {
+      runs.push(now);
+      return run();
+    }
+  };
+}
+
+describe('Scheduler', () => {
+  let clock: ManualClock;
+  let scheduler: Scheduler;
+  
+  beforeEach(() => {
+    clock = new ManualClock(new Date('2026-03-01T12:00:00Z'));
+    scheduler = new Scheduler({ clock });
+  });
+  
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+  
+  it('runs every job at the time of the clock, in registration order', async () => {
+    const runs: Date[] = [];
+    const order: string[] = [];
+    scheduler.register(recordingJob('first', runs, async () => { order.push('first'); return done; }));
+    scheduler.register(recordingJob('second', runs, async () => { order.push('second'); return done; }));
+    
+    clock.advance(60 * 1000);
+    const report = await scheduler.tick();
+    
+    expect(order).toEqual(['first', 'second']);
+    expect(runs).toEqual([clock.now(), clock.now()]);
+    expect(report).toEqual({
+      startedAt: clock.now(),
+      jobs: [{ job: 'first', ...done }, { job: 'second', ...done }]
+    });
+  });
+  
+  it('reports a job that throws and runs the jobs after it', async () => {
+    const runs: Date[] = [];
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    scheduler.register(recordingJob('broken', runs, async () => { throw new Error('database unavailable'); }));
+    scheduler.register(recordingJob('healthy', runs));
+    
+    const report = await scheduler.tick();
+    
+    expect(report.jobs).toEqual([
+      { job: 'broken', processed: 0, skipped: 0, failures: [], error: 'database unavailable' },
+      { job: 'healthy', ...done }
+    ]);
+  });
+  
+  it('shares the tick in progress instead of starting another', async () => {
+    const runs: Date[] = [];
+    let finish!: () => void;
+    scheduler.register(recordingJob('slow', runs, () => new Promise(resolve => { finish = () => resolve(done); })));
+    
+    const first = scheduler.tick();
+    const second = scheduler.tick();
+    await Promise.resolve();
+    finish();
+    
+    expect(await second).toBe(await first);
+    expect(runs).toHaveLength(1);
+    
+    const third = scheduler.tick();
+    finish();
+    await third;
+    
+    expect(runs).toHaveLength(2);
+  });
+  
+  it('refuses to register two jobs with the same name', () => {
+    scheduler.register(recordingJob('job', []));
+    
+    expect(() => scheduler.register(recordingJob('job', []))).toThrow("Job 'job' is already registered");
+  });
+  
+  it('ticks on the timer driver while started and reports each tick', async () => {
+    const reports: SchedulerTickReport[] = [];
+    let fire: (() => void) | undefined;
+    const timerDriver: TimerDriver = {
+      schedule: callback => {
+        fire = callback;
+        return () => { fire = undefined; };
+      }
+    };
+    scheduler = new Scheduler({ clock, timerDriver, onTick: report => reports.push(report) });
+    scheduler.register(recordingJob('job', []));
+    
+    scheduler.start();
+    fire!();
+    await new Promise(resolve => setImmediate(resolve));
+    scheduler.stop();
+    
+    expect(reports).toHaveLength(1);
+    expect(scheduler.isRunning).toBe(false);
+    expect(fire).toBeUndefined();
+  });
+});
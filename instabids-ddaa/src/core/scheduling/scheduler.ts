@@ -0,0 +1,301 @@
+/**
+ * Scheduler - Periodic background jobs for domain agents
+ * 
+ * Time-driven domain behavior (deadlines passing, reminders falling due) is
+ * expressed as jobs that look at the current time, find the entities that
+ * need attention and act on them. The scheduler runs its jobs on every tick.
+ * Ticks come from a timer driver while the scheduler is started, or from
+ * calling tick() directly, and the current time comes from a pluggable clock,
+ * so jobs can be driven deterministically without waiting for real time.
+ */
+
+/**
+ * Source of the current time
+ */
+export interface Clock {
+  now(): Date;
+}
+
+/**
+ * Clock that reads the system time
+ */
+export const systemClock: Clock = {
+  now: () => new Date()
+};
+
+/**
+ * Clock that only moves when told to
+ */
+export class ManualClock implements Clock {
+  /**
+   * Current time in milliseconds since the epoch
+   */
+  private current: number;
+  
+  /**
+   * Constructor for a manual clock
+   * 
+   * @param start Initial time (defaults to the system time)
+   */
+  constructor(start: Date = new Date()) {
+    this.current = start.getTime();
+  }
+  
+  public now(): Date {
+    return new Date(this.current);
+  }
+  
+  /**
+   * Set the current time
+   * 
+   * @param time New current time
+   */
+  public set(time: Date): void {
+    this.current = time.getTime();
+  }
+  
+  /**
+   * Move the clock forward
+   * 
+   * @param milliseconds Amount of time to advance by
+   */
+  public advance(milliseconds: number): void {
+    this.current += milliseconds;
+  }
+}
+
+/**
+ * Drives the scheduler's ticks while it is started
+ */
+export interface TimerDriver {
+  /**
+   * Call a function repeatedly
+   * 
+   * @param callback Function to call on each interval
+   * @param intervalMs Interval between calls in milliseconds
+   * @returns Function that cancels the timer
+   */
+  schedule(callback: () => void, intervalMs: number): () => void;
+}
+
+/**
+ * Timer driver backed by setInterval
+ * The timer does not keep the Node.js process alive on its own
+ */
+export const intervalTimerDriver: TimerDriver = {
+  schedule: (callback, intervalMs) => {
+    const handle = setInterval(callback, intervalMs);
+    
+    if (typeof handle.unref === 'function') {
+      handle.unref();
+    }
+    
+    return () => clearInterval(handle);
+  }
+};
+
+/**
+ * Outcome of acting on a single item in a job run
+ */
+export interface JobItemFailure {
+  id: string;
+  error: string;
+  message?: string;
+}
+
+/**
+ * Result of running a job once
+ */
+export interface JobRunResult {
+  /**
+   * Items acted on successfully
+   */
+  processed: number;
+  
+  /**
+   * Items that no longer needed action, e.g. a reminder that was already sent
+   */
+  skipped: number;
+  
+  failures: JobItemFailure[];
+}
+
+/**
+ * A unit of periodic work
+ */
+export interface ScheduledJob {
+  name: string;
+  description: string;
+  
+  /**
+   * Perform the work that is due at the given time
+   * 
+   * @param now Current time according to the scheduler's clock
+   * @returns Summary of the work done
+   */
+  run(now: Date): Promise<JobRunResult>;
+}
+
+/**
+ * Report of a single tick
+ */
+export interface SchedulerTickReport {
+  startedAt: Date;
+  jobs: Array<JobRunResult & { job: string; error?: string }>;
+}
+
+/**
+ * Scheduler configuration
+ */
+export interface SchedulerOptions {
+  clock?: Clock;
+  timerDriver?: TimerDriver;
+  
+  /**
+   * Interval between ticks while started, in milliseconds (defaults to one minute)
+   */
+  intervalMs?: number;
+  
+  /**
+   * Called with the report of every tick run by the timer driver
+   */
+  onTick?: (report: SchedulerTickReport) => void;
+}
+
+/**
+ * Runs registered jobs on every tick
+ */
+export class Scheduler {
+  public readonly clock: Clock;
+  
+  private readonly timerDriver: TimerDriver;
+  private readonly intervalMs: number;
+  private readonly onTick?: (report: SchedulerTickReport) => void;
+  
+  /**
+   * Registered jobs in the order they run
+   */
+  private jobs: ScheduledJob[] = [];
+  
+  /**
+   * Cancels the running timer, if started
+   */
+  private cancelTimer?: () => void;
+  
+  /**
+   * Tick in progress, if any
+   */
+  private running?: Promise<SchedulerTickReport>;
+  
+  /**
+   * Constructor for a scheduler
+   * 
+   * @param options Scheduler configuration
+   */
+  constructor(options: SchedulerOptions = {}) {
+    this.clock = options.clock || systemClock;
+    this.timerDriver = options.timerDriver || intervalTimerDriver;
+    this.intervalMs = options.intervalMs || 60 * 1000;
+    this.onTick = options.onTick;
+  }
+  
+  /**
+   * Register a job
+   * 
+   * @param job Job to run on every tick
+   */
+  public register(job: ScheduledJob): void {
+    if (this.jobs.some(existing => existing.name === job.name)) {
+      throw new Error(`Job '${job.name}' is already registered`);
+    }
+    
+    this.jobs.push(job);
+  }
+  
+  /**
+   * Names of the registered jobs
+   */
+  public getJobs(): string[] {
+    return this.jobs.map(job => job.name);
+  }
+  
+  /**
+   * Run every job once, in registration order
+   * A job that throws is reported and does not stop the jobs after it.
+   * If a tick is already in progress, its report is returned instead of
+   * starting another one.
+   * 
+   * @returns Report of the tick
+   */
+  public async tick(): Promise<SchedulerTickReport> {
+    if (this.running) {
+      return this.running;
+    }
+    
+    this.running = this.runJobs();
+    
+    try {
+      return await this.running;
+    } finally {
+      this.running = undefined;
+    }
+  }
+  
+  /**
+   * Start ticking on the configured interval
+   */
+  public start(): void {
+    if (this.cancelTimer) {
+      return;
+    }
+    
+    this.cancelTimer = this.timerDriver.schedule(() => {
+      this.tick()
+        .then(report => this.onTick?.(report))
+        .catch(error => console.error('Error running scheduled jobs:', error));
+    }, this.intervalMs);
+  }
+  
+  /**
+   * Stop ticking
+   * A tick in progress runs to completion.
+   */
+  public stop(): void {
+    this.cancelTimer?.();
+    this.cancelTimer = undefined;
+  }
+  
+  /**
+   * Whether the scheduler is ticking on its interval
+   */
+  public get isRunning(): boolean {
+    return !!this.cancelTimer;
+  }
+  
+  /**
+   * Run every job once
+   * 
+   * @returns Report of the run
+   */
+  private async runJobs(): Promise<SchedulerTickReport> {
+    const now = this.clock.now();
+    const report: SchedulerTickReport = { startedAt: now, jobs: [] };
+    
+    for (const job of this.jobs) {
+      try {
+        report.jobs.push({ job: job.name, ...(await job.run(now)) });
+      } catch (error) {
+        console.error(`Error running job '${job.name}':`, error);
+        report.jobs.push({
+          job: job.name,
+          processed: 0,
+          skipped: 0,
+          failures: [],
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+    
+    return report;
+  }
+}
@@ -0,0 +1,140 @@
+import { InMemoryDataInterface } from '../../core/persistence/in-memory-data-interface';
+import { BiddingAgent } from './bidding-agent';
+import { BiddingGuard } from './bidding-guard';
+
+describe('BiddingAgent negotiation', () => {
+  let dataInterface: InMemoryDataInterface;
+  
+  const agentFor = (userId: string): BiddingAgent =>
+    new BiddingAgent(new BiddingGuard(dataInterface), dataInterface, { userId, timestamp: Date.now() });
+  const bid = (): Promise<any> => dataInterface.findById('bids', 'bid-1');
+  
+  beforeEach(() => {
+    dataInterface = new InMemoryDataInterface('bidding');
+    dataInterface.seed('users', [
+      { id: 'homeowner-1', role: 'homeowner' },
+      { id: 'contractor-user-1', role: 'contractor' }
+    ]);
+    dataInterface.seed('contractors', [{ id: 'contractor-1', user_id: 'contractor-user-1' }]);
+    dataInterface.seed('bid_cards', [{
+      id: 'card-1',
+      creator_id: 'homeowner-1',
+      visibility: 'public',
+      status: 'open',
+      bid_deadline: new Date(Date.now() + 24 * 60 * 60 * 1000)
+    }]);
+    dataInterface.seed('bids', [{
+      id: 'bid-1',
+      bid_card_id: 'card-1',
+      contractor_id: 'contractor-1',
+      amount: 5000,
+      timeline: { duration_days: 30 },
+      status: 'submitted'
+    }]);
+  });
+  
+  it('lets only the homeowner open a negotiation', async () => {
+    const result = await agentFor('contractor-user-1').fulfillIntent({
+      operation: 'counterBid',
+      params: { bid_id: 'bid-1', amount: 5500 }
+    });
+    
+    expect(result).toMatchObject({ success: false, error: 'VALIDATION_ERROR' });
+    expect((await bid()).status).toBe('submitted');
+  });
+  
+  it('records each counter-offer as a round with its deltas and a bid revision', async () => {
+    const result = await agentFor('homeowner-1').fulfillIntent({
+      operation: 'counterBid',
+      params: { bid_id: 'bid-1', amount: 4500, timeline: { duration_days: 25 } }
+    });
+    
+    expect(result.success).toBe(true);
+    expect(result.data.offer).toMatchObject({
+      round_number: 1,
+      offered_by: 'homeowner',
+      amount: 4500,
+      amount_delta: -500,
+      status: 'pending'
+    });
+    expect(result.data.revision).toMatchObject({ revision_type: 'counter_offer', revised_amount: 4500 });
+    expect(result.data.negotiation).toMatchObject({ status: 'open', current_round: 1 });
+    expect((await bid()).status).toBe('negotiating');
+  });
+  
+  it('makes the parties take turns', async () => {
+    await agentFor('homeowner-1').fulfillIntent({ operation: 'counterBid', params: { bid_id: 'bid-1', amount: 4500 } });
+    
+    const again = await agentFor('homeowner-1').fulfillIntent({
+      operation: 'counterBid',
+      params: { bid_id: 'bid-1', amount: 4000 }
+    });
+    const reply = await agentFor('contractor-user-1').fulfillIntent({
+      operation: 'counterBid',
+      params: { bid_id: 'bid-1', amount: 4800 }
+    });
+    
+    expect(again.success).toBe(false);
+    expect(reply.success).toBe(true);
+    expect(reply.data.offer).toMatchObject({ round_number: 2, offered_by: 'contractor', amount_delta: 300 });
+    expect(await dataInterface.findMany('bid_negotiation_offers', { status: 'countered' })).toHaveLength(1);
+  });
+  
+  it('applies the terms of an accepted counter-offer to the bid', async () => {
+    await agentFor('homeowner-1').fulfillIntent({
+      operation: 'counterBid',
+      params: { bid_id: 'bid-1', amount: 4500, timeline: { duration_days: 25 } }
+    });
+    
+    const result = await agentFor('contractor-user-1').fulfillIntent({
+      operation: 'respondToCounter',
+      params: { bid_id: 'bid-1', response: 'accept' }
+    });
+    
+    expect(result.success).toBe(true);
+    expect(await bid()).toMatchObject({ status: 'shortlisted', amount: 4500, timeline: { duration_days: 25 } });
+    expect(await dataInterface.findOne('bid_revisions', { original_bid_id: 'bid-1' })).toMatchObject({ status: 'accepted' });
+  });
+  
+  it('keeps the bid terms when a counter-offer is rejected', async () => {
+    await agentFor('homeowner-1').fulfillIntent({ operation: 'counterBid', params: { bid_id: 'bid-1', amount: 4500 } });
+    
+    const result = await agentFor('contractor-user-1').fulfillIntent({
+      operation: 'respondToCounter',
+      params: { bid_id: 'bid-1', response: 'reject' }
+    });
+    
+    expect(result.success).toBe(true);
+    expect(await bid()).toMatchObject({ status: 'shortlisted', amount: 5000 });
+    expect(result.data.negotiation.status).toBe('settled');
+  });
+  
+  it('cancels the pending offer when the contractor withdraws the bid', async () => {
+    await agentFor('homeowner-1').fulfillIntent({ operation: 'counterBid', params: { bid_id: 'bid-1', amount: 4500 } });
+    
+    const result = await agentFor('contractor-user-1').fulfillIntent({
+      operation: 'withdrawBid',
+      params: { bid_id: 'bid-1', reason: 'Booked elsewhere' }
+    });
+    
+    expect(result.success).toBe(true);
+    expect(await bid()).toMatchObject({ status: 'withdrawn', is_retracted: true });
+    expect(await dataInterface.findOne('bid_negotiation_offers', { bid_id: 'bid-1' })).toMatchObject({ status: 'cancelled' });
+    expect(await dataInterface.findOne('bid_negotiations', { bid_id: 'bid-1' })).toMatchObject({ status: 'closed' });
+  });
+  
+  it('lets only the homeowner reject a bid', async () => {
+    const byContractor = await agentFor('contractor-user-1').fulfillIntent({
+      operation: 'rejectBid',
+      params: { bid_id: 'bid-1' }
+    });
+    const byHomeowner = await agentFor('homeowner-1').fulfillIntent({
+      operation: 'rejectBid',
+      params: { bid_id: 'bid-1', reason: 'Over budget' }
+    });
+    
+    expect(byContractor).toMatchObject({ success: false, error: 'PERMISSION_DENIED' });
+    expect(byHomeowner.success).toBe(true);
+    expect(await bid()).toMatchObject({ status: 'declined', decline_reason: 'Over budget' });
+  });
+});
@@ -11,7 +11,83 @@
 import { DomainAgent, DomainIntent, DomainOperationResult, DomainAgentContext } from '../../core/domain/domain-agent';
 import { GuardLayer } from '../../core/guard/guard-layer';
 import { DataInterface } from '../../core/persistence/data-interface';
-import { EventEmitter } from 'events';
+import { TransactionalOutbox } from '../../core/persistence/outbox';
+import { EventBus } from '../../core/events/event-bus';
+import {
+  biddingIntents,
+  CreateBidCardParams,
+  UpdateBidCardParams,
+  GetBidCardParams,
+  ListBidCardsParams,
+  SubmitBidParams,
+  UpdateBidParams,
+  GetBidParams,
+  ListBidsParams,
+  AcceptBidParams,
+  WithdrawBidParams,
+  RejectBidParams,
+  CounterBidParams,
+  RespondToCounterParams,
+  CreateBidGroupParams,
+  JoinBidGroupParams,
+  SubmitGroupBidParams,
+  AcceptGroupBidParams,
+  RequestGroupBidExtensionParams,
+  ConfirmAcceptanceParams,
+  DeclineAcceptanceParams,
+  RequestConnectionPaymentParams,
+  CancelConnectionPaymentParams,
+  ReleaseContactsParams,
+  RequestProjectHandoffParams,
+  RevokeAcceptanceParams,
+  StartWorkParams,
+  CloseBiddingParams,
+  ExpireBidCardParams,
+  ExpireCounterOfferParams,
+  SendDeadlineReminderParams,
+  ProcessGroupBidDeadlineParams,
+  GetAllowedTransitionsParams
+} from './bidding-intents';
+import {
+  bidCardMachine,
+  bidMachine,
+  bidGroupMachine,
+  groupBidMachine,
+  bidAcceptanceMachine,
+  groupBidAcceptanceMachine,
+  negotiationMachine,
+  negotiationOfferMachine,
+  connectionPaymentMachine,
+  biddingStateMachines
+} from './bidding-state-machines';
+import { biddingEvents } from './bidding-events';
+
+/**
+ * How long a counter-offer stays open when no expiry is given, in hours
+ */
+const DEFAULT_OFFER_EXPIRY_HOURS = 72;
+
+/**
+ * How long a group has to accept a group bid when no deadline is given, in days
+ */
+const DEFAULT_GROUP_ACCEPTANCE_DAYS = 7;
+
+/**
+ * Bid statuses in which a bid still awaits the homeowner's decision
+ */
+const OUTSTANDING_BID_STATUSES = ['submitted', 'viewed', 'shortlisted', 'negotiating'];
+
+/**
+ * Group bid statuses in which a group bid still awaits acceptance
+ */
+const OUTSTANDING_GROUP_BID_STATUSES = ['submitted', 'extended'];
+
+/**
+ * The payment domain's standard connection fee: a share of the accepted amount, within bounds
+ */
+const CONNECTION_FEE_RATE = 0.075;
+const MIN_CONNECTION_FEE = 10;
+const MAX_CONNECTION_FEE = 500;
 
 /**
  * The Bidding Domain Agent implements the domain-specific business logic
@@ -23,322 +99,64 @@ export class BiddingAgent extends DomainAgent {
    */
   protected readonly domain: string = 'bidding';
 
-  /**
-   * Domain-specific events that aren't exposed outside the domain
-   */
-  private domainEvents: EventEmitter;
-
   /**
    * Constructor for the bidding agent
    * 
    * @param guardLayer The guard layer for the bidding domain
    * @param dataInterface The data interface for the bidding domain
    * @param context The domain agent context
+   * @param eventBus The event bus domain events are published to
+   * @param outbox The outbox domain events are recorded in before they are published
    */
   constructor(
     guardLayer: GuardLayer,
     dataInterface: DataInterface,
-    context: DomainAgentContext
+    context: DomainAgentContext,
+    eventBus?: EventBus,
+    outbox?: TransactionalOutbox
   ) {
-    super(guardLayer, dataInterface, context);
-    this.domainEvents = new EventEmitter();
+    super(guardLayer, dataInterface, context, eventBus, outbox);
     
-    // Set up internal event handlers
-    this.initializeEventHandlers();
-  }
-
-  /**
-   * Set up internal event handlers
-   */
-  private initializeEventHandlers(): void {
-    // Handle bid card created event
-    this.domainEvents.on('bid_card_created', (bidCard) => {
-      console.log(`Bid card created: ${bidCard.id}`);
-      // Add any other internal logic needed when a bid card is created
-    });
-
-    // Handle bid submitted event
-    this.domainEvents.on('bid_submitted', (bid) => {
-      console.log(`Bid submitted: ${bid.id} for bid card ${bid.bid_card_id}`);
-      // Add any other internal logic needed when a bid is submitted
-    });
-
-    // Handle bid accepted event
-    this.domainEvents.on('bid_accepted', (bidAcceptance) => {
-      console.log(`Bid accepted: ${bidAcceptance.bid_id}`);
-      // Add any other internal logic needed when a bid is accepted
-    });
-  }
-
-  /**
-   * Execute the specific operation for the intent
-   * 
-   * @param intent Domain-specific intent to execute
-   * @returns Result of the operation
-   */
-  protected async executeIntent(
-    intent: DomainIntent
-  ): Promise<DomainOperationResult> {
-    // Implement operation routing based on the intent's operation
-    switch (intent.operation) {
-      case 'createBidCard':
-        return this.createBidCard(intent.params);
-      case 'updateBidCard':
-        return this.updateBidCard(intent.params);
-      case 'getBidCard':
-        return this.getBidCard(intent.params);
-      case 'listBidCards':
-        return this.listBidCards(intent.params);
-      case 'submitBid':
-        return this.submitBid(intent.params);
-      case 'updateBid':
-        return this.updateBid(intent.params);
-      case 'getBid':
-        return this.getBid(intent.params);
-      case 'listBids':
-        return this.listBids(intent.params);
-      case 'acceptBid':
-        return this.acceptBid(intent.params);
-      case 'createBidGroup':
-        return this.createBidGroup(intent.params);
-      case 'joinBidGroup':
-        return this.joinBidGroup(intent.params);
-      case 'submitGroupBid':
-        return this.submitGroupBid(intent.params);
-      case 'acceptGroupBid':
-        return this.acceptGroupBid(intent.params);
-      default:
-        return {
-          success: false,
-          error: 'UNKNOWN_OPERATION',
-          message: `Unknown operation: ${intent.operation}`
-        };
-    }
+    // Register the supported operations
+    this.registerIntents();
   }
 
   /**
-   * Get the list of supported operations in this domain
-   * 
-   * @returns Array of supported operations with descriptions
+   * Register the handler for each supported operation
    */
-  public getSupportedOperations(): Array<{
-    operation: string;
-    description: string;
-    parameters: Array<{
-      name: string;
-      type: string;
-      description: string;
-      required: boolean;
-    }>;
-  }> {
-    return [
-      {
-        operation: 'createBidCard',
-        description: 'Create a new bid card',
-        parameters: [
-          {
-            name: 'title',
-            type: 'string',
-            description: 'Title of the bid card',
-            required: true
-          },
-          {
-            name: 'description',
-            type: 'string',
-            description: 'Description of the bid card',
-            required: true
-          },
-          {
-            name: 'job_category_id',
-            type: 'string',
-            description: 'ID of the job category',
-            required: true
-          },
-          {
-            name: 'job_type_id',
-            type: 'string',
-            description: 'ID of the job type',
-            required: true
-          },
-          {
-            name: 'location',
-            type: 'object',
-            description: 'Location details',
-            required: true
-          },
-          {
-            name: 'zip_code',
-            type: 'string',
-            description: 'ZIP code of the project location',
-            required: true
-          },
-          {
-            name: 'budget_min',
-            type: 'number',
-            description: 'Minimum budget for the project',
-            required: false
-          },
-          {
-            name: 'budget_max',
-            type: 'number',
-            description: 'Maximum budget for the project',
-            required: false
-          },
-          {
-            name: 'timeline_start',
-            type: 'string',
-            description: 'Desired project start date',
-            required: false
-          },
-          {
-            name: 'timeline_end',
-            type: 'string',
-            description: 'Desired project end date',
-            required: false
-          },
-          {
-            name: 'bid_deadline',
-            type: 'string',
-            description: 'Deadline for submitting bids',
-            required: false
-          },
-          {
-            name: 'group_bidding_enabled',
-            type: 'boolean',
-            description: 'Whether group bidding is enabled',
-            required: false
-          }
-        ]
-      },
-      {
-        operation: 'updateBidCard',
-        description: 'Update an existing bid card',
-        parameters: [
-          {
-            name: 'id',
-            type: 'string',
-            description: 'ID of the bid card to update',
-            required: true
-          },
-          {
-            name: 'title',
-            type: 'string',
-            description: 'Title of the bid card',
-            required: false
-          },
-          {
-            name: 'description',
-            type: 'string',
-            description: 'Description of the bid card',
-            required: false
-          },
-          // Other update parameters...
-        ]
-      },
-      {
-        operation: 'getBidCard',
-        description: 'Get details of a specific bid card',
-        parameters: [
-          {
-            name: 'id',
-            type: 'string',
-            description: 'ID of the bid card to retrieve',
-            required: true
-          }
-        ]
-      },
-      {
-        operation: 'listBidCards',
-        description: 'List bid cards matching criteria',
-        parameters: [
-          {
-            name: 'creator_id',
-            type: 'string',
-            description: 'ID of the creator to filter by',
-            required: false
-          },
-          {
-            name: 'status',
-            type: 'string',
-            description: 'Status to filter by',
-            required: false
-          },
-          {
-            name: 'job_category_id',
-            type: 'string',
-            description: 'Job category ID to filter by',
-            required: false
-          },
-          {
-            name: 'zip_code',
-            type: 'string',
-            description: 'ZIP code to filter by',
-            required: false
-          },
-          {
-            name: 'limit',
-            type: 'number',
-            description: 'Maximum number of records to return',
-            required: false
-          },
-          {
-            name: 'offset',
-            type: 'number',
-            description: 'Number of records to skip',
-            required: false
-          }
-        ]
-      },
-      {
-        operation: 'submitBid',
-        description: 'Submit a bid for a bid card',
-        parameters: [
-          {
-            name: 'bid_card_id',
-            type: 'string',
-            description: 'ID of the bid card to bid on',
-            required: true
-          },
-          {
-            name: 'amount',
-            type: 'number',
-            description: 'Bid amount',
-            required: true
-          },
-          {
-            name: 'scope_of_work',
-            type: 'string',
-            description: 'Scope of work description',
-            required: true
-          },
-          {
-            name: 'materials_included',
-            type: 'object',
-            description: 'Details about included materials',
-            required: false
-          },
-          {
-            name: 'timeline',
-            type: 'object',
-            description: 'Timeline details',
-            required: false
-          },
-          {
-            name: 'value_propositions',
-            type: 'array',
-            description: 'Value propositions for the bid',
-            required: true
-          },
-          {
-            name: 'additional_notes',
-            type: 'string',
-            description: 'Additional notes',
-            required: false
-          }
-        ]
-      },
-      // Other operations would be defined here...
-    ];
+  private registerIntents(): void {
+    this.intents.register(biddingIntents.createBidCard, params => this.createBidCard(params));
+    this.intents.register(biddingIntents.updateBidCard, params => this.updateBidCard(params));
+    this.intents.register(biddingIntents.getBidCard, params => this.getBidCard(params));
+    this.intents.register(biddingIntents.listBidCards, params => this.listBidCards(params));
+    this.intents.register(biddingIntents.submitBid, params => this.submitBid(params));
+    this.intents.register(biddingIntents.updateBid, params => this.updateBid(params));
+    this.intents.register(biddingIntents.getBid, params => this.getBid(params));
+    this.intents.register(biddingIntents.listBids, params => this.listBids(params));
+    this.intents.register(biddingIntents.acceptBid, params => this.acceptBid(params));
+    this.intents.register(biddingIntents.withdrawBid, params => this.withdrawBid(params));
+    this.intents.register(biddingIntents.rejectBid, params => this.rejectBid(params));
+    this.intents.register(biddingIntents.counterBid, params => this.counterBid(params));
+    this.intents.register(biddingIntents.respondToCounter, params => this.respondToCounter(params));
+    this.intents.register(biddingIntents.createBidGroup, params => this.createBidGroup(params));
+    this.intents.register(biddingIntents.joinBidGroup, params => this.joinBidGroup(params));
+    this.intents.register(biddingIntents.submitGroupBid, params => this.submitGroupBid(params));
+    this.intents.register(biddingIntents.acceptGroupBid, params => this.acceptGroupBid(params));
+    this.intents.register(biddingIntents.requestGroupBidExtension, params => this.requestGroupBidExtension(params));
+    this.intents.register(biddingIntents.confirmAcceptance, params => this.confirmAcceptance(params));
+    this.intents.register(biddingIntents.declineAcceptance, params => this.declineAcceptance(params));
+    this.intents.register(biddingIntents.requestConnectionPayment, params => this.requestConnectionPayment(params));
+    this.intents.register(biddingIntents.cancelConnectionPayment, params => this.cancelConnectionPayment(params));
+    this.intents.register(biddingIntents.releaseContacts, params => this.releaseContacts(params));
+    this.intents.register(biddingIntents.requestProjectHandoff, params => this.requestProjectHandoff(params));
+    this.intents.register(biddingIntents.revokeAcceptance, params => this.revokeAcceptance(params));
+    this.intents.register(biddingIntents.startWork, params => this.startWork(params));
+    this.intents.register(biddingIntents.closeBidding, params => this.closeBidding(params));
+    this.intents.register(biddingIntents.expireBidCard, params => this.expireBidCard(params));
+    this.intents.register(biddingIntents.expireCounterOffer, params => this.expireCounterOffer(params));
+    this.intents.register(biddingIntents.sendDeadlineReminder, params => this.sendDeadlineReminder(params));
+    this.intents.register(biddingIntents.processGroupBidDeadline, params => this.processGroupBidDeadline(params));
+    this.intents.register(biddingIntents.getAllowedTransitions, params => this.getAllowedTransitions(params));
   }
 
   /**
@@ -347,7 +165,7 @@ export class BiddingAgent extends DomainAgent {
    * @param params Bid card creation parameters
    * @returns Operation result with created bid card
    */
-  private async createBidCard(params: any): Promise<DomainOperationResult> {
+  private async createBidCard(params: CreateBidCardParams): Promise<DomainOperationResult> {
     try {
       // Extract the creator ID from the context
       const creatorId = this.context.userId;
@@ -375,17 +193,22 @@ export class BiddingAgent extends DomainAgent {
         timeline_end: params.timeline_end ? new Date(params.timeline_end) : null,
         bid_deadline: params.bid_deadline ? new Date(params.bid_deadline) : null,
         group_bidding_enabled: params.group_bidding_enabled || false,
-        status: 'open',
+        prohibit_negotiation: params.prohibit_negotiation !== undefined ? params.prohibit_negotiation : true,
+        status: bidCardMachine.initial,
         visibility: params.visibility || 'public',
         created_at: new Date(),
         updated_at: new Date()
       };
       
-      // Create the bid card in the database
-      const bidCard = await this.dataInterface.create('bid_cards', bidCardData);
-      
-      // Emit internal domain event
-      this.domainEvents.emit('bid_card_created', bidCard);
+      // Create the bid card and record its event as one unit of work
+      const bidCard = await this.dataInterface.withTransaction(async () => {
+        const created = await this.dataInterface.create('bid_cards', bidCardData);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidCardCreated, { bid_card: created });
+        
+        return created;
+      }, { userId: creatorId, operation: 'createBidCard' });
       
       return {
         success: true,
@@ -407,7 +230,7 @@ export class BiddingAgent extends DomainAgent {
    * @param params Bid card update parameters
    * @returns Operation result with updated bid card
    */
-  private async updateBidCard(params: any): Promise<DomainOperationResult> {
+  private async updateBidCard(params: UpdateBidCardParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -441,44 +264,51 @@ export class BiddingAgent extends DomainAgent {
       }
       
       // Check if the bid card can be updated (based on status)
-      if (['awarded', 'completed', 'cancelled'].includes(existingBidCard.status)) {
-        return {
-          success: false,
-          error: 'INVALID_STATUS',
-          message: `Bid card with status '${existingBidCard.status}' cannot be updated`
-        };
+      const block = bidCardMachine.check(existingBidCard, 'edit');
+      
+      if (block) {
+        return { success: false, ...block };
       }
       
       // If this is a significant update that requires revision tracking
       const needsRevision = this.needsRevisionTracking(existingBidCard, params);
       
-      if (needsRevision) {
-        // Handle bid card revision logic here
-        // This would involve creating a revision record and updating the bid card
-        const revisionData = {
-          bid_card_id: params.id,
-          revision_number: existingBidCard.current_revision_number + 1,
-          revision_type: this.determineRevisionType(existingBidCard, params),
-          change_summary: params.change_summary || 'Bid card updated',
-          detailed_changes: this.extractDetailedChanges(existingBidCard, params),
-          created_at: new Date()
-        };
+      // The change summary belongs to the revision, not the bid card
+      const { id, change_summary, ...changes } = params;
+      const updateData: Record<string, any> = { ...changes };
+      
+      // Record the revision and update the bid card as one unit of work
+      const updatedBidCard = await this.dataInterface.withTransaction(async () => {
+        if (needsRevision) {
+          // Handle bid card revision logic here
+          // This would involve creating a revision record and updating the bid card
+          const revisionData = {
+            bid_card_id: params.id,
+            revision_number: existingBidCard.current_revision_number + 1,
+            revision_type: this.determineRevisionType(existingBidCard, params),
+            change_summary: change_summary || 'Bid card updated',
+            detailed_changes: this.extractDetailedChanges(existingBidCard, params),
+            created_at: new Date()
+          };
+          
+          // Create the revision record
+          const revision = await this.dataInterface.create('bid_card_revisions', revisionData);
+          
+          // Update the bid card with revision information
+          updateData.current_revision_number = revisionData.revision_number;
+          updateData.has_active_revision = true;
+          updateData.last_revised_at = new Date();
+        }
         
-        // Create the revision record
-        const revision = await this.dataInterface.create('bid_card_revisions', revisionData);
+        // Update the bid card
+        updateData.updated_at = new Date();
+        const updated = await this.dataInterface.update('bid_cards', id, updateData);
         
-        // Update the bid card with revision information
-        params.current_revision_number = revisionData.revision_number;
-        params.has_active_revision = true;
-        params.last_revised_at = new Date();
-      }
-      
-      // Update the bid card
-      params.updated_at = new Date();
-      const updatedBidCard = await this.dataInterface.update('bid_cards', params.id, params);
-      
-      // Emit internal domain event
-      this.domainEvents.emit('bid_card_updated', updatedBidCard);
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidCardUpdated, { bid_card: updated, revision_created: needsRevision });
+        
+        return updated;
+      }, { userId, operation: 'updateBidCard' });
       
       return {
         success: true,
@@ -501,7 +331,7 @@ export class BiddingAgent extends DomainAgent {
    * @param params Parameters containing the bid card ID
    * @returns Operation result with bid card details
    */
-  private async getBidCard(params: any): Promise<DomainOperationResult> {
+  private async getBidCard(params: GetBidCardParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -519,24 +349,6 @@ export class BiddingAgent extends DomainAgent {
         };
       }
       
-      // Check visibility permissions
-      if (bidCard.visibility !== 'public' && bidCard.creator_id !== userId) {
-        // For private bid cards, check if this user is allowed to view it
-        const hasAccess = await this.guardLayer.validateAccess(
-          `bid_cards:${bidCard.id}`,
-          'read',
-          this.context
-        );
-        
-        if (!hasAccess) {
-          return {
-            success: false,
-            error: 'PERMISSION_DENIED',
-            message: 'You do not have permission to view this bid card'
-          };
-        }
-      }
-      
       // Get the associated bids if the user is the creator
       let bids = [];
       if (bidCard.creator_id === userId) {
@@ -566,7 +378,7 @@ export class BiddingAgent extends DomainAgent {
    * @param params Query parameters
    * @returns Operation result with matching bid cards
    */
-  private async listBidCards(params: any): Promise<DomainOperationResult> {
+  private async listBidCards(params: ListBidCardsParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -653,7 +465,7 @@ export class BiddingAgent extends DomainAgent {
    * @param params Bid submission parameters
    * @returns Operation result with submitted bid
    */
-  private async submitBid(params: any): Promise<DomainOperationResult> {
+  private async submitBid(params: SubmitBidParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -699,22 +511,11 @@ export class BiddingAgent extends DomainAgent {
         };
       }
       
-      // Check if the bid card is open for bidding
-      if (bidCard.status !== 'open') {
-        return {
-          success: false,
-          error: 'INVALID_STATUS',
-          message: `Bid card with status '${bidCard.status}' is not open for bidding`
-        };
-      }
+      // Check if the bid card is open for bidding and the deadline has not passed
+      const block = bidCardMachine.check(bidCard, 'receive_bid');
       
-      // Check if the bid deadline has passed
-      if (bidCard.bid_deadline && new Date(bidCard.bid_deadline) < new Date()) {
-        return {
-          success: false,
-          error: 'BID_DEADLINE_PASSED',
-          message: 'The bid deadline has passed'
-        };
+      if (block) {
+        return { success: false, ...block };
       }
       
       // Check if the contractor already has a bid for this bid card
@@ -742,16 +543,21 @@ export class BiddingAgent extends DomainAgent {
         timeline: params.timeline || {},
         value_propositions: params.value_propositions || [],
         additional_notes: params.additional_notes,
-        status: 'submitted',
+        private_notes: params.private_notes,
+        status: bidMachine.initial,
         created_at: new Date(),
         updated_at: new Date()
       };
       
-      // Create the bid in the database
-      const bid = await this.dataInterface.create('bids', bidData);
-      
-      // Emit internal domain event
-      this.domainEvents.emit('bid_submitted', bid);
+      // Create the bid and record its event as one unit of work
+      const bid = await this.dataInterface.withTransaction(async () => {
+        const created = await this.dataInterface.create('bids', bidData);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidSubmitted, { bid: created });
+        
+        return created;
+      }, { userId, operation: 'submitBid' });
       
       return {
         success: true,
@@ -773,7 +579,7 @@ export class BiddingAgent extends DomainAgent {
    * @param params Bid update parameters
    * @returns Operation result with updated bid
    */
-  private async updateBid(params: any): Promise<DomainOperationResult> {
+  private async updateBid(params: UpdateBidParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -819,31 +625,11 @@ export class BiddingAgent extends DomainAgent {
         };
       }
       
-      // Check if the bid card is still open
-      if (bidCard.status !== 'open' && bidCard.status !== 'negotiation') {
-        return {
-          success: false,
-          error: 'INVALID_STATUS',
-          message: `Bid card with status '${bidCard.status}' does not allow bid updates`
-        };
-      }
-      
-      // Check if the bid deadline has passed
-      if (bidCard.bid_deadline && new Date(bidCard.bid_deadline) < new Date()) {
-        return {
-          success: false,
-          error: 'BID_DEADLINE_PASSED',
-          message: 'The bid deadline has passed'
-        };
-      }
+      // Check if the bid can still be revised and the bid card still accepts updates
+      const block = bidMachine.check(existingBid, 'revise', { bidCard });
       
-      // Check if the bid is already accepted
-      if (existingBid.status === 'accepted') {
-        return {
-          success: false,
-          error: 'BID_ALREADY_ACCEPTED',
-          message: 'This bid has already been accepted and cannot be updated'
-        };
+      if (block) {
+        return { success: false, ...block };
       }
       
       // Prepare the update data
@@ -861,12 +647,17 @@ export class BiddingAgent extends DomainAgent {
       if (params.timeline !== undefined) updateData.timeline = params.timeline;
       if (params.value_propositions !== undefined) updateData.value_propositions = params.value_propositions;
       if (params.additional_notes !== undefined) updateData.additional_notes = params.additional_notes;
+      if (params.private_notes !== undefined) updateData.private_notes = params.private_notes;
       
-      // Update the bid
-      const updatedBid = await this.dataInterface.update('bids', params.id, updateData);
-      
-      // Emit internal domain event
-      this.domainEvents.emit('bid_updated', updatedBid);
+      // Update the bid and record its event as one unit of work
+      const updatedBid = await this.dataInterface.withTransaction(async () => {
+        const updated = await this.dataInterface.update('bids', params.id, updateData);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidUpdated, { bid: updated });
+        
+        return updated;
+      }, { userId, operation: 'updateBid' });
       
       return {
         success: true,
@@ -888,7 +679,7 @@ export class BiddingAgent extends DomainAgent {
    * @param params Parameters containing the bid ID
    * @returns Operation result with bid details
    */
-  private async getBid(params: any): Promise<DomainOperationResult> {
+  private async getBid(params: GetBidParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -948,11 +739,15 @@ export class BiddingAgent extends DomainAgent {
         contractorProfile = await this.getContractorById(bid.contractor_id);
       }
       
+      // Both parties can follow the negotiation thread
+      const negotiation = await this.getNegotiationThread(bid.id);
+      
       return {
         success: true,
         data: {
           ...bid,
-          contractor: isBidCardCreator ? contractorProfile : undefined
+          contractor: isBidCardCreator ? contractorProfile : undefined,
+          negotiation: negotiation || undefined
         }
       };
     } catch (error) {
@@ -971,7 +766,7 @@ export class BiddingAgent extends DomainAgent {
    * @param params Query parameters
    * @returns Operation result with matching bids
    */
-  private async listBids(params: any): Promise<DomainOperationResult> {
+  private async listBids(params: ListBidsParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -1063,7 +858,7 @@ export class BiddingAgent extends DomainAgent {
    * @param params Parameters containing the bid ID
    * @returns Operation result with acceptance details
    */
-  private async acceptBid(params: any): Promise<DomainOperationResult> {
+  private async acceptBid(params: AcceptBidParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -1107,56 +902,57 @@ export class BiddingAgent extends DomainAgent {
         };
       }
       
-      // Check if the bid card is still open
-      if (bidCard.status !== 'open') {
-        return {
-          success: false,
-          error: 'INVALID_STATUS',
-          message: `Bid card with status '${bidCard.status}' does not allow bid acceptance`
-        };
-      }
+      // Check if the bid can be accepted and the bid card can be awarded
+      const block = bidMachine.check(bid, 'accept', { bidCard });
       
-      // Check if the bid is already accepted
-      if (bid.status === 'accepted') {
-        return {
-          success: false,
-          error: 'BID_ALREADY_ACCEPTED',
-          message: 'This bid has already been accepted'
-        };
+      if (block) {
+        return { success: false, ...block };
       }
       
-      // Update the bid status
-      const updatedBid = await this.dataInterface.update('bids', params.bid_id, {
-        status: 'accepted',
-        accepted_at: new Date(),
-        updated_at: new Date()
-      });
-      
-      // Update the bid card status
-      const updatedBidCard = await this.dataInterface.update('bid_cards', bid.bid_card_id, {
-        status: 'awarded',
-        awarded_bid_id: params.bid_id,
-        awarded_at: new Date(),
-        updated_at: new Date()
-      });
-      
-      // Create an acceptance record
-      const acceptanceData = {
-        bid_id: params.bid_id,
-        bid_card_id: bid.bid_card_id,
-        homeowner_id: userId,
-        contractor_id: bid.contractor_id,
-        amount: bid.amount,
-        terms_accepted: params.terms_accepted || true,
-        status: 'pending_contractor_confirmation',
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-      
-      const acceptance = await this.dataInterface.create('bid_acceptances', acceptanceData);
-      
-      // Emit internal domain event
-      this.domainEvents.emit('bid_accepted', acceptance);
+      // Accept the bid, award the bid card and record the acceptance as one unit of work
+      const { updatedBid, updatedBidCard, acceptance } = await this.dataInterface.withTransaction(async () => {
+        // Update the bid status
+        const updatedBid = await this.dataInterface.update(
+          'bids',
+          params.bid_id,
+          bidMachine.apply(bid, 'accept', { bidCard })
+        );
+        
+        // Update the bid card status
+        const updatedBidCard = await this.dataInterface.update('bid_cards', bid.bid_card_id, {
+          ...bidCardMachine.apply(bidCard, 'award'),
+          awarded_bid_id: params.bid_id
+        });
+        
+        // The agreed terms are final, so the negotiation is over
+        await this.closeNegotiation(params.bid_id);
+        
+        // Create an acceptance record
+        const acceptanceData = {
+          bid_id: params.bid_id,
+          bid_card_id: bid.bid_card_id,
+          homeowner_id: userId,
+          contractor_id: bid.contractor_id,
+          amount: bid.amount,
+          connection_fee_amount: this.calculateConnectionFee(bid.amount),
+          fee_calculation_method: 'percentage',
+          terms_accepted: params.terms_accepted || true,
+          status: bidAcceptanceMachine.initial,
+          created_at: new Date(),
+          updated_at: new Date()
+        };
+        
+        const acceptance = await this.dataInterface.create('bid_acceptances', acceptanceData);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidAccepted, {
+          acceptance,
+          bid: updatedBid,
+          bid_card: updatedBidCard
+        }, params.bid_id);
+        
+        return { updatedBid, updatedBidCard, acceptance };
+      }, { userId, operation: 'acceptBid' });
       
       return {
         success: true,
@@ -1177,98 +973,90 @@ export class BiddingAgent extends DomainAgent {
   }
 
   /**
-   * Create a new bid group for group bidding
+   * Withdraw a bid
    * 
-   * @param params Group creation parameters
-   * @returns Operation result with created group
+   * @param params Parameters containing the bid ID and reason
+   * @returns Operation result with the withdrawn bid
    */
-  private async createBidGroup(params: any): Promise<DomainOperationResult> {
+  private async withdrawBid(params: WithdrawBidParams): Promise<DomainOperationResult> {
     try {
-      // Extract the creator ID from the context
-      const creatorId = this.context.userId;
+      // Extract the user ID from the context
+      const userId = this.context.userId;
       
-      if (!creatorId) {
+      if (!userId) {
         return {
           success: false,
           error: 'AUTHENTICATION_ERROR',
-          message: 'User must be authenticated to create a bid group'
+          message: 'User must be authenticated to withdraw a bid'
         };
       }
       
-      // Get the bid card to check if group bidding is enabled
-      const bidCard = await this.dataInterface.findById('bid_cards', params.bid_card_id);
+      // Get the bid
+      const bid = await this.dataInterface.findById('bids', params.bid_id);
       
-      if (!bidCard) {
+      if (!bid) {
         return {
           success: false,
-          error: 'BID_CARD_NOT_FOUND',
-          message: `Bid card with ID ${params.bid_card_id} not found`
+          error: 'NOT_FOUND',
+          message: `Bid with ID ${params.bid_id} not found`
         };
       }
       
-      // Check if group bidding is enabled
-      if (!bidCard.group_bidding_enabled) {
+      // Verify ownership
+      const contractor = await this.getContractorByUserId(userId);
+      
+      if (!contractor || contractor.id !== bid.contractor_id) {
         return {
           success: false,
-          error: 'GROUP_BIDDING_DISABLED',
-          message: 'Group bidding is not enabled for this bid card'
+          error: 'PERMISSION_DENIED',
+          message: 'You can only withdraw your own bids'
         };
       }
       
-      // Prepare the group data
-      const groupData = {
-        bid_card_id: params.bid_card_id,
-        creator_id: creatorId,
-        name: params.name,
-        description: params.description,
-        max_members: params.max_members || 5,
-        status: 'open',
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-      
-      // Create the group in the database
-      const group = await this.dataInterface.create('bid_groups', groupData);
-      
-      // Add the creator as the first member
-      const memberData = {
-        bid_group_id: group.id as string,
-        contractor_id: creatorId,
-        role: 'leader',
-        status: 'active',
-        created_at: new Date(),
-        updated_at: new Date()
-      };
+      // Check if the bid can still be withdrawn
+      const block = bidMachine.check(bid, 'withdraw');
       
-      const member = await this.dataInterface.create('bid_group_members', memberData);
+      if (block) {
+        return { success: false, ...block };
+      }
       
-      // Emit internal domain event
-      this.domainEvents.emit('bid_group_created', { group, member });
+      // Withdraw the bid and end its negotiation as one unit of work
+      const updatedBid = await this.dataInterface.withTransaction(async () => {
+        const updatedBid = await this.dataInterface.update('bids', params.bid_id, {
+          ...bidMachine.apply(bid, 'withdraw'),
+          is_retracted: true,
+          retraction_reason: params.reason
+        });
+        
+        await this.closeNegotiation(params.bid_id);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidWithdrawn, { bid: updatedBid }, params.bid_id);
+        
+        return updatedBid;
+      }, { userId, operation: 'withdrawBid' });
       
       return {
         success: true,
-        data: {
-          group,
-          member
-        }
+        data: updatedBid
       };
     } catch (error) {
-      console.error('Error creating bid group:', error);
+      console.error('Error withdrawing bid:', error);
       return {
         success: false,
-        error: 'CREATION_ERROR',
+        error: 'UPDATE_ERROR',
         message: error instanceof Error ? error.message : String(error)
       };
     }
   }
 
   /**
-   * Join an existing bid group
+   * Reject a bid on one of the user's bid cards
    * 
-   * @param params Group joining parameters
-   * @returns Operation result with join details
+   * @param params Parameters containing the bid ID and reason
+   * @returns Operation result with the rejected bid
    */
-  private async joinBidGroup(params: any): Promise<DomainOperationResult> {
+  private async rejectBid(params: RejectBidParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -1277,107 +1065,85 @@ export class BiddingAgent extends DomainAgent {
         return {
           success: false,
           error: 'AUTHENTICATION_ERROR',
-          message: 'User must be authenticated to join a bid group'
+          message: 'User must be authenticated to reject a bid'
         };
       }
       
-      // Check if the user is a contractor
-      const isContractor = await this.isUserContractor(userId);
+      // Get the bid
+      const bid = await this.dataInterface.findById('bids', params.bid_id);
       
-      if (!isContractor) {
+      if (!bid) {
         return {
           success: false,
-          error: 'PERMISSION_DENIED',
-          message: 'Only contractors can join bid groups'
+          error: 'NOT_FOUND',
+          message: `Bid with ID ${params.bid_id} not found`
         };
       }
       
-      // Get the group
-      const group = await this.dataInterface.findById('bid_groups', params.bid_group_id);
+      // Get the bid card to check ownership
+      const bidCard = await this.dataInterface.findById('bid_cards', bid.bid_card_id);
       
-      if (!group) {
+      if (!bidCard) {
         return {
           success: false,
-          error: 'GROUP_NOT_FOUND',
-          message: `Bid group with ID ${params.bid_group_id} not found`
+          error: 'BID_CARD_NOT_FOUND',
+          message: `Bid card with ID ${bid.bid_card_id} not found`
         };
       }
       
-      // Check if the group is open for joining
-      if (group.status !== 'open') {
+      // Verify ownership
+      if (bidCard.creator_id !== userId) {
         return {
           success: false,
-          error: 'GROUP_CLOSED',
-          message: `Group with status '${group.status}' is not open for new members`
+          error: 'PERMISSION_DENIED',
+          message: 'You can only reject bids on your own bid cards'
         };
       }
       
-      // Get the current member count
-      const currentMembers = await this.dataInterface.findMany('bid_group_members', {
-        bid_group_id: params.bid_group_id,
-        status: 'active'
-      });
+      // Check if the bid can still be rejected
+      const block = bidMachine.check(bid, 'decline');
       
-      // Check if the group is full
-      if (currentMembers.length >= group.max_members) {
-        return {
-          success: false,
-          error: 'GROUP_FULL',
-          message: 'This bid group is already at maximum capacity'
-        };
+      if (block) {
+        return { success: false, ...block };
       }
       
-      // Check if the user is already a member
-      const existingMembership = currentMembers.find(m => m.contractor_id === userId);
-      
-      if (existingMembership) {
-        return {
-          success: false,
-          error: 'ALREADY_MEMBER',
-          message: 'You are already a member of this bid group'
-        };
-      }
-      
-      // Add the user as a member
-      const memberData = {
-        bid_group_id: params.bid_group_id,
-        contractor_id: userId,
-        role: 'member',
-        join_message: params.join_message,
-        status: 'active',
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-      
-      const member = await this.dataInterface.create('bid_group_members', memberData);
-      
-      // Emit internal domain event
-      this.domainEvents.emit('bid_group_joined', { group, member });
+      // Decline the bid and end its negotiation as one unit of work
+      const updatedBid = await this.dataInterface.withTransaction(async () => {
+        const updatedBid = await this.dataInterface.update('bids', params.bid_id, {
+          ...bidMachine.apply(bid, 'decline'),
+          decline_reason: params.reason
+        });
+        
+        await this.closeNegotiation(params.bid_id);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidRejected, { bid: updatedBid }, params.bid_id);
+        
+        return updatedBid;
+      }, { userId, operation: 'rejectBid' });
       
       return {
         success: true,
-        data: {
-          group,
-          member
-        }
+        data: updatedBid
       };
     } catch (error) {
-      console.error('Error joining bid group:', error);
+      console.error('Error rejecting bid:', error);
       return {
         success: false,
-        error: 'JOIN_ERROR',
+        error: 'UPDATE_ERROR',
         message: error instanceof Error ? error.message : String(error)
       };
     }
   }
 
   /**
-   * Submit a group bid on behalf of a bid group
+   * Make a counter-offer on a bid
+   * The homeowner opens the negotiation; after that the parties take turns
    * 
-   * @param params Group bid submission parameters
-   * @returns Operation result with submitted group bid
+   * @param params Counter-offer parameters
+   * @returns Operation result with the bid, negotiation thread, offer and bid revision
    */
-  private async submitGroupBid(params: any): Promise<DomainOperationResult> {
+  private async counterBid(params: CounterBidParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -1386,129 +1152,175 @@ export class BiddingAgent extends DomainAgent {
         return {
           success: false,
           error: 'AUTHENTICATION_ERROR',
-          message: 'User must be authenticated to submit a group bid'
-        };
-      }
-      
-      // Get the group
-      const group = await this.dataInterface.findById('bid_groups', params.bid_group_id);
-      
-      if (!group) {
-        return {
-          success: false,
-          error: 'GROUP_NOT_FOUND',
-          message: `Bid group with ID ${params.bid_group_id} not found`
+          message: 'User must be authenticated to counter a bid'
         };
       }
       
-      // Check if the user is the group leader
-      const membership = await this.dataInterface.findOne('bid_group_members', {
-        bid_group_id: params.bid_group_id,
-        contractor_id: userId
-      });
+      // Get the bid
+      const bid = await this.dataInterface.findById('bids', params.bid_id);
       
-      if (!membership || membership.role !== 'leader') {
+      if (!bid) {
         return {
           success: false,
-          error: 'PERMISSION_DENIED',
-          message: 'Only the group leader can submit a group bid'
+          error: 'NOT_FOUND',
+          message: `Bid with ID ${params.bid_id} not found`
         };
       }
       
-      // Get the bid card
-      const bidCard = await this.dataInterface.findById('bid_cards', group.bid_card_id);
+      // Get the bid card to check whether it allows negotiation
+      const bidCard = await this.dataInterface.findById('bid_cards', bid.bid_card_id);
       
       if (!bidCard) {
         return {
           success: false,
           error: 'BID_CARD_NOT_FOUND',
-          message: `Bid card with ID ${group.bid_card_id} not found`
+          message: `Bid card with ID ${bid.bid_card_id} not found`
         };
       }
       
-      // Check if the bid card is open for bidding
-      if (bidCard.status !== 'open') {
+      // Only the homeowner and the bidding contractor negotiate a bid
+      const party = await this.getNegotiationParty(bid, bidCard, userId);
+      
+      if (!party) {
         return {
           success: false,
-          error: 'INVALID_STATUS',
-          message: `Bid card with status '${bidCard.status}' is not open for bidding`
+          error: 'PERMISSION_DENIED',
+          message: 'Only the homeowner and the contractor can negotiate this bid'
         };
       }
       
-      // Check if the bid deadline has passed
-      if (bidCard.bid_deadline && new Date(bidCard.bid_deadline) < new Date()) {
-        return {
-          success: false,
-          error: 'BID_DEADLINE_PASSED',
-          message: 'The bid deadline has passed'
-        };
+      // Check if the bid can be countered and the bid card allows negotiation
+      const block = bidMachine.check(bid, 'counter', { bidCard });
+      
+      if (block) {
+        return { success: false, ...block };
       }
       
-      // Check if the group already has a bid for this bid card
-      const existingBid = await this.dataInterface.findOne('group_bids', {
-        bid_card_id: group.bid_card_id,
-        bid_group_id: params.bid_group_id
+      // The counter-offer changes the terms currently on the table
+      const pendingOffer = await this.dataInterface.findOne('bid_negotiation_offers', {
+        bid_id: bid.id,
+        status: 'pending'
       });
+      const liveOffer = pendingOffer && !negotiationOfferMachine.check(pendingOffer, 'counter') ? pendingOffer : null;
+      const previousTerms = liveOffer || bid;
       
-      if (existingBid) {
+      const amount = params.amount !== undefined ? params.amount : Number(previousTerms.amount);
+      const timeline = { ...(previousTerms.timeline || {}), ...(params.timeline || {}) };
+      const amountDelta = amount - Number(previousTerms.amount);
+      const timelineDelta = this.extractTimelineChanges(previousTerms.timeline || {}, timeline);
+      
+      if (amountDelta === 0 && Object.keys(timelineDelta).length === 0) {
         return {
           success: false,
-          error: 'BID_ALREADY_EXISTS',
-          message: 'This group has already submitted a bid for this bid card'
+          error: 'NO_CHANGE',
+          message: 'A counter-offer must change the amount or the timeline'
         };
       }
       
-      // Get all group members
-      const members = await this.dataInterface.findMany('bid_group_members', {
-        bid_group_id: params.bid_group_id,
-        status: 'active'
-      });
-      
-      // Prepare the group bid data
-      const groupBidData = {
-        bid_card_id: group.bid_card_id,
-        bid_group_id: params.bid_group_id,
-        leader_id: userId,
-        amount: params.amount,
-        scope_of_work: params.scope_of_work,
-        materials_included: params.materials_included || {},
-        timeline: params.timeline || {},
-        value_propositions: params.value_propositions || [],
-        member_roles: params.member_roles || {},
-        additional_notes: params.additional_notes,
-        member_count: members.length,
-        status: 'submitted',
-        created_at: new Date(),
-        updated_at: new Date()
-      };
-      
-      // Create the group bid in the database
-      const groupBid = await this.dataInterface.create('group_bids', groupBidData);
+      const expiresAt = params.expires_at
+        ? new Date(params.expires_at)
+        : new Date(Date.now() + DEFAULT_OFFER_EXPIRY_HOURS * 60 * 60 * 1000);
       
-      // Emit internal domain event
-      this.domainEvents.emit('group_bid_submitted', groupBid);
+      // Record the round and move the bid into negotiation as one unit of work
+      const { updatedBid, negotiation, offer, revision } = await this.dataInterface.withTransaction(async () => {
+        // Start the thread on the first counter-offer
+        let thread = await this.dataInterface.findOne('bid_negotiations', { bid_id: bid.id });
+        
+        if (!thread) {
+          thread = await this.dataInterface.create('bid_negotiations', {
+            bid_id: bid.id,
+            bid_card_id: bid.bid_card_id,
+            homeowner_id: bidCard.creator_id,
+            contractor_id: bid.contractor_id,
+            status: negotiationMachine.initial,
+            current_round: 0,
+            created_at: new Date(),
+            updated_at: new Date()
+          });
+        }
+        
+        // The offer being answered is countered; one that ran out is expired
+        if (pendingOffer) {
+          await this.settleOffer(pendingOffer, liveOffer ? 'counter' : 'expire');
+        }
+        
+        const roundNumber = thread.current_round + 1;
+        
+        const offer = await this.dataInterface.create<any>('bid_negotiation_offers', {
+          negotiation_id: thread.id,
+          bid_id: bid.id,
+          round_number: roundNumber,
+          offered_by: party,
+          offered_by_user_id: userId,
+          amount,
+          amount_delta: amountDelta,
+          timeline,
+          timeline_delta: timelineDelta,
+          message: params.message,
+          expires_at: expiresAt,
+          status: negotiationOfferMachine.initial,
+          created_at: new Date(),
+          updated_at: new Date()
+        });
+        
+        // Every round is part of the bid's revision history
+        const revision = await this.dataInterface.create('bid_revisions', {
+          original_bid_id: bid.id,
+          revision_type: 'counter_offer',
+          negotiation_offer_id: offer.id,
+          round_number: roundNumber,
+          revised_amount: amount,
+          scope_changes: params.message,
+          timeline_changes: timelineDelta,
+          status: 'submitted',
+          created_at: new Date(),
+          submitted_at: new Date()
+        });
+        
+        const negotiation = await this.dataInterface.update('bid_negotiations', thread.id, {
+          ...negotiationMachine.apply(thread, 'counter'),
+          current_round: roundNumber
+        });
+        
+        const updatedBid = await this.dataInterface.update(
+          'bids',
+          bid.id,
+          bidMachine.apply(bid, 'counter', { bidCard })
+        );
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidCountered, { bid: updatedBid, offer }, offer.id);
+        
+        return { updatedBid, negotiation, offer, revision };
+      }, { userId, operation: 'counterBid' });
       
       return {
         success: true,
-        data: groupBid
+        data: {
+          bid: updatedBid,
+          negotiation,
+          offer,
+          revision
+        }
       };
     } catch (error) {
-      console.error('Error submitting group bid:', error);
+      console.error('Error countering bid:', error);
       return {
         success: false,
-        error: 'SUBMISSION_ERROR',
+        error: 'NEGOTIATION_ERROR',
         message: error instanceof Error ? error.message : String(error)
       };
     }
   }
 
   /**
-   * Accept a group bid
+   * Accept or reject the pending counter-offer on a bid
+   * Accepting applies the offered amount and timeline to the bid
    * 
-   * @param params Parameters containing the group bid ID
-   * @returns Operation result with acceptance details
+   * @param params Response parameters
+   * @returns Operation result with the bid, negotiation thread and answered offer
    */
-  private async acceptGroupBid(params: any): Promise<DomainOperationResult> {
+  private async respondToCounter(params: RespondToCounterParams): Promise<DomainOperationResult> {
     try {
       // Extract the user ID from the context
       const userId = this.context.userId;
@@ -1517,110 +1329,1996 @@ export class BiddingAgent extends DomainAgent {
         return {
           success: false,
           error: 'AUTHENTICATION_ERROR',
-          message: 'User must be authenticated to accept a group bid'
+          message: 'User must be authenticated to respond to a counter-offer'
         };
       }
       
-      // Get the group bid
-      const groupBid = await this.dataInterface.findById('group_bids', params.group_bid_id);
+      // Get the bid
+      const bid = await this.dataInterface.findById('bids', params.bid_id);
       
-      if (!groupBid) {
+      if (!bid) {
         return {
           success: false,
           error: 'NOT_FOUND',
-          message: `Group bid with ID ${params.group_bid_id} not found`
+          message: `Bid with ID ${params.bid_id} not found`
         };
       }
       
-      // Get the bid card to check ownership
-      const bidCard = await this.dataInterface.findById('bid_cards', groupBid.bid_card_id);
+      const bidCard = await this.dataInterface.findById('bid_cards', bid.bid_card_id);
       
       if (!bidCard) {
         return {
           success: false,
           error: 'BID_CARD_NOT_FOUND',
-          message: `Bid card with ID ${groupBid.bid_card_id} not found`
+          message: `Bid card with ID ${bid.bid_card_id} not found`
         };
       }
       
-      // Verify ownership
-      if (bidCard.creator_id !== userId) {
+      // Get the offer awaiting a response
+      const offer = await this.dataInterface.findOne('bid_negotiation_offers', {
+        bid_id: bid.id,
+        status: 'pending'
+      });
+      
+      if (!offer) {
+        return {
+          success: false,
+          error: 'NO_PENDING_OFFER',
+          message: 'There is no open counter-offer on this bid'
+        };
+      }
+      
+      // Offers are answered by the party that did not make them
+      const party = await this.getNegotiationParty(bid, bidCard, userId);
+      
+      if (!party || party === offer.offered_by) {
         return {
           success: false,
           error: 'PERMISSION_DENIED',
-          message: 'You can only accept bids on your own bid cards'
+          message: 'Only the other party can respond to this offer'
         };
       }
       
-      // Check if the bid card is still open
-      if (bidCard.status !== 'open') {
+      const transition = params.response === 'accept' ? 'accept' : 'reject';
+      const block = negotiationOfferMachine.check(offer, transition) || bidMachine.check(bid, 'conclude_negotiation');
+      
+      if (block) {
+        // An offer that ran out is closed so the bid leaves negotiation
+        if (block.error === 'OFFER_EXPIRED') {
+          await this.dataInterface.withTransaction(
+            () => this.expireOffer(bid, offer),
+            { userId, operation: 'respondToCounter' }
+          );
+        }
+        
+        return { success: false, ...block };
+      }
+      
+      // Answer the offer, settle the thread and apply agreed terms as one unit of work
+      const { updatedBid, negotiation, answeredOffer } = await this.dataInterface.withTransaction(async () => {
+        const answeredOffer = await this.settleOffer(offer, transition, params.message);
+        
+        const thread = await this.dataInterface.findById('bid_negotiations', offer.negotiation_id);
+        const negotiation = thread
+          ? await this.dataInterface.update('bid_negotiations', thread.id, negotiationMachine.apply(thread, 'settle'))
+          : null;
+        
+        const bidUpdate: Record<string, any> = bidMachine.apply(bid, 'conclude_negotiation');
+        
+        if (transition === 'accept') {
+          bidUpdate.amount = offer.amount;
+          bidUpdate.timeline = offer.timeline;
+          bidUpdate.last_updated_at = new Date();
+          bidUpdate.update_count = (bid.update_count || 0) + 1;
+        }
+        
+        const updatedBid = await this.dataInterface.update('bids', bid.id, bidUpdate);
+        
+        // Publish domain event
+        await this.publishEvent(
+          transition === 'accept' ? biddingEvents.counterOfferAccepted : biddingEvents.counterOfferRejected,
+          { bid: updatedBid, offer: answeredOffer },
+          offer.id
+        );
+        
+        return { updatedBid, negotiation, answeredOffer };
+      }, { userId, operation: 'respondToCounter' });
+      
+      return {
+        success: true,
+        data: {
+          bid: updatedBid,
+          negotiation,
+          offer: answeredOffer
+        }
+      };
+    } catch (error) {
+      console.error('Error responding to counter-offer:', error);
+      return {
+        success: false,
+        error: 'NEGOTIATION_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Create a new bid group for group bidding
+   * 
+   * @param params Group creation parameters
+   * @returns Operation result with created group
+   */
+  private async createBidGroup(params: CreateBidGroupParams): Promise<DomainOperationResult> {
+    try {
+      // Extract the creator ID from the context
+      const creatorId = this.context.userId;
+      
+      if (!creatorId) {
         return {
           success: false,
-          error: 'INVALID_STATUS',
-          message: `Bid card with status '${bidCard.status}' does not allow bid acceptance`
+          error: 'AUTHENTICATION_ERROR',
+          message: 'User must be authenticated to create a bid group'
         };
       }
       
-      // Check if the group bid is already accepted
-      if (groupBid.status === 'accepted') {
+      // Get the bid card to check if group bidding is enabled
+      const bidCard = await this.dataInterface.findById('bid_cards', params.bid_card_id);
+      
+      if (!bidCard) {
         return {
           success: false,
-          error: 'BID_ALREADY_ACCEPTED',
-          message: 'This group bid has already been accepted'
+          error: 'BID_CARD_NOT_FOUND',
+          message: `Bid card with ID ${params.bid_card_id} not found`
         };
       }
       
-      // Update the group bid status
-      const updatedGroupBid = await this.dataInterface.update('group_bids', params.group_bid_id, {
-        status: 'accepted',
-        accepted_at: new Date(),
-        updated_at: new Date()
-      });
+      // Check if the bid card is open and group bidding is enabled
+      const block = bidCardMachine.check(bidCard, 'form_group');
       
-      // Update the bid card status
-      const updatedBidCard = await this.dataInterface.update('bid_cards', groupBid.bid_card_id, {
-        status: 'awarded',
-        awarded_group_bid_id: params.group_bid_id,
-        awarded_at: new Date(),
-        updated_at: new Date()
-      });
+      if (block) {
+        return { success: false, ...block };
+      }
       
-      // Create a group acceptance record
-      const acceptanceData = {
-        group_bid_id: params.group_bid_id,
-        bid_card_id: groupBid.bid_card_id,
-        homeowner_id: userId,
-        bid_group_id: groupBid.bid_group_id,
-        amount: groupBid.amount,
-        terms_accepted: params.terms_accepted || true,
-        status: 'pending_group_confirmation',
+      // Prepare the group data
+      const groupData = {
+        bid_card_id: params.bid_card_id,
+        creator_id: creatorId,
+        name: params.name,
+        description: params.description,
+        max_members: params.max_members || 5,
+        status: bidGroupMachine.initial,
         created_at: new Date(),
         updated_at: new Date()
       };
       
-      const acceptance = await this.dataInterface.create('group_bid_acceptances', acceptanceData);
-      
-      // Emit internal domain event
-      this.domainEvents.emit('group_bid_accepted', acceptance);
+      // Create the group and its leader membership as one unit of work
+      const { group, member } = await this.dataInterface.withTransaction(async () => {
+        // Create the group in the database
+        const group = await this.dataInterface.create<any>('bid_groups', groupData);
+        
+        // Add the creator as the first member
+        const memberData = {
+          bid_group_id: group.id as string,
+          contractor_id: creatorId,
+          role: 'leader',
+          status: 'active',
+          created_at: new Date(),
+          updated_at: new Date()
+        };
+        
+        const member = await this.dataInterface.create('bid_group_members', memberData);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidGroupCreated, { group, member });
+        
+        return { group, member };
+      }, { userId: creatorId, operation: 'createBidGroup' });
       
       return {
         success: true,
         data: {
-          acceptance,
-          group_bid: updatedGroupBid,
-          bid_card: updatedBidCard
+          group,
+          member
         }
       };
     } catch (error) {
-      console.error('Error accepting group bid:', error);
+      console.error('Error creating bid group:', error);
       return {
         success: false,
-        error: 'ACCEPTANCE_ERROR',
+        error: 'CREATION_ERROR',
         message: error instanceof Error ? error.message : String(error)
       };
     }
   }
 
+  /**
+   * Join an existing bid group
+   * 
+   * @param params Group joining parameters
+   * @returns Operation result with join details
+   */
+  private async joinBidGroup(params: JoinBidGroupParams): Promise<DomainOperationResult> {
+    try {
+      // Extract the user ID from the context
+      const userId = this.context.userId;
+      
+      if (!userId) {
+        return {
+          success: false,
+          error: 'AUTHENTICATION_ERROR',
+          message: 'User must be authenticated to join a bid group'
+        };
+      }
+      
+      // Check if the user is a contractor
+      const isContractor = await this.isUserContractor(userId);
+      
+      if (!isContractor) {
+        return {
+          success: false,
+          error: 'PERMISSION_DENIED',
+          message: 'Only contractors can join bid groups'
+        };
+      }
+      
+      // Get the group
+      const group = await this.dataInterface.findById('bid_groups', params.bid_group_id);
+      
+      if (!group) {
+        return {
+          success: false,
+          error: 'GROUP_NOT_FOUND',
+          message: `Bid group with ID ${params.bid_group_id} not found`
+        };
+      }
+      
+      // Get the current member count
+      const currentMembers = await this.dataInterface.findMany('bid_group_members', {
+        bid_group_id: params.bid_group_id,
+        status: 'active'
+      });
+      
+      // Check if the group is open for joining and not full
+      const block = bidGroupMachine.check(group, 'join', { memberCount: currentMembers.length });
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      // Check if the user is already a member
+      const existingMembership = currentMembers.find(m => m.contractor_id === userId);
+      
+      if (existingMembership) {
+        return {
+          success: false,
+          error: 'ALREADY_MEMBER',
+          message: 'You are already a member of this bid group'
+        };
+      }
+      
+      // Add the user as a member
+      const memberData = {
+        bid_group_id: params.bid_group_id,
+        contractor_id: userId,
+        role: 'member',
+        join_message: params.join_message,
+        status: 'active',
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      
+      // Add the membership and record its event as one unit of work
+      const member = await this.dataInterface.withTransaction(async () => {
+        const created = await this.dataInterface.create('bid_group_members', memberData);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidGroupJoined, { group, member: created });
+        
+        return created;
+      }, { userId, operation: 'joinBidGroup' });
+      
+      return {
+        success: true,
+        data: {
+          group,
+          member
+        }
+      };
+    } catch (error) {
+      console.error('Error joining bid group:', error);
+      return {
+        success: false,
+        error: 'JOIN_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Submit a group bid on behalf of a bid group
+   * 
+   * @param params Group bid submission parameters
+   * @returns Operation result with submitted group bid
+   */
+  private async submitGroupBid(params: SubmitGroupBidParams): Promise<DomainOperationResult> {
+    try {
+      // Extract the user ID from the context
+      const userId = this.context.userId;
+      
+      if (!userId) {
+        return {
+          success: false,
+          error: 'AUTHENTICATION_ERROR',
+          message: 'User must be authenticated to submit a group bid'
+        };
+      }
+      
+      // Get the group
+      const group = await this.dataInterface.findById('bid_groups', params.bid_group_id);
+      
+      if (!group) {
+        return {
+          success: false,
+          error: 'GROUP_NOT_FOUND',
+          message: `Bid group with ID ${params.bid_group_id} not found`
+        };
+      }
+      
+      // Check if the user is the group leader
+      const membership = await this.dataInterface.findOne('bid_group_members', {
+        bid_group_id: params.bid_group_id,
+        contractor_id: userId
+      });
+      
+      if (!membership || membership.role !== 'leader') {
+        return {
+          success: false,
+          error: 'PERMISSION_DENIED',
+          message: 'Only the group leader can submit a group bid'
+        };
+      }
+      
+      // Get the bid card
+      const bidCard = await this.dataInterface.findById('bid_cards', group.bid_card_id);
+      
+      if (!bidCard) {
+        return {
+          success: false,
+          error: 'BID_CARD_NOT_FOUND',
+          message: `Bid card with ID ${group.bid_card_id} not found`
+        };
+      }
+      
+      // Check if the group can bid and the bid card is open for bidding
+      const block = bidGroupMachine.check(group, 'submit_bid', { bidCard });
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      // Check if the group already has a bid for this bid card
+      const existingBid = await this.dataInterface.findOne('group_bids', {
+        bid_card_id: group.bid_card_id,
+        bid_group_id: params.bid_group_id
+      });
+      
+      if (existingBid) {
+        return {
+          success: false,
+          error: 'BID_ALREADY_EXISTS',
+          message: 'This group has already submitted a bid for this bid card'
+        };
+      }
+      
+      // Get all group members
+      const members = await this.dataInterface.findMany('bid_group_members', {
+        bid_group_id: params.bid_group_id,
+        status: 'active'
+      });
+      
+      // Prepare the group bid data
+      const groupBidData = {
+        bid_card_id: group.bid_card_id,
+        bid_group_id: params.bid_group_id,
+        leader_id: userId,
+        amount: params.amount,
+        individual_price: params.individual_price,
+        group_price: params.group_price,
+        scope_of_work: params.scope_of_work,
+        materials_included: params.materials_included || {},
+        timeline: params.timeline || {},
+        value_propositions: params.value_propositions || [],
+        member_roles: params.member_roles || {},
+        additional_notes: params.additional_notes,
+        acceptance_deadline: params.acceptance_deadline
+          ? new Date(params.acceptance_deadline)
+          : new Date(Date.now() + DEFAULT_GROUP_ACCEPTANCE_DAYS * 24 * 60 * 60 * 1000),
+        member_count: members.length,
+        status: groupBidMachine.initial,
+        created_at: new Date(),
+        updated_at: new Date()
+      };
+      
+      // Create the group bid and move the group into bidding as one unit of work
+      const groupBid = await this.dataInterface.withTransaction(async () => {
+        const groupBid = await this.dataInterface.create('group_bids', groupBidData);
+        
+        await this.dataInterface.update(
+          'bid_groups',
+          params.bid_group_id,
+          bidGroupMachine.apply(group, 'submit_bid', { bidCard })
+        );
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.groupBidSubmitted, { group_bid: groupBid });
+        
+        return groupBid;
+      }, { userId, operation: 'submitGroupBid' });
+      
+      return {
+        success: true,
+        data: groupBid
+      };
+    } catch (error) {
+      console.error('Error submitting group bid:', error);
+      return {
+        success: false,
+        error: 'SUBMISSION_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Accept a group bid
+   * 
+   * @param params Parameters containing the group bid ID
+   * @returns Operation result with acceptance details
+   */
+  private async acceptGroupBid(params: AcceptGroupBidParams): Promise<DomainOperationResult> {
+    try {
+      // Extract the user ID from the context
+      const userId = this.context.userId;
+      
+      if (!userId) {
+        return {
+          success: false,
+          error: 'AUTHENTICATION_ERROR',
+          message: 'User must be authenticated to accept a group bid'
+        };
+      }
+      
+      // Get the group bid
+      const groupBid = await this.dataInterface.findById('group_bids', params.group_bid_id);
+      
+      if (!groupBid) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Group bid with ID ${params.group_bid_id} not found`
+        };
+      }
+      
+      // Get the bid card to check ownership
+      const bidCard = await this.dataInterface.findById('bid_cards', groupBid.bid_card_id);
+      
+      if (!bidCard) {
+        return {
+          success: false,
+          error: 'BID_CARD_NOT_FOUND',
+          message: `Bid card with ID ${groupBid.bid_card_id} not found`
+        };
+      }
+      
+      // Verify ownership
+      if (bidCard.creator_id !== userId) {
+        return {
+          success: false,
+          error: 'PERMISSION_DENIED',
+          message: 'You can only accept bids on your own bid cards'
+        };
+      }
+      
+      // Check if the group bid can be accepted and the bid card can be awarded
+      const block = groupBidMachine.check(groupBid, 'accept', { bidCard });
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      // Get the group so it can be marked as awarded
+      const group = await this.dataInterface.findById('bid_groups', groupBid.bid_group_id);
+      
+      // Accept the group bid, award the bid card and record the acceptance as one unit of work
+      const { updatedGroupBid, updatedBidCard, acceptance } = await this.dataInterface.withTransaction(async () => {
+        // Update the group bid status
+        const updatedGroupBid = await this.dataInterface.update(
+          'group_bids',
+          params.group_bid_id,
+          groupBidMachine.apply(groupBid, 'accept', { bidCard })
+        );
+        
+        // Update the bid card status
+        const updatedBidCard = await this.dataInterface.update('bid_cards', groupBid.bid_card_id, {
+          ...bidCardMachine.apply(bidCard, 'award'),
+          awarded_group_bid_id: params.group_bid_id
+        });
+        
+        // Update the group status
+        if (group && !bidGroupMachine.check(group, 'award')) {
+          await this.dataInterface.update('bid_groups', group.id, bidGroupMachine.apply(group, 'award'));
+        }
+        
+        // Create a group acceptance record
+        const acceptanceData = {
+          group_bid_id: params.group_bid_id,
+          bid_card_id: groupBid.bid_card_id,
+          homeowner_id: userId,
+          bid_group_id: groupBid.bid_group_id,
+          amount: groupBid.amount,
+          terms_accepted: params.terms_accepted || true,
+          status: groupBidAcceptanceMachine.initial,
+          created_at: new Date(),
+          updated_at: new Date()
+        };
+        
+        const acceptance = await this.dataInterface.create('group_bid_acceptances', acceptanceData);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.groupBidAccepted, {
+          acceptance,
+          group_bid: updatedGroupBid,
+          bid_card: updatedBidCard
+        }, params.group_bid_id);
+        
+        return { updatedGroupBid, updatedBidCard, acceptance };
+      }, { userId, operation: 'acceptGroupBid' });
+      
+      return {
+        success: true,
+        data: {
+          acceptance,
+          group_bid: updatedGroupBid,
+          bid_card: updatedBidCard
+        }
+      };
+    } catch (error) {
+      console.error('Error accepting group bid:', error);
+      return {
+        success: false,
+        error: 'ACCEPTANCE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Ask for more time for a group to accept a group bid
+   * The extension is applied when the current acceptance deadline is reached
+   * 
+   * @param params Parameters containing the group bid ID, new deadline and reason
+   * @returns Operation result with the pending extension
+   */
+  private async requestGroupBidExtension(params: RequestGroupBidExtensionParams): Promise<DomainOperationResult> {
+    try {
+      // Extract the user ID from the context
+      const userId = this.context.userId;
+      
+      if (!userId) {
+        return {
+          success: false,
+          error: 'AUTHENTICATION_ERROR',
+          message: 'User must be authenticated to request an extension'
+        };
+      }
+      
+      // Get the group bid
+      const groupBid = await this.dataInterface.findById('group_bids', params.group_bid_id);
+      
+      if (!groupBid) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Group bid with ID ${params.group_bid_id} not found`
+        };
+      }
+      
+      // Check if the group bid can still be extended
+      const block = groupBidMachine.check(groupBid, 'extend');
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      // The new deadline must give the group more time
+      const newDeadline = new Date(params.new_deadline);
+      
+      if (newDeadline <= new Date(groupBid.acceptance_deadline) || newDeadline <= new Date()) {
+        return {
+          success: false,
+          error: 'INVALID_DEADLINE',
+          message: 'The new deadline must be later than the current acceptance deadline'
+        };
+      }
+      
+      // Only one extension can wait to be applied at a time
+      const pendingExtension = await this.dataInterface.findOne('group_bid_extensions', {
+        group_bid_id: params.group_bid_id,
+        status: 'pending'
+      });
+      
+      if (pendingExtension) {
+        return {
+          success: false,
+          error: 'EXTENSION_PENDING',
+          message: 'An extension of this group bid is already waiting to be applied'
+        };
+      }
+      
+      // Create the extension and record its event as one unit of work
+      const extension = await this.dataInterface.withTransaction(async () => {
+        const created = await this.dataInterface.create('group_bid_extensions', {
+          group_bid_id: params.group_bid_id,
+          previous_deadline: groupBid.acceptance_deadline,
+          new_deadline: newDeadline,
+          reason: params.reason,
+          status: 'pending',
+          created_by: userId,
+          created_at: new Date()
+        });
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.groupBidExtensionRequested, { extension: created });
+        
+        return created;
+      }, { userId, operation: 'requestGroupBidExtension' });
+      
+      return {
+        success: true,
+        data: extension
+      };
+    } catch (error) {
+      console.error('Error requesting group bid extension:', error);
+      return {
+        success: false,
+        error: 'CREATION_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Confirm the acceptance of one of the contractor's bids
+   * The contractor then owes the connection fee
+   * 
+   * @param params Parameters containing the acceptance ID
+   * @returns Operation result with the confirmed acceptance
+   */
+  private async confirmAcceptance(params: ConfirmAcceptanceParams): Promise<DomainOperationResult> {
+    try {
+      // Extract the user ID from the context
+      const userId = this.context.userId;
+      
+      if (!userId) {
+        return {
+          success: false,
+          error: 'AUTHENTICATION_ERROR',
+          message: 'User must be authenticated to confirm an acceptance'
+        };
+      }
+      
+      // Get the acceptance
+      const acceptance = await this.dataInterface.findById('bid_acceptances', params.acceptance_id);
+      
+      if (!acceptance) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid acceptance with ID ${params.acceptance_id} not found`
+        };
+      }
+      
+      // Verify ownership
+      const contractor = await this.getContractorByUserId(userId);
+      
+      if (!contractor || contractor.id !== acceptance.contractor_id) {
+        return {
+          success: false,
+          error: 'PERMISSION_DENIED',
+          message: 'You can only confirm acceptances of your own bids'
+        };
+      }
+      
+      // Check if the acceptance still awaits confirmation
+      const block = bidAcceptanceMachine.check(acceptance, 'confirm');
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      const updatedAcceptance = await this.dataInterface.withTransaction(async () => {
+        const updated = await this.dataInterface.update(
+          'bid_acceptances',
+          params.acceptance_id,
+          bidAcceptanceMachine.apply(acceptance, 'confirm')
+        );
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.acceptanceConfirmed, { acceptance: updated }, params.acceptance_id);
+        
+        return updated;
+      }, { userId, operation: 'confirmAcceptance' });
+      
+      return {
+        success: true,
+        data: updatedAcceptance
+      };
+    } catch (error) {
+      console.error('Error confirming acceptance:', error);
+      return {
+        success: false,
+        error: 'UPDATE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Decline the acceptance of one of the contractor's bids
+   * The bid-to-contract saga then returns the bid card to review
+   * 
+   * @param params Parameters containing the acceptance ID and reason
+   * @returns Operation result with the declined acceptance
+   */
+  private async declineAcceptance(params: DeclineAcceptanceParams): Promise<DomainOperationResult> {
+    try {
+      // Extract the user ID from the context
+      const userId = this.context.userId;
+      
+      if (!userId) {
+        return {
+          success: false,
+          error: 'AUTHENTICATION_ERROR',
+          message: 'User must be authenticated to decline an acceptance'
+        };
+      }
+      
+      // Get the acceptance
+      const acceptance = await this.dataInterface.findById('bid_acceptances', params.acceptance_id);
+      
+      if (!acceptance) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid acceptance with ID ${params.acceptance_id} not found`
+        };
+      }
+      
+      // Verify ownership
+      const contractor = await this.getContractorByUserId(userId);
+      
+      if (!contractor || contractor.id !== acceptance.contractor_id) {
+        return {
+          success: false,
+          error: 'PERMISSION_DENIED',
+          message: 'You can only decline acceptances of your own bids'
+        };
+      }
+      
+      // Check if the acceptance still awaits confirmation
+      const block = bidAcceptanceMachine.check(acceptance, 'decline');
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      const updatedAcceptance = await this.dataInterface.withTransaction(async () => {
+        const updated = await this.dataInterface.update('bid_acceptances', params.acceptance_id, {
+          ...bidAcceptanceMachine.apply(acceptance, 'decline'),
+          decline_reason: params.reason
+        });
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.acceptanceDeclined, { acceptance: updated }, params.acceptance_id);
+        
+        return updated;
+      }, { userId, operation: 'declineAcceptance' });
+      
+      return {
+        success: true,
+        data: updatedAcceptance
+      };
+    } catch (error) {
+      console.error('Error declining acceptance:', error);
+      return {
+        success: false,
+        error: 'UPDATE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Record the connection fee the contractor of a confirmed acceptance owes
+   * Requesting the fee again returns the payment already requested.
+   * Performed by the system as the bid-to-contract saga moves on
+   * 
+   * @param params Parameters containing the acceptance ID
+   * @returns Operation result with the payment and the acceptance
+   */
+  private async requestConnectionPayment(params: RequestConnectionPaymentParams): Promise<DomainOperationResult> {
+    try {
+      // Get the acceptance
+      const acceptance = await this.dataInterface.findById('bid_acceptances', params.acceptance_id);
+      
+      if (!acceptance) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid acceptance with ID ${params.acceptance_id} not found`
+        };
+      }
+      
+      const existing = await this.dataInterface.findOne('connection_payments', {
+        bid_acceptance_id: params.acceptance_id
+      });
+      
+      if (existing) {
+        if (existing.status === 'failed') {
+          return {
+            success: false,
+            error: 'PAYMENT_FAILED',
+            message: 'The connection payment for this acceptance has failed'
+          };
+        }
+        
+        return {
+          success: true,
+          data: { payment: existing, acceptance }
+        };
+      }
+      
+      // The fee is owed once the contractor has confirmed
+      const block = bidAcceptanceMachine.check(acceptance, 'pay');
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      const payment = await this.dataInterface.withTransaction(async () => {
+        const payment = await this.dataInterface.create('connection_payments', {
+          bid_acceptance_id: params.acceptance_id,
+          contractor_id: acceptance.contractor_id,
+          amount: acceptance.connection_fee_amount ?? this.calculateConnectionFee(acceptance.amount),
+          status: connectionPaymentMachine.initial,
+          created_at: new Date()
+        });
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.connectionPaymentRequested, { payment, acceptance }, params.acceptance_id);
+        
+        return payment;
+      }, { operation: 'requestConnectionPayment' });
+      
+      return {
+        success: true,
+        data: { payment, acceptance }
+      };
+    } catch (error) {
+      console.error('Error requesting connection payment:', error);
+      return {
+        success: false,
+        error: 'CREATION_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Cancel the pending connection fee of an acceptance that fell through
+   * Nothing is done if no fee was requested or its payment already failed.
+   * Performed by the system when the bid-to-contract saga compensates
+   * 
+   * @param params Parameters containing the acceptance ID and reason
+   * @returns Operation result with the cancelled payment, if any
+   */
+  private async cancelConnectionPayment(params: CancelConnectionPaymentParams): Promise<DomainOperationResult> {
+    try {
+      const payment = await this.dataInterface.findOne('connection_payments', {
+        bid_acceptance_id: params.acceptance_id
+      });
+      
+      if (!payment || payment.status === 'failed') {
+        return {
+          success: true,
+          data: { payment }
+        };
+      }
+      
+      // Check if the payment can still be cancelled
+      const block = connectionPaymentMachine.check(payment, 'fail');
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      const updatedPayment = await this.dataInterface.withTransaction(async () => {
+        const updated = await this.dataInterface.update('connection_payments', payment.id, {
+          ...connectionPaymentMachine.apply(payment, 'fail'),
+          error_message: params.reason
+        });
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.connectionPaymentCancelled, { payment: updated }, payment.id);
+        
+        return updated;
+      }, { operation: 'cancelConnectionPayment' });
+      
+      return {
+        success: true,
+        data: { payment: updatedPayment }
+      };
+    } catch (error) {
+      console.error('Error cancelling connection payment:', error);
+      return {
+        success: false,
+        error: 'UPDATE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Record a completed connection payment and release the parties' contact details
+   * Releasing the contacts again returns the release already made.
+   * Performed by the system when the payment domain reports the payment completed
+   * 
+   * @param params Parameters containing the acceptance ID and payment details
+   * @returns Operation result with the paid acceptance, the payment and the contact release
+   */
+  private async releaseContacts(params: ReleaseContactsParams): Promise<DomainOperationResult> {
+    try {
+      // Get the acceptance
+      const acceptance = await this.dataInterface.findById('bid_acceptances', params.acceptance_id);
+      
+      if (!acceptance) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid acceptance with ID ${params.acceptance_id} not found`
+        };
+      }
+      
+      const payment = await this.dataInterface.findOne('connection_payments', {
+        bid_acceptance_id: params.acceptance_id
+      });
+      
+      if (!payment) {
+        return {
+          success: false,
+          error: 'PAYMENT_NOT_FOUND',
+          message: 'No connection payment was requested for this acceptance'
+        };
+      }
+      
+      const existing = await this.dataInterface.findOne('contact_releases', {
+        bid_acceptance_id: params.acceptance_id
+      });
+      
+      if (existing) {
+        return {
+          success: true,
+          data: { acceptance, payment, contact_release: existing }
+        };
+      }
+      
+      // Check if the payment can be completed and the acceptance paid
+      const block = connectionPaymentMachine.check(payment, 'complete') ||
+        bidAcceptanceMachine.check(acceptance, 'pay');
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      const homeowner = await this.dataInterface.findById('users', acceptance.homeowner_id);
+      const contractor = await this.getContractorById(acceptance.contractor_id);
+      
+      if (!homeowner || !contractor) {
+        return {
+          success: false,
+          error: 'CONTACT_NOT_FOUND',
+          message: 'The homeowner or contractor of this acceptance was not found'
+        };
+      }
+      
+      const contractorUser = await this.dataInterface.findById('users', contractor.user_id);
+      
+      // Record the payment, mark the acceptance paid and release the contacts as one unit of work
+      const result = await this.dataInterface.withTransaction(async () => {
+        const updatedPayment = await this.dataInterface.update('connection_payments', payment.id, {
+          ...connectionPaymentMachine.apply(payment, 'complete'),
+          transaction_id: params.transaction_id,
+          payment_method: params.payment_method,
+          payment_processor: params.payment_processor
+        });
+        
+        const updatedAcceptance = await this.dataInterface.update(
+          'bid_acceptances',
+          params.acceptance_id,
+          bidAcceptanceMachine.apply(acceptance, 'pay')
+        );
+        
+        const contactRelease = await this.dataInterface.create('contact_releases', {
+          bid_acceptance_id: params.acceptance_id,
+          homeowner_contact: {
+            name: homeowner.full_name,
+            email: homeowner.email,
+            phone: homeowner.phone
+          },
+          contractor_contact: {
+            business_name: contractor.business_name,
+            contact_person: contractor.contact_person,
+            email: contractor.business_email || contractorUser?.email,
+            phone: contractor.business_phone || contractorUser?.phone
+          },
+          released_at: new Date(),
+          viewed_by_contractor: false
+        });
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.contactsReleased, {
+          acceptance: updatedAcceptance,
+          contact_release: contactRelease
+        }, params.acceptance_id);
+        
+        return {
+          acceptance: updatedAcceptance,
+          payment: updatedPayment,
+          contact_release: contactRelease
+        };
+      }, { operation: 'releaseContacts' });
+      
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      console.error('Error releasing contacts:', error);
+      return {
+        success: false,
+        error: 'UPDATE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Hand the terms of a paid acceptance over to project management
+   * Performed by the system once the contacts of the acceptance are released
+   * 
+   * @param params Parameters containing the acceptance ID
+   * @returns Operation result with the acceptance and the contract terms
+   */
+  private async requestProjectHandoff(params: RequestProjectHandoffParams): Promise<DomainOperationResult> {
+    try {
+      // Get the acceptance
+      const acceptance = await this.dataInterface.findById('bid_acceptances', params.acceptance_id);
+      
+      if (!acceptance) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid acceptance with ID ${params.acceptance_id} not found`
+        };
+      }
+      
+      if (acceptance.status !== 'paid') {
+        return {
+          success: false,
+          error: 'INVALID_STATUS',
+          message: `Bid acceptance with status '${acceptance.status}' cannot be handed over until it is paid`
+        };
+      }
+      
+      const bid = await this.dataInterface.findById('bids', acceptance.bid_id);
+      const bidCard = await this.dataInterface.findById('bid_cards', acceptance.bid_card_id);
+      
+      if (!bid || !bidCard) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: 'The bid or bid card of this acceptance was not found'
+        };
+      }
+      
+      const contractTerms = this.buildContractTerms(acceptance, bid, bidCard);
+      
+      // Publish domain event
+      await this.publishEvent(biddingEvents.projectHandoffRequested, {
+        acceptance,
+        contract_terms: contractTerms
+      }, params.acceptance_id);
+      
+      return {
+        success: true,
+        data: {
+          acceptance,
+          contract_terms: contractTerms
+        }
+      };
+    } catch (error) {
+      console.error('Error requesting project handoff:', error);
+      return {
+        success: false,
+        error: 'HANDOFF_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Undo an acceptance that fell through: the acceptance ends, the bid loses
+   * its acceptance and the bid card goes back to review so the homeowner can
+   * choose another bid. Revoking an acceptance again does nothing.
+   * Performed by the system when the bid-to-contract saga compensates
+   * 
+   * @param params Parameters containing the acceptance ID and reason
+   * @returns Operation result with the acceptance, bid and bid card
+   */
+  private async revokeAcceptance(params: RevokeAcceptanceParams): Promise<DomainOperationResult> {
+    try {
+      // Get the acceptance
+      const acceptance = await this.dataInterface.findById('bid_acceptances', params.acceptance_id);
+      
+      if (!acceptance) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid acceptance with ID ${params.acceptance_id} not found`
+        };
+      }
+      
+      if (acceptance.status === 'paid') {
+        return {
+          success: false,
+          error: 'INVALID_STATUS',
+          message: 'A paid bid acceptance cannot be revoked'
+        };
+      }
+      
+      const bid = await this.dataInterface.findById('bids', acceptance.bid_id);
+      const bidCard = await this.dataInterface.findById('bid_cards', acceptance.bid_card_id);
+      
+      if (!bid || !bidCard) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: 'The bid or bid card of this acceptance was not found'
+        };
+      }
+      
+      if (bid.status !== 'accepted') {
+        return {
+          success: true,
+          data: { acceptance, bid, bid_card: bidCard }
+        };
+      }
+      
+      // A declined acceptance has already ended; any other still has to
+      const acceptanceTransition = params.reason === 'cancelled' ? 'cancel' : 'expire';
+      const endsAcceptance = !bidAcceptanceMachine.check(acceptance, acceptanceTransition);
+      const bidTransition = params.reason === 'declined' ? 'forfeit' : 'lapse';
+      
+      // The bid card may have been awarded to this bid only
+      const block = bidCard.awarded_bid_id === bid.id
+        ? bidCardMachine.check(bidCard, 'revoke_award')
+        : { error: 'INVALID_STATUS', message: 'The bid card was not awarded to the bid of this acceptance' };
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      // Revoke the acceptance, the bid's acceptance and the award as one unit of work
+      const result = await this.dataInterface.withTransaction(async () => {
+        const updatedAcceptance = await this.dataInterface.update('bid_acceptances', params.acceptance_id, {
+          ...(endsAcceptance ? bidAcceptanceMachine.apply(acceptance, acceptanceTransition) : {}),
+          revoked_at: new Date(),
+          revoke_reason: params.reason
+        });
+        
+        const updatedBid = await this.dataInterface.update('bids', bid.id, bidMachine.apply(bid, bidTransition));
+        const updatedBidCard = await this.dataInterface.update(
+          'bid_cards',
+          bidCard.id,
+          bidCardMachine.apply(bidCard, 'revoke_award')
+        );
+        
+        const revoked = {
+          acceptance: updatedAcceptance,
+          bid: updatedBid,
+          bid_card: updatedBidCard
+        };
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.acceptanceRevoked, { ...revoked, reason: params.reason }, params.acceptance_id);
+        
+        return revoked;
+      }, { operation: 'revokeAcceptance' });
+      
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      console.error('Error revoking acceptance:', error);
+      return {
+        success: false,
+        error: 'UPDATE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Move an awarded bid card to in progress once project management has
+   * initialized its project. Starting work again for the same project does nothing.
+   * Performed by the system as the bid-to-contract saga completes
+   * 
+   * @param params Parameters containing the bid card ID and project ID
+   * @returns Operation result with the bid card
+   */
+  private async startWork(params: StartWorkParams): Promise<DomainOperationResult> {
+    try {
+      // Get the bid card
+      const bidCard = await this.dataInterface.findById('bid_cards', params.bid_card_id);
+      
+      if (!bidCard) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid card with ID ${params.bid_card_id} not found`
+        };
+      }
+      
+      if (bidCard.status === 'in_progress' && bidCard.project_id === params.project_id) {
+        return {
+          success: true,
+          data: bidCard
+        };
+      }
+      
+      // Check if work can start on the bid card
+      const block = bidCardMachine.check(bidCard, 'start_work');
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      const updatedBidCard = await this.dataInterface.withTransaction(async () => {
+        const updated = await this.dataInterface.update('bid_cards', params.bid_card_id, {
+          ...bidCardMachine.apply(bidCard, 'start_work'),
+          project_id: params.project_id
+        });
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.workStarted, {
+          bid_card: updated,
+          project_id: params.project_id
+        }, params.bid_card_id);
+        
+        return updated;
+      }, { operation: 'startWork' });
+      
+      return {
+        success: true,
+        data: updatedBidCard
+      };
+    } catch (error) {
+      console.error('Error starting work:', error);
+      return {
+        success: false,
+        error: 'UPDATE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Close bidding on a bid card whose bid deadline has passed
+   * The bid card moves to review if it has bids to choose from and expires otherwise.
+   * Performed by the system when the deadline scheduler finds the deadline has passed
+   * 
+   * @param params Parameters containing the bid card ID
+   * @returns Operation result with the bid card and its number of outstanding bids
+   */
+  private async closeBidding(params: CloseBiddingParams): Promise<DomainOperationResult> {
+    try {
+      // Get the bid card
+      const bidCard = await this.dataInterface.findById('bid_cards', params.id);
+      
+      if (!bidCard) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid card with ID ${params.id} not found`
+        };
+      }
+      
+      // Bids and group bids the homeowner can still choose from
+      const outstandingBids = await this.dataInterface.count('bids', {
+        bid_card_id: params.id,
+        status: { $in: OUTSTANDING_BID_STATUSES }
+      }) + await this.dataInterface.count('group_bids', {
+        bid_card_id: params.id,
+        status: { $in: OUTSTANDING_GROUP_BID_STATUSES }
+      });
+      
+      // Check if bidding can be closed this way
+      const transition = outstandingBids > 0 ? 'start_review' : 'expire';
+      const block = bidCardMachine.check(bidCard, transition);
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      // Close the bid card and record its event as one unit of work
+      const updatedBidCard = await this.dataInterface.withTransaction(async () => {
+        const updated = await this.dataInterface.update('bid_cards', params.id, bidCardMachine.apply(bidCard, transition));
+        
+        // Publish domain event
+        if (outstandingBids > 0) {
+          await this.publishEvent(biddingEvents.biddingClosed, { bid_card: updated, outstanding_bids: outstandingBids });
+        } else {
+          await this.publishEvent(biddingEvents.bidCardExpired, { bid_card: updated, expired_bids: [], expired_group_bids: [] });
+        }
+        
+        return updated;
+      }, { operation: 'closeBidding' });
+      
+      return {
+        success: true,
+        data: {
+          bid_card: updatedBidCard,
+          outstanding_bids: outstandingBids
+        }
+      };
+    } catch (error) {
+      console.error('Error closing bidding:', error);
+      return {
+        success: false,
+        error: 'UPDATE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Expire a bid card that was not awarded, along with its outstanding bids and group bids
+   * Performed by the system when the deadline scheduler finds the review period is over
+   * 
+   * @param params Parameters containing the bid card ID
+   * @returns Operation result with the bid card and the expired bids and group bids
+   */
+  private async expireBidCard(params: ExpireBidCardParams): Promise<DomainOperationResult> {
+    try {
+      // Get the bid card
+      const bidCard = await this.dataInterface.findById('bid_cards', params.id);
+      
+      if (!bidCard) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid card with ID ${params.id} not found`
+        };
+      }
+      
+      // Check if the bid card can expire
+      const block = bidCardMachine.check(bidCard, 'expire');
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      const bids = await this.dataInterface.findMany('bids', {
+        bid_card_id: params.id,
+        status: { $in: OUTSTANDING_BID_STATUSES }
+      });
+      
+      const groupBids = await this.dataInterface.findMany('group_bids', {
+        bid_card_id: params.id,
+        status: { $in: OUTSTANDING_GROUP_BID_STATUSES }
+      });
+      
+      // Expire the bid card and everything still waiting on it as one unit of work
+      const result = await this.dataInterface.withTransaction(async () => {
+        const updatedBidCard = await this.dataInterface.update('bid_cards', params.id, bidCardMachine.apply(bidCard, 'expire'));
+        const expiredBids = [];
+        const expiredGroupBids = [];
+        
+        for (const bid of bids) {
+          expiredBids.push(await this.dataInterface.update('bids', bid.id, bidMachine.apply(bid, 'expire')));
+          await this.closeNegotiation(bid.id);
+        }
+        
+        for (const groupBid of groupBids) {
+          expiredGroupBids.push(await this.expireGroupBid(groupBid));
+        }
+        
+        const expired = {
+          bid_card: updatedBidCard,
+          expired_bids: expiredBids,
+          expired_group_bids: expiredGroupBids
+        };
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidCardExpired, expired);
+        
+        return expired;
+      }, { operation: 'expireBidCard' });
+      
+      return {
+        success: true,
+        data: result
+      };
+    } catch (error) {
+      console.error('Error expiring bid card:', error);
+      return {
+        success: false,
+        error: 'UPDATE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Expire the pending counter-offer on a bid, taking the bid out of negotiation
+   * Performed by the system when the deadline scheduler finds the offer has expired
+   * 
+   * @param params Parameters containing the bid ID
+   * @returns Operation result with the bid and the expired offer
+   */
+  private async expireCounterOffer(params: ExpireCounterOfferParams): Promise<DomainOperationResult> {
+    try {
+      // Get the bid
+      const bid = await this.dataInterface.findById('bids', params.bid_id);
+      
+      if (!bid) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid with ID ${params.bid_id} not found`
+        };
+      }
+      
+      const offer = await this.dataInterface.findOne('bid_negotiation_offers', {
+        bid_id: params.bid_id,
+        status: 'pending'
+      });
+      
+      if (!offer) {
+        return {
+          success: false,
+          error: 'NO_PENDING_OFFER',
+          message: 'There is no counter-offer awaiting a response on this bid'
+        };
+      }
+      
+      const { updatedBid, expiredOffer } = await this.dataInterface.withTransaction(async () => {
+        await this.expireOffer(bid, offer);
+        
+        const updatedBid = await this.dataInterface.findById('bids', params.bid_id);
+        const expiredOffer = await this.dataInterface.findById('bid_negotiation_offers', offer.id);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.counterOfferExpired, { bid: updatedBid, offer: expiredOffer }, offer.id);
+        
+        return { updatedBid, expiredOffer };
+      }, { operation: 'expireCounterOffer' });
+      
+      return {
+        success: true,
+        data: {
+          bid: updatedBid,
+          offer: expiredOffer
+        }
+      };
+    } catch (error) {
+      console.error('Error expiring counter-offer:', error);
+      return {
+        success: false,
+        error: 'NEGOTIATION_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Remind the homeowner and the contractors still bidding that a bid deadline is approaching
+   * Each reminder is sent once per bid deadline, so moving the deadline allows a new one
+   * Performed by the system when the deadline scheduler finds a reminder is due
+   * 
+   * @param params Parameters containing the bid card ID and how long before the deadline the reminder is for
+   * @returns Operation result with the reminder and its recipients
+   */
+  private async sendDeadlineReminder(params: SendDeadlineReminderParams): Promise<DomainOperationResult> {
+    try {
+      // Get the bid card
+      const bidCard = await this.dataInterface.findById('bid_cards', params.bid_card_id);
+      
+      if (!bidCard) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Bid card with ID ${params.bid_card_id} not found`
+        };
+      }
+      
+      if (bidCard.status !== 'open' || !bidCard.bid_deadline) {
+        return {
+          success: false,
+          error: 'NO_OPEN_DEADLINE',
+          message: 'This bid card is not open for bidding with a deadline'
+        };
+      }
+      
+      // Check if this reminder was already sent for the current deadline
+      const existingReminder = await this.dataInterface.findOne('bid_deadline_reminders', {
+        bid_card_id: params.bid_card_id,
+        bid_deadline: bidCard.bid_deadline,
+        hours_before: params.hours_before
+      });
+      
+      if (existingReminder) {
+        return {
+          success: false,
+          error: 'ALREADY_SENT',
+          message: `The ${params.hours_before} hour reminder was already sent for this deadline`
+        };
+      }
+      
+      // The homeowner and the contractors whose bids are still outstanding
+      const bids = await this.dataInterface.findMany('bids', {
+        bid_card_id: params.bid_card_id,
+        status: { $in: OUTSTANDING_BID_STATUSES }
+      });
+      
+      const recipients = new Set<string>([bidCard.creator_id]);
+      
+      for (const bid of bids) {
+        const contractor = await this.getContractorById(bid.contractor_id);
+        
+        if (contractor?.user_id) {
+          recipients.add(contractor.user_id);
+        }
+      }
+      
+      // Record the reminder and its event as one unit of work
+      const reminder = await this.dataInterface.withTransaction(async () => {
+        const created = await this.dataInterface.create<any>('bid_deadline_reminders', {
+          bid_card_id: params.bid_card_id,
+          bid_deadline: bidCard.bid_deadline,
+          hours_before: params.hours_before,
+          recipient_count: recipients.size,
+          sent_at: new Date()
+        });
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.bidDeadlineReminder, {
+          reminder: created,
+          bid_card: bidCard,
+          recipients: [...recipients]
+        }, created.id);
+        
+        return created;
+      }, { operation: 'sendDeadlineReminder' });
+      
+      return {
+        success: true,
+        data: {
+          reminder,
+          recipients: [...recipients]
+        }
+      };
+    } catch (error) {
+      console.error('Error sending deadline reminder:', error);
+      return {
+        success: false,
+        error: 'CREATION_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Handle a group bid whose acceptance deadline has passed
+   * A pending extension moves the deadline; otherwise the group bid and its group expire.
+   * Performed by the system when the deadline scheduler finds the deadline has passed
+   * 
+   * @param params Parameters containing the group bid ID
+   * @returns Operation result with the group bid and the extension applied, if any
+   */
+  private async processGroupBidDeadline(params: ProcessGroupBidDeadlineParams): Promise<DomainOperationResult> {
+    try {
+      // Get the group bid
+      const groupBid = await this.dataInterface.findById('group_bids', params.group_bid_id);
+      
+      if (!groupBid) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `Group bid with ID ${params.group_bid_id} not found`
+        };
+      }
+      
+      const extension = await this.dataInterface.findOne('group_bid_extensions', {
+        group_bid_id: params.group_bid_id,
+        status: 'pending'
+      });
+      
+      // Check if the group bid can be extended or expired
+      const block = groupBidMachine.check(groupBid, extension ? 'extend' : 'expire');
+      
+      if (block) {
+        return { success: false, ...block };
+      }
+      
+      if (extension) {
+        // Move the deadline and mark the extension applied as one unit of work
+        const { updatedGroupBid, appliedExtension } = await this.dataInterface.withTransaction(async () => {
+          const updatedGroupBid = await this.dataInterface.update('group_bids', params.group_bid_id, {
+            ...groupBidMachine.apply(groupBid, 'extend'),
+            acceptance_deadline: extension.new_deadline
+          });
+          
+          const appliedExtension = await this.dataInterface.update('group_bid_extensions', extension.id, {
+            status: 'applied',
+            applied_at: new Date()
+          });
+          
+          // Publish domain event
+          await this.publishEvent(biddingEvents.groupBidExtended, { group_bid: updatedGroupBid, extension: appliedExtension }, extension.id);
+          
+          return { updatedGroupBid, appliedExtension };
+        }, { operation: 'processGroupBidDeadline' });
+        
+        return {
+          success: true,
+          data: {
+            group_bid: updatedGroupBid,
+            extension: appliedExtension
+          }
+        };
+      }
+      
+      const updatedGroupBid = await this.dataInterface.withTransaction(async () => {
+        const expired = await this.expireGroupBid(groupBid);
+        
+        // Publish domain event
+        await this.publishEvent(biddingEvents.groupBidExpired, { group_bid: expired }, params.group_bid_id);
+        
+        return expired;
+      }, { operation: 'processGroupBidDeadline' });
+      
+      return {
+        success: true,
+        data: {
+          group_bid: updatedGroupBid,
+          extension: null
+        }
+      };
+    } catch (error) {
+      console.error('Error processing group bid deadline:', error);
+      return {
+        success: false,
+        error: 'UPDATE_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * List the status transitions the current user can perform on an entity
+   * Only transitions performed by an operation the user is authorized for are returned
+   * 
+   * @param params Parameters identifying the entity
+   * @returns Operation result with the entity's status and allowed transitions
+   */
+  private async getAllowedTransitions(params: GetAllowedTransitionsParams): Promise<DomainOperationResult> {
+    try {
+      // The user must be able to see the entity
+      const canRead = await this.guardLayer.validateAccess(
+        `${params.entity}:${params.id}`,
+        'read',
+        this.context
+      );
+      
+      if (!canRead) {
+        return {
+          success: false,
+          error: 'PERMISSION_DENIED',
+          message: `You do not have permission to view ${params.entity}:${params.id}`
+        };
+      }
+      
+      const entity = await this.dataInterface.findById(params.entity, params.id);
+      
+      if (!entity) {
+        return {
+          success: false,
+          error: 'NOT_FOUND',
+          message: `${params.entity} with ID ${params.id} not found`
+        };
+      }
+      
+      const machine = biddingStateMachines[params.entity];
+      const data = await this.loadTransitionData(params.entity, entity);
+      const transitions = [];
+      
+      for (const transition of machine.getAvailableTransitions(entity, data)) {
+        // Transitions without an operation are performed by the system
+        if (!transition.operation) {
+          continue;
+        }
+        
+        const access = this.intents.get(transition.operation)?.access;
+        
+        if (access && !(await this.guardLayer.validateAccess(`${access.resource}:${params.id}`, access.action, this.context))) {
+          continue;
+        }
+        
+        transitions.push({
+          name: transition.name,
+          operation: transition.operation,
+          description: transition.description,
+          to: transition.to || entity.status
+        });
+      }
+      
+      return {
+        success: true,
+        data: {
+          entity: params.entity,
+          id: params.id,
+          status: entity.status,
+          transitions
+        }
+      };
+    } catch (error) {
+      console.error('Error getting allowed transitions:', error);
+      return {
+        success: false,
+        error: 'RETRIEVAL_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * Load the data the transition guards of an entity depend on
+   * 
+   * @param entityType Table of the entity
+   * @param entity The entity
+   * @returns Data for the entity's state machine guards
+   */
+  private async loadTransitionData(entityType: string, entity: any): Promise<Record<string, any>> {
+    switch (entityType) {
+      case 'bids':
+      case 'group_bids':
+        return {
+          bidCard: await this.dataInterface.findById('bid_cards', entity.bid_card_id)
+        };
+      case 'bid_groups':
+        return {
+          bidCard: await this.dataInterface.findById('bid_cards', entity.bid_card_id),
+          memberCount: await this.dataInterface.count('bid_group_members', {
+            bid_group_id: entity.id,
+            status: 'active'
+          })
+        };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Calculate the connection fee a contractor pays for an accepted bid
+   * 
+   * @param amount Accepted amount
+   * @returns The connection fee
+   */
+  private calculateConnectionFee(amount: number): number {
+    const fee = Math.round(amount * CONNECTION_FEE_RATE * 100) / 100;
+    
+    return Math.min(Math.max(fee, MIN_CONNECTION_FEE), MAX_CONNECTION_FEE);
+  }
+
+  /**
+   * Build the contract terms handed over to project management for an accepted bid,
+   * following the data transfer specification of the bid-to-contract workflow
+   * 
+   * @param acceptance The paid acceptance
+   * @param bid The accepted bid
+   * @param bidCard The awarded bid card
+   * @returns The contract terms
+   */
+  private buildContractTerms(acceptance: any, bid: any, bidCard: any): Record<string, any> {
+    return {
+      acceptance_id: acceptance.id,
+      bid_id: bid.id,
+      bid_card_id: bidCard.id,
+      contractor_id: acceptance.contractor_id,
+      homeowner_id: acceptance.homeowner_id,
+      project_value: acceptance.amount,
+      title: bidCard.title,
+      location: bidCard.location,
+      scope_of_work: bid.scope_of_work,
+      timeline: bid.timeline,
+      materials: bid.materials_included,
+      special_terms: bid.additional_notes,
+      bid_accepted_at: bid.accepted_at
+    };
+  }
+
+  /**
+   * Determine which side of a bid a user is on
+   * 
+   * @param bid The bid
+   * @param bidCard The bid card the bid was made on
+   * @param userId User ID
+   * @returns 'homeowner' for the bid card creator, 'contractor' for the bidder, or null otherwise
+   */
+  private async getNegotiationParty(bid: any, bidCard: any, userId: string): Promise<'homeowner' | 'contractor' | null> {
+    if (bidCard.creator_id === userId) {
+      return 'homeowner';
+    }
+    
+    const contractor = await this.getContractorByUserId(userId);
+    
+    return contractor && contractor.id === bid.contractor_id ? 'contractor' : null;
+  }
+
+  /**
+   * Get the negotiation thread of a bid with its offers in round order
+   * 
+   * @param bidId Bid ID
+   * @returns The thread or null if the bid was never countered
+   */
+  private async getNegotiationThread(bidId: string): Promise<any | null> {
+    const thread = await this.dataInterface.findOne('bid_negotiations', { bid_id: bidId });
+    
+    if (!thread) {
+      return null;
+    }
+    
+    const offers = await this.dataInterface.findMany('bid_negotiation_offers', { negotiation_id: thread.id }, {
+      orderBy: 'round_number',
+      orderDirection: 'asc'
+    });
+    
+    return { ...thread, offers };
+  }
+
+  /**
+   * Move a negotiation offer to its final status, keeping its bid revision in step
+   * Must be called inside a unit of work
+   * 
+   * @param offer The pending offer
+   * @param transition Offer transition to apply
+   * @param responseMessage Message from the responding party
+   * @returns The updated offer
+   */
+  private async settleOffer(offer: any, transition: string, responseMessage?: string): Promise<any> {
+    const updatedOffer = await this.dataInterface.update<any>('bid_negotiation_offers', offer.id, {
+      ...negotiationOfferMachine.apply(offer, transition),
+      ...(responseMessage !== undefined ? { response_message: responseMessage } : {})
+    });
+    
+    const revision = await this.dataInterface.findOne('bid_revisions', { negotiation_offer_id: offer.id });
+    
+    if (revision) {
+      await this.dataInterface.update('bid_revisions', revision.id, { status: updatedOffer.status });
+    }
+    
+    return updatedOffer;
+  }
+
+  /**
+   * Expire a pending offer, settling the thread and taking the bid out of negotiation
+   * Must be called inside a unit of work
+   * 
+   * @param bid The bid being negotiated
+   * @param offer The pending offer
+   */
+  private async expireOffer(bid: any, offer: any): Promise<void> {
+    await this.settleOffer(offer, 'expire');
+    
+    const thread = await this.dataInterface.findById('bid_negotiations', offer.negotiation_id);
+    
+    if (thread && !negotiationMachine.check(thread, 'settle')) {
+      await this.dataInterface.update('bid_negotiations', thread.id, negotiationMachine.apply(thread, 'settle'));
+    }
+    
+    if (!bidMachine.check(bid, 'conclude_negotiation')) {
+      await this.dataInterface.update('bids', bid.id, bidMachine.apply(bid, 'conclude_negotiation'));
+    }
+  }
+
+  /**
+   * Close the negotiation thread of a bid that leaves negotiation for good,
+   * cancelling any offer still awaiting a response
+   * Must be called inside a unit of work
+   * 
+   * @param bidId Bid ID
+   */
+  private async closeNegotiation(bidId: string): Promise<void> {
+    const thread = await this.dataInterface.findOne('bid_negotiations', { bid_id: bidId });
+    
+    if (!thread || negotiationMachine.check(thread, 'close')) {
+      return;
+    }
+    
+    const pendingOffer = await this.dataInterface.findOne('bid_negotiation_offers', {
+      negotiation_id: thread.id,
+      status: 'pending'
+    });
+    
+    if (pendingOffer) {
+      await this.settleOffer(pendingOffer, 'cancel');
+    }
+    
+    await this.dataInterface.update('bid_negotiations', thread.id, negotiationMachine.apply(thread, 'close'));
+  }
+
+  /**
+   * Expire a group bid along with the group that made it, rejecting any extension still pending
+   * Must be called inside a unit of work
+   * 
+   * @param groupBid The group bid
+   * @returns The expired group bid
+   */
+  private async expireGroupBid(groupBid: any): Promise<any> {
+    const updatedGroupBid = await this.dataInterface.update('group_bids', groupBid.id, groupBidMachine.apply(groupBid, 'expire'));
+    
+    const pendingExtensions = await this.dataInterface.findMany('group_bid_extensions', {
+      group_bid_id: groupBid.id,
+      status: 'pending'
+    });
+    
+    for (const extension of pendingExtensions) {
+      await this.dataInterface.update('group_bid_extensions', extension.id, { status: 'rejected' });
+    }
+    
+    const group = await this.dataInterface.findById('bid_groups', groupBid.bid_group_id);
+    
+    if (group && !bidGroupMachine.check(group, 'expire')) {
+      await this.dataInterface.update('bid_groups', group.id, bidGroupMachine.apply(group, 'expire'));
+    }
+    
+    return updatedGroupBid;
+  }
+
+  /**
+   * Extract the timeline fields that differ between two timelines
+   * 
+   * @param previous Timeline being countered
+   * @param next Proposed timeline
+   * @returns Changed fields as { field: { previous, new } }
+   */
+  private extractTimelineChanges(previous: Record<string, any>, next: Record<string, any>): Record<string, any> {
+    const changes: Record<string, any> = {};
+    
+    for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      if (JSON.stringify(previous[key]) !== JSON.stringify(next[key])) {
+        changes[key] = {
+          previous: previous[key],
+          new: next[key]
+        };
+      }
+    }
+    
+    return changes;
+  }
+
   /**
    * Determine if a bid card update requires revision tracking
    * 
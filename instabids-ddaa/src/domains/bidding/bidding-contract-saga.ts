@@ -0,0 +1,263 @@
+/**
+ * Bidding Contract Saga - From an accepted bid to work in progress
+ * 
+ * Once a homeowner accepts a bid, the contractor must confirm it, pay the
+ * connection fee through the payment domain, receive the homeowner's
+ * contact details, and have project management set up the project before
+ * work starts. This saga drives those steps through the bidding agent's
+ * intents and waits for the payment and project domains to report back.
+ * If the contractor declines or does not confirm, or the payment fails or
+ * is not made in time, the payment request is cancelled and the acceptance
+ * revoked, so the bid card returns to review. Once the contacts are
+ * released the acceptance is final and the saga no longer compensates.
+ */
+
+import { DomainAgent, DomainAgentContext, DomainIntent, DomainOperationResult } from '../../core/domain/domain-agent';
+import { defineEvent, EventPayload } from '../../core/events/event-bus';
+import { defineSaga, SagaDefinition, SagaStepContext, SagaStepResult } from '../../core/sagas/saga-engine';
+import { biddingEvents } from './bidding-events';
+
+/**
+ * Events of the payment domain the saga waits for
+ * They are declared by the payment domain; these definitions type their payloads here.
+ */
+export const paymentEvents = {
+  connectionPaymentCompleted: defineEvent<{
+    payment_id: string;
+    bid_acceptance_id: string;
+    transaction_id: string;
+    payment_method?: string;
+    payment_processor?: string;
+  }>(
+    'payment.connection_payment_completed', 1, 'A contractor paid the connection fee of an accepted bid'
+  ),
+  connectionPaymentFailed: defineEvent<{
+    payment_id: string;
+    bid_acceptance_id: string;
+    error_message?: string;
+  }>(
+    'payment.connection_payment_failed', 1, 'The connection fee of an accepted bid could not be charged'
+  )
+};
+
+/**
+ * Events of the project management domain the saga waits for
+ * They are declared by the project management domain; these definitions type their payloads here.
+ */
+export const projectEvents = {
+  projectInitialized: defineEvent<{ project_id: string; acceptance_id: string; bid_card_id: string }>(
+    'project.project_initialized', 1, 'A project was set up for an accepted bid'
+  )
+};
+
+export type ConnectionPaymentCompletedPayload = EventPayload<typeof paymentEvents.connectionPaymentCompleted>;
+export type ConnectionPaymentFailedPayload = EventPayload<typeof paymentEvents.connectionPaymentFailed>;
+export type ProjectInitializedPayload = EventPayload<typeof projectEvents.projectInitialized>;
+
+/**
+ * Name of the bid-to-contract saga
+ */
+export const BID_TO_CONTRACT_SAGA = 'bidding.bid_to_contract';
+
+/**
+ * State of a bid-to-contract saga instance
+ */
+export interface BidToContractState {
+  acceptance_id: string;
+  bid_id: string;
+  bid_card_id: string;
+  contractor_id: string;
+  payment_id?: string;
+  transaction_id?: string;
+  payment_method?: string;
+  payment_processor?: string;
+  project_id?: string;
+}
+
+/**
+ * Bid-to-contract saga configuration
+ */
+export interface BidToContractSagaOptions {
+  /**
+   * How long the contractor has to confirm an acceptance, in hours (defaults to 48)
+   */
+  confirmationHours?: number;
+  
+  /**
+   * How long the contractor has to pay the connection fee once confirmed, in hours (defaults to 72)
+   */
+  paymentHours?: number;
+  
+  /**
+   * How long project management has to set up the project, in hours (defaults to 24)
+   */
+  handoffHours?: number;
+}
+
+/**
+ * Creates the agent a saga step acts through
+ * The agent acts in the system context, with the correlation and causation IDs given.
+ */
+export type SagaAgentProvider = (context: Pick<DomainAgentContext, 'correlationId' | 'causationId'>) => DomainAgent;
+
+/**
+ * Revocation reason for each error a bid-to-contract saga can fail with
+ */
+const REVOCATION_REASONS: Record<string, string> = {
+  DECLINED: 'declined',
+  TIMEOUT: 'expired',
+  PAYMENT_FAILED: 'payment_failed'
+};
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Create the bid-to-contract saga
+ * 
+ * @param agentFor Creates the bidding agent each step acts through
+ * @param options Saga configuration
+ * @returns The saga, to register with a saga engine
+ */
+export function createBidToContractSaga(
+  agentFor: SagaAgentProvider,
+  options: BidToContractSagaOptions = {}
+): SagaDefinition<BidToContractState> {
+  const fulfill = async (
+    context: SagaStepContext<BidToContractState>,
+    operation: string,
+    params: Record<string, any>
+  ): Promise<DomainOperationResult> => {
+    const intent: DomainIntent = { operation, params };
+    const agent = agentFor({ correlationId: context.correlationId, causationId: context.causationId });
+    
+    return agent.fulfillIntent(intent);
+  };
+  
+  return defineSaga<BidToContractState>({
+    name: BID_TO_CONTRACT_SAGA,
+    description: 'Take an accepted bid through confirmation, payment and project handoff to work in progress',
+    startedBy: biddingEvents.bidAccepted,
+    start: event => {
+      const acceptance = event.payload.acceptance;
+      
+      return {
+        key: acceptance.id,
+        state: {
+          acceptance_id: acceptance.id,
+          bid_id: acceptance.bid_id,
+          bid_card_id: acceptance.bid_card_id,
+          contractor_id: acceptance.contractor_id
+        }
+      };
+    },
+    steps: [
+      {
+        name: 'contractor_confirmation',
+        description: 'Wait for the contractor to confirm or decline the acceptance',
+        awaits: {
+          events: [biddingEvents.acceptanceConfirmed, biddingEvents.acceptanceDeclined],
+          key: event => event.payload.acceptance?.id,
+          timeoutMs: (options.confirmationHours ?? 48) * HOUR,
+          onEvent: event => event.type === biddingEvents.acceptanceConfirmed.type
+            ? { success: true }
+            : { success: false, error: 'DECLINED', message: 'The contractor declined the acceptance' }
+        },
+        compensate: context => fulfill(context, 'revokeAcceptance', {
+          acceptance_id: context.state.acceptance_id,
+          reason: REVOCATION_REASONS[context.error || ''] || 'cancelled'
+        })
+      },
+      {
+        name: 'connection_payment',
+        description: 'Request the connection fee and wait for the payment domain to charge it',
+        run: async context => {
+          const result = await fulfill(context, 'requestConnectionPayment', {
+            acceptance_id: context.state.acceptance_id
+          });
+          
+          return result.success
+            ? { success: true, state: { payment_id: result.data.payment.id } }
+            : toStepResult(result);
+        },
+        awaits: {
+          events: [paymentEvents.connectionPaymentCompleted, paymentEvents.connectionPaymentFailed],
+          key: event => event.payload.bid_acceptance_id,
+          timeoutMs: (options.paymentHours ?? 72) * HOUR,
+          onEvent: async (event, context) => {
+            // Outcomes of an earlier payment for the same acceptance are not this step's concern
+            if (event.payload.payment_id !== context.state.payment_id) {
+              return null;
+            }
+            
+            if (event.type === paymentEvents.connectionPaymentFailed.type) {
+              return {
+                success: false,
+                error: 'PAYMENT_FAILED',
+                message: event.payload.error_message || 'The connection payment failed'
+              };
+            }
+            
+            const payload = event.payload as ConnectionPaymentCompletedPayload;
+            
+            return {
+              success: true,
+              state: {
+                transaction_id: payload.transaction_id,
+                payment_method: payload.payment_method,
+                payment_processor: payload.payment_processor
+              }
+            };
+          }
+        },
+        compensate: context => fulfill(context, 'cancelConnectionPayment', {
+          acceptance_id: context.state.acceptance_id,
+          reason: context.error === 'TIMEOUT' ? 'Payment was not made in time' : 'Bid acceptance fell through'
+        })
+      },
+      {
+        name: 'release_contacts',
+        description: 'Release the contact details of the homeowner and contractor to each other',
+        pivot: true,
+        run: async context => toStepResult(await fulfill(context, 'releaseContacts', {
+          acceptance_id: context.state.acceptance_id,
+          transaction_id: context.state.transaction_id,
+          payment_method: context.state.payment_method,
+          payment_processor: context.state.payment_processor
+        }))
+      },
+      {
+        name: 'project_handoff',
+        description: 'Hand the contract terms to project management and wait for the project',
+        run: async context => toStepResult(await fulfill(context, 'requestProjectHandoff', {
+          acceptance_id: context.state.acceptance_id
+        })),
+        awaits: {
+          events: [projectEvents.projectInitialized],
+          key: event => event.payload.acceptance_id,
+          timeoutMs: (options.handoffHours ?? 24) * HOUR,
+          onEvent: event => ({ success: true, state: { project_id: event.payload.project_id } })
+        }
+      },
+      {
+        name: 'start_work',
+        description: 'Move the bid card to in progress',
+        run: async context => toStepResult(await fulfill(context, 'startWork', {
+          bid_card_id: context.state.bid_card_id,
+          project_id: context.state.project_id
+        }))
+      }
+    ]
+  });
+}
+
+/**
+ * Turn the result of an intent into the result of a saga step
+ * 
+ * @param result Result of the intent
+ * @returns Result of the step
+ */
+function toStepResult(result: DomainOperationResult): SagaStepResult<BidToContractState> {
+  return result.success
+    ? { success: true }
+    : { success: false, error: result.error, message: result.message };
+}
@@ -8,6 +8,37 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { DataInterface, QueryCriteria, QueryOptions, TransactionContext, BulkOperationResult } from '../../core/persistence/data-interface';
 
+/**
+ * A step that undoes a single write made inside a unit of work
+ * - delete: Undo an insert
+ * - restore: Undo an update or soft delete by writing back the previous values
+ * - insert: Undo a hard delete by re-inserting the previous row
+ */
+export interface CompensationStep {
+  action: 'delete' | 'restore' | 'insert';
+  table: string;
+  id: string;
+  data?: Record<string, any>;
+}
+
+/**
+ * An open unit of work and the compensations for the writes made so far
+ */
+interface TransactionJournal {
+  context: TransactionContext;
+  
+  /**
+   * Transaction of the unit of work this one is nested in
+   */
+  parentId?: string;
+  
+  /**
+   * Whether beginTransaction was called directly rather than by withTransaction
+   */
+  direct: boolean;
+  compensations: CompensationStep[];
+}
+
 /**
  * Data interface implementation for the bidding domain
  */
@@ -17,6 +48,12 @@ export class BiddingDataInterface extends DataInterface {
    */
   private client: SupabaseClient;
 
+  /**
+   * Open units of work by transaction ID, oldest first
+   * Writes are journaled against the unit of work they are made in so they can be compensated on rollback
+   */
+  private transactions: Map<string, TransactionJournal> = new Map();
+
   /**
    * Constructor
    * 
@@ -195,6 +232,8 @@ export class BiddingDataInterface extends DataInterface {
       throw new Error(`Failed to create ${entity}: ${error.message}`);
     }
     
+    this.journal({ action: 'delete', table: this.getTableName(entity), id: result.id });
+    
     return result as T;
   }
 
@@ -211,6 +250,9 @@ export class BiddingDataInterface extends DataInterface {
     id: string,
     data: Partial<T>
   ): Promise<T> {
+    // Capture the previous values so the update can be compensated
+    const previous = await this.capturePrevious(entity, { id });
+    
     const { data: result, error } = await this.client
       .from(this.getTableName(entity))
       .update(data as any)
@@ -223,6 +265,8 @@ export class BiddingDataInterface extends DataInterface {
       throw new Error(`Failed to update ${entity}: ${error.message}`);
     }
     
+    this.journalRestores(entity, previous, Object.keys(data));
+    
     return result as T;
   }
 
@@ -239,6 +283,9 @@ export class BiddingDataInterface extends DataInterface {
     id: string,
     permanent?: boolean
   ): Promise<boolean> {
+    // Capture the previous row so the delete can be compensated
+    const previous = await this.capturePrevious(entity, { id });
+    
     if (!permanent) {
       // Soft delete - update the deleted_at field
       const { error } = await this.client
@@ -250,6 +297,8 @@ export class BiddingDataInterface extends DataInterface {
         console.error(`Error soft deleting ${entity}:`, error);
         return false;
       }
+      
+      this.journalRestores(entity, previous, ['deleted_at']);
     } else {
       // Hard delete - actually remove from the database
       const { error } = await this.client
@@ -261,6 +310,8 @@ export class BiddingDataInterface extends DataInterface {
         console.error(`Error hard deleting ${entity}:`, error);
         return false;
       }
+      
+      this.journalInserts(entity, previous);
     }
     
     return true;
@@ -292,6 +343,8 @@ export class BiddingDataInterface extends DataInterface {
 
   /**
    * Start a database transaction
+   * When called directly, the transaction journals the writes made where it was
+   * begun (outside any unit of work, or in the same unit of work) until it ends
    * 
    * @param meta Transaction metadata
    * @returns Transaction context
@@ -299,14 +352,27 @@ export class BiddingDataInterface extends DataInterface {
   public async beginTransaction(
     meta?: Record<string, any>
   ): Promise<TransactionContext> {
-    // Supabase doesn't have explicit transaction support in the JS client
-    // This is a placeholder implementation
-    return {
+    // Supabase doesn't have explicit transaction support in the JS client,
+    // so writes are applied immediately and journaled with their compensations
+    const context: TransactionContext = {
       transactionId: `tx-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       timestamp: Date.now(),
       userId: meta?.userId,
       meta
     };
+    
+    const direct = !this.opensUnitOfWork();
+    const enclosing = this.currentTransaction();
+    const parent = direct ? this.writingJournal() : enclosing && this.transactions.get(enclosing.transactionId);
+    
+    this.transactions.set(context.transactionId, {
+      context,
+      parentId: parent?.context.transactionId,
+      direct,
+      compensations: []
+    });
+    
+    return context;
   }
 
   /**
@@ -318,7 +384,22 @@ export class BiddingDataInterface extends DataInterface {
   public async commitTransaction(
     context: TransactionContext
   ): Promise<boolean> {
-    // Placeholder implementation
+    const journal = this.transactions.get(context.transactionId);
+    
+    if (!journal) {
+      return false;
+    }
+    
+    // Writes are already applied; a nested unit of work hands its
+    // compensations to the enclosing one in case that is rolled back later
+    const parent = journal.parentId !== undefined ? this.transactions.get(journal.parentId) : undefined;
+    
+    this.transactions.delete(context.transactionId);
+    
+    if (parent) {
+      parent.compensations.push(...journal.compensations);
+    }
+    
     return true;
   }
 
@@ -331,8 +412,37 @@ export class BiddingDataInterface extends DataInterface {
   public async rollbackTransaction(
     context: TransactionContext
   ): Promise<boolean> {
-    // Placeholder implementation
-    return true;
+    if (!this.transactions.has(context.transactionId)) {
+      return false;
+    }
+    
+    // Undo the writes of this unit of work and any nested ones, newest first;
+    // units of work running alongside it keep theirs
+    const journals = this.findJournals(context);
+    
+    for (const journal of journals) {
+      this.transactions.delete(journal.context.transactionId);
+    }
+    
+    const steps = journals
+      .reduce<CompensationStep[]>((all, journal) => all.concat(journal.compensations), [])
+      .reverse();
+    
+    if (steps.length === 0) {
+      return true;
+    }
+    
+    // Apply all compensations atomically in a single Postgres transaction
+    const { error } = await this.client
+      .schema(this.schema)
+      .rpc('apply_compensations', { steps });
+    
+    if (!error) {
+      return true;
+    }
+    
+    console.error(`Error applying compensations for ${context.transactionId}, retrying step by step:`, error);
+    return await this.applyCompensationsIndividually(steps);
   }
 
   /**
@@ -348,7 +458,8 @@ export class BiddingDataInterface extends DataInterface {
   ): Promise<BulkOperationResult> {
     const { data: result, error } = await this.client
       .from(this.getTableName(entity))
-      .insert(data as any);
+      .insert(data as any)
+      .select('id');
     
     if (error) {
       console.error(`Error bulk creating ${entity}:`, error);
@@ -359,6 +470,10 @@ export class BiddingDataInterface extends DataInterface {
       };
     }
     
+    for (const row of (result || []) as Array<{ id: string }>) {
+      this.journal({ action: 'delete', table: this.getTableName(entity), id: row.id });
+    }
+    
     return {
       success: true,
       count: data.length
@@ -381,6 +496,9 @@ export class BiddingDataInterface extends DataInterface {
     // First count how many records we're updating
     const count = await this.count(entity, criteria);
     
+    // Capture the previous values so the update can be compensated
+    const previous = await this.capturePrevious(entity, criteria);
+    
     // Build the query
     let query = this.client
       .from(this.getTableName(entity))
@@ -400,6 +518,8 @@ export class BiddingDataInterface extends DataInterface {
       };
     }
     
+    this.journalRestores(entity, previous, Object.keys(data));
+    
     return {
       success: true,
       count
@@ -422,14 +542,18 @@ export class BiddingDataInterface extends DataInterface {
     // First count how many records we're deleting
     const count = await this.count(entity, criteria);
     
+    // Capture the previous rows so the delete can be compensated
+    const previous = await this.capturePrevious(entity, criteria);
+    
     if (!permanent) {
       // Soft delete - update the deleted_at field
-      const { error } = await this.client
-        .from(this.getTableName(entity))
-        .update({ deleted_at: new Date() });
-      
       // Apply criteria
-      const query = this.applyCriteria(this.client.from(this.getTableName(entity)), criteria);
+      const query = this.applyCriteria(
+        this.client.from(this.getTableName(entity)).update({ deleted_at: new Date() }),
+        criteria
+      );
+      
+      const { error } = await query;
       
       if (error) {
         console.error(`Error bulk soft deleting ${entity}:`, error);
@@ -439,6 +563,8 @@ export class BiddingDataInterface extends DataInterface {
           errors: [error.message]
         };
       }
+      
+      this.journalRestores(entity, previous, ['deleted_at']);
     } else {
       // Hard delete - actually remove from the database
       // Apply criteria
@@ -454,6 +580,8 @@ export class BiddingDataInterface extends DataInterface {
           errors: [error.message]
         };
       }
+      
+      this.journalInserts(entity, previous);
     }
     
     return {
@@ -462,6 +590,152 @@ export class BiddingDataInterface extends DataInterface {
     };
   }
 
+  /**
+   * Record a compensation against the transaction the write is made in
+   * Writes made outside any transaction are not journaled
+   * 
+   * @param step Compensation step
+   */
+  private journal(step: CompensationStep): void {
+    const journal = this.writingJournal();
+    
+    if (journal) {
+      journal.compensations.push(step);
+    }
+  }
+
+  /**
+   * Find the journal of the open transaction that writes made now belong to
+   * That is the transaction of the unit of work in progress, unless a
+   * transaction begun directly in it (or outside any unit of work) is still open.
+   * 
+   * @returns The journal, or undefined if writes aren't transactional
+   */
+  private writingJournal(): TransactionJournal | undefined {
+    const context = this.currentTransaction();
+    let journal = context && this.transactions.get(context.transactionId);
+    
+    for (;;) {
+      const parentId = journal?.context.transactionId;
+      const direct = Array.from(this.transactions.values())
+        .reverse()
+        .find(candidate => candidate.direct && candidate.parentId === parentId);
+      
+      if (!direct) {
+        return journal;
+      }
+      
+      journal = direct;
+    }
+  }
+
+  /**
+   * Journal compensations that write back the previous values of updated rows
+   * 
+   * @param entity Entity type (table name)
+   * @param previous Rows as they were before the write
+   * @param fields Fields changed by the write
+   */
+  private journalRestores(entity: string, previous: any[], fields: string[]): void {
+    for (const row of previous) {
+      const data: Record<string, any> = {};
+      
+      for (const field of fields) {
+        data[field] = row[field] !== undefined ? row[field] : null;
+      }
+      
+      this.journal({ action: 'restore', table: this.getTableName(entity), id: row.id, data });
+    }
+  }
+
+  /**
+   * Journal compensations that re-insert hard deleted rows
+   * 
+   * @param entity Entity type (table name)
+   * @param previous Rows as they were before the delete
+   */
+  private journalInserts(entity: string, previous: any[]): void {
+    for (const row of previous) {
+      this.journal({ action: 'insert', table: this.getTableName(entity), id: row.id, data: row });
+    }
+  }
+
+  /**
+   * Read the rows a write is about to change, if it will be journaled
+   * 
+   * @param entity Entity type (table name)
+   * @param criteria Criteria selecting the rows
+   * @returns The current rows, or an empty array outside any transaction
+   */
+  private async capturePrevious(entity: string, criteria: QueryCriteria): Promise<any[]> {
+    if (!this.writingJournal()) {
+      return [];
+    }
+    
+    const query = this.applyCriteria(
+      this.client.from(this.getTableName(entity)).select('*'),
+      criteria
+    );
+    
+    const { data, error } = await query;
+    
+    if (error) {
+      throw new Error(`Failed to capture ${entity} for rollback: ${error.message}`);
+    }
+    
+    return data || [];
+  }
+
+  /**
+   * Apply compensations one at a time when the atomic RPC is unavailable
+   * 
+   * @param steps Compensation steps, in the order to apply them
+   * @returns Whether every step was applied
+   */
+  private async applyCompensationsIndividually(steps: CompensationStep[]): Promise<boolean> {
+    let success = true;
+    
+    for (const step of steps) {
+      let query;
+      
+      switch (step.action) {
+        case 'delete':
+          query = this.client.from(step.table).delete().eq('id', step.id);
+          break;
+        case 'restore':
+          query = this.client.from(step.table).update(step.data as any).eq('id', step.id);
+          break;
+        case 'insert':
+          query = this.client.from(step.table).insert(step.data as any);
+          break;
+      }
+      
+      const { error } = await query;
+      
+      if (error) {
+        console.error(`Error compensating ${step.action} on ${step.table} ${step.id}:`, error);
+        success = false;
+      }
+    }
+    
+    return success;
+  }
+
+  /**
+   * Find the journals of an open unit of work and of the units nested in it
+   * 
+   * @param context Transaction context
+   * @returns The journals, oldest first
+   */
+  private findJournals(context: TransactionContext): TransactionJournal[] {
+    const isWithin = (journal?: TransactionJournal): boolean => !!journal && (
+      journal.context.transactionId === context.transactionId ||
+      (journal.parentId !== undefined && isWithin(this.transactions.get(journal.parentId)))
+    );
+    
+    return Array.from(this.transactions.values()).filter(journal => isWithin(journal));
+  }
+
   /**
    * Apply criteria to a query
    * 
@@ -474,14 +748,10 @@ export class BiddingDataInterface extends DataInterface {
     for (const [key, value] of Object.entries(criteria)) {
       // Handle special OR operator
       if (key === '$or' && Array.isArray(value)) {
-        // Build OR filter
+        // Build OR filter; a condition on several fields must match all of them
         const orFilters = value.map(condition => {
-          const entries = Object.entries(condition);
-          if (entries.length === 1) {
-            const [field, fieldValue] = entries[0];
-            return `${field}.eq.${fieldValue}`;
-          }
-          return null;
+          const filters = Object.entries(condition).flatMap(([field, fieldValue]) => this.toFilters(field, fieldValue));
+          return filters.length > 1 ? `and(${filters.join(',')})` : filters[0];
         }).filter(Boolean);
         
         if (orFilters.length > 0) {
@@ -498,6 +768,19 @@ export class BiddingDataInterface extends DataInterface {
         continue;
       }
       
+      // Handle range operators
+      if (value && typeof value === 'object' && !(value instanceof Date) &&
+          ['$lt', '$lte', '$gt', '$gte'].some(operator => operator in value)) {
+        // PostgREST expects timestamps as ISO strings
+        const bound = (operand: any) => operand instanceof Date ? operand.toISOString() : operand;
+        
+        if (value.$lt !== undefined) query = query.lt(key, bound(value.$lt));
+        if (value.$lte !== undefined) query = query.lte(key, bound(value.$lte));
+        if (value.$gt !== undefined) query = query.gt(key, bound(value.$gt));
+        if (value.$gte !== undefined) query = query.gte(key, bound(value.$gte));
+        continue;
+      }
+      
       // Handle normal equality
       query = query.eq(key, value);
     }
@@ -505,6 +788,32 @@ export class BiddingDataInterface extends DataInterface {
     return query;
   }
 
+  /**
+   * Express a criterion as PostgREST filters, for use inside an OR filter
+   * 
+   * @param field Field name
+   * @param value Criterion value: a plain value, or an object of $in and range operators
+   * @returns Filters in PostgREST's field.operator.value syntax
+   */
+  private toFilters(field: string, value: any): string[] {
+    // PostgREST expects timestamps as ISO strings
+    const operand = (raw: any) => raw instanceof Date ? raw.toISOString() : raw;
+    
+    if (!value || typeof value !== 'object' || value instanceof Date) {
+      return [`${field}.eq.${operand(value)}`];
+    }
+    
+    const filters: string[] = [];
+    
+    if (Array.isArray(value.$in)) filters.push(`${field}.in.(${value.$in.map(operand).join(',')})`);
+    if (value.$lt !== undefined) filters.push(`${field}.lt.${operand(value.$lt)}`);
+    if (value.$lte !== undefined) filters.push(`${field}.lte.${operand(value.$lte)}`);
+    if (value.$gt !== undefined) filters.push(`${field}.gt.${operand(value.$gt)}`);
+    if (value.$gte !== undefined) filters.push(`${field}.gte.${operand(value.$gte)}`);
+    
+    return filters;
+  }
+
   /**
    * Get select fields from options
    * 
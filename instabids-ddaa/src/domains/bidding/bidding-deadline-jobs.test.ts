@@ -0,0 +1,116 @@
+import { DomainIntent, DomainOperationResult } from '../../core/domain/domain-agent';
+import { InMemoryDataInterface } from '../../core/persistence/in-memory-data-interface';
+import { ScheduledJob } from '../../core/scheduling/scheduler';
+import { BiddingAgent } from './bidding-agent';
+import { createBiddingDeadlineJobs } from './bidding-deadline-jobs';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('createBiddingDeadlineJobs', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  let dataInterface: InMemoryDataInterface;
+  let fulfilled: DomainIntent[];
+  let fulfill: (intent: DomainIntent) => Promise<DomainOperationResult>;
+  let jobs: ScheduledJob[];
+  
+  const job = (name: string): ScheduledJob => jobs.find(candidate => candidate.name === name)!;
+  
+  beforeEach(() => {
+    dataInterface = new InMemoryDataInterface('bidding');
+    fulfilled = [];
+    fulfill = async () => ({ success: true });
+    
+    const agent = {
+      fulfillIntent: (intent: DomainIntent) => {
+        fulfilled.push(intent);
+        return fulfill(intent);
+      }
+    } as unknown as BiddingAgent;
+    
+    jobs = createBiddingDeadlineJobs(agent, dataInterface, { batchSize: 2 });
+  });
+  
+  it('closes bidding on the cards whose deadline has passed, oldest first', async () => {
+    dataInterface.seed('bid_cards', [
+      { id: 'card-late', status: 'open', bid_deadline: new Date(now.getTime() - HOUR) },
+      { id: 'card-future', status: 'open', bid_deadline: new Date(now.getTime() + HOUR) },
+      { id: 'card-early', status: 'open', bid_deadline: new Date(now.getTime() - 2 * HOUR) }
+    ]);
+    
+    const result = await job('bidding.close_bidding').run(now);
+    
+    expect(result).toEqual({ processed: 2, skipped: 0, failures: [] });
+    expect(fulfilled.map(intent => intent.params.id)).toEqual(['card-early', 'card-late']);
+  });
+  
+  it('pages past entities that keep failing to the ones due after them', async () => {
+    dataInterface.seed('bid_cards', [1, 2, 3, 4].map(hours => ({
+      id: `card-${hours}`,
+      status: 'open',
+      bid_deadline: new Date(now.getTime() - (5 - hours) * HOUR)
+    })));
+    
+    fulfill = async intent => {
+      if (intent.params.id === 'card-1' || intent.params.id === 'card-2') {
+        return { success: false, error: 'DB_ERROR', message: 'Broken' };
+      }
+      
+      await dataInterface.update('bid_cards', intent.params.id, { status: 'review' });
+      return { success: true };
+    };
+    
+    const result = await job('bidding.close_bidding').run(now);
+    
+    expect(result.processed).toBe(2);
+    expect(result.failures.map(failure => failure.id)).toEqual(['card-1', 'card-2']);
+    expect(fulfilled.map(intent => intent.params.id)).toEqual(['card-1', 'card-2', 'card-3', 'card-4']);
+  });
+  
+  it('sends each due reminder once, leaving out the cards already reminded', async () => {
+    dataInterface.seed('bid_cards', [4, 1, 3, 2].map(hours => ({
+      id: `card-${hours}`,
+      status: 'open',
+      bid_deadline: new Date(now.getTime() + hours * HOUR)
+    })));
+    dataInterface.seed('bid_deadline_reminders', [1, 2].map(hours => ({
+      bid_card_id: `card-${hours}`,
+      bid_deadline: new Date(now.getTime() + hours * HOUR),
+      hours_before: 24
+    })));
+    
+    fulfill = async intent => {
+      const bidCard = await dataInterface.findById<any>('bid_cards', intent.params.bid_card_id);
+      await dataInterface.create('bid_deadline_reminders', {
+        bid_card_id: bidCard.id,
+        bid_deadline: bidCard.bid_deadline,
+        hours_before: intent.params.hours_before
+      });
+      return { success: true };
+    };
+    
+    const first = await job('bidding.deadline_reminders').run(now);
+    const second = await job('bidding.deadline_reminders').run(now);
+    
+    expect(first).toEqual({ processed: 2, skipped: 0, failures: [] });
+    expect(second).toEqual({ processed: 0, skipped: 0, failures: [] });
+    expect(fulfilled.map(intent => intent.params)).toEqual([
+      { bid_card_id: 'card-3', hours_before: 24 },
+      { bid_card_id: 'card-4', hours_before: 24 }
+    ]);
+  });
+  
+  it('sends a new reminder once the deadline has moved', async () => {
+    const deadline = new Date(now.getTime() + 2 * HOUR);
+    
+    dataInterface.seed('bid_cards', [{ id: 'card-1', status: 'open', bid_deadline: deadline }]);
+    dataInterface.seed('bid_deadline_reminders', [{
+      bid_card_id: 'card-1',
+      bid_deadline: new Date(now.getTime() + HOUR),
+      hours_before: 24
+    }]);
+    
+    const result = await job('bidding.deadline_reminders').run(now);
+    
+    expect(result.processed).toBe(1);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Bidding Deadline Jobs - Scheduled jobs that act on passing bidding deadlines
+ * 
+ * Each job finds the bidding entities whose deadline has been reached and
+ * hands them to the bidding agent through its system intents, so deadline
+ * handling goes through the same guard, state machines and units of work as
+ * any other operation. The jobs only decide what is due; the agent decides
+ * what happens to it.
+ */
+
+import { DomainIntent, DomainOperationResult } from '../../core/domain/domain-agent';
+import { DataInterface, QueryCriteria } from '../../core/persistence/data-interface';
+import { ScheduledJob, JobRunResult } from '../../core/scheduling/scheduler';
+import { BiddingAgent } from './bidding-agent';
+
+/**
+ * Errors meaning an entity no longer needs the job's action,
+ * e.g. because a user acted on it between the lookup and the intent
+ */
+const SKIPPABLE_ERRORS = ['INVALID_STATUS', 'ALREADY_SENT', 'NO_PENDING_OFFER', 'NO_OPEN_DEADLINE'];
+
+/**
+ * Deadline job configuration
+ */
+export interface BiddingDeadlineJobOptions {
+  /**
+   * How long the homeowner has to award a bid card once bidding closes, in hours (defaults to 168)
+   */
+  reviewPeriodHours?: number;
+  
+  /**
+   * How many hours before a bid deadline reminders are sent (defaults to [24])
+   */
+  reminderHours?: number[];
+  
+  /**
+   * Maximum number of entities each job acts on per run (defaults to 100)
+   * Entities that are skipped or fail don't count, so they can't crowd out the ones due after them
+   */
+  batchSize?: number;
+}
+
+/**
+ * What a deadline job acts on and how
+ */
+interface DueQuery {
+  /**
+   * Entity type (table name) to look in
+   */
+  entity: string;
+  
+  /**
+   * Criteria matching the entities that are due
+   */
+  criteria: QueryCriteria;
+  
+  /**
+   * Field holding the time an entity fell due, which entities are handled in order of
+   */
+  dueField: string;
+  
+  /**
+   * Maximum number of entities to act on, which is also the page size
+   */
+  limit: number;
+  
+  /**
+   * Narrow a page of entities down to those that still need the job's action
+   */
+  select?: (entities: any[]) => Promise<any[]>;
+  
+  /**
+   * Intent to fulfill for an entity
+   */
+  intentFor: (entity: any) => DomainIntent;
+  
+  /**
+   * Whether fulfilling the intent takes an entity out of the criteria's matches
+   * (defaults to true, e.g. because its status changes)
+   */
+  settles?: boolean;
+}
+
+/**
+ * Create the bidding deadline jobs
+ * 
+ * @param agent Bidding agent acting in the system context
+ * @param dataInterface Data interface used to find what is due
+ * @param options Deadline job configuration
+ * @returns Jobs in the order they should run
+ */
+export function createBiddingDeadlineJobs(
+  agent: BiddingAgent,
+  dataInterface: DataInterface,
+  options: BiddingDeadlineJobOptions = {}
+): ScheduledJob[] {
+  const reviewPeriodHours = options.reviewPeriodHours ?? 168;
+  const reminderHours = [...(options.reminderHours || [24])].sort((a, b) => a - b);
+  const limit = options.batchSize || 100;
+  
+  return [
+    {
+      name: 'bidding.close_bidding',
+      description: 'Close bidding on open bid cards whose bid deadline has passed',
+      run: now => fulfillDue(agent, dataInterface, {
+        entity: 'bid_cards',
+        criteria: { status: 'open', bid_deadline: { $lte: now } },
+        dueField: 'bid_deadline',
+        limit,
+        intentFor: bidCard => ({
+          operation: 'closeBidding',
+          params: { id: bidCard.id }
+        })
+      })
+    },
+    {
+      name: 'bidding.expire_bid_cards',
+      description: 'Expire bid cards that were not awarded within the review period',
+      run: now => fulfillDue(agent, dataInterface, {
+        entity: 'bid_cards',
+        criteria: { status: 'review', bid_deadline: { $lte: addHours(now, -reviewPeriodHours) } },
+        dueField: 'bid_deadline',
+        limit,
+        intentFor: bidCard => ({
+          operation: 'expireBidCard',
+          params: { id: bidCard.id }
+        })
+      })
+    },
+    {
+      name: 'bidding.expire_counter_offers',
+      description: 'Expire counter-offers that were not answered in time',
+      run: now => fulfillDue(agent, dataInterface, {
+        entity: 'bid_negotiation_offers',
+        criteria: { status: 'pending', expires_at: { $lte: now } },
+        dueField: 'expires_at',
+        limit,
+        intentFor: offer => ({
+          operation: 'expireCounterOffer',
+          params: { bid_id: offer.bid_id }
+        })
+      })
+    },
+    {
+      name: 'bidding.deadline_reminders',
+      description: 'Remind the parties of open bid cards that the bid deadline is approaching',
+      run: async now => {
+        if (reminderHours.length === 0) {
+          return { processed: 0, skipped: 0, failures: [] };
+        }
+        
+        // Send the closest reminder that is due, so a card found late does not get every earlier one
+        const reminderFor = (bidCard: any): number | undefined => {
+          const hoursLeft = (new Date(bidCard.bid_deadline).getTime() - now.getTime()) / (60 * 60 * 1000);
+          return reminderHours.find(hours => hoursLeft <= hours);
+        };
+        
+        return fulfillDue(agent, dataInterface, {
+          entity: 'bid_cards',
+          criteria: {
+            status: 'open',
+            bid_deadline: { $gt: now, $lte: addHours(now, reminderHours[reminderHours.length - 1]) }
+          },
+          dueField: 'bid_deadline',
+          limit,
+          // Cards stay open once reminded, so leave out those whose due reminder was already sent
+          // for their current deadline
+          select: async bidCards => {
+            const sent = await dataInterface.findMany('bid_deadline_reminders', {
+              bid_card_id: { $in: bidCards.map(bidCard => bidCard.id) }
+            });
+            
+            return bidCards.filter(bidCard => !sent.some(reminder =>
+              reminder.bid_card_id === bidCard.id &&
+              reminder.hours_before === reminderFor(bidCard) &&
+              new Date(reminder.bid_deadline).getTime() === new Date(bidCard.bid_deadline).getTime()
+            ));
+          },
+          intentFor: bidCard => ({
+            operation: 'sendDeadlineReminder',
+            params: {
+              bid_card_id: bidCard.id,
+              hours_before: reminderFor(bidCard)
+            }
+          }),
+          settles: false
+        });
+      }
+    },
+    {
+      name: 'bidding.group_bid_deadlines',
+      description: 'Extend or expire group bids whose acceptance deadline has passed',
+      run: now => fulfillDue(agent, dataInterface, {
+        entity: 'group_bids',
+        criteria: { status: { $in: ['submitted', 'extended'] }, acceptance_deadline: { $lte: now } },
+        dueField: 'acceptance_deadline',
+        limit,
+        intentFor: groupBid => ({
+          operation: 'processGroupBidDeadline',
+          params: { group_bid_id: groupBid.id }
+        })
+      })
+    }
+  ];
+}
+
+/**
+ * Page through the entities that are due, oldest first, and fulfill an intent
+ * for each until the batch is full or none are left
+ * Entities that are skipped or fail still match the criteria, so each page
+ * starts past them and they don't count against the batch; otherwise they
+ * would come back first on every run and keep the entities due after them
+ * from ever being acted on.
+ * 
+ * @param agent Bidding agent acting in the system context
+ * @param dataInterface Data interface used to find what is due
+ * @param query What is due and what to do with it
+ * @returns Summary of the results
+ */
+async function fulfillDue(
+  agent: BiddingAgent,
+  dataInterface: DataInterface,
+  query: DueQuery
+): Promise<JobRunResult> {
+  const result: JobRunResult = { processed: 0, skipped: 0, failures: [] };
+  let offset = 0;
+  
+  while (result.processed < query.limit) {
+    const page = await dataInterface.findMany(query.entity, query.criteria, {
+      orderBy: query.dueField,
+      orderDirection: 'asc',
+      offset,
+      limit: query.limit
+    });
+    const due = query.select && page.length > 0 ? await query.select(page) : page;
+    const outcome = await fulfillEach(agent, due, query.intentFor, query.limit - result.processed);
+    
+    result.processed += outcome.processed;
+    result.skipped += outcome.skipped;
+    result.failures.push(...outcome.failures);
+    
+    if (page.length < query.limit) {
+      return result;
+    }
+    
+    // Entities that settled dropped out of the matches; the rest are still ahead of the next page
+    offset += query.settles === false ? page.length : page.length - outcome.processed;
+  }
+  
+  return result;
+}
+
+/**
+ * Fulfill one intent per entity, one at a time, and summarize the results
+ * 
+ * @param agent Bidding agent acting in the system context
+ * @param entities Entities that are due
+ * @param intentFor Intent to fulfill for an entity
+ * @param limit Number of entities to act on before stopping
+ * @returns Summary of the results
+ */
+async function fulfillEach(
+  agent: BiddingAgent,
+  entities: any[],
+  intentFor: (entity: any) => DomainIntent,
+  limit: number
+): Promise<JobRunResult> {
+  const result: JobRunResult = { processed: 0, skipped: 0, failures: [] };
+  
+  for (const entity of entities) {
+    if (result.processed >= limit) {
+      break;
+    }
+    
+    const outcome: DomainOperationResult = await agent.fulfillIntent(intentFor(entity));
+    
+    if (outcome.success) {
+      result.processed++;
+    } else if (outcome.error && SKIPPABLE_ERRORS.includes(outcome.error)) {
+      result.skipped++;
+    } else {
+      result.failures.push({
+        id: entity.id,
+        error: outcome.error || 'UNKNOWN_ERROR',
+        message: outcome.message
+      });
+    }
+  }
+  
+  return result;
+}
+
+/**
+ * Shift a time by a number of hours
+ * 
+ * @param time Time to shift
+ * @param hours Hours to add (negative to subtract)
+ * @returns The shifted time
+ */
+function addHours(time: Date, hours: number): Date {
+  return new Date(time.getTime() + hours * 60 * 60 * 1000);
+}
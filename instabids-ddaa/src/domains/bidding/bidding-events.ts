@@ -0,0 +1,141 @@
+/**
+ * Bidding Events - Domain events published by the bidding agent
+ * 
+ * Each event the bidding domain publishes is declared here once with the
+ * current version of its payload. Other domains can subscribe by event type
+ * name alone; these definitions give TypeScript consumers typed payloads.
+ * Bump an event's version whenever its payload changes incompatibly.
+ */
+
+import { defineEvent, EventPayload } from '../../core/events/event-bus';
+
+/**
+ * A row of a bidding table as returned by the data interface
+ */
+type Row = Record<string, any>;
+
+/**
+ * Event definitions of the bidding domain, keyed by name
+ */
+export const biddingEvents = {
+  bidCardCreated: defineEvent<{ bid_card: Row }>(
+    'bidding.bid_card_created', 1, 'A homeowner created a bid card'
+  ),
+  bidCardUpdated: defineEvent<{ bid_card: Row; revision_created: boolean }>(
+    'bidding.bid_card_updated', 1, 'A bid card was changed, with a revision if bids had been made'
+  ),
+  biddingClosed: defineEvent<{ bid_card: Row; outstanding_bids: number }>(
+    'bidding.bidding_closed', 1, 'The bid deadline passed and the bid card moved to review'
+  ),
+  bidCardExpired: defineEvent<{ bid_card: Row; expired_bids: Row[]; expired_group_bids: Row[] }>(
+    'bidding.bid_card_expired', 1, 'A bid card expired without being awarded'
+  ),
+  bidDeadlineReminder: defineEvent<{ reminder: Row; bid_card: Row; recipients: string[] }>(
+    'bidding.bid_deadline_reminder', 1, 'A bid deadline is approaching'
+  ),
+  bidSubmitted: defineEvent<{ bid: Row }>(
+    'bidding.bid_submitted', 1, 'A contractor submitted a bid'
+  ),
+  bidUpdated: defineEvent<{ bid: Row }>(
+    'bidding.bid_updated', 1, 'A contractor changed their bid'
+  ),
+  bidAccepted: defineEvent<{ acceptance: Row; bid: Row; bid_card: Row }>(
+    'bidding.bid_accepted', 1, 'A homeowner accepted a bid and awarded the bid card'
+  ),
+  acceptanceConfirmed: defineEvent<{ acceptance: Row }>(
+    'bidding.acceptance_confirmed', 1, 'A contractor confirmed the acceptance of their bid'
+  ),
+  acceptanceDeclined: defineEvent<{ acceptance: Row }>(
+    'bidding.acceptance_declined', 1, 'A contractor declined the acceptance of their bid'
+  ),
+  connectionPaymentRequested: defineEvent<{ payment: Row; acceptance: Row }>(
+    'bidding.connection_payment_requested', 1, 'The contractor of a confirmed acceptance owes the connection fee'
+  ),
+  connectionPaymentCancelled: defineEvent<{ payment: Row }>(
+    'bidding.connection_payment_cancelled', 1, 'A connection fee is no longer owed'
+  ),
+  contactsReleased: defineEvent<{ acceptance: Row; contact_release: Row }>(
+    'bidding.contacts_released', 1, 'The connection fee was paid and the parties can see each other\'s contact details'
+  ),
+  projectHandoffRequested: defineEvent<{ acceptance: Row; contract_terms: Row }>(
+    'bidding.project_handoff_requested', 1, 'A paid acceptance is ready to become a project'
+  ),
+  acceptanceRevoked: defineEvent<{ acceptance: Row; bid: Row; bid_card: Row; reason: string }>(
+    'bidding.acceptance_revoked', 1, 'An acceptance fell through and the bid card went back to review'
+  ),
+  workStarted: defineEvent<{ bid_card: Row; project_id: string }>(
+    'bidding.work_started', 1, 'The project for an awarded bid card was initialized'
+  ),
+  bidWithdrawn: defineEvent<{ bid: Row }>(
+    'bidding.bid_withdrawn', 1, 'A contractor withdrew their bid'
+  ),
+  bidRejected: defineEvent<{ bid: Row }>(
+    'bidding.bid_rejected', 1, 'A homeowner rejected a bid'
+  ),
+  bidCountered: defineEvent<{ bid: Row; offer: Row }>(
+    'bidding.bid_countered', 1, 'A party to a bid made a counter-offer'
+  ),
+  counterOfferAccepted: defineEvent<{ bid: Row; offer: Row }>(
+    'bidding.counter_offer_accepted', 1, 'A counter-offer was accepted and its terms applied to the bid'
+  ),
+  counterOfferRejected: defineEvent<{ bid: Row; offer: Row }>(
+    'bidding.counter_offer_rejected', 1, 'A counter-offer was rejected'
+  ),
+  counterOfferExpired: defineEvent<{ bid: Row; offer: Row }>(
+    'bidding.counter_offer_expired', 1, 'A counter-offer expired without a response'
+  ),
+  bidGroupCreated: defineEvent<{ group: Row; member: Row }>(
+    'bidding.bid_group_created', 1, 'A contractor formed a bid group'
+  ),
+  bidGroupJoined: defineEvent<{ group: Row; member: Row }>(
+    'bidding.bid_group_joined', 1, 'A contractor joined a bid group'
+  ),
+  groupBidSubmitted: defineEvent<{ group_bid: Row }>(
+    'bidding.group_bid_submitted', 1, 'A bid group submitted a group bid'
+  ),
+  groupBidAccepted: defineEvent<{ acceptance: Row; group_bid: Row; bid_card: Row }>(
+    'bidding.group_bid_accepted', 1, 'A homeowner accepted a group bid'
+  ),
+  groupBidExtensionRequested: defineEvent<{ extension: Row }>(
+    'bidding.group_bid_extension_requested', 1, 'More time was requested for a group bid'
+  ),
+  groupBidExtended: defineEvent<{ group_bid: Row; extension: Row }>(
+    'bidding.group_bid_extended', 1, 'A group bid acceptance deadline was extended'
+  ),
+  groupBidExpired: defineEvent<{ group_bid: Row }>(
+    'bidding.group_bid_expired', 1, 'A group bid expired before the group accepted it'
+  )
+};
+
+/**
+ * Payload types of the bidding events
+ */
+export type BidCardCreatedPayload = EventPayload<typeof biddingEvents.bidCardCreated>;
+export type BidCardUpdatedPayload = EventPayload<typeof biddingEvents.bidCardUpdated>;
+export type BiddingClosedPayload = EventPayload<typeof biddingEvents.biddingClosed>;
+export type BidCardExpiredPayload = EventPayload<typeof biddingEvents.bidCardExpired>;
+export type BidDeadlineReminderPayload = EventPayload<typeof biddingEvents.bidDeadlineReminder>;
+export type BidSubmittedPayload = EventPayload<typeof biddingEvents.bidSubmitted>;
+export type BidUpdatedPayload = EventPayload<typeof biddingEvents.bidUpdated>;
+export type BidAcceptedPayload = EventPayload<typeof biddingEvents.bidAccepted>;
+export type AcceptanceConfirmedPayload = EventPayload<typeof biddingEvents.acceptanceConfirmed>;
+export type AcceptanceDeclinedPayload = EventPayload<typeof biddingEvents.acceptanceDeclined>;
+export type ConnectionPaymentRequestedPayload = EventPayload<typeof biddingEvents.connectionPaymentRequested>;
+export type ConnectionPaymentCancelledPayload = EventPayload<typeof biddingEvents.connectionPaymentCancelled>;
+export type ContactsReleasedPayload = EventPayload<typeof biddingEvents.contactsReleased>;
+export type ProjectHandoffRequestedPayload = EventPayload<typeof biddingEvents.projectHandoffRequested>;
+export type AcceptanceRevokedPayload = EventPayload<typeof biddingEvents.acceptanceRevoked>;
+export type WorkStartedPayload = EventPayload<typeof biddingEvents.workStarted>;
+export type BidWithdrawnPayload = EventPayload<typeof biddingEvents.bidWithdrawn>;
+export type BidRejectedPayload = EventPayload<typeof biddingEvents.bidRejected>;
+export type BidCounteredPayload = EventPayload<typeof biddingEvents.bidCountered>;
+export type CounterOfferAcceptedPayload = EventPayload<typeof biddingEvents.counterOfferAccepted>;
+export type CounterOfferRejectedPayload = EventPayload<typeof biddingEvents.counterOfferRejected>;
+export type CounterOfferExpiredPayload = EventPayload<typeof biddingEvents.counterOfferExpired>;
+export type BidGroupCreatedPayload = EventPayload<typeof biddingEvents.bidGroupCreated>;
+export type BidGroupJoinedPayload = EventPayload<typeof biddingEvents.bidGroupJoined>;
+export type GroupBidSubmittedPayload = EventPayload<typeof biddingEvents.groupBidSubmitted>;
+export type GroupBidAcceptedPayload = EventPayload<typeof biddingEvents.groupBidAccepted>;
+export type GroupBidExtensionRequestedPayload = EventPayload<typeof biddingEvents.groupBidExtensionRequested>;
+export type GroupBidExtendedPayload = EventPayload<typeof biddingEvents.groupBidExtended>;
+export type GroupBidExpiredPayload = EventPayload<typeof biddingEvents.groupBidExpired>;
@@ -0,0 +1,85 @@
+import { DomainAgentContext } from '../../core/domain/domain-agent';
+import { InMemoryDataInterface } from '../../core/persistence/in-memory-data-interface';
+import { BiddingGuard, SYSTEM_ROLE } from './bidding-guard';
+
+describe('BiddingGuard.validateAccess', () => {
+  let dataInterface: InMemoryDataInterface;
+  let guard: BiddingGuard;
+  
+  const context = (userId?: string, userRole?: string): DomainAgentContext => ({ userId, userRole, timestamp: Date.now() });
+  const homeowner = context('homeowner-1');
+  const contractor = context('contractor-user-1');
+  const otherContractor = context('contractor-user-2');
+  const anonymous = context();
+  
+  beforeEach(() => {
+    dataInterface = new InMemoryDataInterface('bidding');
+    dataInterface.seed('users', [
+      { id: 'homeowner-1', role: 'homeowner' },
+      { id: 'contractor-user-1', role: 'contractor' },
+      { id: 'contractor-user-2', role: 'contractor' }
+    ]);
+    dataInterface.seed('contractors', [
+      { id: 'contractor-1', user_id: 'contractor-user-1' },
+      { id: 'contractor-2', user_id: 'contractor-user-2' }
+    ]);
+    dataInterface.seed('bid_cards', [
+      { id: 'card-public', creator_id: 'homeowner-1', visibility: 'public' },
+      { id: 'card-private', creator_id: 'homeowner-1', visibility: 'private' }
+    ]);
+    dataInterface.seed('bids', [
+      { id: 'bid-1', bid_card_id: 'card-public', contractor_id: 'contractor-1' }
+    ]);
+    dataInterface.seed('bid_groups', [
+      { id: 'group-1', bid_card_id: 'card-private', creator_id: 'contractor-user-2' }
+    ]);
+    
+    guard = new BiddingGuard(dataInterface);
+  });
+  
+  it('lets anonymous users browse bid cards and read only the public ones', async () => {
+    expect(await guard.validateAccess('bid_cards', 'list', anonymous)).toBe(true);
+    expect(await guard.validateAccess('bid_cards:card-public', 'read', anonymous)).toBe(true);
+    expect(await guard.validateAccess('bid_cards:card-private', 'read', anonymous)).toBe(false);
+    expect(await guard.validateAccess('bids', 'create', anonymous)).toBe(false);
+  });
+  
+  it('lets the creator manage a bid card but not bid on it', async () => {
+    expect(await guard.validateAccess('bid_cards:card-private', 'update', homeowner)).toBe(true);
+    expect(await guard.validateAccess('bid_cards:card-private', 'bid', homeowner)).toBe(false);
+  });
+  
+  it('lets contractors bid on the cards they can see', async () => {
+    expect(await guard.validateAccess('bid_cards:card-public', 'bid', contractor)).toBe(true);
+    expect(await guard.validateAccess('bid_cards:card-private', 'bid', contractor)).toBe(false);
+    expect(await guard.validateAccess('bid_cards:card-public', 'update', contractor)).toBe(false);
+  });
+  
+  it('shows private bid cards to the members of their bid groups', async () => {
+    dataInterface.seed('bid_group_members', [
+      { bid_group_id: 'group-1', contractor_id: 'contractor-user-1', status: 'active' }
+    ]);
+    
+    expect(await guard.validateAccess('bid_cards:card-private', 'read', contractor)).toBe(true);
+    expect(await guard.validateAccess('bid_groups:group-1', 'read', contractor)).toBe(true);
+    expect(await guard.validateAccess('bid_groups:group-1', 'update', contractor)).toBe(false);
+  });
+  
+  it('splits the actions on a bid between the homeowner and its contractor', async () => {
+    expect(await guard.validateAccess('bids:bid-1', 'accept', homeowner)).toBe(true);
+    expect(await guard.validateAccess('bids:bid-1', 'withdraw', homeowner)).toBe(false);
+    expect(await guard.validateAccess('bids:bid-1', 'withdraw', contractor)).toBe(true);
+    expect(await guard.validateAccess('bids:bid-1', 'accept', contractor)).toBe(false);
+    expect(await guard.validateAccess('bids:bid-1', 'read', otherContractor)).toBe(false);
+    expect(await guard.validateAccess('bids:bid-missing', 'read', homeowner)).toBe(false);
+  });
+  
+  it('reserves the system actions for the system, which may otherwise only read', async () => {
+    const system = context('scheduler', SYSTEM_ROLE);
+    
+    expect(await guard.validateAccess('bid_cards:card-public', 'close_bidding', system)).toBe(true);
+    expect(await guard.validateAccess('bid_cards:card-public', 'read', system)).toBe(true);
+    expect(await guard.validateAccess('bid_cards:card-public', 'update', system)).toBe(false);
+    expect(await guard.validateAccess('bid_cards:card-public', 'close_bidding', homeowner)).toBe(false);
+  });
+});
@@ -1,13 +1,28 @@
 /**
  * Bidding Guard Layer - Implementation of the guard layer for the bidding domain
- *
+ * 
  * This guard layer enforces architectural patterns and validates domain operations
  * for the bidding domain. It ensures that operations conform to established constraints
  * and patterns before reaching the domain layer.
  */
 
-import { GuardLayer, Pattern, PatternValidationContext, IntentValidationResult } from '../../core/guard/guard-layer';
+import { GuardLayer, Pattern, PatternSeverity, PatternValidationContext, IntentValidationResult } from '../../core/guard/guard-layer';
 import { DomainAgentContext, DomainOperationResult, DomainIntent } from '../../core/domain/domain-agent';
+import { DataInterface } from '../../core/persistence/data-interface';
+
+/**
+ * Role of the context the system acts in, e.g. when the deadline scheduler runs
+ */
+export const SYSTEM_ROLE = 'system';
+
+/**
+ * Actions the system performs when deadlines pass or as the bid-to-contract
+ * saga moves on; they are never authorized for users
+ */
+const SYSTEM_ACTIONS = [
+  'close_bidding', 'expire', 'expire_offer', 'remind', 'process_deadline',
+  'request_payment', 'cancel_payment', 'release_contacts', 'request_handoff', 'revoke', 'start_work'
+];
 
 /**
  * The BiddingGuard implements the guard layer for the bidding domain
@@ -15,12 +30,17 @@ import { DomainAgentContext, DomainOperationResult, DomainIntent } from '../../c
 export class BiddingGuard extends GuardLayer {
   /**
    * Constructor for the bidding guard
+   * 
+   * @param dataInterface Data interface used to resolve ownership, visibility and membership
    */
-  constructor() {
+  constructor(private readonly dataInterface: DataInterface) {
     super('bidding');
     
     // Register bidding-specific patterns
     this.registerPatterns();
+    
+    // Register the fields hidden from some viewers
+    this.registerRedactionRules();
   }
   
   /**
@@ -31,11 +51,9 @@ export class BiddingGuard extends GuardLayer {
     this.registerPattern({
       name: 'bidding.bid_card.required_fields',
       description: 'Ensures bid cards have all required fields when created',
+      severity: PatternSeverity.ERROR,
+      operations: ['createBidCard'],
       validate: async (context: PatternValidationContext): Promise<{ valid: boolean; message?: string; meta?: any }> => {
-        if (context.operation !== 'createBidCard') {
-          return { valid: true };
-        }
-        
         const requiredFields = [
           'title', 'description', 'job_category_id', 
           'job_type_id', 'location', 'zip_code'
@@ -57,18 +75,21 @@ export class BiddingGuard extends GuardLayer {
         return { valid: true };
       }
     });
-
+    
     // Pattern: Ensure bid amounts are reasonable
     this.registerPattern({
       name: 'bidding.bid.valid_amount',
       description: 'Ensures bid amounts are valid and within reasonable ranges',
+      severity: PatternSeverity.ERROR,
+      operations: ['submitBid', 'updateBid', 'counterBid'],
       validate: async (context: PatternValidationContext): Promise<{ valid: boolean; message?: string; meta?: any }> => {
-        if (context.operation !== 'submitBid' && context.operation !== 'updateBid') {
+        const amount = context.intent.params.amount;
+        
+        // Updates and counter-offers may leave the amount unchanged
+        if (context.operation !== 'submitBid' && amount === undefined) {
           return { valid: true };
         }
         
-        const amount = context.intent.params.amount;
-        
         if (typeof amount !== 'number') {
           return {
             valid: false,
@@ -97,16 +118,14 @@ export class BiddingGuard extends GuardLayer {
         return { valid: true };
       }
     });
-
+    
     // Pattern: Ensure group bid prices are discounted
     this.registerPattern({
       name: 'bidding.group_bid.discounted',
       description: 'Ensures group bid prices are lower than individual prices',
+      severity: PatternSeverity.ERROR,
+      operations: ['submitGroupBid'],
       validate: async (context: PatternValidationContext): Promise<{ valid: boolean; message?: string; meta?: any }> => {
-        if (context.operation !== 'submitGroupBid') {
-          return { valid: true };
-        }
-        
         const individualPrice = context.intent.params.individual_price;
         const groupPrice = context.intent.params.group_price;
         
@@ -129,10 +148,178 @@ export class BiddingGuard extends GuardLayer {
         return { valid: true };
       }
     });
+    
+    // Pattern: Ensure counter-offers propose new terms that stay open for a while
+    this.registerPattern({
+      name: 'bidding.negotiation.counter_terms',
+      description: 'Ensures counter-offers change the amount or timeline and expire in the future',
+      severity: PatternSeverity.ERROR,
+      operations: ['counterBid'],
+      validate: async (context: PatternValidationContext): Promise<{ valid: boolean; message?: string; meta?: any }> => {
+        const { amount, timeline, expires_at: expiresAt } = context.intent.params;
+        
+        if (amount === undefined && (!timeline || Object.keys(timeline).length === 0)) {
+          return {
+            valid: false,
+            message: 'A counter-offer must propose an amount or timeline changes'
+          };
+        }
+        
+        if (expiresAt && new Date(expiresAt) <= new Date()) {
+          return {
+            valid: false,
+            message: 'A counter-offer must expire in the future',
+            meta: { expiresAt }
+          };
+        }
+        
+        return { valid: true };
+      }
+    });
+    
+    // Pattern: Ensure the parties to a bid take turns making and answering offers
+    this.registerPattern({
+      name: 'bidding.negotiation.turn_order',
+      description: 'Ensures only the homeowner opens a negotiation and each offer is answered by the other party',
+      severity: PatternSeverity.ERROR,
+      operations: ['counterBid', 'respondToCounter'],
+      validate: async (context: PatternValidationContext): Promise<{ valid: boolean; message?: string; meta?: any }> => {
+        const party = await this.getNegotiationParty(context.intent.params.bid_id, context.user?.id);
+        
+        // Users who are not a party to the bid are turned away by the access check
+        if (!party) {
+          return { valid: true };
+        }
+        
+        const pendingOffer = await this.dataInterface.findOne('bid_negotiation_offers', {
+          bid_id: context.intent.params.bid_id,
+          status: 'pending'
+        });
+        
+        if (context.operation === 'respondToCounter') {
+          if (!pendingOffer) {
+            return {
+              valid: false,
+              message: 'There is no open counter-offer on this bid to respond to'
+            };
+          }
+          
+          if (pendingOffer.offered_by === party) {
+            return {
+              valid: false,
+              message: 'You cannot respond to your own offer',
+              meta: { party, offerId: pendingOffer.id }
+            };
+          }
+          
+          return { valid: true };
+        }
+        
+        // An expired offer no longer needs an answer, so a new round starts from the bid
+        const offer = pendingOffer && new Date(pendingOffer.expires_at) >= new Date() ? pendingOffer : null;
+        
+        // The bid is the contractor's opening offer, so the homeowner counters first
+        if (!offer && party !== 'homeowner') {
+          return {
+            valid: false,
+            message: 'Only the homeowner can open a negotiation on a bid',
+            meta: { party }
+          };
+        }
+        
+        if (offer && offer.offered_by === party) {
+          return {
+            valid: false,
+            message: 'You cannot counter your own offer; wait for the other party to respond',
+            meta: { party, offerId: offer.id }
+          };
+        }
+        
+        return { valid: true };
+      }
+    });
+    
+    // Pattern: Warn when countering a bid the contractor marked as final
+    this.registerPattern({
+      name: 'bidding.negotiation.final_offer',
+      description: 'Warns when the homeowner counters a bid marked as a final offer',
+      severity: PatternSeverity.WARNING,
+      operations: ['counterBid'],
+      validate: async (context: PatternValidationContext): Promise<{ valid: boolean; message?: string; meta?: any }> => {
+        const bid = await this.dataInterface.findById('bids', context.intent.params.bid_id);
+        
+        if (bid && bid.is_final_offer === true && bid.status !== 'negotiating') {
+          return {
+            valid: false,
+            message: 'The contractor marked this bid as their final offer and may not accept a counter-offer',
+            meta: { bidId: bid.id }
+          };
+        }
+        
+        return { valid: true };
+      }
+    });
+    
+    // Pattern: Warn when a bid card leaves contractors little time to bid
+    this.registerPattern({
+      name: 'bidding.bid_card.short_bid_window',
+      description: 'Warns when the bid deadline is less than 48 hours away',
+      severity: PatternSeverity.WARNING,
+      operations: ['createBidCard', 'updateBidCard'],
+      validate: async (context: PatternValidationContext): Promise<{ valid: boolean; message?: string; meta?: any }> => {
+        const bidDeadline = context.intent.params.bid_deadline;
+        
+        if (!bidDeadline) {
+          return { valid: true };
+        }
+        
+        const hoursRemaining = (new Date(bidDeadline).getTime() - Date.now()) / (60 * 60 * 1000);
+        
+        if (hoursRemaining < 48) {
+          return {
+            valid: false,
+            message: 'Bid deadline is less than 48 hours away; contractors may not have time to respond',
+            meta: { bidDeadline, hoursRemaining: Math.max(0, Math.round(hoursRemaining)) }
+          };
+        }
+        
+        return { valid: true };
+      }
+    });
+  }
+  
+  /**
+   * Register the rules hiding fields of bidding records from some viewers
+   */
+  private registerRedactionRules(): void {
+    // Rule: Private notes are for the bid's contractor only
+    this.registerRedactionRule('bids', {
+      description: 'Private notes on a bid are only shown to the contractor who submitted it',
+      fields: ['private_notes'],
+      exemptRoles: [SYSTEM_ROLE],
+      visibleWhen: async (bid, context) =>
+        !!context.userId && await this.isContractorProfileOwner(bid.contractor_id, context.userId)
+    });
+    
+    // Rule: Contact details are paid for through the connection fee
+    this.registerRedactionRule('bids', {
+      description: 'Contact details of the bidding contractor stay hidden until they are released',
+      fields: [
+        'contractor.contact_person',
+        'contractor.business_phone',
+        'contractor.business_email',
+        'contractor.business_address_id'
+      ],
+      exemptRoles: [SYSTEM_ROLE],
+      visibleWhen: async (bid, context) =>
+        (!!context.userId && await this.isContractorProfileOwner(bid.contractor_id, context.userId)) ||
+        await this.areContactsReleased(bid.id)
+    });
   }
   
   /**
    * Validate domain-specific access control
+   * Resources are collections ('bid_cards') or instances ('bid_cards:<id>')
    * 
    * @param resource Resource being accessed
    * @param action Action being performed
@@ -144,50 +331,152 @@ export class BiddingGuard extends GuardLayer {
     action: string,
     context: DomainAgentContext
   ): Promise<boolean> {
+    const [resourceType, resourceId] = resource.split(':');
+    
+    // The system can read anything and perform the system actions, nothing else
+    if (context.userRole === SYSTEM_ROLE) {
+      return action === 'read' || SYSTEM_ACTIONS.includes(action);
+    }
+    
+    if (SYSTEM_ACTIONS.includes(action)) {
+      return false;
+    }
+    
     // If no user ID, deny access (except for public resources)
     if (!context.userId) {
-      // Allow read access to public bid cards
-      if (resource.startsWith('bid_cards:') && action === 'read' && resource.includes(':public')) {
+      // Allow browsing and reading public bid cards
+      if (resourceType === 'bid_cards' && action === 'list') {
         return true;
       }
       
+      if (resourceType === 'bid_cards' && action === 'read' && resourceId) {
+        return await this.isResourcePublic(resourceId, 'bid_cards');
+      }
+      
       return false;
     }
     
+    const userId = context.userId;
+    
+    // Collection-level actions only require an authenticated user
+    if (!resourceId) {
+      return ['bid_cards', 'bids'].includes(resourceType) && ['create', 'list'].includes(action);
+    }
+    
     // For bid cards
-    if (resource.startsWith('bid_cards:')) {
-      const bidCardId = resource.split(':')[1];
+    if (resourceType === 'bid_cards') {
+      // If it's the creator, allow all actions except bidding on their own card
+      if (await this.isResourceCreator(resourceId, 'bid_cards', userId)) {
+        return action !== 'bid' && action !== 'create_group';
+      }
       
-      // If it's the creator, allow all actions
-      if (await this.isResourceCreator(bidCardId, 'bid_cards', context.userId)) {
-        return true;
+      const canView = await this.isResourcePublic(resourceId, 'bid_cards') ||
+        await this.isUserBidCardGroupMember(resourceId, userId);
+      
+      if (action === 'read') {
+        return canView;
       }
       
-      // For reading public bid cards, allow access
-      if (action === 'read' && await this.isResourcePublic(bidCardId, 'bid_cards')) {
-        return true;
+      // Contractors can bid and form groups on bid cards they can see
+      if (action === 'bid' || action === 'create_group') {
+        return canView && await this.isUserContractor(userId);
+      }
+      
+      return false;
+    }
+    
+    // For bids
+    if (resourceType === 'bids') {
+      const bid = await this.dataInterface.findById('bids', resourceId);
+      
+      if (!bid) {
+        return false;
+      }
+      
+      // The homeowner can read, accept, reject and negotiate bids on their own bid cards
+      if (await this.isResourceCreator(bid.bid_card_id, 'bid_cards', userId)) {
+        return ['read', 'accept', 'reject', 'counter', 'respond'].includes(action);
       }
       
-      // For bids submitted by the user (contractor)
-      if (action === 'read' && resource.includes(':bids:') && await this.isUserContractor(context.userId)) {
-        const bidId = resource.split(':bids:')[1];
-        return await this.isBidOwner(bidId, context.userId);
+      // The contractor can read, update, withdraw and negotiate their own bids
+      if (['read', 'update', 'withdraw', 'counter', 'respond'].includes(action)) {
+        return await this.isBidOwner(resourceId, userId);
       }
+      
+      return false;
     }
     
     // For bid groups
-    if (resource.startsWith('bid_groups:')) {
-      const bidGroupId = resource.split(':')[1];
-      
+    if (resourceType === 'bid_groups') {
       // If it's the creator, allow all actions
-      if (await this.isResourceCreator(bidGroupId, 'bid_groups', context.userId)) {
+      if (await this.isResourceCreator(resourceId, 'bid_groups', userId)) {
         return true;
       }
       
       // For reading bid groups, check if the user is a member
       if (action === 'read') {
-        return await this.isUserBidGroupMember(bidGroupId, context.userId);
+        return await this.isUserBidGroupMember(resourceId, userId);
       }
+      
+      // Any contractor can ask to join a group
+      if (action === 'join') {
+        return await this.isUserContractor(userId);
+      }
+      
+      return false;
+    }
+    
+    // For group bids
+    if (resourceType === 'group_bids') {
+      const groupBid = await this.dataInterface.findById('group_bids', resourceId);
+      
+      if (!groupBid) {
+        return false;
+      }
+      
+      // The homeowner can read, accept and give more time to group bids on their own bid cards
+      if (await this.isResourceCreator(groupBid.bid_card_id, 'bid_cards', userId)) {
+        return ['read', 'accept', 'request_extension'].includes(action);
+      }
+      
+      // The group leader can ask for more time to gather acceptances
+      if (action === 'request_extension') {
+        return groupBid.leader_id === userId;
+      }
+      
+      // Group members can read their group's bid
+      if (action === 'read') {
+        return await this.isUserBidGroupMember(groupBid.bid_group_id, userId);
+      }
+      
+      return false;
+    }
+    
+    // For acceptances, both parties can read them and the contractor can confirm or decline them
+    if (resourceType === 'bid_acceptances') {
+      const acceptance = await this.dataInterface.findById('bid_acceptances', resourceId);
+      
+      if (!acceptance) {
+        return false;
+      }
+      
+      const isContractor = await this.isContractorProfileOwner(acceptance.contractor_id, userId);
+      
+      if (action === 'read') {
+        return acceptance.homeowner_id === userId || isContractor;
+      }
+      
+      return ['confirm', 'decline'].includes(action) && isContractor;
+    }
+    
+    if (resourceType === 'group_bid_acceptances' && action === 'read') {
+      const acceptance = await this.dataInterface.findById('group_bid_acceptances', resourceId);
+      
+      if (!acceptance) {
+        return false;
+      }
+      
+      return acceptance.homeowner_id === userId || await this.isUserBidGroupMember(acceptance.bid_group_id, userId);
     }
     
     return false;
@@ -231,7 +520,15 @@ export class BiddingGuard extends GuardLayer {
     if (intent.operation === 'acceptBid' && result.success) {
       return {
         ...result,
-        message: 'Bid accepted. The contractor must complete payment to finalize the connection and receive your contact information.'
+        message: 'Bid accepted. The contractor must confirm the acceptance and complete payment to finalize the connection and receive your contact information.'
+      };
+    }
+    
+    // For acceptance confirmation, remind the contractor of the payment
+    if (intent.operation === 'confirmAcceptance' && result.success) {
+      return {
+        ...result,
+        message: 'Acceptance confirmed. Complete the connection payment to receive the homeowner\'s contact information.'
       };
     }
     
@@ -247,9 +544,9 @@ export class BiddingGuard extends GuardLayer {
    * @returns Whether the user is the creator
    */
   private async isResourceCreator(resourceId: string, resourceType: string, userId: string): Promise<boolean> {
-    // In a real implementation, this would query the database
-    // For now, we'll just return a mock implementation
-    return true; // Mock implementation
+    const resource = await this.dataInterface.findById(resourceType, resourceId);
+    
+    return !!resource && resource.creator_id === userId;
   }
   
   /**
@@ -260,9 +557,9 @@ export class BiddingGuard extends GuardLayer {
    * @returns Whether the resource is public
    */
   private async isResourcePublic(resourceId: string, resourceType: string): Promise<boolean> {
-    // In a real implementation, this would query the database
-    // For now, we'll just return a mock implementation
-    return true; // Mock implementation
+    const resource = await this.dataInterface.findById(resourceType, resourceId);
+    
+    return !!resource && resource.visibility === 'public';
   }
   
   /**
@@ -272,9 +569,34 @@ export class BiddingGuard extends GuardLayer {
    * @returns Whether the user is a contractor
    */
   private async isUserContractor(userId: string): Promise<boolean> {
-    // In a real implementation, this would query the database
-    // For now, we'll just return a mock implementation
-    return true; // Mock implementation
+    const user = await this.dataInterface.findById('users', userId);
+    
+    if (user && user.role === 'contractor') {
+      return true;
+    }
+    
+    // Users without the contractor role may still have a contractor profile
+    const contractor = await this.dataInterface.findOne('contractors', { user_id: userId });
+    
+    return contractor !== null;
+  }
+  
+  /**
+   * Check if the contact details of a bid's parties have been released
+   * 
+   * @param bidId Bid ID
+   * @returns Whether a contact release exists for the bid's acceptance
+   */
+  private async areContactsReleased(bidId: string): Promise<boolean> {
+    const acceptance = await this.dataInterface.findOne('bid_acceptances', { bid_id: bidId });
+    
+    if (!acceptance) {
+      return false;
+    }
+    
+    const release = await this.dataInterface.findOne('contact_releases', { bid_acceptance_id: acceptance.id });
+    
+    return release !== null;
   }
   
   /**
@@ -285,9 +607,51 @@ export class BiddingGuard extends GuardLayer {
    * @returns Whether the user is the owner of the bid
    */
   private async isBidOwner(bidId: string, userId: string): Promise<boolean> {
-    // In a real implementation, this would query the database
-    // For now, we'll just return a mock implementation
-    return true; // Mock implementation
+    const bid = await this.dataInterface.findById('bids', bidId);
+    
+    if (!bid) {
+      return false;
+    }
+    
+    return await this.isContractorProfileOwner(bid.contractor_id, userId);
+  }
+  
+  /**
+   * Check if a contractor profile belongs to a user
+   * 
+   * @param contractorId Contractor profile ID
+   * @param userId User ID
+   * @returns Whether the profile belongs to the user
+   */
+  private async isContractorProfileOwner(contractorId: string, userId: string): Promise<boolean> {
+    const contractor = await this.dataInterface.findOne('contractors', { user_id: userId });
+    
+    return contractor !== null && contractor.id === contractorId;
+  }
+  
+  /**
+   * Determine which side of a bid a user is on
+   * 
+   * @param bidId Bid ID
+   * @param userId User ID
+   * @returns 'homeowner' for the bid card creator, 'contractor' for the bidder, or null otherwise
+   */
+  private async getNegotiationParty(bidId: string, userId?: string): Promise<'homeowner' | 'contractor' | null> {
+    if (!userId) {
+      return null;
+    }
+    
+    const bid = await this.dataInterface.findById('bids', bidId);
+    
+    if (!bid) {
+      return null;
+    }
+    
+    if (await this.isResourceCreator(bid.bid_card_id, 'bid_cards', userId)) {
+      return 'homeowner';
+    }
+    
+    return await this.isContractorProfileOwner(bid.contractor_id, userId) ? 'contractor' : null;
   }
   
   /**
@@ -298,8 +662,31 @@ export class BiddingGuard extends GuardLayer {
    * @returns Whether the user is a member of the bid group
    */
   private async isUserBidGroupMember(bidGroupId: string, userId: string): Promise<boolean> {
-    // In a real implementation, this would query the database
-    // For now, we'll just return a mock implementation
-    return true; // Mock implementation
+    const membership = await this.dataInterface.findOne('bid_group_members', {
+      bid_group_id: bidGroupId,
+      contractor_id: userId,
+      status: 'active'
+    });
+    
+    return membership !== null;
+  }
+  
+  /**
+   * Check if a user is a member of any bid group formed on a bid card
+   * 
+   * @param bidCardId Bid card ID
+   * @param userId User ID
+   * @returns Whether the user is a member of one of the bid card's groups
+   */
+  private async isUserBidCardGroupMember(bidCardId: string, userId: string): Promise<boolean> {
+    const groups = await this.dataInterface.findMany('bid_groups', { bid_card_id: bidCardId });
+    
+    for (const group of groups) {
+      if (await this.isUserBidGroupMember(group.id, userId)) {
+        return true;
+      }
+    }
+    
+    return false;
   }
 }
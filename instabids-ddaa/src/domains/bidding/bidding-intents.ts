@@ -0,0 +1,489 @@
+/**
+ * Bidding Intents - Operation definitions for the bidding domain
+ * 
+ * Each operation supported by the bidding agent is declared here once.
+ * The agent validates incoming intents against these schemas and authorizes
+ * them against the declared resource and action; its handlers receive
+ * parameters typed from them, and getSupportedOperations is derived from them.
+ */
+
+import { defineIntent, IntentParams } from '../../core/domain/intent-registry';
+
+/**
+ * Bid card statuses, as constrained by bidding.bid_cards
+ */
+const BID_CARD_STATUSES = [
+  'draft', 'open', 'review', 'negotiation', 'awarded', 'in_progress', 'completed', 'cancelled', 'expired'
+] as const;
+
+/**
+ * Bid statuses, as constrained by bidding.bids
+ */
+const BID_STATUSES = [
+  'submitted', 'viewed', 'shortlisted', 'negotiating', 'accepted', 'declined', 'expired', 'withdrawn'
+] as const;
+
+/**
+ * Bid card visibility values, as constrained by bidding.bid_cards
+ */
+const VISIBILITIES = ['public', 'private', 'group'] as const;
+
+/**
+ * Bidding entities with a lifecycle, identified by their table
+ */
+const LIFECYCLE_ENTITIES = [
+  'bid_cards', 'bids', 'bid_groups', 'group_bids', 'bid_acceptances', 'group_bid_acceptances'
+] as const;
+
+/**
+ * Why an acceptance fell through
+ */
+const REVOCATION_REASONS = ['declined', 'expired', 'payment_failed', 'cancelled'] as const;
+
+/**
+ * Responses to a pending counter-offer
+ * Countering it instead is done with counterBid
+ */
+const COUNTER_RESPONSES = ['accept', 'reject'] as const;
+
+/**
+ * Sort directions accepted by list operations
+ */
+const ORDER_DIRECTIONS = ['asc', 'desc'] as const;
+
+/**
+ * Operation definitions for the bidding domain, keyed by operation name
+ */
+export const biddingIntents = {
+  createBidCard: defineIntent({
+    operation: 'createBidCard',
+    description: 'Create a new bid card',
+    access: { resource: 'bid_cards', action: 'create' },
+    params: {
+      title: { type: 'string', description: 'Title of the bid card', required: true },
+      description: { type: 'string', description: 'Description of the bid card', required: true },
+      job_category_id: { type: 'string', description: 'ID of the job category', required: true },
+      job_type_id: { type: 'string', description: 'ID of the job type', required: true },
+      location: { type: 'object', description: 'Location details', required: true },
+      zip_code: { type: 'string', description: 'ZIP code of the project location', required: true },
+      budget_min: { type: 'number', description: 'Minimum budget for the project' },
+      budget_max: { type: 'number', description: 'Maximum budget for the project' },
+      timeline_start: { type: 'date', description: 'Desired project start date' },
+      timeline_end: { type: 'date', description: 'Desired project end date' },
+      bid_deadline: { type: 'date', description: 'Deadline for submitting bids' },
+      group_bidding_enabled: { type: 'boolean', description: 'Whether group bidding is enabled' },
+      prohibit_negotiation: { type: 'boolean', description: 'Whether bids on the card may not be countered' },
+      visibility: { type: 'string', description: 'Who can see the bid card', enum: VISIBILITIES }
+    }
+  }),
+  
+  updateBidCard: defineIntent({
+    operation: 'updateBidCard',
+    description: 'Update an existing bid card',
+    access: { resource: 'bid_cards', action: 'update', idParam: 'id' },
+    params: {
+      id: { type: 'string', description: 'ID of the bid card to update', required: true },
+      title: { type: 'string', description: 'Title of the bid card' },
+      description: { type: 'string', description: 'Description of the bid card' },
+      job_category_id: { type: 'string', description: 'ID of the job category' },
+      job_type_id: { type: 'string', description: 'ID of the job type' },
+      location: { type: 'object', description: 'Location details' },
+      zip_code: { type: 'string', description: 'ZIP code of the project location' },
+      budget_min: { type: 'number', description: 'Minimum budget for the project' },
+      budget_max: { type: 'number', description: 'Maximum budget for the project' },
+      timeline_start: { type: 'date', description: 'Desired project start date' },
+      timeline_end: { type: 'date', description: 'Desired project end date' },
+      bid_deadline: { type: 'date', description: 'Deadline for submitting bids' },
+      group_bidding_enabled: { type: 'boolean', description: 'Whether group bidding is enabled' },
+      prohibit_negotiation: { type: 'boolean', description: 'Whether bids on the card may not be countered' },
+      visibility: { type: 'string', description: 'Who can see the bid card', enum: VISIBILITIES },
+      change_summary: { type: 'string', description: 'Summary of the change, recorded on the revision' }
+    }
+  }),
+  
+  getBidCard: defineIntent({
+    operation: 'getBidCard',
+    description: 'Get details of a specific bid card',
+    access: { resource: 'bid_cards', action: 'read', idParam: 'id' },
+    output: [{ entity: 'bid_cards' }, { entity: 'bids', path: 'bids' }],
+    params: {
+      id: { type: 'string', description: 'ID of the bid card to retrieve', required: true }
+    }
+  }),
+  
+  listBidCards: defineIntent({
+    operation: 'listBidCards',
+    description: 'List bid cards matching criteria',
+    access: { resource: 'bid_cards', action: 'list' },
+    output: [{ entity: 'bid_cards', path: 'items' }],
+    params: {
+      creator_id: { type: 'string', description: 'ID of the creator to filter by' },
+      status: { type: 'string', description: 'Status to filter by', enum: BID_CARD_STATUSES },
+      job_category_id: { type: 'string', description: 'Job category ID to filter by' },
+      zip_code: { type: 'string', description: 'ZIP code to filter by' },
+      limit: { type: 'number', description: 'Maximum number of records to return' },
+      offset: { type: 'number', description: 'Number of records to skip' },
+      orderBy: { type: 'string', description: 'Field to order by' },
+      orderDirection: { type: 'string', description: 'Order direction', enum: ORDER_DIRECTIONS }
+    }
+  }),
+  
+  submitBid: defineIntent({
+    operation: 'submitBid',
+    description: 'Submit a bid for a bid card',
+    access: { resource: 'bid_cards', action: 'bid', idParam: 'bid_card_id' },
+    params: {
+      bid_card_id: { type: 'string', description: 'ID of the bid card to bid on', required: true },
+      amount: { type: 'number', description: 'Bid amount', required: true },
+      scope_of_work: { type: 'string', description: 'Scope of work description', required: true },
+      is_final_offer: { type: 'boolean', description: 'Whether the amount is final or open to negotiation' },
+      materials_included: { type: 'object', description: 'Details about included materials' },
+      timeline: { type: 'object', description: 'Timeline details' },
+      value_propositions: {
+        type: 'array',
+        description: 'Value propositions for the bid',
+        required: true,
+        items: { type: 'string', description: 'Value proposition' }
+      },
+      additional_notes: { type: 'string', description: 'Additional notes' },
+      private_notes: { type: 'string', description: 'Notes only the contractor sees' }
+    }
+  }),
+  
+  updateBid: defineIntent({
+    operation: 'updateBid',
+    description: 'Update an existing bid',
+    access: { resource: 'bids', action: 'update', idParam: 'id' },
+    params: {
+      id: { type: 'string', description: 'ID of the bid to update', required: true },
+      amount: { type: 'number', description: 'Bid amount' },
+      is_final_offer: { type: 'boolean', description: 'Whether the amount is final or open to negotiation' },
+      scope_of_work: { type: 'string', description: 'Scope of work description' },
+      materials_included: { type: 'object', description: 'Details about included materials' },
+      timeline: { type: 'object', description: 'Timeline details' },
+      value_propositions: {
+        type: 'array',
+        description: 'Value propositions for the bid',
+        items: { type: 'string', description: 'Value proposition' }
+      },
+      additional_notes: { type: 'string', description: 'Additional notes' },
+      private_notes: { type: 'string', description: 'Notes only the contractor sees' }
+    }
+  }),
+  
+  getBid: defineIntent({
+    operation: 'getBid',
+    description: 'Get details of a specific bid',
+    access: { resource: 'bids', action: 'read', idParam: 'id' },
+    output: [{ entity: 'bids' }],
+    params: {
+      id: { type: 'string', description: 'ID of the bid to retrieve', required: true }
+    }
+  }),
+  
+  listBids: defineIntent({
+    operation: 'listBids',
+    description: 'List bids matching criteria',
+    access: { resource: 'bids', action: 'list' },
+    output: [{ entity: 'bids', path: 'items' }],
+    params: {
+      bid_card_id: { type: 'string', description: 'Bid card ID to filter by' },
+      contractor_id: { type: 'string', description: 'Contractor ID to filter by' },
+      status: { type: 'string', description: 'Status to filter by', enum: BID_STATUSES },
+      limit: { type: 'number', description: 'Maximum number of records to return' },
+      offset: { type: 'number', description: 'Number of records to skip' },
+      orderBy: { type: 'string', description: 'Field to order by' },
+      orderDirection: { type: 'string', description: 'Order direction', enum: ORDER_DIRECTIONS }
+    }
+  }),
+  
+  acceptBid: defineIntent({
+    operation: 'acceptBid',
+    description: 'Accept a bid for one of your bid cards',
+    access: { resource: 'bids', action: 'accept', idParam: 'bid_id' },
+    params: {
+      bid_id: { type: 'string', description: 'ID of the bid to accept', required: true },
+      terms_accepted: { type: 'boolean', description: 'Whether the bid terms are accepted' }
+    }
+  }),
+  
+  withdrawBid: defineIntent({
+    operation: 'withdrawBid',
+    description: 'Withdraw one of your bids',
+    access: { resource: 'bids', action: 'withdraw', idParam: 'bid_id' },
+    params: {
+      bid_id: { type: 'string', description: 'ID of the bid to withdraw', required: true },
+      reason: { type: 'string', description: 'Reason for withdrawing the bid' }
+    }
+  }),
+  
+  rejectBid: defineIntent({
+    operation: 'rejectBid',
+    description: 'Reject a bid on one of your bid cards',
+    access: { resource: 'bids', action: 'reject', idParam: 'bid_id' },
+    params: {
+      bid_id: { type: 'string', description: 'ID of the bid to reject', required: true },
+      reason: { type: 'string', description: 'Reason for rejecting the bid' }
+    }
+  }),
+  
+  counterBid: defineIntent({
+    operation: 'counterBid',
+    description: 'Make a counter-offer on a bid',
+    access: { resource: 'bids', action: 'counter', idParam: 'bid_id' },
+    params: {
+      bid_id: { type: 'string', description: 'ID of the bid to counter', required: true },
+      amount: { type: 'number', description: 'Proposed amount' },
+      timeline: { type: 'object', description: 'Proposed timeline changes, merged into the current timeline' },
+      message: { type: 'string', description: 'Message to the other party' },
+      expires_at: { type: 'date', description: 'When the counter-offer expires (defaults to 72 hours)' }
+    }
+  }),
+  
+  respondToCounter: defineIntent({
+    operation: 'respondToCounter',
+    description: 'Accept or reject the pending counter-offer on a bid',
+    access: { resource: 'bids', action: 'respond', idParam: 'bid_id' },
+    params: {
+      bid_id: { type: 'string', description: 'ID of the bid being negotiated', required: true },
+      response: { type: 'string', description: 'Response to the counter-offer', required: true, enum: COUNTER_RESPONSES },
+      message: { type: 'string', description: 'Message to the other party' }
+    }
+  }),
+  
+  createBidGroup: defineIntent({
+    operation: 'createBidGroup',
+    description: 'Create a new bid group for group bidding',
+    access: { resource: 'bid_cards', action: 'create_group', idParam: 'bid_card_id' },
+    params: {
+      bid_card_id: { type: 'string', description: 'ID of the bid card the group bids on', required: true },
+      name: { type: 'string', description: 'Name of the group', required: true },
+      description: { type: 'string', description: 'Description of the group' },
+      max_members: { type: 'number', description: 'Maximum number of members' }
+    }
+  }),
+  
+  joinBidGroup: defineIntent({
+    operation: 'joinBidGroup',
+    description: 'Join an existing bid group',
+    access: { resource: 'bid_groups', action: 'join', idParam: 'bid_group_id' },
+    params: {
+      bid_group_id: { type: 'string', description: 'ID of the group to join', required: true },
+      join_message: { type: 'string', description: 'Message to the group leader' }
+    }
+  }),
+  
+  submitGroupBid: defineIntent({
+    operation: 'submitGroupBid',
+    description: 'Submit a group bid on behalf of a bid group',
+    access: { resource: 'bid_groups', action: 'bid', idParam: 'bid_group_id' },
+    params: {
+      bid_group_id: { type: 'string', description: 'ID of the group submitting the bid', required: true },
+      amount: { type: 'number', description: 'Group bid amount', required: true },
+      individual_price: { type: 'number', description: 'Price per member if the group does not form', required: true },
+      group_price: { type: 'number', description: 'Discounted price per member if the group forms', required: true },
+      scope_of_work: { type: 'string', description: 'Scope of work description', required: true },
+      materials_included: { type: 'object', description: 'Details about included materials' },
+      timeline: { type: 'object', description: 'Timeline details' },
+      value_propositions: {
+        type: 'array',
+        description: 'Value propositions for the group bid',
+        items: { type: 'string', description: 'Value proposition' }
+      },
+      member_roles: { type: 'object', description: 'Role of each member in the group bid' },
+      additional_notes: { type: 'string', description: 'Additional notes' },
+      acceptance_deadline: { type: 'date', description: 'Deadline for the group to accept the bid (defaults to 7 days)' }
+    }
+  }),
+  
+  acceptGroupBid: defineIntent({
+    operation: 'acceptGroupBid',
+    description: 'Accept a group bid for one of your bid cards',
+    access: { resource: 'group_bids', action: 'accept', idParam: 'group_bid_id' },
+    params: {
+      group_bid_id: { type: 'string', description: 'ID of the group bid to accept', required: true },
+      terms_accepted: { type: 'boolean', description: 'Whether the group bid terms are accepted' }
+    }
+  }),
+  
+  requestGroupBidExtension: defineIntent({
+    operation: 'requestGroupBidExtension',
+    description: 'Ask for more time for a group to accept a group bid',
+    access: { resource: 'group_bids', action: 'request_extension', idParam: 'group_bid_id' },
+    params: {
+      group_bid_id: { type: 'string', description: 'ID of the group bid to extend', required: true },
+      new_deadline: { type: 'date', description: 'Requested acceptance deadline', required: true },
+      reason: { type: 'string', description: 'Reason for the extension' }
+    }
+  }),
+  
+  confirmAcceptance: defineIntent({
+    operation: 'confirmAcceptance',
+    description: 'Confirm that you will take on the work of a bid the homeowner accepted',
+    access: { resource: 'bid_acceptances', action: 'confirm', idParam: 'acceptance_id' },
+    params: {
+      acceptance_id: { type: 'string', description: 'ID of the bid acceptance', required: true }
+    }
+  }),
+  
+  declineAcceptance: defineIntent({
+    operation: 'declineAcceptance',
+    description: 'Decline the work of a bid the homeowner accepted',
+    access: { resource: 'bid_acceptances', action: 'decline', idParam: 'acceptance_id' },
+    params: {
+      acceptance_id: { type: 'string', description: 'ID of the bid acceptance', required: true },
+      reason: { type: 'string', description: 'Reason for declining' }
+    }
+  }),
+  
+  requestConnectionPayment: defineIntent({
+    operation: 'requestConnectionPayment',
+    description: 'Record the connection fee owed by the contractor of a confirmed acceptance',
+    access: { resource: 'bid_acceptances', action: 'request_payment', idParam: 'acceptance_id' },
+    params: {
+      acceptance_id: { type: 'string', description: 'ID of the bid acceptance', required: true }
+    }
+  }),
+  
+  cancelConnectionPayment: defineIntent({
+    operation: 'cancelConnectionPayment',
+    description: 'Cancel the pending connection fee of an acceptance that fell through',
+    access: { resource: 'bid_acceptances', action: 'cancel_payment', idParam: 'acceptance_id' },
+    params: {
+      acceptance_id: { type: 'string', description: 'ID of the bid acceptance', required: true },
+      reason: { type: 'string', description: 'Why the payment is cancelled', required: true }
+    }
+  }),
+  
+  releaseContacts: defineIntent({
+    operation: 'releaseContacts',
+    description: 'Record a completed connection payment and release the parties\' contact details',
+    access: { resource: 'bid_acceptances', action: 'release_contacts', idParam: 'acceptance_id' },
+    params: {
+      acceptance_id: { type: 'string', description: 'ID of the bid acceptance', required: true },
+      transaction_id: { type: 'string', description: 'ID of the payment transaction', required: true },
+      payment_method: { type: 'string', description: 'Method the fee was paid with' },
+      payment_processor: { type: 'string', description: 'Processor that handled the payment' }
+    }
+  }),
+  
+  requestProjectHandoff: defineIntent({
+    operation: 'requestProjectHandoff',
+    description: 'Hand the terms of a paid acceptance over to project management',
+    access: { resource: 'bid_acceptances', action: 'request_handoff', idParam: 'acceptance_id' },
+    params: {
+      acceptance_id: { type: 'string', description: 'ID of the bid acceptance', required: true }
+    }
+  }),
+  
+  revokeAcceptance: defineIntent({
+    operation: 'revokeAcceptance',
+    description: 'Undo an acceptance that fell through and return the bid card to review',
+    access: { resource: 'bid_acceptances', action: 'revoke', idParam: 'acceptance_id' },
+    params: {
+      acceptance_id: { type: 'string', description: 'ID of the bid acceptance', required: true },
+      reason: { type: 'string', description: 'Why the acceptance fell through', required: true, enum: REVOCATION_REASONS }
+    }
+  }),
+  
+  startWork: defineIntent({
+    operation: 'startWork',
+    description: 'Move an awarded bid card to in progress once its project is initialized',
+    access: { resource: 'bid_cards', action: 'start_work', idParam: 'bid_card_id' },
+    params: {
+      bid_card_id: { type: 'string', description: 'ID of the bid card', required: true },
+      project_id: { type: 'string', description: 'ID of the project created for it', required: true }
+    }
+  }),
+  
+  closeBidding: defineIntent({
+    operation: 'closeBidding',
+    description: 'Close bidding on a bid card whose bid deadline has passed',
+    access: { resource: 'bid_cards', action: 'close_bidding', idParam: 'id' },
+    params: {
+      id: { type: 'string', description: 'ID of the bid card to close', required: true }
+    }
+  }),
+  
+  expireBidCard: defineIntent({
+    operation: 'expireBidCard',
+    description: 'Expire a bid card that was not awarded, along with its outstanding bids',
+    access: { resource: 'bid_cards', action: 'expire', idParam: 'id' },
+    params: {
+      id: { type: 'string', description: 'ID of the bid card to expire', required: true }
+    }
+  }),
+  
+  expireCounterOffer: defineIntent({
+    operation: 'expireCounterOffer',
+    description: 'Expire the pending counter-offer on a bid',
+    access: { resource: 'bids', action: 'expire_offer', idParam: 'bid_id' },
+    params: {
+      bid_id: { type: 'string', description: 'ID of the bid being negotiated', required: true }
+    }
+  }),
+  
+  sendDeadlineReminder: defineIntent({
+    operation: 'sendDeadlineReminder',
+    description: 'Remind the parties of a bid card that its bid deadline is approaching',
+    access: { resource: 'bid_cards', action: 'remind', idParam: 'bid_card_id' },
+    params: {
+      bid_card_id: { type: 'string', description: 'ID of the bid card', required: true },
+      hours_before: { type: 'number', description: 'How many hours before the deadline the reminder is for', required: true }
+    }
+  }),
+  
+  processGroupBidDeadline: defineIntent({
+    operation: 'processGroupBidDeadline',
+    description: 'Extend or expire a group bid whose acceptance deadline has passed',
+    access: { resource: 'group_bids', action: 'process_deadline', idParam: 'group_bid_id' },
+    params: {
+      group_bid_id: { type: 'string', description: 'ID of the group bid', required: true }
+    }
+  }),
+  
+  getAllowedTransitions: defineIntent({
+    operation: 'getAllowedTransitions',
+    description: 'List the status transitions the current user can perform on an entity',
+    params: {
+      entity: { type: 'string', description: 'Table of the entity', required: true, enum: LIFECYCLE_ENTITIES },
+      id: { type: 'string', description: 'ID of the entity', required: true }
+    }
+  })
+};
+
+/**
+ * Parameter types of the bidding operations
+ */
+export type CreateBidCardParams = IntentParams<typeof biddingIntents.createBidCard>;
+export type UpdateBidCardParams = IntentParams<typeof biddingIntents.updateBidCard>;
+export type GetBidCardParams = IntentParams<typeof biddingIntents.getBidCard>;
+export type ListBidCardsParams = IntentParams<typeof biddingIntents.listBidCards>;
+export type SubmitBidParams = IntentParams<typeof biddingIntents.submitBid>;
+export type UpdateBidParams = IntentParams<typeof biddingIntents.updateBid>;
+export type GetBidParams = IntentParams<typeof biddingIntents.getBid>;
+export type ListBidsParams = IntentParams<typeof biddingIntents.listBids>;
+export type AcceptBidParams = IntentParams<typeof biddingIntents.acceptBid>;
+export type WithdrawBidParams = IntentParams<typeof biddingIntents.withdrawBid>;
+export type RejectBidParams = IntentParams<typeof biddingIntents.rejectBid>;
+export type CounterBidParams = IntentParams<typeof biddingIntents.counterBid>;
+export type RespondToCounterParams = IntentParams<typeof biddingIntents.respondToCounter>;
+export type CreateBidGroupParams = IntentParams<typeof biddingIntents.createBidGroup>;
+export type JoinBidGroupParams = IntentParams<typeof biddingIntents.joinBidGroup>;
+export type SubmitGroupBidParams = IntentParams<typeof biddingIntents.submitGroupBid>;
+export type AcceptGroupBidParams = IntentParams<typeof biddingIntents.acceptGroupBid>;
+export type RequestGroupBidExtensionParams = IntentParams<typeof biddingIntents.requestGroupBidExtension>;
+export type ConfirmAcceptanceParams = IntentParams<typeof biddingIntents.confirmAcceptance>;
+export type DeclineAcceptanceParams = IntentParams<typeof biddingIntents.declineAcceptance>;
+export type RequestConnectionPaymentParams = IntentParams<typeof biddingIntents.requestConnectionPayment>;
+export type CancelConnectionPaymentParams = IntentParams<typeof biddingIntents.cancelConnectionPayment>;
+export type ReleaseContactsParams = IntentParams<typeof biddingIntents.releaseContacts>;
+export type RequestProjectHandoffParams = IntentParams<typeof biddingIntents.requestProjectHandoff>;
+export type RevokeAcceptanceParams = IntentParams<typeof biddingIntents.revokeAcceptance>;
+export type StartWorkParams = IntentParams<typeof biddingIntents.startWork>;
+export type CloseBiddingParams = IntentParams<typeof biddingIntents.closeBidding>;
+export type ExpireBidCardParams = IntentParams<typeof biddingIntents.expireBidCard>;
+export type ExpireCounterOfferParams = IntentParams<typeof biddingIntents.expireCounterOffer>;
+export type SendDeadlineReminderParams = IntentParams<typeof biddingIntents.sendDeadlineReminder>;
+export type ProcessGroupBidDeadlineParams = IntentParams<typeof biddingIntents.processGroupBidDeadline>;
+export type GetAllowedTransitionsParams = IntentParams<typeof biddingIntents.getAllowedTransitions>;
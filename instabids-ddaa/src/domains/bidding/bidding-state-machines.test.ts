@@ -0,0 +1,41 @@
+import { bidCardMachine, bidMachine } from './bidding-state-machines';
+
+describe('bidding state machines', () => {
+  const openBidCard = { id: 'card-1', status: 'open', bid_deadline: new Date(Date.now() + 60000) };
+  
+  it('stops bids once the bid deadline has passed', () => {
+    expect(bidCardMachine.check(openBidCard, 'receive_bid')).toBeUndefined();
+    expect(bidCardMachine.check({ ...openBidCard, bid_deadline: new Date(Date.now() - 60000) }, 'receive_bid'))
+      .toMatchObject({ error: 'BID_DEADLINE_PASSED' });
+  });
+  
+  it('only forms groups on bid cards with group bidding enabled', () => {
+    expect(bidCardMachine.check(openBidCard, 'form_group')).toMatchObject({ error: 'GROUP_BIDDING_DISABLED' });
+    expect(bidCardMachine.check({ ...openBidCard, group_bidding_enabled: true }, 'form_group')).toBeUndefined();
+  });
+  
+  it('clears the award when it is revoked', () => {
+    expect(bidCardMachine.apply({ status: 'awarded', awarded_bid_id: 'bid-1' }, 'revoke_award')).toMatchObject({
+      status: 'review',
+      awarded_at: null,
+      awarded_bid_id: null
+    });
+  });
+  
+  it('accepts a bid only while its bid card can be awarded', () => {
+    const bid = { id: 'bid-1', status: 'shortlisted' };
+    
+    expect(bidMachine.check(bid, 'accept', { bidCard: openBidCard })).toBeUndefined();
+    expect(bidMachine.check(bid, 'accept', { bidCard: { ...openBidCard, status: 'cancelled' } }))
+      .toMatchObject({ error: 'INVALID_STATUS' });
+    expect(bidMachine.check(bid, 'accept', {})).toMatchObject({ error: 'BID_CARD_NOT_FOUND' });
+  });
+  
+  it('counters a bid only when its bid card allows negotiation', () => {
+    const bid = { id: 'bid-1', status: 'submitted' };
+    
+    expect(bidMachine.apply(bid, 'counter', { bidCard: openBidCard })).toMatchObject({ status: 'negotiating' });
+    expect(bidMachine.check(bid, 'counter', { bidCard: { ...openBidCard, prohibit_negotiation: true } }))
+      .toMatchObject({ error: 'NEGOTIATION_PROHIBITED' });
+  });
+});
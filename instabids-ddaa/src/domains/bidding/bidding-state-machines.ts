@@ -0,0 +1,567 @@
+/**
+ * Bidding State Machines - Lifecycles of the bidding domain entities
+ * 
+ * Every status change made by the bidding agent goes through one of these
+ * machines. Transitions that users trigger name the intent operation that
+ * performs them, which lets getAllowedTransitions report the actions a user
+ * can take on an entity.
+ */
+
+import { defineStateMachine, StateMachine, TransitionBlock } from '../../core/domain/state-machine';
+
+/**
+ * Block a transition when a bid card's bid deadline has passed
+ * 
+ * @param bidCard Bid card being bid on
+ * @returns Why bidding is blocked, or undefined if the deadline has not passed
+ */
+function bidDeadlineNotPassed(bidCard: Record<string, any>): TransitionBlock | undefined {
+  if (bidCard.bid_deadline && new Date(bidCard.bid_deadline) < new Date()) {
+    return {
+      error: 'BID_DEADLINE_PASSED',
+      message: 'The bid deadline has passed'
+    };
+  }
+  
+  return undefined;
+}
+
+/**
+ * Block a transition unless the related bid card allows one of its own
+ * 
+ * @param bidCard Related bid card, if it was found
+ * @param transition Bid card transition that must be allowed
+ * @returns Why the transition is blocked, or undefined if it is allowed
+ */
+function bidCardAllows(bidCard: Record<string, any> | undefined, transition: string): TransitionBlock | undefined {
+  if (!bidCard) {
+    return {
+      error: 'BID_CARD_NOT_FOUND',
+      message: 'The bid card for this entity was not found'
+    };
+  }
+  
+  return bidCardMachine.check(bidCard, transition);
+}
+
+/**
+ * Block a response to a negotiation offer once it has expired
+ * 
+ * @param offer Negotiation offer being responded to
+ * @returns Why the response is blocked, or undefined if the offer is still open
+ */
+function offerNotExpired(offer: Record<string, any>): TransitionBlock | undefined {
+  if (offer.expires_at && new Date(offer.expires_at) < new Date()) {
+    return {
+      error: 'OFFER_EXPIRED',
+      message: 'This offer has expired'
+    };
+  }
+  
+  return undefined;
+}
+
+/**
+ * Bid card lifecycle
+ */
+export const bidCardMachine = defineStateMachine({
+  entity: 'bid_cards',
+  label: 'Bid card',
+  states: ['draft', 'open', 'review', 'negotiation', 'awarded', 'in_progress', 'completed', 'cancelled', 'expired'],
+  initial: 'open',
+  transitions: [
+    {
+      name: 'publish',
+      description: 'be published',
+      from: ['draft'],
+      to: 'open'
+    },
+    {
+      name: 'edit',
+      description: 'be updated',
+      from: ['draft', 'open', 'review', 'negotiation', 'in_progress', 'expired'],
+      operation: 'updateBidCard'
+    },
+    {
+      name: 'receive_bid',
+      description: 'receive bids',
+      from: ['open'],
+      operation: 'submitBid',
+      guard: bidCard => bidDeadlineNotPassed(bidCard)
+    },
+    {
+      name: 'receive_bid_update',
+      description: 'receive bid updates',
+      from: ['open', 'negotiation'],
+      guard: bidCard => bidDeadlineNotPassed(bidCard)
+    },
+    {
+      name: 'form_group',
+      description: 'have bid groups formed',
+      from: ['open'],
+      operation: 'createBidGroup',
+      guard: bidCard => bidCard.group_bidding_enabled ? undefined : {
+        error: 'GROUP_BIDDING_DISABLED',
+        message: 'Group bidding is not enabled for this bid card'
+      }
+    },
+    {
+      name: 'negotiate',
+      description: 'have bids negotiated',
+      from: ['open', 'review', 'negotiation'],
+      guard: bidCard => bidCard.prohibit_negotiation === true ? {
+        error: 'NEGOTIATION_PROHIBITED',
+        message: 'Negotiation is not allowed on this bid card'
+      } : undefined
+    },
+    {
+      name: 'start_review',
+      description: 'be moved to review',
+      from: ['open'],
+      to: 'review'
+    },
+    {
+      name: 'start_negotiation',
+      description: 'enter negotiation',
+      from: ['open', 'review'],
+      to: 'negotiation'
+    },
+    {
+      name: 'award',
+      description: 'be awarded',
+      from: ['open', 'review', 'negotiation'],
+      to: 'awarded',
+      effects: () => ({ awarded_at: new Date() })
+    },
+    {
+      name: 'revoke_award',
+      description: 'have its award revoked',
+      from: ['awarded'],
+      to: 'review',
+      effects: () => ({ awarded_at: null, awarded_bid_id: null })
+    },
+    {
+      name: 'start_work',
+      description: 'start work',
+      from: ['awarded'],
+      to: 'in_progress'
+    },
+    {
+      name: 'complete',
+      description: 'be completed',
+      from: ['in_progress'],
+      to: 'completed',
+      effects: () => ({ completed_at: new Date() })
+    },
+    {
+      name: 'cancel',
+      description: 'be cancelled',
+      from: ['draft', 'open', 'review', 'negotiation'],
+      to: 'cancelled',
+      effects: () => ({ cancelled_at: new Date() })
+    },
+    {
+      name: 'expire',
+      description: 'expire',
+      from: ['open', 'review'],
+      to: 'expired'
+    },
+    {
+      name: 'reopen',
+      description: 'be reopened',
+      from: ['expired'],
+      to: 'open'
+    }
+  ]
+});
+
+/**
+ * Individual bid lifecycle
+ * Guards that depend on the bid card expect it as data.bidCard
+ */
+export const bidMachine = defineStateMachine({
+  entity: 'bids',
+  label: 'Bid',
+  states: ['submitted', 'viewed', 'shortlisted', 'negotiating', 'accepted', 'declined', 'expired', 'withdrawn'],
+  initial: 'submitted',
+  transitions: [
+    {
+      name: 'view',
+      description: 'be marked as viewed',
+      from: ['submitted'],
+      to: 'viewed'
+    },
+    {
+      name: 'shortlist',
+      description: 'be shortlisted',
+      from: ['submitted', 'viewed'],
+      to: 'shortlisted'
+    },
+    {
+      name: 'revise',
+      description: 'be updated',
+      from: ['submitted', 'viewed', 'shortlisted'],
+      operation: 'updateBid',
+      guard: (bid, data) => bidCardAllows(data.bidCard, 'receive_bid_update')
+    },
+    {
+      name: 'counter',
+      description: 'be countered',
+      from: ['submitted', 'viewed', 'shortlisted', 'negotiating'],
+      to: 'negotiating',
+      operation: 'counterBid',
+      guard: (bid, data) => bidCardAllows(data.bidCard, 'negotiate')
+    },
+    {
+      name: 'conclude_negotiation',
+      description: 'conclude a negotiation',
+      from: ['negotiating'],
+      to: 'shortlisted',
+      operation: 'respondToCounter'
+    },
+    {
+      name: 'accept',
+      description: 'be accepted',
+      from: ['submitted', 'viewed', 'shortlisted'],
+      to: 'accepted',
+      operation: 'acceptBid',
+      guard: (bid, data) => bidCardAllows(data.bidCard, 'award'),
+      effects: () => ({ accepted_at: new Date() })
+    },
+    {
+      name: 'decline',
+      description: 'be declined',
+      from: ['submitted', 'viewed', 'shortlisted', 'negotiating'],
+      to: 'declined',
+      operation: 'rejectBid',
+      effects: () => ({ declined_at: new Date() })
+    },
+    {
+      name: 'expire',
+      description: 'expire',
+      from: ['submitted', 'viewed', 'shortlisted', 'negotiating'],
+      to: 'expired'
+    },
+    {
+      name: 'withdraw',
+      description: 'be withdrawn',
+      from: ['submitted', 'viewed', 'shortlisted', 'negotiating'],
+      to: 'withdrawn',
+      operation: 'withdrawBid',
+      effects: () => ({ withdrawn_at: new Date() })
+    },
+    {
+      name: 'forfeit',
+      description: 'be forfeited by its contractor',
+      from: ['accepted'],
+      to: 'withdrawn',
+      effects: () => ({ withdrawn_at: new Date() })
+    },
+    {
+      name: 'lapse',
+      description: 'lose its acceptance',
+      from: ['accepted'],
+      to: 'expired'
+    }
+  ]
+});
+
+/**
+ * Negotiation thread lifecycle
+ * A thread is open while an offer awaits a response and settled once the
+ * latest offer was answered; it closes when the bid leaves negotiation for good
+ */
+export const negotiationMachine = defineStateMachine({
+  entity: 'bid_negotiations',
+  label: 'Negotiation',
+  states: ['open', 'settled', 'closed'],
+  initial: 'open',
+  transitions: [
+    {
+      name: 'counter',
+      description: 'receive a new offer',
+      from: ['open', 'settled'],
+      to: 'open'
+    },
+    {
+      name: 'settle',
+      description: 'be settled',
+      from: ['open'],
+      to: 'settled'
+    },
+    {
+      name: 'close',
+      description: 'be closed',
+      from: ['open', 'settled'],
+      to: 'closed'
+    }
+  ]
+});
+
+/**
+ * Negotiation offer lifecycle
+ */
+export const negotiationOfferMachine = defineStateMachine({
+  entity: 'bid_negotiation_offers',
+  label: 'Offer',
+  states: ['pending', 'accepted', 'rejected', 'countered', 'expired', 'cancelled'],
+  initial: 'pending',
+  transitions: [
+    {
+      name: 'accept',
+      description: 'be accepted',
+      from: ['pending'],
+      to: 'accepted',
+      guard: offer => offerNotExpired(offer),
+      effects: () => ({ responded_at: new Date() })
+    },
+    {
+      name: 'reject',
+      description: 'be rejected',
+      from: ['pending'],
+      to: 'rejected',
+      guard: offer => offerNotExpired(offer),
+      effects: () => ({ responded_at: new Date() })
+    },
+    {
+      name: 'counter',
+      description: 'be countered',
+      from: ['pending'],
+      to: 'countered',
+      guard: offer => offerNotExpired(offer),
+      effects: () => ({ responded_at: new Date() })
+    },
+    {
+      name: 'expire',
+      description: 'expire',
+      from: ['pending'],
+      to: 'expired'
+    },
+    {
+      name: 'cancel',
+      description: 'be cancelled',
+      from: ['pending'],
+      to: 'cancelled'
+    }
+  ]
+});
+
+/**
+ * Bid group lifecycle
+ * Guards expect data.memberCount (active members) and data.bidCard
+ */
+export const bidGroupMachine = defineStateMachine({
+  entity: 'bid_groups',
+  label: 'Bid group',
+  states: ['open', 'bidding', 'awarded', 'closed', 'expired'],
+  initial: 'open',
+  transitions: [
+    {
+      name: 'join',
+      description: 'accept new members',
+      from: ['open'],
+      operation: 'joinBidGroup',
+      guard: (group, data) => data.memberCount >= group.max_members ? {
+        error: 'GROUP_FULL',
+        message: 'This bid group is already at maximum capacity'
+      } : undefined
+    },
+    {
+      name: 'submit_bid',
+      description: 'submit a group bid',
+      from: ['open'],
+      to: 'bidding',
+      operation: 'submitGroupBid',
+      guard: (group, data) => bidCardAllows(data.bidCard, 'receive_bid')
+    },
+    {
+      name: 'award',
+      description: 'be awarded',
+      from: ['bidding'],
+      to: 'awarded'
+    },
+    {
+      name: 'close',
+      description: 'be closed',
+      from: ['open', 'bidding'],
+      to: 'closed'
+    },
+    {
+      name: 'expire',
+      description: 'expire',
+      from: ['open', 'bidding'],
+      to: 'expired'
+    }
+  ]
+});
+
+/**
+ * Group bid lifecycle
+ * Guards that depend on the bid card expect it as data.bidCard
+ */
+export const groupBidMachine = defineStateMachine({
+  entity: 'group_bids',
+  label: 'Group bid',
+  states: ['submitted', 'extended', 'accepted', 'declined', 'expired'],
+  initial: 'submitted',
+  transitions: [
+    {
+      name: 'accept',
+      description: 'be accepted',
+      from: ['submitted', 'extended'],
+      to: 'accepted',
+      operation: 'acceptGroupBid',
+      guard: (groupBid, data) => bidCardAllows(data.bidCard, 'award'),
+      effects: () => ({ accepted_at: new Date() })
+    },
+    {
+      name: 'extend',
+      description: 'be extended',
+      from: ['submitted', 'extended'],
+      to: 'extended'
+    },
+    {
+      name: 'decline',
+      description: 'be declined',
+      from: ['submitted', 'extended'],
+      to: 'declined'
+    },
+    {
+      name: 'expire',
+      description: 'expire',
+      from: ['submitted', 'extended'],
+      to: 'expired'
+    }
+  ]
+});
+
+/**
+ * Individual bid acceptance lifecycle
+ * The contractor confirms the acceptance and pays the connection fee, after
+ * which the parties' contact details are released
+ */
+export const bidAcceptanceMachine = defineStateMachine({
+  entity: 'bid_acceptances',
+  label: 'Bid acceptance',
+  states: ['pending_contractor_confirmation', 'pending_payment', 'paid', 'declined', 'expired', 'cancelled'],
+  initial: 'pending_contractor_confirmation',
+  transitions: [
+    {
+      name: 'confirm',
+      description: 'be confirmed',
+      from: ['pending_contractor_confirmation'],
+      to: 'pending_payment',
+      operation: 'confirmAcceptance',
+      effects: () => ({ confirmed_at: new Date() })
+    },
+    {
+      name: 'pay',
+      description: 'be paid',
+      from: ['pending_payment'],
+      to: 'paid',
+      effects: () => ({ paid_at: new Date() })
+    },
+    {
+      name: 'decline',
+      description: 'be declined',
+      from: ['pending_contractor_confirmation'],
+      to: 'declined',
+      operation: 'declineAcceptance',
+      effects: () => ({ declined_at: new Date() })
+    },
+    {
+      name: 'expire',
+      description: 'expire',
+      from: ['pending_contractor_confirmation', 'pending_payment'],
+      to: 'expired'
+    },
+    {
+      name: 'cancel',
+      description: 'be cancelled',
+      from: ['pending_contractor_confirmation', 'pending_payment'],
+      to: 'cancelled'
+    }
+  ]
+});
+
+/**
+ * Connection fee payment lifecycle
+ * The payment domain processes the payment and reports the outcome; the
+ * bidding domain records it
+ */
+export const connectionPaymentMachine = defineStateMachine({
+  entity: 'connection_payments',
+  label: 'Connection payment',
+  states: ['pending', 'processing', 'completed', 'failed'],
+  initial: 'pending',
+  transitions: [
+    {
+      name: 'process',
+      description: 'be processed',
+      from: ['pending'],
+      to: 'processing'
+    },
+    {
+      name: 'complete',
+      description: 'be completed',
+      from: ['pending', 'processing'],
+      to: 'completed',
+      effects: () => ({ completed_at: new Date() })
+    },
+    {
+      name: 'fail',
+      description: 'fail',
+      from: ['pending', 'processing'],
+      to: 'failed'
+    }
+  ]
+});
+
+/**
+ * Group bid acceptance lifecycle
+ */
+export const groupBidAcceptanceMachine = defineStateMachine({
+  entity: 'group_bid_acceptances',
+  label: 'Group bid acceptance',
+  states: ['pending_group_confirmation', 'confirmed', 'declined', 'expired', 'cancelled'],
+  initial: 'pending_group_confirmation',
+  transitions: [
+    {
+      name: 'confirm',
+      description: 'be confirmed',
+      from: ['pending_group_confirmation'],
+      to: 'confirmed',
+      effects: () => ({ confirmed_at: new Date() })
+    },
+    {
+      name: 'decline',
+      description: 'be declined',
+      from: ['pending_group_confirmation'],
+      to: 'declined'
+    },
+    {
+      name: 'expire',
+      description: 'expire',
+      from: ['pending_group_confirmation'],
+      to: 'expired'
+    },
+    {
+      name: 'cancel',
+      description: 'be cancelled',
+      from: ['pending_group_confirmation'],
+      to: 'cancelled'
+    }
+  ]
+});
+
+/**
+ * Bidding state machines keyed by the table holding their entity
+ */
+export const biddingStateMachines: Record<string, StateMachine> = {
+  bid_cards: bidCardMachine,
+  bids: bidMachine,
+  bid_groups: bidGroupMachine,
+  group_bids: groupBidMachine,
+  bid_acceptances: bidAcceptanceMachine,
+  group_bid_acceptances: groupBidAcceptanceMachine
+};
@@ -0,0 +1,330 @@
+/**
+ * Outbox Failure Harness - Shows that bidding events survive injected failures
+ * 
+ * This example runs bidding intents against the in-memory backend while
+ * failures are injected at every step between a domain write and the event
+ * reaching subscribers:
+ * 1. Domain writes fail, rolling back the unit of work
+ * 2. Recording the event in the outbox fails, rolling back the unit of work
+ * 3. Releasing the event after the commit fails, leaving it staged
+ * 4. The event bus rejects the event
+ * 5. Marking the event published fails after the bus accepted it
+ * 
+ * The relay is then run until the outbox is drained, and the harness checks
+ * that every committed bid card and bid was announced (no lost events) and
+ * that nothing rolled back was announced (no phantom events). Redeliveries
+ * are expected and reported. Failures are drawn from a seeded generator, so
+ * a run can be repeated exactly:
+ * 
+ *   npx ts-node src/examples/outbox-failure-harness.ts [seed] [intents]
+ */
+
+import { DomainEvent, EventBus, EventDefinition, EventHandler, InMemoryEventBus } from '../core/events/event-bus';
+import { OutboxRelay } from '../core/events/outbox-relay';
+import { InMemoryDataInterface } from '../core/persistence/in-memory-data-interface';
+import { TransactionalOutbox } from '../core/persistence/outbox';
+import { BiddingAgent } from '../domains/bidding/bidding-agent';
+import { biddingEvents } from '../domains/bidding/bidding-events';
+import { BiddingGuard } from '../domains/bidding/bidding-guard';
+
+/**
+ * Probability of each injected failure
+ */
+export interface FailureRates {
+  domainWrite: number;
+  outboxRecord: number;
+  release: number;
+  publish: number;
+  acknowledge: number;
+}
+
+/**
+ * Outcome of a harness run
+ */
+export interface OutboxHarnessReport {
+  seed: number;
+  intents: number;
+  succeeded: number;
+  failed: number;
+  injectedFailures: Record<keyof FailureRates, number>;
+  committed: { bid_cards: number; bids: number };
+  delivered: number;
+  redelivered: number;
+  relayRuns: number;
+  
+  /**
+   * Committed rows no event was delivered for
+   */
+  lost: string[];
+  
+  /**
+   * Delivered events for rows that do not exist
+   */
+  phantom: string[];
+  
+  /**
+   * Outbox entries left undelivered after draining
+   */
+  undelivered: number;
+}
+
+const DEFAULT_FAILURE_RATES: FailureRates = {
+  domainWrite: 0.1,
+  outboxRecord: 0.1,
+  release: 0.2,
+  publish: 0.3,
+  acknowledge: 0.2
+};
+
+/**
+ * Small seeded random number generator (mulberry32)
+ * 
+ * @param seed Seed
+ * @returns Function returning numbers in [0, 1)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Decides when to inject failures and counts the failures injected
+ */
+class FailureInjector {
+  public readonly injected: Record<keyof FailureRates, number> = {
+    domainWrite: 0,
+    outboxRecord: 0,
+    release: 0,
+    publish: 0,
+    acknowledge: 0
+  };
+  
+  constructor(
+    private readonly rates: FailureRates,
+    private readonly random: () => number
+  ) {}
+  
+  /**
+   * Throw an injected failure with the configured probability
+   * 
+   * @param point Failure point
+   */
+  public maybeFail(point: keyof FailureRates): void {
+    if (this.random() < this.rates[point]) {
+      this.injected[point]++;
+      throw new Error(`Injected ${point} failure`);
+    }
+  }
+}
+
+/**
+ * In-memory data interface whose writes fail at random
+ */
+class FaultyDataInterface extends InMemoryDataInterface {
+  constructor(private readonly injector: FailureInjector) {
+    super('bidding', 'bidding');
+  }
+  
+  public async create<T = any>(entity: string, data: Partial<T>): Promise<T> {
+    this.injector.maybeFail(entity === 'event_outbox' ? 'outboxRecord' : 'domainWrite');
+    return super.create<T>(entity, data);
+  }
+  
+  public async update<T = any>(entity: string, id: string, data: Partial<T>): Promise<T> {
+    const status = (data as Record<string, any>).status;
+    
+    if (entity !== 'event_outbox') {
+      this.injector.maybeFail('domainWrite');
+    } else if (status === 'pending') {
+      this.injector.maybeFail('release');
+    } else if (status === 'published') {
+      this.injector.maybeFail('acknowledge');
+    }
+    
+    return super.update<T>(entity, id, data);
+  }
+}
+
+/**
+ * Event bus that rejects events at random before delivering them
+ */
+class FlakyEventBus implements EventBus {
+  private readonly bus = new InMemoryEventBus();
+  
+  constructor(private readonly injector: FailureInjector) {}
+  
+  public async publish(event: DomainEvent<any>): Promise<void> {
+    this.injector.maybeFail('publish');
+    await this.bus.publish(event);
+  }
+  
+  public subscribe(
+    types: EventDefinition<any> | string | Array<EventDefinition<any> | string>,
+    handler: EventHandler<any>
+  ): () => void {
+    return this.bus.subscribe(types as any, handler);
+  }
+}
+
+/**
+ * Run bidding intents under injected failures and check every committed write was announced
+ * 
+ * @param seed Seed of the failure generator
+ * @param intentCount Number of intents to run
+ * @param rates Probability of each injected failure
+ * @returns Report of the run
+ */
+export async function runOutboxFailureHarness(
+  seed: number = 42,
+  intentCount: number = 200,
+  rates: FailureRates = DEFAULT_FAILURE_RATES
+): Promise<OutboxHarnessReport> {
+  const random = seededRandom(seed);
+  const injector = new FailureInjector(rates, random);
+  const dataInterface = new FaultyDataInterface(injector);
+  const eventBus = new FlakyEventBus(injector);
+  const outbox = new TransactionalOutbox(dataInterface);
+  const relay = new OutboxRelay(outbox, eventBus, { maxAttempts: 50, retryDelayMs: 1000, maxRetryDelayMs: 60 * 1000 });
+  
+  outbox.onRelease(async () => {
+    await relay.flush();
+  });
+  
+  dataInterface.seed('users', [{ id: 'homeowner-1' }, { id: 'contractor-user-1' }, { id: 'contractor-user-2' }]);
+  dataInterface.seed('contractors', [
+    { id: 'contractor-1', user_id: 'contractor-user-1' },
+    { id: 'contractor-2', user_id: 'contractor-user-2' }
+  ]);
+  
+  // Record what subscribers receive
+  const deliveries = new Map<string, number>();
+  const announced = new Set<string>();
+  
+  eventBus.subscribe([biddingEvents.bidCardCreated, biddingEvents.bidSubmitted], event => {
+    deliveries.set(event.id, (deliveries.get(event.id) || 0) + 1);
+    announced.add(event.type === biddingEvents.bidCardCreated.type
+      ? `bid_cards:${event.payload.bid_card.id}`
+      : `bids:${event.payload.bid.id}`);
+  });
+  
+  const agentFor = (userId: string) => new BiddingAgent(
+    new BiddingGuard(dataInterface),
+    dataInterface,
+    { userId, timestamp: Date.now() },
+    eventBus,
+    outbox
+  );
+  
+  const homeowner = agentFor('homeowner-1');
+  const contractors = [agentFor('contractor-user-1'), agentFor('contractor-user-2')];
+  
+  // Injected failures are expected to be logged; keep the report readable
+  const logError = console.error;
+  console.error = () => {};
+  
+  let succeeded = 0;
+  let relayRuns = 0;
+  
+  try {
+    const bidCardIds: string[] = [];
+    
+    for (let i = 0; i < intentCount; i++) {
+      // Alternate between creating bid cards and bidding on existing ones
+      const result = bidCardIds.length === 0 || random() < 0.4
+        ? await homeowner.fulfillIntent({
+          operation: 'createBidCard',
+          params: {
+            title: `Project ${i}`,
+            description: 'Harness project',
+            job_category_id: 'category-1',
+            job_type_id: 'type-1',
+            location: {},
+            zip_code: '00000'
+          }
+        })
+        : await contractors[i % contractors.length].fulfillIntent({
+          operation: 'submitBid',
+          params: {
+            bid_card_id: bidCardIds[Math.floor(random() * bidCardIds.length)],
+            amount: 1000 + i,
+            scope_of_work: 'Harness scope',
+            value_propositions: []
+          }
+        });
+      
+      if (result.success) {
+        succeeded++;
+        
+        if (result.data.creator_id) {
+          bidCardIds.push(result.data.id);
+        }
+      }
+    }
+    
+    // Keep running the relay, far enough apart for every retry and staged entry to come due
+    let now = Date.now();
+    
+    while (relayRuns < 500 &&
+      (await outbox.count('pending')) + (await outbox.count('staged')) > 0) {
+      now += 10 * 60 * 1000;
+      relayRuns++;
+      await relay.run(new Date(now));
+    }
+  } finally {
+    console.error = logError;
+  }
+  
+  // Every committed row must have been announced, and nothing else
+  const committed = [
+    ...(await dataInterface.findMany('bid_cards', {})).map(row => `bid_cards:${row.id}`),
+    ...(await dataInterface.findMany('bids', {})).map(row => `bids:${row.id}`)
+  ];
+  const committedSet = new Set(committed);
+  
+  return {
+    seed,
+    intents: intentCount,
+    succeeded,
+    failed: intentCount - succeeded,
+    injectedFailures: injector.injected,
+    committed: {
+      bid_cards: committed.filter(key => key.startsWith('bid_cards:')).length,
+      bids: committed.filter(key => key.startsWith('bids:')).length
+    },
+    delivered: deliveries.size,
+    redelivered: [...deliveries.values()].filter(count => count > 1).length,
+    relayRuns,
+    lost: committed.filter(key => !announced.has(key)),
+    phantom: [...announced].filter(key => !committedSet.has(key)),
+    undelivered: (await outbox.count('pending')) + (await outbox.count('staged')) + (await outbox.count('failed'))
+  };
+}
+
+// Run the harness if this file is executed directly
+if (require.main === module) {
+  const seed = Number(process.argv[2] || 42);
+  const intents = Number(process.argv[3] || 200);
+  
+  runOutboxFailureHarness(seed, intents)
+    .then(report => {
+      console.log(JSON.stringify(report, null, 2));
+      
+      if (report.lost.length > 0 || report.phantom.length > 0 || report.undelivered > 0) {
+        console.error('Outbox delivery guarantees were violated');
+        process.exit(1);
+      }
+      
+      console.log('No events were lost or published for rolled-back writes');
+    })
+    .catch(error => {
+      console.error('Unhandled error in outbox failure harness:', error);
+      process.exit(1);
+    });
+}
@@ -5,13 +5,27 @@
 
 // Core framework components
 export * from './core/domain/domain-agent';
+export * from './core/domain/intent-registry';
+export * from './core/domain/state-machine';
+export * from './core/events/event-bus';
+export * from './core/events/outbox-relay';
 export * from './core/guard/guard-layer';
+export * from './core/guard/redaction';
 export * from './core/persistence/data-interface';
+export * from './core/persistence/in-memory-data-interface';
+export * from './core/persistence/outbox';
+export * from './core/sagas/saga-engine';
+export * from './core/scheduling/scheduler';
 
 // Bidding domain components
 export * from './domains/bidding/bidding-agent';
+export * from './domains/bidding/bidding-intents';
+export * from './domains/bidding/bidding-events';
+export * from './domains/bidding/bidding-state-machines';
 export * from './domains/bidding/bidding-guard';
 export * from './domains/bidding/bidding-data-interface';
+export * from './domains/bidding/bidding-deadline-jobs';
+export * from './domains/bidding/bidding-contract-saga';
 export * from './domains/bidding/bidding-factory';
 
 // Example demo export
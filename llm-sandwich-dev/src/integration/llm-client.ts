@@ -4,10 +4,14 @@
  * This file provides a client for interacting with large language models
  * for the LLM Sandwich Architecture. It serves as a core integration component
  * that both the guard layer and persistence layer will use to access LLM capabilities.
+ * Completions can be streamed, cancelled with an AbortSignal and limited by a
+ * per-request timeout, or requested as JSON validated against a schema.
  */
 
 import axios from 'axios';
 import { setTimeout } from 'timers/promises';
+import { ZodType } from 'zod';
+import { extractJSON, JSON_INSTRUCTION, StructuredOptions, StructuredResult } from './structured-output.js';
 
 /**
  * Available LLM providers
@@ -67,6 +71,12 @@ export interface CompletionParams {
   functions?: any[];
   /** Function to call */
   functionCall?: 'auto' | 'none' | { name: string };
+  /** Signal cancelling the request */
+  signal?: AbortSignal;
+  /** Timeout in milliseconds for the whole request, including retries and streaming */
+  timeout?: number;
+  /** Ask for a JSON response (OpenAI, OpenRouter and Azure) */
+  responseFormat?: 'text' | 'json';
 }
 
 /**
@@ -107,6 +117,28 @@ export interface CompletionResponse {
   rawResponse?: any;
 }
 
+/**
+ * A piece of a streamed completion
+ */
+export interface CompletionChunk {
+  /** Text added by this chunk */
+  delta: string;
+  /** Text generated so far */
+  content: string;
+  /**
+   * Usage so far; until the provider reports usage, completion tokens are
+   * estimated from the chunks received and prompt tokens are unknown (0)
+   */
+  usage: {
+    /** Prompt tokens used */
+    promptTokens: number;
+    /** Completion tokens used */
+    completionTokens: number;
+    /** Total tokens used */
+    totalTokens: number;
+  };
+}
+
 /**
  * Client for interacting with large language models
  */
@@ -192,31 +224,21 @@ export class LLMClient {
    * Generate text completion
    */
   public async complete(params: CompletionParams): Promise<CompletionResponse> {
-    // Start with defaults
-    const model = params.model || this.config.defaultModel;
-    const temperature = params.temperature ?? this.config.defaultTemperature;
-    const maxTokens = params.maxTokens ?? this.config.defaultMaxTokens;
-    const systemPrompt = params.systemPrompt || this.config.defaultSystemPrompt;
-
-    let requestBody;
+    const requestBody = this.formatRequest(params);
     let responseMapping;
 
-    // Format request based on provider
+    // Map response based on provider
     switch (this.config.provider) {
       case LLMProvider.OPENAI:
-        requestBody = this.formatOpenAIRequest(model, params.prompt, systemPrompt, temperature, maxTokens, params.stopSequences, params.functions, params.functionCall);
         responseMapping = this.mapOpenAIResponse;
         break;
       case LLMProvider.ANTHROPIC:
-        requestBody = this.formatAnthropicRequest(model, params.prompt, systemPrompt, temperature, maxTokens, params.stopSequences);
         responseMapping = this.mapAnthropicResponse;
         break;
       case LLMProvider.OPENROUTER:
-        requestBody = this.formatOpenRouterRequest(model, params.prompt, systemPrompt, temperature, maxTokens, params.stopSequences, params.functions, params.functionCall);
         responseMapping = this.mapOpenRouterResponse;
         break;
       case LLMProvider.AZURE:
-        requestBody = this.formatAzureRequest(model, params.prompt, systemPrompt, temperature, maxTokens, params.stopSequences, params.functions, params.functionCall);
         responseMapping = this.mapAzureResponse;
         break;
       default:
@@ -229,7 +251,217 @@ export class LLMClient {
     }
 
     // Send request with retries
-    return this.sendWithRetry(requestBody, responseMapping);
+    const requestSignal = createRequestSignal(params.signal, params.timeout);
+    
+    try {
+      return await this.sendWithRetry(requestBody, responseMapping, requestSignal.signal);
+    } catch (error) {
+      throw requestSignal.toError(error);
+    } finally {
+      requestSignal.dispose();
+    }
+  }
+
+  /**
+   * Generate text completion as a stream of chunks
+   * 
+   * Streams are not retried, since a retry would repeat the chunks already
+   * received. Function calls are not streamed.
+   * 
+   * @example
+   * for await (const chunk of client.stream({ prompt, signal })) {
+   *   process.stdout.write(chunk.delta);
+   * }
+   */
+  public async *stream(params: CompletionParams): AsyncGenerator<CompletionChunk> {
+    const requestBody = { ...this.formatRequest(params), stream: true };
+
+    // Ask for usage with the last chunk where the provider supports it
+    switch (this.config.provider) {
+      case LLMProvider.OPENAI:
+        requestBody.stream_options = { include_usage: true };
+        break;
+      case LLMProvider.OPENROUTER:
+        requestBody.usage = { include: true };
+        break;
+    }
+
+    // Log request if debug enabled
+    if (this.config.debug) {
+      console.log(`LLM Stream request to ${this.config.provider}:`, JSON.stringify(requestBody, null, 2));
+    }
+
+    const requestSignal = createRequestSignal(params.signal, params.timeout);
+    let content = '';
+    let chunks = 0;
+    let usage: CompletionChunk['usage'] | undefined;
+
+    try {
+      const response = await this.axiosInstance.post(this.getCompletionEndpoint(), requestBody, {
+        responseType: 'stream',
+        signal: requestSignal.signal,
+      });
+
+      for await (const data of readServerSentEvents(response.data)) {
+        if (data === '[DONE]') {
+          break;
+        }
+
+        const event = this.mapStreamEvent(JSON.parse(data));
+        usage = event.usage || usage;
+
+        if (!event.delta && !event.usage) {
+          continue;
+        }
+
+        if (event.delta) {
+          content += event.delta;
+          chunks++;
+        }
+
+        yield {
+          delta: event.delta,
+          content,
+          usage: usage || { promptTokens: 0, completionTokens: chunks, totalTokens: chunks },
+        };
+      }
+    } catch (error) {
+      throw requestSignal.toError(error);
+    } finally {
+      // Also stops the request when the caller stops iterating early
+      requestSignal.dispose();
+    }
+  }
+
+  /**
+   * Generate JSON matching a schema
+   * 
+   * The JSON is extracted from the response (code fences, surrounding prose)
+   * and repaired if needed; responses that still do not match the schema are
+   * retried with the problem fed back to the model.
+   * 
+   * @example
+   * const result = await client.completeStructured({ prompt }, z.object({ valid: z.boolean() }));
+   * if (result.success) {
+   *   console.log(result.data.valid);
+   * }
+   */
+  public async completeStructured<T>(
+    params: CompletionParams,
+    schema: ZodType<T, any, any>,
+    options: StructuredOptions = {}
+  ): Promise<StructuredResult<T>> {
+    const maxAttempts = (options.maxRetries ?? 2) + 1;
+    const systemPrompt = params.systemPrompt || this.config.defaultSystemPrompt;
+    let prompt = params.prompt;
+    let failure: StructuredResult<T> | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let content: string;
+
+      try {
+        const response = await this.complete({
+          ...params,
+          prompt,
+          systemPrompt: systemPrompt ? `${systemPrompt}\n\n${JSON_INSTRUCTION}` : JSON_INSTRUCTION,
+          responseFormat: 'json',
+        });
+        content = response.content;
+      } catch (error: any) {
+        return {
+          success: false,
+          reason: 'request_failed',
+          error: error.message || String(error),
+          issues: [],
+          attempts: attempt,
+        };
+      }
+
+      let value: unknown;
+
+      try {
+        value = extractJSON(content);
+      } catch (error: any) {
+        failure = { success: false, reason: 'invalid_json', error: error.message, issues: [], attempts: attempt, content };
+        prompt = this.withFeedback(params.prompt, content, `Your response was not valid JSON: ${error.message}`);
+        continue;
+      }
+
+      const parsed = schema.safeParse(value);
+
+      if (parsed.success) {
+        return { success: true, data: parsed.data, attempts: attempt };
+      }
+
+      const issues = parsed.error.issues.map(issue =>
+        issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+      );
+
+      failure = {
+        success: false,
+        reason: 'schema_mismatch',
+        error: `Response did not match the expected schema: ${issues.join('; ')}`,
+        issues,
+        attempts: attempt,
+        content,
+      };
+      prompt = this.withFeedback(
+        params.prompt,
+        content,
+        `Your JSON did not match the expected format:\n${issues.map(issue => `- ${issue}`).join('\n')}`
+      );
+    }
+
+    return failure!;
+  }
+
+  /**
+   * Add a rejected response and the reason it was rejected to a prompt
+   */
+  private withFeedback(prompt: string, content: string, feedback: string): string {
+    return `${prompt}
+
+Your previous response was:
+${content}
+
+${feedback}
+
+Respond again with only the corrected JSON.`;
+  }
+
+  /**
+   * Format the request body based on provider
+   */
+  private formatRequest(params: CompletionParams): any {
+    // Start with defaults
+    const model = params.model || this.config.defaultModel;
+    const temperature = params.temperature ?? this.config.defaultTemperature;
+    const maxTokens = params.maxTokens ?? this.config.defaultMaxTokens;
+    const systemPrompt = params.systemPrompt || this.config.defaultSystemPrompt;
+    let request;
+
+    switch (this.config.provider) {
+      case LLMProvider.OPENAI:
+        request = this.formatOpenAIRequest(model, params.prompt, systemPrompt, temperature, maxTokens, params.stopSequences, params.functions, params.functionCall);
+        break;
+      case LLMProvider.ANTHROPIC:
+        // Anthropic has no JSON mode; the prompt asks for JSON instead
+        return this.formatAnthropicRequest(model, params.prompt, systemPrompt, temperature, maxTokens, params.stopSequences);
+      case LLMProvider.OPENROUTER:
+        request = this.formatOpenRouterRequest(model, params.prompt, systemPrompt, temperature, maxTokens, params.stopSequences, params.functions, params.functionCall);
+        break;
+      case LLMProvider.AZURE:
+        request = this.formatAzureRequest(model, params.prompt, systemPrompt, temperature, maxTokens, params.stopSequences, params.functions, params.functionCall);
+        break;
+      default:
+        throw new Error(`Unsupported provider: ${this.config.provider}`);
+    }
+
+    if (params.responseFormat === 'json') {
+      request.response_format = { type: 'json_object' };
+    }
+
+    return request;
   }
 
   /**
@@ -237,14 +469,15 @@ export class LLMClient {
    */
   private async sendWithRetry(
     requestBody: any, 
-    responseMapper: (response: any) => CompletionResponse
+    responseMapper: (response: any) => CompletionResponse,
+    signal?: AbortSignal
   ): Promise<CompletionResponse> {
     let lastError;
     
     for (let attempt = 1; attempt <= (this.config.maxRetries! + 1); attempt++) {
       try {
         const endpoint = this.getCompletionEndpoint();
-        const response = await this.axiosInstance.post(endpoint, requestBody);
+        const response = await this.axiosInstance.post(endpoint, requestBody, { signal });
         
         // Log response if debug enabled
         if (this.config.debug) {
@@ -255,6 +488,11 @@ export class LLMClient {
       } catch (error: any) {
         lastError = error;
         
+        // Cancelled requests are not retried
+        if (signal?.aborted) {
+          break;
+        }
+        
         // Log error if debug enabled
         if (this.config.debug) {
           console.error(`LLM Error (attempt ${attempt}):`, error.response?.data || error.message);
@@ -268,7 +506,7 @@ export class LLMClient {
             console.log(`Retrying in ${retryDelay}ms...`);
           }
           
-          await setTimeout(retryDelay);
+          await setTimeout(retryDelay, undefined, { signal });
         } else {
           break;
         }
@@ -469,6 +707,49 @@ export class LLMClient {
     };
   }
 
+  /**
+   * Map a streamed event based on provider
+   */
+  private mapStreamEvent(event: any): { delta: string; usage?: CompletionChunk['usage'] } {
+    if (event.error) {
+      throw new Error(`LLM stream from ${this.config.provider} failed: ${event.error.message || JSON.stringify(event.error)}`);
+    }
+
+    switch (this.config.provider) {
+      case LLMProvider.ANTHROPIC:
+        return this.mapAnthropicStreamEvent(event);
+      case LLMProvider.OPENAI:
+      case LLMProvider.OPENROUTER:
+      case LLMProvider.AZURE:
+        return this.mapOpenAIStreamEvent(event);
+      default:
+        throw new Error(`Unsupported provider: ${this.config.provider}`);
+    }
+  }
+
+  /**
+   * Map OpenAI streamed event (also used by OpenRouter and Azure OpenAI)
+   */
+  private mapOpenAIStreamEvent(event: any): { delta: string; usage?: CompletionChunk['usage'] } {
+    return {
+      delta: event.choices?.[0]?.delta?.content || '',
+      usage: event.usage ? {
+        promptTokens: event.usage.prompt_tokens || 0,
+        completionTokens: event.usage.completion_tokens || 0,
+        totalTokens: event.usage.total_tokens || 0,
+      } : undefined,
+    };
+  }
+
+  /**
+   * Map Anthropic streamed event (completion events carry the added text, pings carry nothing)
+   */
+  private mapAnthropicStreamEvent(event: any): { delta: string; usage?: CompletionChunk['usage'] } {
+    return {
+      delta: event.type === 'completion' ? event.completion || '' : '',
+    };
+  }
+
   /**
    * Map OpenRouter response to standard format (compatible with OpenAI format)
    */
@@ -484,6 +765,76 @@ export class LLMClient {
   }
 }
 
+/**
+ * Signal of a single request, combining the caller's signal with a timeout
+ */
+interface RequestSignal {
+  /** Aborts when the caller's signal aborts, the timeout elapses or the request is disposed */
+  signal: AbortSignal;
+  /** Explain why a failed request stopped */
+  toError(error: unknown): unknown;
+  /** Stop the request and release the listeners */
+  dispose(): void;
+}
+
+/**
+ * Create the signal of a request
+ */
+function createRequestSignal(signal?: AbortSignal, timeout?: number): RequestSignal {
+  const controller = new AbortController();
+  const timeoutSignal = timeout ? AbortSignal.timeout(timeout) : undefined;
+  const onAbort = () => controller.abort();
+
+  for (const source of [signal, timeoutSignal]) {
+    if (source?.aborted) {
+      controller.abort();
+    } else {
+      source?.addEventListener('abort', onAbort, { once: true });
+    }
+  }
+
+  return {
+    signal: controller.signal,
+    toError: (error) => {
+      if (timeoutSignal?.aborted) {
+        return new Error(`LLM request timed out after ${timeout}ms`);
+      }
+      if (signal?.aborted) {
+        return new Error('LLM request cancelled');
+      }
+      return error;
+    },
+    dispose: () => {
+      signal?.removeEventListener('abort', onAbort);
+      timeoutSignal?.removeEventListener('abort', onAbort);
+      controller.abort();
+    },
+  };
+}
+
+/**
+ * Read the data of the server-sent events in a streamed response body
+ */
+async function* readServerSentEvents(body: AsyncIterable<Uint8Array | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+
+      // Skip event names, comments and blank lines
+      if (line.startsWith('data:')) {
+        yield line.slice('data:'.length).trim();
+      }
+    }
+  }
+}
+
 /**
  * Create a standard LLM client using environment variables
  */
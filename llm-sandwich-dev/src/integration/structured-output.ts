@@ -0,0 +1,192 @@
+/**
+ * @file Structured Output
+ * 
+ * This file provides the pieces of structured LLM output: extracting the JSON
+ * value from a model's response (which may wrap it in a code fence or prose,
+ * or break it with trailing commas, comments or a cut-off ending) and the
+ * result type of structured completions, so callers handle a typed value or
+ * a structured failure instead of a JSON.parse exception.
+ */
+
+/**
+ * Why a structured completion failed
+ */
+export type StructuredFailureReason =
+  /** No JSON could be extracted from the last response */
+  | 'invalid_json'
+  /** The JSON of the last response did not match the schema */
+  | 'schema_mismatch'
+  /** The request itself failed (e.g. cancelled or timed out) */
+  | 'request_failed';
+
+/**
+ * Result of a structured completion
+ */
+export type StructuredResult<T> =
+  | {
+      success: true;
+      /** The validated value */
+      data: T;
+      /** Number of requests made, retries included */
+      attempts: number;
+    }
+  | {
+      success: false;
+      /** Why there is no value */
+      reason: StructuredFailureReason;
+      /** Description of the failure */
+      error: string;
+      /** Schema violations of the last response, e.g. 'score: Expected number' */
+      issues: string[];
+      /** Number of requests made, retries included */
+      attempts: number;
+      /** Content of the last response, if any */
+      content?: string;
+    };
+
+/**
+ * Options for a structured completion
+ */
+export interface StructuredOptions {
+  /** How many times to ask again after an invalid response (defaults to 2) */
+  maxRetries?: number;
+}
+
+/**
+ * Instruction added to the system prompt of structured completions
+ */
+export const JSON_INSTRUCTION = 'Respond with a single JSON value only: no prose, no markdown code fences.';
+
+/**
+ * Extract the JSON value from a model's response
+ * 
+ * Looks at the whole response, then inside a code fence, then at the first
+ * object or array, repairing each candidate if it does not parse as is.
+ */
+export function extractJSON(text: string): unknown {
+  const candidates = [text.trim()];
+  const fence = text.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)(?:```|$)/);
+
+  if (fence) {
+    candidates.push(fence[1].trim());
+  }
+
+  const start = text.search(/[{[]/);
+
+  if (start >= 0) {
+    candidates.push(sliceBalanced(text, start));
+  }
+
+  let lastError: any;
+
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+
+    for (const source of [candidate, repairJSON(candidate)]) {
+      try {
+        return JSON.parse(source);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+  }
+
+  throw new Error(lastError ? `No valid JSON found (${lastError.message})` : 'The response is empty');
+}
+
+/**
+ * Repair common defects of JSON written by models: comments, trailing
+ * commas, raw line breaks in strings and values cut off by the token limit
+ */
+function repairJSON(text: string): string {
+  const closers: string[] = [];
+  let result = '';
+  let inString = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inString) {
+      if (char === '\\') {
+        result += char + (text[index + 1] ?? '');
+        index++;
+      } else if (char === '\n' || char === '\r') {
+        result += char === '\n' ? '\\n' : '\\r';
+      } else {
+        result += char;
+        inString = char !== '"';
+      }
+      continue;
+    }
+
+    if (char === '/' && text[index + 1] === '/') {
+      while (index < text.length && text[index] !== '\n') {
+        index++;
+      }
+      continue;
+    }
+
+    if (char === '/' && text[index + 1] === '*') {
+      const end = text.indexOf('*/', index + 2);
+      index = end < 0 ? text.length : end + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      result = result.replace(/,\s*$/, '');
+      closers.pop();
+    }
+
+    result += char;
+  }
+
+  // Close what the token limit cut off
+  if (inString) {
+    result += '"';
+  }
+
+  result = result.replace(/[,:]\s*$/, '');
+
+  return result + closers.reverse().join('');
+}
+
+/**
+ * Slice the object or array starting at an index, up to its closing bracket
+ * (or the end of the text when it is never closed)
+ */
+function sliceBalanced(text: string, start: number): string {
+  let depth = 0;
+  let inString = false;
+
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+
+    if (inString) {
+      if (char === '\\') {
+        index++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+
+      if (depth === 0) {
+        return text.slice(start, index + 1);
+      }
+    }
+  }
+
+  return text.slice(start);
+}
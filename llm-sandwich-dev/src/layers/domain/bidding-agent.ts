@@ -9,6 +9,16 @@
 import { LLMClient, CompletionParams } from '../../integration/llm-client.js';
 import { DatabaseAgentProxy } from '../guard/database-agent-proxy.js';
 import { QueryIntentType, SelectQueryIntent, InsertQueryIntent, UpdateQueryIntent } from '../persistence/data-interface.js';
+import { z } from 'zod';
+
+/**
+ * Schema of the bid scores given by the LLM
+ */
+const bidScoresSchema = z.array(z.object({
+  index: z.number().int(),
+  score: z.number().min(0).max(100),
+  reasoning: z.string().optional(),
+}));
 
 /**
  * Bid creation options
@@ -538,33 +548,21 @@ includes the bid index (0-based) and a score from 0-100:
       maxTokens: 2000,
     };
     
-    const response = await this.llmClient.complete(completionParams);
+    const result = await this.llmClient.completeStructured(completionParams, bidScoresSchema);
     
-    // Parse the evaluation results
-    try {
-      // Extract JSON from response
-      const match = response.content.match(/\[\s*\{[\s\S]*\}\s*\]/);
-      
-      if (!match) {
-        throw new Error('Could not parse evaluation results');
-      }
-      
-      const evaluations = JSON.parse(match[0]);
-      
-      // Add scores to bids
-      evaluations.forEach((evaluation: any) => {
-        if (typeof evaluation.index === 'number' && typeof evaluation.score === 'number') {
-          if (bids[evaluation.index]) {
-            bids[evaluation.index].score = evaluation.score;
-          }
-        }
-      });
-      
-      // Sort bids by score (highest first)
-      return bids.sort((a, b) => ((b.score ?? 0) - (a.score ?? 0)));
-    } catch (error) {
-      console.error('Failed to parse evaluation results:', error);
+    if (!result.success) {
+      console.error('Failed to get evaluation results:', result.error);
       return bids;
     }
+    
+    // Add scores to bids
+    result.data.forEach(evaluation => {
+      if (bids[evaluation.index]) {
+        bids[evaluation.index].score = evaluation.score;
+      }
+    });
+    
+    // Sort bids by score (highest first)
+    return bids.sort((a, b) => ((b.score ?? 0) - (a.score ?? 0)));
   }
 }
@@ -17,6 +17,7 @@ import {
   InsertQueryIntent,
   UpdateQueryIntent,
   DeleteQueryIntent,
+  queryIntentSchema,
 } from '../persistence/data-interface.js';
 
 /**
@@ -595,45 +596,18 @@ Return ONLY the fixed JSON object without explanation, formatted as a valid Type
       };
       
       // Generate the fixed query using LLM
-      const response = await this.llmClient.complete(completionParams);
+      const result = await this.llmClient.completeStructured(completionParams, queryIntentSchema.nullable());
       
-      // Parse the response as JSON
-      try {
-        // Extract JSON object from the text
-        const match = response.content.match(/\{[\s\S]*\}/);
-        if (!match) {
-          return null;
-        }
-        
-        const recoveredQuery = JSON.parse(match[0]);
-        
-        // Validate the recovered query
-        if (!this.isValidQueryIntent(recoveredQuery)) {
-          return null;
-        }
-        
-        return recoveredQuery;
-      } catch (error) {
+      if (!result.success || !result.data) {
         return null;
       }
+      
+      return result.data as QueryIntent;
     } catch (error) {
       return null;
     }
   }
   
-  /**
-   * Validate that an object is a valid query intent
-   */
-  private isValidQueryIntent(obj: any): boolean {
-    return (
-      obj &&
-      typeof obj === 'object' &&
-      typeof obj.type === 'string' &&
-      Array.isArray(obj.tables) &&
-      obj.tables.length > 0
-    );
-  }
-  
   /**
    * Create a query with intent
    */
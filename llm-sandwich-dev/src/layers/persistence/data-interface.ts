@@ -9,6 +9,7 @@
 import { Schema, SchemaType, SchemaField } from '../../knowledge-base/types.js';
 import { ContextManager } from '../../integration/context-manager.js';
 import { LLMClient, CompletionParams } from '../../integration/llm-client.js';
+import { z } from 'zod';
 
 /**
  * Database operation types
@@ -225,6 +226,18 @@ export interface DataInterfaceOptions {
   maxQuerySize?: number;
 }
 
+/**
+ * Schema of query intents generated by the LLM
+ * Fields beyond the common ones (filters, data, ...) are kept as generated.
+ */
+export const queryIntentSchema = z.object({
+  type: z.nativeEnum(QueryIntentType),
+  description: z.string(),
+  tables: z.array(z.string()).min(1),
+  authId: z.string().optional(),
+  entityType: z.string().optional(),
+}).passthrough();
+
 /**
  * Data Interface for the LLM Sandwich Architecture
  */
@@ -512,33 +525,18 @@ Return ONLY the JSON object without explanation, formatted as a valid TypeScript
       };
       
       // Generate the query using LLM
-      const response = await this.llmClient.complete(completionParams);
+      const result = await this.llmClient.completeStructured(completionParams, queryIntentSchema);
       
-      // Parse the response as JSON
-      try {
-        const queryJson = this.extractJSON(response.content);
-        return JSON.parse(queryJson);
-      } catch (parseError) {
-        throw new Error(`Failed to parse LLM response as JSON: ${parseError}`);
+      if (!result.success) {
+        throw new Error(`Failed to get a query object from the LLM response: ${result.error}`);
       }
+      
+      return result.data;
     } catch (error: any) {
       throw new Error(`Error generating query from intent: ${error.message}`);
     }
   }
   
-  /**
-   * Extract JSON from a string
-   */
-  private extractJSON(text: string): string {
-    // Try to find JSON object in the text
-    const match = text.match(/\{[\s\S]*\}/);
-    if (match) {
-      return match[0];
-    }
-    
-    throw new Error('No JSON object found in the text');
-  }
-  
   /**
    * Execute a query intent
    */
@@ -10,10 +10,101 @@
  */
 
 // Export the context manager
-export { contextManager, ContextType } from './integration/context-manager.js';
+export {
+  contextManager,
+  ContextType,
+  ContextOptions,
+  ContextSections
+} from './integration/context-manager.js';
 
 // Export the LLM client
-export { llmClient, LLMRequestOptions, LLMCompletionRequest, LLMResponse } from './integration/llm-client.js';
+export {
+  llmClient,
+  LLMClient,
+  LLMRequestOptions,
+  LLMCompletionRequest,
+  LLMResponse,
+  LLMUsage,
+  LLMProvider,
+  LLMProviderType,
+  LLMProviderConfig,
+  createLLMProvider
+} from './integration/llm-client.js';
+export {
+  LLMStream,
+  LLMStreamChunk,
+  LLMStreamStatus,
+  LLMStreamSource,
+  LLMStreamOptions
+} from './integration/llm-stream.js';
+
+export {
+  StructuredResult,
+  StructuredFailureReason,
+  StructuredRequestOptions,
+  extractJSON
+} from './integration/structured-output.js';
+
+// Export token counting, budgets and usage accounting
+export {
+  ModelFamily,
+  TokenEstimator,
+  getModelFamily,
+  registerTokenEstimator,
+  countTokens,
+  countMessageTokens,
+  truncateToTokens
+} from './integration/token-counter.js';
+export {
+  TokenBudget,
+  TokenBudgetConfig,
+  BudgetSection,
+  BudgetAllocation,
+  SectionAllocation,
+  DEFAULT_BUDGET_SHARES
+} from './integration/token-budget.js';
+export {
+  usageTracker,
+  UsageTracker,
+  UsageTrackerConfig,
+  UsageContext,
+  UsageRecord,
+  UsageReport,
+  UsageReportQuery,
+  UsageReportRow,
+  UsageDimension,
+  SandwichLayer,
+  SpendCap,
+  SpendCaps,
+  ModelPricing,
+  DEFAULT_MODEL_PRICING
+} from './integration/usage-tracker.js';
+
+// Export the LLM response cache
+export {
+  responseCache,
+  LLMResponseCache,
+  ResponseCacheConfig,
+  ResponseCacheStats,
+  normalizePrompt
+} from './integration/response-cache.js';
+
+// Export the LLM providers
+export { OpenRouterProvider, OpenRouterProviderConfig } from './integration/providers/openrouter-provider.js';
+export {
+  RecordReplayProvider,
+  RecordReplayProviderConfig,
+  CassetteMode,
+  Cassette,
+  hashLLMRequest
+} from './integration/providers/record-replay-provider.js';
+export {
+  ScriptedMockProvider,
+  ScriptedMockProviderConfig,
+  ScriptedReply,
+  ScriptedMatcher,
+  ScriptedCall
+} from './integration/providers/scripted-mock-provider.js';
 
 // Export the Guard Layer (Database Agent Proxy)
 export {
@@ -25,7 +116,7 @@ export {
 } from './layers/guard/database-agent-proxy.js';
 
 // Export the Domain Layer
-export { DomainAgent, DomainAgentResponse } from './layers/domain/domain-agent.js';
+export { DomainAgent, DomainAgentResponse, LLMCallOptions, DomainLLMOptions } from './layers/domain/domain-agent.js';
 export { BiddingAgent, Bid, Project, BidEvaluationCriteria } from './layers/domain/bidding-agent.js';
 
 // Export the Persistence Layer
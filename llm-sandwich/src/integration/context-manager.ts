@@ -4,12 +4,17 @@
  * This module handles the dynamic compilation and management of context
  * that is provided to the LLM during operations. It enables the LLM to have
  * awareness of architectural patterns, database schemas, and other important
- * information without overly bloating the context.
+ * information without overly bloating the context: context can be limited
+ * to a number of tokens, shared between the schema and the patterns. The
+ * knowledge base can be reloaded (or watched) when its files change, and
+ * listeners are told so, e.g. to drop LLM responses built from it.
  */
 
 import { KnowledgeBase, DatabaseTable, ArchitecturalPattern, IDRelationshipPattern } from '../knowledge-base/types.js';
 import * as fs from 'fs/promises';
+import { watch } from 'fs';
 import * as path from 'path';
+import { TokenBudget } from './token-budget.js';
 
 /**
  * Types of context that can be included
@@ -22,6 +27,41 @@ export enum ContextType {
   EXAMPLES = 'examples'
 }
 
+/**
+ * Options for generating context
+ */
+export interface ContextOptions {
+  tableOrDomain?: string;
+  patternName?: string;
+  entityType?: string;
+  
+  /**
+   * Maximum length in characters
+   * @deprecated Use maxTokens, which fits the schema and patterns into the limit separately
+   */
+  maxLength?: number;
+  
+  /**
+   * Maximum number of tokens, shared between the schema and pattern context
+   */
+  maxTokens?: number;
+  
+  /**
+   * Model the context is sent to, for counting tokens
+   */
+  model?: string;
+}
+
+/**
+ * Generated context by section of a prompt
+ * ID relationship context is part of the pattern context.
+ * Sections are in the order their context types were requested.
+ */
+export interface ContextSections {
+  schema?: string;
+  patterns?: string;
+}
+
 /**
  * Manages the context information provided to the LLM
  */
@@ -29,6 +69,7 @@ export class ContextManager {
   private knowledgeBase: KnowledgeBase | null = null;
   private initialized = false;
   private knowledgeBasePath: string;
+  private changeListeners: Set<() => void> = new Set();
 
   constructor() {
     // Path to the knowledge base files
@@ -95,6 +136,54 @@ export class ContextManager {
     }
   }
 
+  /**
+   * Reload the knowledge base from its files and tell the change listeners
+   */
+  async reload(): Promise<void> {
+    this.initialized = false;
+    await this.initialize();
+    
+    for (const listener of this.changeListeners) {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Knowledge base change listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Call a listener whenever the knowledge base is reloaded
+   * 
+   * @returns A function removing the listener
+   */
+  onKnowledgeBaseChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Reload the knowledge base whenever its files change
+   * 
+   * @param debounceMs Wait for changes to settle this long before reloading
+   * @returns A function stopping the watch
+   */
+  watchKnowledgeBase(debounceMs: number = 100): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    
+    const watcher = watch(this.knowledgeBasePath, () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        this.reload().catch(error => console.error('Failed to reload knowledge base:', error));
+      }, debounceMs);
+    });
+    
+    return () => {
+      clearTimeout(timer);
+      watcher.close();
+    };
+  }
+
   /**
    * Get the full schema context for a specific table or domain
    */
@@ -184,42 +273,56 @@ export class ContextManager {
   /**
    * Generate context for LLM based on specified context types
    */
-  async generateContext(contextTypes: ContextType[], options: {
-    tableOrDomain?: string;
-    patternName?: string;
-    entityType?: string;
-    maxLength?: number;
-  } = {}): Promise<string> {
+  async generateContext(contextTypes: ContextType[], options: ContextOptions = {}): Promise<string> {
+    let sections = await this.generateContextSections(contextTypes, options);
+    
+    // Fit the schema and patterns into the token limit
+    if (options.maxTokens) {
+      const budget = new TokenBudget({ maxPromptTokens: options.maxTokens, model: options.model });
+      sections = budget.allocate(sections).sections;
+    }
+
+    // Combine all context parts
+    let combinedContext = Object.values(sections).filter(part => !!part).join('\n\n');
+    
+    // Truncate if necessary
+    if (options.maxLength && combinedContext.length > options.maxLength) {
+      combinedContext = combinedContext.substring(0, options.maxLength) + 
+        '\n\n[Context truncated due to length constraints]';
+    }
+    
+    return combinedContext;
+  }
+
+  /**
+   * Generate context for LLM based on specified context types, by prompt section
+   * Used to fit the context into a token budget along with the rest of a prompt.
+   */
+  async generateContextSections(contextTypes: ContextType[], options: ContextOptions = {}): Promise<ContextSections> {
     await this.ensureInitialized();
     
-    const contextParts: string[] = [];
+    const sections: ContextSections = {};
+    const add = (section: keyof ContextSections, context: string) => {
+      sections[section] = sections[section] ? `${sections[section]}\n\n${context}` : context;
+    };
 
     // Add requested context types
     for (const contextType of contextTypes) {
       switch (contextType) {
         case ContextType.SCHEMA:
-          contextParts.push(await this.getSchemaContext(options.tableOrDomain));
+          add('schema', await this.getSchemaContext(options.tableOrDomain));
           break;
         case ContextType.PATTERNS:
-          contextParts.push(await this.getPatternContext(options.patternName));
+          add('patterns', await this.getPatternContext(options.patternName));
           break;
         case ContextType.ID_RELATIONSHIP:
-          contextParts.push(await this.getIdRelationshipContext(options.entityType));
+          add('patterns', await this.getIdRelationshipContext(options.entityType));
           break;
         // Additional context types can be added here
       }
     }
-
-    // Combine all context parts
-    let combinedContext = contextParts.join('\n\n');
-    
-    // Truncate if necessary
-    if (options.maxLength && combinedContext.length > options.maxLength) {
-      combinedContext = combinedContext.substring(0, options.maxLength) + 
-        '\n\n[Context truncated due to length constraints]';
-    }
     
-    return combinedContext;
+    return sections;
   }
 
   /**
@@ -1,19 +1,31 @@
 /**
- * OpenRouter LLM Client for the LLM Sandwich Architecture
+ * LLM Client for the LLM Sandwich Architecture
  * 
- * This module provides a wrapper around the OpenRouter API to interact with
- * large language models. It handles token management, context tracking,
- * and retry logic.
+ * This module provides the client the layers use to interact with large
+ * language models. Requests are handed to a provider: OpenRouter by default,
+ * or a record/replay or scripted mock provider so the layers can run
+ * deterministically without network. The provider is chosen by configuration
+ * and only created on the first request, so importing the client requires
+ * no credentials. Completions can also be streamed, cancelled and limited by
+ * a timeout, or requested as JSON validated against a schema. The tokens and
+ * cost of every request are accounted for by a usage tracker, which can cap
+ * the spend of users and domains. Deterministic requests can be answered
+ * from a response cache.
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import * as dotenv from 'dotenv';
+import { ZodType } from 'zod';
+import { OpenRouterProvider } from './providers/openrouter-provider.js';
+import { CassetteMode, RecordReplayProvider } from './providers/record-replay-provider.js';
+import { ScriptedMockProvider } from './providers/scripted-mock-provider.js';
+import { createRequestSignal, LLMStream, LLMStreamChunk, whenAborted } from './llm-stream.js';
+import { requestStructured, StructuredRequestOptions, StructuredResult } from './structured-output.js';
+import { countMessageTokens, countTokens } from './token-counter.js';
+import { UsageContext, UsageTracker, usageTracker } from './usage-tracker.js';
+import { LLMResponseCache, responseCache } from './response-cache.js';
 
 dotenv.config();
 
-const MAX_RETRIES = 3;
-const RETRY_DELAY_MS = 1000;
-
 export interface LLMRequestOptions {
   model?: string;
   temperature?: number;
@@ -21,7 +33,39 @@ export interface LLMRequestOptions {
   topP?: number;
   stopSequences?: string[];
   systemPrompt?: string;
+  
+  /**
+   * @deprecated Usage is always reported now
+   */
   includeUsage?: boolean;
+  
+  /**
+   * Ask the model for a JSON response, where the provider supports it
+   */
+  responseFormat?: 'text' | 'json';
+  
+  /**
+   * Cancels the request when aborted
+   */
+  signal?: AbortSignal;
+  
+  /**
+   * Fails the request when it takes longer, in milliseconds
+   * For streams this covers the whole stream, not just the first chunk.
+   */
+  timeoutMs?: number;
+  
+  /**
+   * Who the request is made for, to attribute its spend and apply spend caps
+   */
+  accounting?: UsageContext;
+  
+  /**
+   * Answer the request from the response cache if an identical request was
+   * answered before, and cache the response otherwise
+   * Meant for deterministic requests (low temperature); streams are not cached.
+   */
+  cache?: boolean;
 }
 
 export interface LLMCompletionRequest {
@@ -32,14 +76,26 @@ export interface LLMCompletionRequest {
   }>;
 }
 
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  
+  /**
+   * Whether the tokens were estimated because the provider did not report them
+   */
+  estimated?: boolean;
+}
+
 export interface LLMResponse {
   content: string;
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: LLMUsage;
   modelUsed: string;
+  
+  /**
+   * Whether the response came from the response cache, costing no tokens
+   */
+  cached?: boolean;
 }
 
 export interface ErrorResponse {
@@ -48,122 +104,346 @@ export interface ErrorResponse {
 }
 
 /**
- * LLM Client for making requests to OpenRouter API
+ * A source of completions for the LLM client
+ */
+export interface LLMProvider {
+  readonly name: string;
+  
+  /**
+   * Model used when the options name none, for estimating the cost of requests
+   */
+  readonly defaultModel?: string;
+  complete(request: LLMCompletionRequest, options: LLMRequestOptions): Promise<LLMResponse>;
+  
+  /**
+   * Stream a completion, stopping once options.signal aborts
+   * Providers without it stream their blocking completion as a single chunk.
+   */
+  stream?(request: LLMCompletionRequest, options: LLMRequestOptions): AsyncIterable<LLMStreamChunk>;
+}
+
+/**
+ * Kinds of providers that can be selected by configuration
+ * - openrouter: the OpenRouter API
+ * - cassette: responses recorded in cassette files (see RecordReplayProvider)
+ * - mock: a scripted mock provider with an empty script
+ */
+export type LLMProviderType = 'openrouter' | 'cassette' | 'mock';
+
+/**
+ * Configuration selecting a provider
+ * Unset values are read from the environment (LLM_PROVIDER,
+ * LLM_CASSETTE_DIR and LLM_CASSETTE_MODE)
+ */
+export interface LLMProviderConfig {
+  type?: LLMProviderType;
+  cassetteDir?: string;
+  cassetteMode?: CassetteMode;
+}
+
+/**
+ * Create the provider selected by configuration
+ * Cassettes are recorded from OpenRouter.
+ */
+export function createLLMProvider(config: LLMProviderConfig = {}): LLMProvider {
+  const type = config.type || (process.env.LLM_PROVIDER as LLMProviderType) || 'openrouter';
+  
+  switch (type) {
+    case 'openrouter':
+      return new OpenRouterProvider();
+    case 'cassette':
+      return new RecordReplayProvider({
+        cassetteDir: config.cassetteDir || process.env.LLM_CASSETTE_DIR || 'cassettes',
+        mode: config.cassetteMode || (process.env.LLM_CASSETTE_MODE as CassetteMode) || 'replay',
+        provider: new OpenRouterProvider()
+      });
+    case 'mock':
+      return new ScriptedMockProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${type}. Use openrouter, cassette or mock.`);
+  }
+}
+
+/**
+ * LLM Client making requests through a provider
  */
 export class LLMClient {
-  private apiKey: string;
-  private defaultModel: string;
-  private fallbackModel: string;
-  private axiosInstance: AxiosInstance;
-
-  constructor() {
-    this.apiKey = process.env.OPENROUTER_API_KEY || '';
-    this.defaultModel = process.env.OPENROUTER_DEFAULT_MODEL || 'anthropic/claude-3-opus-20240229';
-    this.fallbackModel = process.env.OPENROUTER_FALLBACK_MODEL || 'anthropic/claude-3-sonnet-20240229';
-
-    if (!this.apiKey) {
-      throw new Error('Missing OpenRouter API key. Set OPENROUTER_API_KEY in .env file.');
-    }
+  private provider?: LLMProvider;
+  private providerConfig: LLMProviderConfig;
+  private usageTracker: UsageTracker = usageTracker;
+  private responseCache: LLMResponseCache = responseCache;
 
-    this.axiosInstance = axios.create({
-      baseURL: 'https://openrouter.ai/api/v1',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.apiKey}`,
-        'HTTP-Referer': 'https://instabids.com', // Replace with actual domain
-        'X-Title': 'InstaBids LLM Sandwich Architecture',
-      },
-    });
+  /**
+   * @param provider Provider to use, or the configuration selecting it
+   */
+  constructor(provider: LLMProvider | LLMProviderConfig = {}) {
+    if (isProvider(provider)) {
+      this.provider = provider;
+      this.providerConfig = {};
+    } else {
+      this.providerConfig = provider;
+    }
   }
 
   /**
    * Make a completion request to the LLM
+   * The response always has its usage, estimated if the provider does not report it.
    */
   async complete(
     request: LLMCompletionRequest,
     options: LLMRequestOptions = {}
   ): Promise<LLMResponse> {
-    const model = options.model || this.defaultModel;
+    const provider = this.getProvider();
+    const { accounting, cache, ...providerOptions } = options;
+    const fullRequest = withSystemPrompt(request, options);
+    const model = options.model || provider.defaultModel || '';
+    const cacheKey = cache ? this.responseCache.createKey(fullRequest, model, options) : undefined;
+    const cached = cacheKey ? this.responseCache.get(cacheKey) : undefined;
+    
+    if (cached) {
+      return { ...cached, cached: true };
+    }
+    
+    const promptTokens = countMessageTokens(fullRequest.messages, model);
     
-    const requestConfig: AxiosRequestConfig = {
-      data: {
-        model,
-        messages: request.messages,
-        temperature: options.temperature ?? 0.3,
-        max_tokens: options.maxTokens,
-        top_p: options.topP,
-        stop: options.stopSequences,
+    this.checkCaps(accounting, model, promptTokens, options.maxTokens);
+    
+    const requestSignal = createRequestSignal(options.signal, options.timeoutMs);
+    
+    try {
+      // Stop waiting once aborted, even if the provider ignores the signal
+      const response = await Promise.race([
+        provider.complete(fullRequest, { ...providerOptions, signal: requestSignal.signal }),
+        whenAborted(requestSignal.signal)
+      ]);
+      const usage = response.usage || estimateUsage(promptTokens, response.content, response.modelUsed || model);
+      
+      this.usageTracker.record(accounting, response.modelUsed || model, usage);
+      
+      if (cacheKey) {
+        this.responseCache.set(cacheKey, { ...response, usage });
       }
-    };
-
-    // Add system prompt if provided and not already in messages
-    if (options.systemPrompt && !request.messages.some(m => m.role === 'system')) {
-      requestConfig.data.messages.unshift({
-        role: 'system',
-        content: options.systemPrompt
-      });
+      
+      return { ...response, usage };
+    } catch (error) {
+      throw requestSignal.signal.aborted ? requestSignal.signal.reason : error;
+    } finally {
+      requestSignal.dispose();
     }
-
-    return this.makeRequestWithRetry('/chat/completions', requestConfig, options);
   }
 
   /**
-   * Make a request to OpenRouter with retry logic
+   * Stream a completion from the LLM
+   * The request is only made once the stream is iterated.
+   * 
+   * ```typescript
+   * const stream = llmClient.stream(request, { signal, timeoutMs: 60000 });
+   * 
+   * for await (const chunk of stream) {
+   *   process.stdout.write(chunk.delta);
+   * }
+   * ```
    */
-  private async makeRequestWithRetry(
-    endpoint: string,
-    config: AxiosRequestConfig,
-    options: LLMRequestOptions
-  ): Promise<LLMResponse> {
-    let lastError: any;
-    let useFallback = false;
-
-    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-      try {
-        // Use fallback model on retry
-        if (useFallback && !options.model) {
-          console.log(`Using fallback model: ${this.fallbackModel}`);
-          config.data.model = this.fallbackModel;
-        }
-
-        const response = await this.axiosInstance.post(endpoint, config.data);
-        
-        const completion = response.data.choices[0]?.message?.content || '';
-        
-        // Extract token usage if requested
-        let usage = undefined;
-        if (options.includeUsage && response.data.usage) {
-          usage = {
-            promptTokens: response.data.usage.prompt_tokens,
-            completionTokens: response.data.usage.completion_tokens,
-            totalTokens: response.data.usage.total_tokens
-          };
+  stream(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): LLMStream {
+    const provider = this.getProvider();
+    const { accounting, cache: _cache, ...providerOptions } = options;
+    const fullRequest = withSystemPrompt(request, options);
+    const model = options.model || provider.defaultModel || '';
+    const promptTokens = countMessageTokens(fullRequest.messages, model);
+    
+    return new LLMStream(signal => {
+      this.checkCaps(accounting, model, promptTokens, options.maxTokens);
+      
+      const streamOptions = { ...providerOptions, signal };
+      
+      return provider.stream
+        ? provider.stream(fullRequest, streamOptions)
+        : completionAsStream(provider, fullRequest, streamOptions);
+    }, {
+      ...options,
+      estimateUsage: (content, modelUsed) => estimateUsage(promptTokens, content, modelUsed || model),
+      onEnd: stream => {
+        // Requests failing before any content (e.g. rejected by a cap) spent nothing
+        if (stream.content || stream.status === 'completed') {
+          this.usageTracker.record(accounting, stream.modelUsed || model, stream.usage);
         }
+      }
+    });
+  }
 
-        return {
-          content: completion,
-          usage,
-          modelUsed: response.data.model
-        };
-      } catch (error: any) {
-        lastError = error;
-        console.error(`LLM request failed (attempt ${attempt + 1}/${MAX_RETRIES}):`, error.message);
+  /**
+   * Request JSON matching a schema
+   * The JSON is extracted from the response (code fences, surrounding prose)
+   * and repaired if needed; responses that still do not match the schema are
+   * retried with the problem fed back to the model. With the cache option,
+   * only responses matching the schema are cached.
+   * 
+   * ```typescript
+   * const result = await llmClient.completeStructured(request, z.object({ valid: z.boolean() }));
+   * 
+   * if (result.success) {
+   *   console.log(result.data.valid);
+   * } else {
+   *   console.error(result.reason, result.error);
+   * }
+   * ```
+   */
+  async completeStructured<T>(
+    request: LLMCompletionRequest,
+    schema: ZodType<T, any, any>,
+    options: StructuredRequestOptions = {}
+  ): Promise<StructuredResult<T>> {
+    let cacheKey: string | undefined;
+    
+    const result = await requestStructured<T>(async (attemptRequest, attemptOptions) => {
+      const { maxRetries: _maxRetries, onProgress, cache, ...requestOptions } = attemptOptions;
+      
+      // Retries answer other requests (with feedback); only the first attempt is cached
+      if (cache && !cacheKey) {
+        const model = requestOptions.model || this.getProvider().defaultModel || '';
+        cacheKey = this.responseCache.createKey(attemptRequest, model, requestOptions);
         
-        // If model is overloaded or unavailable, try fallback
-        if (error.response?.status === 503 || error.response?.status === 429) {
-          useFallback = true;
-        }
+        const cached = this.responseCache.get(cacheKey);
         
-        // Wait before retrying
-        if (attempt < MAX_RETRIES - 1) {
-          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * (attempt + 1)));
+        if (cached) {
+          return { ...cached, cached: true };
         }
       }
+      
+      if (!onProgress) {
+        return this.complete(attemptRequest, requestOptions);
+      }
+      
+      const stream = this.stream(attemptRequest, requestOptions);
+      
+      for await (const chunk of stream) {
+        onProgress(chunk, stream.content);
+      }
+      
+      return { content: stream.content, usage: stream.usage, modelUsed: stream.modelUsed };
+    }, withSystemPrompt(request, options), schema, options);
+    
+    if (cacheKey && result.success && !result.response.cached) {
+      this.responseCache.set(cacheKey, result.response);
+    }
+    
+    return result;
+  }
+
+  /**
+   * Get the provider requests are made through, creating it on first use
+   */
+  getProvider(): LLMProvider {
+    if (!this.provider) {
+      this.provider = createLLMProvider(this.providerConfig);
     }
+    
+    return this.provider;
+  }
+
+  /**
+   * Replace the provider, e.g. with a scripted mock in tests
+   */
+  setProvider(provider: LLMProvider): void {
+    this.provider = provider;
+  }
+  
+  /**
+   * Get the tracker the usage of requests is recorded in
+   */
+  getUsageTracker(): UsageTracker {
+    return this.usageTracker;
+  }
+  
+  /**
+   * Record usage in another tracker, e.g. one with its own caps
+   */
+  setUsageTracker(tracker: UsageTracker): void {
+    this.usageTracker = tracker;
+  }
+  
+  /**
+   * Get the cache responses are served from
+   */
+  getResponseCache(): LLMResponseCache {
+    return this.responseCache;
+  }
+  
+  /**
+   * Serve responses from another cache, e.g. one with its own size and TTL
+   */
+  setResponseCache(cache: LLMResponseCache): void {
+    this.responseCache = cache;
+  }
+  
+  /**
+   * Check that a request stays within the spend caps, assuming it uses all its completion tokens
+   * Without maxTokens only the prompt is checked.
+   */
+  private checkCaps(accounting: UsageContext | undefined, model: string, promptTokens: number, maxTokens?: number): void {
+    const completionTokens = maxTokens || 0;
+    
+    this.usageTracker.checkCaps(accounting, model, {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens
+    });
+  }
+}
 
-    // If all attempts failed, throw the last error
-    throw new Error(`Failed to get completion after ${MAX_RETRIES} attempts: ${lastError.message}`);
+/**
+ * Add the system prompt of the options if provided and not already in the messages
+ */
+function withSystemPrompt(request: LLMCompletionRequest, options: LLMRequestOptions): LLMCompletionRequest {
+  if (!options.systemPrompt || request.messages.some(m => m.role === 'system')) {
+    return request;
   }
+  
+  return {
+    ...request,
+    messages: [{ role: 'system', content: options.systemPrompt }, ...request.messages]
+  };
+}
+
+/**
+ * Estimate the usage of a request the provider reported none for
+ */
+function estimateUsage(promptTokens: number, content: string, model: string): LLMUsage {
+  const completionTokens = countTokens(content, model);
+  
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true
+  };
+}
+
+/**
+ * Stream the blocking completion of a provider without streaming support
+ */
+async function* completionAsStream(
+  provider: LLMProvider,
+  request: LLMCompletionRequest,
+  options: LLMRequestOptions
+): AsyncGenerator<LLMStreamChunk> {
+  const response = await provider.complete(request, options);
+  
+  yield {
+    delta: response.content,
+    usage: response.usage,
+    modelUsed: response.modelUsed
+  };
+}
+
+/**
+ * Check whether a constructor argument is a provider rather than its configuration
+ */
+function isProvider(value: LLMProvider | LLMProviderConfig): value is LLMProvider {
+  return typeof (value as LLMProvider).complete === 'function';
 }
 
 /**
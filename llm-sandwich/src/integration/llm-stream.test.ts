@@ -0,0 +1,124 @@
+import { getEventListeners } from 'events';
+import { LLMStream, LLMStreamChunk, createRequestSignal } from './llm-stream.js';
+
+/**
+ * Source yielding the given deltas, then waiting until aborted
+ */
+function sourceOf(deltas: string[], hang: boolean = false) {
+  return async function* (signal: AbortSignal): AsyncIterable<LLMStreamChunk> {
+    for (const delta of deltas) {
+      yield { delta, modelUsed: 'model' };
+    }
+    
+    if (hang) {
+      await new Promise(resolve => signal.addEventListener('abort', resolve, { once: true }));
+    }
+  };
+}
+
+/**
+ * Read a stream, returning the deltas received and the error it ended with
+ */
+async function read(stream: LLMStream): Promise<{ deltas: string[]; error?: Error }> {
+  const deltas: string[] = [];
+  
+  try {
+    for await (const chunk of stream) {
+      deltas.push(chunk.delta);
+    }
+  } catch (error: any) {
+    return { deltas, error };
+  }
+  
+  return { deltas };
+}
+
+describe('LLMStream', () => {
+  it('yields the chunks and keeps the content and usage', async () => {
+    const stream = new LLMStream(sourceOf(['Hel', 'lo']));
+    
+    expect(await read(stream)).toEqual({ deltas: ['Hel', 'lo'] });
+    expect(stream.status).toBe('completed');
+    expect(stream.content).toBe('Hello');
+    expect(stream.usage).toMatchObject({ completionTokens: 2, estimated: true });
+  });
+  
+  it('stops with the reason of the caller\'s signal, keeping what it received', async () => {
+    const controller = new AbortController();
+    const stream = new LLMStream(async function* (signal) {
+      yield { delta: 'Partial' };
+      controller.abort(new Error('User left'));
+      await new Promise(resolve => signal.addEventListener('abort', resolve, { once: true }));
+    }, { signal: controller.signal });
+    
+    const { deltas, error } = await read(stream);
+    
+    expect(deltas).toEqual(['Partial']);
+    expect(error?.message).toBe('User left');
+    expect(stream.status).toBe('aborted');
+    expect(stream.content).toBe('Partial');
+  });
+  
+  it('times out a stream that stops producing chunks', async () => {
+    const stream = new LLMStream(sourceOf(['Slow'], true), { timeoutMs: 20 });
+    
+    const { error } = await read(stream);
+    
+    expect(error?.message).toBe('LLM request timed out after 20ms');
+    expect(stream.status).toBe('aborted');
+  });
+  
+  it('starts the timeout and listens to the caller\'s signal only once iterated', async () => {
+    const controller = new AbortController();
+    const stream = new LLMStream(sourceOf(['Hello']), { signal: controller.signal, timeoutMs: 20 });
+    
+    await new Promise(resolve => setTimeout(resolve, 40));
+    
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+    expect(await read(stream)).toEqual({ deltas: ['Hello'] });
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+  
+  it('ends a stream cancelled before it is iterated without calling the source', async () => {
+    const ended: string[] = [];
+    let called = false;
+    const stream = new LLMStream(signal => {
+      called = true;
+      return sourceOf(['Hello'])(signal);
+    }, { onEnd: endedStream => ended.push(endedStream.status) });
+    
+    stream.cancel(new Error('Not needed'));
+    
+    expect(ended).toEqual(['aborted']);
+    expect((await read(stream)).error?.message).toBe('Not needed');
+    expect(called).toBe(false);
+  });
+  
+  it('aborts the source when the loop reading it breaks early', async () => {
+    let sourceSignal: AbortSignal | undefined;
+    const stream = new LLMStream(signal => {
+      sourceSignal = signal;
+      return sourceOf(['One', 'Two'], true)(signal);
+    });
+    
+    for await (const _chunk of stream) {
+      break;
+    }
+    
+    expect(sourceSignal?.aborted).toBe(true);
+    expect(stream.status).toBe('aborted');
+    expect(stream.content).toBe('One');
+  });
+});
+
+describe('createRequestSignal', () => {
+  it('keeps the caller\'s reason but replaces a generic abort', () => {
+    const controller = new AbortController();
+    const request = createRequestSignal(controller.signal);
+    
+    controller.abort();
+    
+    expect(request.signal.reason.message).toBe('LLM request cancelled');
+    request.dispose();
+  });
+});
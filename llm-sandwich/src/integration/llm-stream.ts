@@ -0,0 +1,313 @@
+/**
+ * LLM Streams for the LLM Sandwich Architecture
+ * 
+ * A stream yields the content of a completion as the model produces it, so
+ * long-running LLM work (such as ranking many bids) can report progress.
+ * Streams and blocking completions can be cancelled with an AbortSignal or
+ * limited by a timeout; a stream that ends early keeps the content and the
+ * token usage it accumulated so far.
+ */
+
+import { LLMResponse, LLMUsage } from './llm-client.js';
+
+/**
+ * A piece of a streamed completion
+ */
+export interface LLMStreamChunk {
+  /**
+   * Content added by this chunk
+   */
+  delta: string;
+  
+  /**
+   * Token usage, when the provider reports it (usually with the last chunk)
+   */
+  usage?: LLMUsage;
+  modelUsed?: string;
+}
+
+/**
+ * Where a stream is at
+ * - pending: not iterated yet
+ * - streaming: being iterated
+ * - completed: the model finished the completion
+ * - aborted: cancelled or timed out before the completion finished
+ * - failed: the provider failed
+ */
+export type LLMStreamStatus = 'pending' | 'streaming' | 'completed' | 'aborted' | 'failed';
+
+/**
+ * Produces the chunks of a completion, stopping once the signal aborts
+ */
+export type LLMStreamSource = (signal: AbortSignal) => AsyncIterable<LLMStreamChunk>;
+
+/**
+ * Options of a stream
+ */
+export interface LLMStreamOptions {
+  signal?: AbortSignal;
+  
+  /**
+   * Timeout in milliseconds, running from when the stream is first iterated
+   */
+  timeoutMs?: number;
+  
+  /**
+   * Estimates the usage until the provider reports it
+   */
+  estimateUsage?: (content: string, modelUsed: string) => LLMUsage;
+  
+  /**
+   * Called once the stream ended, whether it completed, was aborted or failed
+   */
+  onEnd?: (stream: LLMStream) => void;
+}
+
+/**
+ * An AbortSignal combining a caller's signal with a timeout
+ */
+export interface RequestSignal {
+  signal: AbortSignal;
+  
+  /**
+   * Abort the request
+   */
+  abort(reason: Error): void;
+  
+  /**
+   * Stop listening to the caller's signal and clear the timeout
+   */
+  dispose(): void;
+}
+
+/**
+ * Create the signal of a request, aborted when the caller's signal aborts
+ * or the timeout elapses
+ * The signal's reason is always an Error saying why the request stopped.
+ * 
+ * @param signal Caller's signal
+ * @param timeoutMs Timeout in milliseconds (none when unset or 0)
+ * @returns The request signal
+ */
+export function createRequestSignal(signal?: AbortSignal, timeoutMs?: number): RequestSignal {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  
+  // Keep a reason given by the caller, but not the generic AbortError of abort()
+  const onAbort = () => controller.abort(
+    signal?.reason instanceof Error && signal.reason.name !== 'AbortError'
+      ? signal.reason
+      : new Error('LLM request cancelled')
+  );
+  
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  
+  if (timeoutMs && timeoutMs > 0 && !controller.signal.aborted) {
+    timer = setTimeout(() => controller.abort(new Error(`LLM request timed out after ${timeoutMs}ms`)), timeoutMs);
+  }
+  
+  return {
+    signal: controller.signal,
+    abort: reason => controller.abort(reason),
+    dispose: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+/**
+ * Create a promise rejecting with the signal's reason once it aborts
+ * Racing work against it stops waiting for work that ignores the signal.
+ */
+export function whenAborted(signal: AbortSignal): Promise<never> {
+  const aborted = new Promise<never>((_resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+    } else {
+      signal.addEventListener('abort', () => reject(signal.reason), { once: true });
+    }
+  });
+  
+  // Nobody may be racing against it when the signal aborts
+  aborted.catch(() => undefined);
+  
+  return aborted;
+}
+
+/**
+ * A streamed completion
+ * Iterate it once to receive the chunks; the content, usage and status are
+ * kept up to date while it is iterated and remain available once it ends.
+ */
+export class LLMStream implements AsyncIterable<LLMStreamChunk> {
+  /**
+   * Signal of the request, created once the stream is iterated so that a
+   * stream nobody iterates holds no timer or listener
+   */
+  private requestSignal?: RequestSignal;
+  
+  /**
+   * Why the stream was cancelled before it was iterated, if it was
+   */
+  private cancelled?: Error;
+  private started = false;
+  private reportedUsage?: LLMUsage;
+  private deltas = 0;
+  private options: LLMStreamOptions;
+  
+  content = '';
+  modelUsed = '';
+  status: LLMStreamStatus = 'pending';
+  
+  /**
+   * Why the stream ended early, when it did
+   */
+  error?: Error;
+  
+  /**
+   * @param source Produces the chunks
+   * @param options Caller's signal and timeout, and how usage is estimated and reported
+   */
+  constructor(
+    private source: LLMStreamSource,
+    options: LLMStreamOptions = {}
+  ) {
+    this.options = options;
+  }
+  
+  /**
+   * Token usage so far
+   * Until the provider reports usage it is estimated; without an estimator,
+   * completion tokens are the number of chunks received and prompt tokens
+   * are unknown (0).
+   */
+  get usage(): LLMUsage {
+    if (this.reportedUsage) {
+      return this.reportedUsage;
+    }
+    
+    if (this.options.estimateUsage) {
+      return this.options.estimateUsage(this.content, this.modelUsed);
+    }
+    
+    return {
+      promptTokens: 0,
+      completionTokens: this.deltas,
+      totalTokens: this.deltas,
+      estimated: true
+    };
+  }
+  
+  /**
+   * Cancel the stream; iterating it fails with the given reason
+   * A stream cancelled before it is iterated ends right away, without a request.
+   */
+  cancel(reason: Error = new Error('LLM stream cancelled')): void {
+    if (this.requestSignal) {
+      this.requestSignal.abort(reason);
+      return;
+    }
+    
+    if (!this.started && !this.cancelled) {
+      this.cancelled = reason;
+      this.status = 'aborted';
+      this.error = reason;
+      this.options.onEnd?.(this);
+    }
+  }
+  
+  async *[Symbol.asyncIterator](): AsyncIterator<LLMStreamChunk> {
+    if (this.started) {
+      throw new Error('An LLM stream can only be iterated once');
+    }
+    
+    this.started = true;
+    
+    if (this.cancelled) {
+      throw this.cancelled;
+    }
+    
+    this.status = 'streaming';
+    
+    const requestSignal = createRequestSignal(this.options.signal, this.options.timeoutMs);
+    const signal = requestSignal.signal;
+    this.requestSignal = requestSignal;
+    const aborted = whenAborted(signal);
+    let iterator: AsyncIterator<LLMStreamChunk> | undefined;
+    
+    try {
+      iterator = this.source(signal)[Symbol.asyncIterator]();
+      
+      while (true) {
+        const result = await Promise.race([iterator.next(), aborted]);
+        
+        if (result.done) {
+          break;
+        }
+        
+        this.record(result.value);
+        yield result.value;
+      }
+      
+      this.status = 'completed';
+    } catch (error: any) {
+      this.status = signal.aborted ? 'aborted' : 'failed';
+      this.error = signal.aborted ? signal.reason : error;
+      throw this.error;
+    } finally {
+      // Stopped early, e.g. by breaking out of a for await loop
+      if (this.status === 'streaming') {
+        this.cancel();
+        this.status = 'aborted';
+        this.error = signal.reason;
+      }
+      
+      if (signal.aborted) {
+        iterator?.return?.().catch(() => undefined);
+      }
+      
+      requestSignal.dispose();
+      this.options.onEnd?.(this);
+    }
+  }
+  
+  /**
+   * Read the rest of the stream
+   * 
+   * @returns The complete response
+   */
+  async toResponse(): Promise<LLMResponse> {
+    for await (const _chunk of this) {
+      // Chunks are recorded while iterating
+    }
+    
+    return {
+      content: this.content,
+      usage: this.usage,
+      modelUsed: this.modelUsed
+    };
+  }
+  
+  /**
+   * Account for a received chunk
+   */
+  private record(chunk: LLMStreamChunk): void {
+    if (chunk.delta) {
+      this.content += chunk.delta;
+      this.deltas++;
+    }
+    
+    if (chunk.usage) {
+      this.reportedUsage = chunk.usage;
+    }
+    
+    if (chunk.modelUsed) {
+      this.modelUsed = chunk.modelUsed;
+    }
+  }
+}
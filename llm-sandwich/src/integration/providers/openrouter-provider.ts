@@ -0,0 +1,222 @@
+/**
+ * OpenRouter Provider for the LLM Client
+ * 
+ * Sends completion requests to the OpenRouter API, retrying failed requests
+ * and switching to a fallback model when the requested one is overloaded.
+ * Completions can also be streamed as server-sent events.
+ * The API key is only required once a request is made, so the provider can
+ * be created (and the package imported) without credentials.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { LLMCompletionRequest, LLMProvider, LLMRequestOptions, LLMResponse, LLMUsage } from '../llm-client.js';
+import { LLMStreamChunk } from '../llm-stream.js';
+
+const MAX_RETRIES = 3;
+const RETRY_DELAY_MS = 1000;
+
+/**
+ * Configuration for the OpenRouter provider
+ * Unset values are read from the environment
+ */
+export interface OpenRouterProviderConfig {
+  apiKey?: string;
+  defaultModel?: string;
+  fallbackModel?: string;
+  baseURL?: string;
+}
+
+/**
+ * LLM provider making requests to the OpenRouter API
+ */
+export class OpenRouterProvider implements LLMProvider {
+  readonly name = 'openrouter';
+  private apiKey: string;
+  readonly defaultModel: string;
+  private fallbackModel: string;
+  private axiosInstance: AxiosInstance;
+
+  constructor(config: OpenRouterProviderConfig = {}) {
+    this.apiKey = config.apiKey || process.env.OPENROUTER_API_KEY || '';
+    this.defaultModel = config.defaultModel || process.env.OPENROUTER_DEFAULT_MODEL || 'anthropic/claude-3-opus-20240229';
+    this.fallbackModel = config.fallbackModel || process.env.OPENROUTER_FALLBACK_MODEL || 'anthropic/claude-3-sonnet-20240229';
+
+    this.axiosInstance = axios.create({
+      baseURL: config.baseURL || 'https://openrouter.ai/api/v1',
+      headers: {
+        'Content-Type': 'application/json',
+        'HTTP-Referer': 'https://instabids.com', // Replace with actual domain
+        'X-Title': 'InstaBids LLM Sandwich Architecture',
+      },
+    });
+  }
+
+  /**
+   * Make a completion request to OpenRouter
+   */
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    this.checkApiKey();
+
+    return this.makeRequestWithRetry('/chat/completions', this.createRequestData(request, options), options);
+  }
+
+  /**
+   * Stream a completion from OpenRouter
+   * Streams are not retried: a retry would repeat the content already streamed.
+   */
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    this.checkApiKey();
+
+    const response = await this.axiosInstance.post('/chat/completions', {
+      ...this.createRequestData(request, options),
+      stream: true,
+      usage: { include: true }
+    }, {
+      headers: { 'Authorization': `Bearer ${this.apiKey}` },
+      responseType: 'stream',
+      signal: options.signal
+    });
+
+    for await (const data of readServerSentEvents(response.data)) {
+      if (data === '[DONE]') {
+        return;
+      }
+
+      const event = JSON.parse(data);
+
+      if (event.error) {
+        throw new Error(`LLM stream failed: ${event.error.message || JSON.stringify(event.error)}`);
+      }
+
+      const delta = event.choices?.[0]?.delta?.content || '';
+      const usage = event.usage ? mapUsage(event.usage) : undefined;
+
+      if (delta || usage) {
+        yield { delta, usage, modelUsed: event.model };
+      }
+    }
+  }
+
+  /**
+   * Fail requests made without an API key
+   */
+  private checkApiKey(): void {
+    if (!this.apiKey) {
+      throw new Error('Missing OpenRouter API key. Set OPENROUTER_API_KEY in .env file.');
+    }
+  }
+
+  /**
+   * Create the body of a chat completion request
+   */
+  private createRequestData(request: LLMCompletionRequest, options: LLMRequestOptions): Record<string, any> {
+    return {
+      model: options.model || this.defaultModel,
+      messages: request.messages,
+      temperature: options.temperature ?? 0.3,
+      max_tokens: options.maxTokens,
+      top_p: options.topP,
+      stop: options.stopSequences,
+      response_format: options.responseFormat === 'json' ? { type: 'json_object' } : undefined,
+    };
+  }
+
+  /**
+   * Make a request to OpenRouter with retry logic
+   */
+  private async makeRequestWithRetry(
+    endpoint: string,
+    data: Record<string, any>,
+    options: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    let lastError: any;
+    let useFallback = false;
+
+    for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
+      try {
+        // Use fallback model on retry
+        if (useFallback && !options.model) {
+          console.log(`Using fallback model: ${this.fallbackModel}`);
+          data.model = this.fallbackModel;
+        }
+
+        const response = await this.axiosInstance.post(endpoint, data, {
+          headers: { 'Authorization': `Bearer ${this.apiKey}` },
+          signal: options.signal
+        });
+        
+        const completion = response.data.choices[0]?.message?.content || '';
+        
+        // Extract token usage
+        const usage = response.data.usage ? mapUsage(response.data.usage) : undefined;
+
+        return {
+          content: completion,
+          usage,
+          modelUsed: response.data.model
+        };
+      } catch (error: any) {
+        // Cancelled requests are not retried
+        if (options.signal?.aborted) {
+          throw error;
+        }
+
+        lastError = error;
+        console.error(`LLM request failed (attempt ${attempt + 1}/${MAX_RETRIES}):`, error.message);
+        
+        // If model is overloaded or unavailable, try fallback
+        if (error.response?.status === 503 || error.response?.status === 429) {
+          useFallback = true;
+        }
+        
+        // Wait before retrying
+        if (attempt < MAX_RETRIES - 1) {
+          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * (attempt + 1)));
+        }
+      }
+    }
+
+    // If all attempts failed, throw the last error
+    throw new Error(`Failed to get completion after ${MAX_RETRIES} attempts: ${lastError.message}`);
+  }
+}
+
+/**
+ * Map the token usage reported by OpenRouter
+ */
+function mapUsage(usage: any): LLMUsage {
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens
+  };
+}
+
+/**
+ * Read the data of the server-sent events in a response body
+ * Comments (such as OpenRouter's keep-alive ": OPENROUTER PROCESSING") are skipped.
+ */
+async function* readServerSentEvents(body: AsyncIterable<Uint8Array | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for await (const chunk of body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+
+      if (line.startsWith('data:')) {
+        yield line.slice('data:'.length).trim();
+      }
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LLMCompletionRequest, LLMProvider, LLMRequestOptions, LLMResponse } from '../llm-client.js';
+import { RecordReplayProvider, hashLLMRequest } from './record-replay-provider.js';
+
+const request: LLMCompletionRequest = {
+  messages: [{ role: 'user', content: 'Is a bid of $2,500 reasonable?' }]
+};
+
+/**
+ * Provider answering every request with a numbered response
+ */
+class CountingProvider implements LLMProvider {
+  readonly name = 'counting';
+  calls = 0;
+  
+  async complete(_request: LLMCompletionRequest, _options: LLMRequestOptions): Promise<LLMResponse> {
+    this.calls++;
+    return { content: `Response ${this.calls}`, modelUsed: 'model' };
+  }
+}
+
+describe('hashLLMRequest', () => {
+  it('does not depend on the order of option keys', () => {
+    expect(hashLLMRequest(request, { temperature: 0.1, maxTokens: 100 }))
+      .toBe(hashLLMRequest(request, { maxTokens: 100, temperature: 0.1 }));
+  });
+  
+  it('changes with the messages and the options that change the response', () => {
+    const key = hashLLMRequest(request, { model: 'model', temperature: 0.1 });
+    
+    expect(hashLLMRequest({ messages: [{ role: 'user', content: 'Is $3,000 reasonable?' }] }, { model: 'model', temperature: 0.1 })).not.toBe(key);
+    expect(hashLLMRequest(request, { model: 'other-model', temperature: 0.1 })).not.toBe(key);
+    expect(hashLLMRequest(request, { model: 'model', temperature: 0.1, systemPrompt: 'Be brief.' })).not.toBe(key);
+  });
+  
+  it('leaves out how the request is made', () => {
+    expect(hashLLMRequest(request, {
+      model: 'model',
+      signal: new AbortController().signal,
+      timeoutMs: 1000,
+      accounting: { layer: 'domain', userId: 'user-1' },
+      cache: true
+    })).toBe(hashLLMRequest(request, { model: 'model' }));
+  });
+});
+
+describe('RecordReplayProvider', () => {
+  let cassetteDir: string;
+  let recorded: CountingProvider;
+  
+  beforeEach(async () => {
+    cassetteDir = await fs.mkdtemp(path.join(os.tmpdir(), 'cassettes-'));
+    recorded = new CountingProvider();
+  });
+  
+  afterEach(async () => {
+    await fs.rm(cassetteDir, { recursive: true, force: true });
+  });
+  
+  it('records missing cassettes in auto mode and replays them after', async () => {
+    const provider = new RecordReplayProvider({ cassetteDir, mode: 'auto', provider: recorded });
+    
+    const first = await provider.complete(request, { temperature: 0 });
+    const second = await provider.complete(request, { temperature: 0, timeoutMs: 500 });
+    
+    expect(first.content).toBe('Response 1');
+    expect(second.content).toBe('Response 1');
+    expect(recorded.calls).toBe(1);
+  });
+  
+  it('replays recordings without the provider they were recorded from', async () => {
+    await new RecordReplayProvider({ cassetteDir, mode: 'record', provider: recorded }).complete(request);
+    const replaying = new RecordReplayProvider({ cassetteDir });
+    
+    expect((await replaying.complete(request)).content).toBe('Response 1');
+  });
+  
+  it('fails a request that was not recorded in replay mode', async () => {
+    const provider = new RecordReplayProvider({ cassetteDir, provider: recorded });
+    
+    await expect(provider.complete(request)).rejects.toThrow(/^No cassette for LLM request/);
+    expect(recorded.calls).toBe(0);
+  });
+  
+  it('records again in record mode', async () => {
+    const provider = new RecordReplayProvider({ cassetteDir, mode: 'record', provider: recorded });
+    
+    await provider.complete(request);
+    await provider.complete(request);
+    
+    const cassette = JSON.parse(await fs.readFile(provider.getCassettePath(hashLLMRequest(request)), 'utf-8'));
+    
+    expect(cassette.response.content).toBe('Response 2');
+  });
+  
+  it('replays a recorded stream as a single chunk', async () => {
+    await new RecordReplayProvider({ cassetteDir, mode: 'record', provider: recorded }).complete(request);
+    const chunks = [];
+    
+    for await (const chunk of new RecordReplayProvider({ cassetteDir }).stream(request)) {
+      chunks.push(chunk);
+    }
+    
+    expect(chunks).toEqual([{ delta: 'Response 1', modelUsed: 'model' }]);
+  });
+});
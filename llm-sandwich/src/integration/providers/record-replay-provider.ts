@@ -0,0 +1,289 @@
+/**
+ * Record/Replay Provider for the LLM Client
+ * 
+ * Stores the responses of another provider in cassette files and plays them
+ * back, so code calling the LLM runs deterministically and without network.
+ * Each cassette holds a single exchange and is named after a hash of the
+ * request's messages and options: the same request always replays the same
+ * response, and a changed prompt misses its cassette instead of silently
+ * replaying a stale answer. Streamed completions are recorded once the
+ * stream completes and replayed as a single chunk.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { LLMCompletionRequest, LLMProvider, LLMRequestOptions, LLMResponse } from '../llm-client.js';
+import { LLMStreamChunk } from '../llm-stream.js';
+
+/**
+ * How the provider uses its cassettes
+ * - replay: only play back cassettes; a missing cassette fails the request
+ * - record: always call the wrapped provider and (over)write the cassette
+ * - auto: play back cassettes, recording the missing ones
+ */
+export type CassetteMode = 'replay' | 'record' | 'auto';
+
+/**
+ * Configuration for the record/replay provider
+ */
+export interface RecordReplayProviderConfig {
+  /**
+   * Directory holding the cassette files
+   */
+  cassetteDir: string;
+  
+  /**
+   * How cassettes are used (defaults to replay)
+   */
+  mode?: CassetteMode;
+  
+  /**
+   * Provider whose responses are recorded (required to record)
+   */
+  provider?: LLMProvider;
+}
+
+/**
+ * A recorded exchange with the LLM
+ */
+export interface Cassette {
+  key: string;
+  request: LLMCompletionRequest;
+  options: LLMRequestOptions;
+  response: LLMResponse;
+  recordedAt: string;
+}
+
+/**
+ * LLM provider recording and replaying responses from cassette files
+ */
+export class RecordReplayProvider implements LLMProvider {
+  readonly name = 'record-replay';
+  private cassetteDir: string;
+  private mode: CassetteMode;
+  private provider?: LLMProvider;
+
+  constructor(config: RecordReplayProviderConfig) {
+    this.cassetteDir = config.cassetteDir;
+    this.mode = config.mode || 'replay';
+    this.provider = config.provider;
+  }
+
+  /**
+   * Default model of the recorded provider
+   */
+  get defaultModel(): string | undefined {
+    return this.provider?.defaultModel;
+  }
+
+  /**
+   * Replay the recorded response to a request, or record it
+   */
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    const key = hashLLMRequest(request, options);
+    const cassette = await this.findCassette(key);
+    
+    if (cassette) {
+      return cassette.response;
+    }
+    
+    const response = await this.getRecordingProvider().complete(request, options);
+    
+    await this.record(key, request, options, response);
+    
+    return response;
+  }
+
+  /**
+   * Replay the recorded response to a request as a single chunk, or record
+   * the stream once it completes
+   */
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    const key = hashLLMRequest(request, options);
+    const cassette = await this.findCassette(key);
+    
+    if (cassette) {
+      yield {
+        delta: cassette.response.content,
+        usage: cassette.response.usage,
+        modelUsed: cassette.response.modelUsed
+      };
+      return;
+    }
+    
+    const provider = this.getRecordingProvider();
+    
+    if (!provider.stream) {
+      const response = await provider.complete(request, options);
+      await this.record(key, request, options, response);
+      yield { delta: response.content, usage: response.usage, modelUsed: response.modelUsed };
+      return;
+    }
+    
+    const response: LLMResponse = { content: '', modelUsed: '' };
+    
+    for await (const chunk of provider.stream(request, options)) {
+      response.content += chunk.delta;
+      response.usage = chunk.usage || response.usage;
+      response.modelUsed = chunk.modelUsed || response.modelUsed;
+      yield chunk;
+    }
+    
+    await this.record(key, request, options, response);
+  }
+
+  /**
+   * Get the path of a cassette file
+   */
+  getCassettePath(key: string): string {
+    return path.join(this.cassetteDir, `${key}.json`);
+  }
+
+  /**
+   * Find the cassette to replay for a request
+   * Fails in replay mode when the request was not recorded.
+   */
+  private async findCassette(key: string): Promise<Cassette | null> {
+    if (this.mode === 'record') {
+      return null;
+    }
+    
+    const cassette = await this.readCassette(key);
+    
+    if (!cassette && this.mode === 'replay') {
+      throw new Error(
+        `No cassette for LLM request ${key} in ${this.cassetteDir}. ` +
+        'Record it with LLM_CASSETTE_MODE=record or auto.'
+      );
+    }
+    
+    return cassette;
+  }
+
+  /**
+   * Get the provider whose responses are recorded
+   */
+  private getRecordingProvider(): LLMProvider {
+    if (!this.provider) {
+      throw new Error('Recording cassettes requires a provider to record from.');
+    }
+    
+    return this.provider;
+  }
+
+  /**
+   * Record the response to a request
+   * Only the options the key is made of are kept; the others (such as the
+   * signal and timeout) do not change the response.
+   */
+  private async record(
+    key: string,
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions,
+    response: LLMResponse
+  ): Promise<void> {
+    await this.writeCassette({
+      key,
+      request,
+      options: pickHashedOptions(options),
+      response,
+      recordedAt: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Read a cassette, if it was recorded
+   */
+  private async readCassette(key: string): Promise<Cassette | null> {
+    try {
+      const content = await fs.readFile(this.getCassettePath(key), 'utf-8');
+      return JSON.parse(content) as Cassette;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      
+      throw new Error(`Failed to read cassette ${key}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Write a cassette, replacing any earlier recording
+   */
+  private async writeCassette(cassette: Cassette): Promise<void> {
+    await fs.mkdir(this.cassetteDir, { recursive: true });
+    await fs.writeFile(this.getCassettePath(cassette.key), JSON.stringify(cassette, null, 2) + '\n', 'utf-8');
+  }
+}
+
+/**
+ * Options changing the response to a request, which are the only ones hashed
+ * Others (signal, timeout, accounting, caching) are about how the request is
+ * made, and options added later are left out until they are listed here.
+ */
+const HASHED_OPTIONS: Array<keyof LLMRequestOptions> = [
+  'model',
+  'temperature',
+  'maxTokens',
+  'topP',
+  'stopSequences',
+  'responseFormat',
+  'systemPrompt'
+];
+
+/**
+ * Hash a request's messages and options into a cassette key
+ * Object keys are sorted first, so the key does not depend on their order;
+ * only the options in HASHED_OPTIONS are part of the key
+ * 
+ * @param request Completion request
+ * @param options Request options
+ * @returns Hex SHA-256 hash
+ */
+export function hashLLMRequest(request: LLMCompletionRequest, options: LLMRequestOptions = {}): string {
+  return createHash('sha256')
+    .update(stableStringify({ messages: request.messages, options: pickHashedOptions(options) }))
+    .digest('hex');
+}
+
+/**
+ * Keep the options that are part of a request's key
+ */
+function pickHashedOptions(options: LLMRequestOptions): LLMRequestOptions {
+  const picked: Record<string, any> = {};
+  
+  for (const option of HASHED_OPTIONS) {
+    if (options[option] !== undefined) {
+      picked[option] = options[option];
+    }
+  }
+  
+  return picked;
+}
+
+/**
+ * Serialize a value to JSON with the keys of its objects sorted
+ * Undefined object values are skipped, as JSON.stringify does
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item === undefined ? null : item)).join(',')}]`;
+  }
+  
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  
+  return JSON.stringify(value);
+}
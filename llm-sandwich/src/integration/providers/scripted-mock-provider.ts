@@ -0,0 +1,234 @@
+/**
+ * Scripted Mock Provider for the LLM Client
+ * 
+ * Answers completion requests from a script instead of a model: replies
+ * matched to the content of a request, replies queued in order, and an
+ * optional fallback. Every call is kept so tests can check the prompts
+ * that were sent. Streamed replies are split into words, optionally paced,
+ * so progress reporting and cancellation can be tested too.
+ */
+
+import { setTimeout as delay } from 'timers/promises';
+import { LLMCompletionRequest, LLMProvider, LLMRequestOptions, LLMResponse } from '../llm-client.js';
+import { LLMStreamChunk } from '../llm-stream.js';
+
+/**
+ * A scripted reply
+ * - string: the content of the response
+ * - LLMResponse fields: the response itself (modelUsed defaults to the mock model)
+ * - Error: the request fails with it
+ * - function: computes the reply from the request
+ */
+export type ScriptedReply =
+  | string
+  | (Partial<LLMResponse> & { content: string })
+  | Error
+  | ((request: LLMCompletionRequest, options: LLMRequestOptions) => ScriptedReply | Promise<ScriptedReply>);
+
+/**
+ * Selects the requests a reply answers
+ * - string: a message contains the text
+ * - RegExp: a message matches the expression
+ * - function: returns whether the reply answers the request
+ */
+export type ScriptedMatcher =
+  | string
+  | RegExp
+  | ((request: LLMCompletionRequest, options: LLMRequestOptions) => boolean);
+
+/**
+ * A request received by the provider, with its outcome
+ */
+export interface ScriptedCall {
+  request: LLMCompletionRequest;
+  options: LLMRequestOptions;
+  response?: LLMResponse;
+  error?: Error;
+}
+
+/**
+ * Configuration for the scripted mock provider
+ */
+export interface ScriptedMockProviderConfig {
+  /**
+   * Model reported in responses (defaults to 'mock')
+   */
+  model?: string;
+  
+  /**
+   * Reply to requests nothing else in the script answers
+   * Without it such requests fail
+   */
+  fallback?: ScriptedReply;
+  
+  /**
+   * Pause between the chunks of streamed replies, in milliseconds
+   */
+  chunkDelayMs?: number;
+}
+
+interface ScriptedRule {
+  matcher: ScriptedMatcher;
+  reply: ScriptedReply;
+  remaining: number;
+}
+
+/**
+ * LLM provider answering requests from a script
+ */
+export class ScriptedMockProvider implements LLMProvider {
+  readonly name = 'mock';
+  private model: string;
+  private fallback?: ScriptedReply;
+  private chunkDelayMs: number;
+  private rules: ScriptedRule[] = [];
+  private queue: ScriptedReply[] = [];
+  private calls: ScriptedCall[] = [];
+
+  constructor(config: ScriptedMockProviderConfig = {}) {
+    this.model = config.model || 'mock';
+    this.fallback = config.fallback;
+    this.chunkDelayMs = config.chunkDelayMs || 0;
+  }
+
+  /**
+   * Answer the requests selected by a matcher
+   * Rules are checked in the order they were added, before the queue
+   * 
+   * @param matcher Selects the requests
+   * @param reply Reply to the requests
+   * @param times How many requests the rule answers (defaults to all of them)
+   */
+  when(matcher: ScriptedMatcher, reply: ScriptedReply, times: number = Infinity): this {
+    this.rules.push({ matcher, reply, remaining: times });
+    return this;
+  }
+
+  /**
+   * Queue replies answering the next requests no rule matches, in order
+   */
+  enqueue(...replies: ScriptedReply[]): this {
+    this.queue.push(...replies);
+    return this;
+  }
+
+  /**
+   * Answer a request from the script
+   */
+  async complete(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMResponse> {
+    const call: ScriptedCall = { request, options };
+    this.calls.push(call);
+    
+    try {
+      call.response = await this.resolve(this.nextReply(request, options), request, options);
+      return call.response;
+    } catch (error: any) {
+      call.error = error;
+      throw error;
+    }
+  }
+
+  /**
+   * Stream the reply to a request word by word
+   * The usage of the reply, if scripted, comes with the last chunk.
+   */
+  async *stream(
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions = {}
+  ): AsyncGenerator<LLMStreamChunk> {
+    const response = await this.complete(request, options);
+    const words = response.content.match(/\s*\S+\s*/g) || [response.content];
+    
+    for (let index = 0; index < words.length; index++) {
+      if (this.chunkDelayMs > 0) {
+        await delay(this.chunkDelayMs, undefined, { signal: options.signal });
+      }
+      
+      options.signal?.throwIfAborted();
+      
+      yield {
+        delta: words[index],
+        usage: index === words.length - 1 ? response.usage : undefined,
+        modelUsed: response.modelUsed
+      };
+    }
+  }
+
+  /**
+   * Get the requests received so far
+   */
+  getCalls(): ScriptedCall[] {
+    return [...this.calls];
+  }
+
+  /**
+   * Clear the script and the received requests
+   */
+  reset(): void {
+    this.rules = [];
+    this.queue = [];
+    this.calls = [];
+  }
+
+  /**
+   * Pick the reply answering a request
+   */
+  private nextReply(request: LLMCompletionRequest, options: LLMRequestOptions): ScriptedReply {
+    const rule = this.rules.find(rule => rule.remaining > 0 && matches(rule.matcher, request, options));
+    
+    if (rule) {
+      rule.remaining--;
+      return rule.reply;
+    }
+    
+    if (this.queue.length > 0) {
+      return this.queue.shift() as ScriptedReply;
+    }
+    
+    if (this.fallback !== undefined) {
+      return this.fallback;
+    }
+    
+    const last = request.messages[request.messages.length - 1];
+    throw new Error(`No scripted reply for LLM request: ${last ? last.content.trim().slice(0, 200) : '(no messages)'}`);
+  }
+
+  /**
+   * Turn a reply into a response
+   */
+  private async resolve(
+    reply: ScriptedReply,
+    request: LLMCompletionRequest,
+    options: LLMRequestOptions
+  ): Promise<LLMResponse> {
+    if (typeof reply === 'function') {
+      return this.resolve(await reply(request, options), request, options);
+    }
+    
+    if (reply instanceof Error) {
+      throw reply;
+    }
+    
+    if (typeof reply === 'string') {
+      return { content: reply, modelUsed: this.model };
+    }
+    
+    return { modelUsed: this.model, ...reply };
+  }
+}
+
+/**
+ * Check whether a matcher selects a request
+ */
+function matches(matcher: ScriptedMatcher, request: LLMCompletionRequest, options: LLMRequestOptions): boolean {
+  if (typeof matcher === 'function') {
+    return matcher(request, options);
+  }
+  
+  return request.messages.some(message =>
+    typeof matcher === 'string' ? message.content.includes(matcher) : matcher.test(message.content)
+  );
+}
@@ -0,0 +1,108 @@
+import { LLMCompletionRequest, LLMResponse } from './llm-client.js';
+import { LLMResponseCache, normalizePrompt } from './response-cache.js';
+
+function requestWith(content: string): LLMCompletionRequest {
+  return { messages: [{ role: 'system', content: 'You validate queries.' }, { role: 'user', content }] };
+}
+
+function responseWith(content: string, totalTokens: number = 100): LLMResponse {
+  return {
+    content,
+    modelUsed: 'anthropic/claude-3-haiku',
+    usage: { promptTokens: totalTokens - 10, completionTokens: 10, totalTokens }
+  };
+}
+
+describe('LLMResponseCache', () => {
+  let now: number;
+  let cache: LLMResponseCache;
+  
+  beforeEach(() => {
+    now = 0;
+    cache = new LLMResponseCache({ maxEntries: 2, ttlMs: 1000, now: () => now });
+  });
+  
+  it('shares a key between prompts differing only in line endings and surrounding whitespace', () => {
+    const key = cache.createKey(requestWith('Validate:\n{"name": "a  b"}'), 'model');
+    
+    expect(cache.createKey(requestWith('\nValidate:\r\n{"name": "a  b"}  \n'), 'model')).toBe(key);
+    expect(cache.createKey(requestWith('Validate:\n{"name": "a b"}'), 'model')).not.toBe(key);
+  });
+  
+  it('shares a key between prompts differing only in formatting when asked to', () => {
+    const formatting = new LLMResponseCache({ normalizeFormatting: true });
+    const first = formatting.createKey(requestWith('Validate:\n  ```json\n{"b": 1, "a": [2]}\n```\n\n'), 'model');
+    const second = formatting.createKey(requestWith('Validate:\n```json\n{"a": [2],\n "b": 1}```'), 'model');
+    
+    expect(first).toBe(second);
+    expect(formatting.createKey(requestWith('Validate: {"b": 2}'), 'model')).not.toBe(first);
+  });
+  
+  it('keys requests by model and the options shaping the response only', () => {
+    const request = requestWith('Validate the query');
+    const key = cache.createKey(request, 'model', { temperature: 0 });
+    
+    expect(cache.createKey(request, 'model', { temperature: 0, timeoutMs: 5000 })).toBe(key);
+    expect(cache.createKey(request, 'model', { temperature: 0.7 })).not.toBe(key);
+    expect(cache.createKey(request, 'other-model', { temperature: 0 })).not.toBe(key);
+  });
+  
+  it('serves a response until it expires', () => {
+    cache.set('key', responseWith('valid'));
+    
+    now = 999;
+    expect(cache.get('key')?.content).toBe('valid');
+    
+    now = 1000;
+    expect(cache.get('key')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1, expirations: 1, size: 0 });
+  });
+  
+  it('evicts the least recently used response once full', () => {
+    cache.set('first', responseWith('first'));
+    cache.set('second', responseWith('second'));
+    cache.get('first');
+    cache.set('third', responseWith('third'));
+    
+    expect(cache.get('second')).toBeUndefined();
+    expect(cache.get('first')?.content).toBe('first');
+    expect(cache.get('third')?.content).toBe('third');
+    expect(cache.getStats().evictions).toBe(1);
+  });
+  
+  it('drops every response when invalidated', () => {
+    cache.set('first', responseWith('first'));
+    cache.set('second', responseWith('second'));
+    
+    expect(cache.invalidate()).toBe(2);
+    expect(cache.get('first')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ invalidations: 2, size: 0 });
+  });
+  
+  it('counts the hit rate and the tokens hits saved', () => {
+    cache.set('key', responseWith('valid', 250));
+    
+    cache.get('key');
+    cache.get('key');
+    cache.get('missing');
+    
+    const stats = cache.getStats();
+    
+    expect(stats.hitRate).toBeCloseTo(2 / 3);
+    expect(stats.tokensSaved).toBe(500);
+  });
+});
+
+describe('normalizePrompt', () => {
+  it('trims the prompt and normalizes line endings, keeping the whitespace inside', () => {
+    expect(normalizePrompt('  def f():\r\n    return  1\r\n\r\n')).toBe('def f():\n    return  1');
+  });
+  
+  it('trims lines and drops blank lines and repeated spaces when normalizing formatting', () => {
+    expect(normalizePrompt('  Validate   this\n\n\tquery  \n', true)).toBe('Validate this\nquery');
+  });
+  
+  it('leaves a fenced block that is not valid JSON as it is', () => {
+    expect(normalizePrompt('```json\n{not json}\n```', true)).toBe('```json\n{not json}\n```');
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Response Cache for the LLM Sandwich Architecture
+ * 
+ * Keeps the responses of deterministic LLM requests (such as the guard
+ * layer's validations of query intents) so an identical request is answered
+ * from memory instead of the model. Requests are keyed by their prompt, the
+ * model and the options shaping the response. Prompts differing only in line
+ * endings or surrounding whitespace share a response, and with
+ * normalizeFormatting so do prompts differing in indentation, blank lines or
+ * the key order of embedded JSON. Entries expire after a TTL, the least
+ * recently used entries are evicted once the cache is full, and the whole
+ * cache is invalidated when the knowledge base the prompts are built from
+ * changes.
+ */
+
+import { LLMCompletionRequest, LLMRequestOptions, LLMResponse } from './llm-client.js';
+import { contextManager } from './context-manager.js';
+import { hashLLMRequest } from './providers/record-replay-provider.js';
+
+/**
+ * Configuration of a response cache
+ */
+export interface ResponseCacheConfig {
+  /**
+   * Entries kept at most; the least recently used are evicted (defaults to 500)
+   */
+  maxEntries?: number;
+  
+  /**
+   * How long a response is served from the cache, in milliseconds (defaults to one hour)
+   */
+  ttlMs?: number;
+  
+  /**
+   * Returns the current time in milliseconds (defaults to Date.now)
+   */
+  now?: () => number;
+  
+  /**
+   * Whether prompts differing only in indentation, blank lines, repeated
+   * spaces or the key order of fenced JSON share a response (defaults to false)
+   * Only for prompts whose data and code don't depend on their whitespace.
+   */
+  normalizeFormatting?: boolean;
+}
+
+/**
+ * Counters of a response cache
+ */
+export interface ResponseCacheStats {
+  hits: number;
+  misses: number;
+  
+  /**
+   * Share of the lookups answered from the cache, from 0 to 1
+   */
+  hitRate: number;
+  
+  /**
+   * Entries evicted to make room for newer ones
+   */
+  evictions: number;
+  expirations: number;
+  
+  /**
+   * Entries dropped by invalidations
+   */
+  invalidations: number;
+  
+  /**
+   * Tokens the hits would have taken
+   */
+  tokensSaved: number;
+  size: number;
+}
+
+/**
+ * A cached response
+ */
+interface CacheEntry {
+  response: LLMResponse;
+  expiresAt: number;
+}
+
+/**
+ * Options changing the response to a request; the others (signal, timeout,
+ * accounting) are left out of the key
+ */
+const KEYED_OPTIONS: Array<keyof LLMRequestOptions> = [
+  'temperature',
+  'maxTokens',
+  'topP',
+  'stopSequences',
+  'responseFormat'
+];
+
+/**
+ * Size-bounded LRU cache of LLM responses
+ */
+export class LLMResponseCache {
+  private readonly maxEntries: number;
+  private readonly ttlMs: number;
+  private readonly now: () => number;
+  private readonly normalizeFormatting: boolean;
+  
+  /**
+   * Entries by key, the least recently used first
+   */
+  private entries: Map<string, CacheEntry> = new Map();
+  private stats = {
+    hits: 0,
+    misses: 0,
+    evictions: 0,
+    expirations: 0,
+    invalidations: 0,
+    tokensSaved: 0
+  };
+  
+  constructor(config: ResponseCacheConfig = {}) {
+    this.maxEntries = config.maxEntries || 500;
+    this.ttlMs = config.ttlMs || 60 * 60 * 1000;
+    this.now = config.now || Date.now;
+    this.normalizeFormatting = config.normalizeFormatting || false;
+  }
+  
+  /**
+   * Create the key of a request
+   * 
+   * @param request Request, with its system prompt
+   * @param model Model the request is sent to
+   * @param options Request options
+   * @returns Key of the request's response
+   */
+  createKey(request: LLMCompletionRequest, model: string, options: LLMRequestOptions = {}): string {
+    const keyedOptions: LLMRequestOptions = { model };
+    
+    for (const option of KEYED_OPTIONS) {
+      if (options[option] !== undefined) {
+        (keyedOptions as any)[option] = options[option];
+      }
+    }
+    
+    return hashLLMRequest({
+      messages: request.messages.map(message => ({ ...message, content: normalizePrompt(message.content, this.normalizeFormatting) }))
+    }, keyedOptions);
+  }
+  
+  /**
+   * Get the cached response to a request
+   * 
+   * @param key Key of the request
+   * @returns The response, or undefined if it is not cached or has expired
+   */
+  get(key: string): LLMResponse | undefined {
+    const entry = this.entries.get(key);
+    
+    if (entry && entry.expiresAt <= this.now()) {
+      this.entries.delete(key);
+      this.stats.expirations++;
+    } else if (entry) {
+      // Move it to the most recently used end
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.stats.hits++;
+      this.stats.tokensSaved += entry.response.usage?.totalTokens || 0;
+      return entry.response;
+    }
+    
+    this.stats.misses++;
+    return undefined;
+  }
+  
+  /**
+   * Cache the response to a request
+   * 
+   * @param key Key of the request
+   * @param response The response
+   */
+  set(key: string, response: LLMResponse): void {
+    this.entries.delete(key);
+    this.entries.set(key, { response, expiresAt: this.now() + this.ttlMs });
+    
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+      this.stats.evictions++;
+    }
+  }
+  
+  /**
+   * Drop every cached response, e.g. because the knowledge base changed
+   * 
+   * @returns The number of responses dropped
+   */
+  invalidate(): number {
+    const size = this.entries.size;
+    
+    this.entries.clear();
+    this.stats.invalidations += size;
+    
+    return size;
+  }
+  
+  /**
+   * Get the cache's counters
+   */
+  getStats(): ResponseCacheStats {
+    const lookups = this.stats.hits + this.stats.misses;
+    
+    return {
+      ...this.stats,
+      hitRate: lookups > 0 ? this.stats.hits / lookups : 0,
+      size: this.entries.size
+    };
+  }
+  
+  /**
+   * Drop every cached response and reset the counters
+   */
+  reset(): void {
+    this.entries.clear();
+    this.stats = { hits: 0, misses: 0, evictions: 0, expirations: 0, invalidations: 0, tokensSaved: 0 };
+  }
+}
+
+/**
+ * Normalize a prompt so formatting differences don't change its key
+ * Line endings are normalized and the prompt trimmed. Whitespace inside it
+ * is kept, since quoted data and code may depend on it, unless formatting is
+ * normalized too: then lines are trimmed, blank lines and repeated spaces
+ * removed, and fenced JSON blocks rewritten with sorted keys.
+ * 
+ * @param content Prompt content
+ * @param formatting Whether to normalize indentation, spacing and fenced JSON
+ * @returns The normalized content
+ */
+export function normalizePrompt(content: string, formatting: boolean = false): string {
+  const normalized = content.replace(/\r\n?/g, '\n').trim();
+  
+  if (!formatting) {
+    return normalized;
+  }
+  
+  return normalized
+    .replace(/```json\s*([\s\S]*?)```/g, (block, json) => {
+      try {
+        return '```json\n' + JSON.stringify(sortKeys(JSON.parse(json))) + '\n```';
+      } catch {
+        return block;
+      }
+    })
+    .split('\n')
+    .map(line => line.trim().replace(/\s+/g, ' '))
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+/**
+ * Copy a JSON value with the keys of its objects sorted
+ */
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys(value[key])])
+    );
+  }
+  
+  return value;
+}
+
+/**
+ * Singleton instance of the response cache, used by the LLM client
+ * Its responses were built from the knowledge base, so they go when it changes.
+ */
+export const responseCache = new LLMResponseCache();
+
+contextManager.onKnowledgeBaseChange(() => responseCache.invalidate());
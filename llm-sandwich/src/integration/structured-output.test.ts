@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import { LLMCompletionRequest, LLMResponse } from './llm-client.js';
+import { StructuredRequester, StructuredRequestOptions, extractJSON, requestStructured } from './structured-output.js';
+
+const schema = z.object({ status: z.enum(['valid', 'invalid']), issues: z.array(z.string()) });
+
+const request: LLMCompletionRequest = {
+  messages: [{ role: 'system', content: 'You validate queries.' }, { role: 'user', content: 'Validate: SELECT 1' }]
+};
+
+/**
+ * Requester answering with the given contents in turn, recording what it was asked
+ */
+function requesterOf(contents: Array<string | Error>) {
+  const calls: Array<{ request: LLMCompletionRequest; options: StructuredRequestOptions }> = [];
+  const requester: StructuredRequester = async (request, options) => {
+    calls.push({ request, options });
+    const content = contents[calls.length - 1];
+    
+    if (content instanceof Error) {
+      throw content;
+    }
+    
+    return { content, modelUsed: 'model' } as LLMResponse;
+  };
+  
+  return { requester, calls };
+}
+
+describe('extractJSON', () => {
+  it('parses a bare JSON value', () => {
+    expect(extractJSON(' {"status": "valid", "issues": []} ')).toEqual({ status: 'valid', issues: [] });
+    expect(extractJSON('[1, 2]')).toEqual([1, 2]);
+  });
+  
+  it('finds the JSON inside a code fence or surrounded by prose', () => {
+    expect(extractJSON('Here you go:\n```json\n{"status": "valid"}\n```\nAnything else?')).toEqual({ status: 'valid' });
+    expect(extractJSON('The result is {"issues": ["a {b}"]} as requested.')).toEqual({ issues: ['a {b}'] });
+  });
+  
+  it('repairs comments, trailing commas and line breaks inside strings', () => {
+    const text = '{\n  // the verdict\n  "status": "valid", /* no issues */\n  "issues": ["line one\nline two",],\n}';
+    
+    expect(extractJSON(text)).toEqual({ status: 'valid', issues: ['line one\nline two'] });
+  });
+  
+  it('closes a value cut off by the token limit', () => {
+    expect(extractJSON('```json\n{"issues": [{"field": "a"}, {"field": "b')).toEqual({ issues: [{ field: 'a' }, { field: 'b' }] });
+    expect(extractJSON('{"status": "invalid", "issues": ["missing WHERE",')).toEqual({
+      status: 'invalid',
+      issues: ['missing WHERE']
+    });
+  });
+  
+  it('leaves escaped quotes and comment markers inside strings alone', () => {
+    expect(extractJSON('{"query": "SELECT \\"a\\" -- // not a comment",}')).toEqual({ query: 'SELECT "a" -- // not a comment' });
+  });
+  
+  it('throws when there is no JSON to find', () => {
+    expect(() => extractJSON('')).toThrow('The response is empty');
+    expect(() => extractJSON('I cannot validate this query.')).toThrow(/^No valid JSON found \(/);
+  });
+});
+
+describe('requestStructured', () => {
+  it('asks for JSON only and returns the parsed value', async () => {
+    const { requester, calls } = requesterOf(['```json\n{"status": "valid", "issues": []}\n```']);
+    
+    const result = await requestStructured(requester, request, schema, { temperature: 0 });
+    
+    expect(result).toMatchObject({ success: true, data: { status: 'valid', issues: [] }, attempts: 1 });
+    expect(calls[0].options).toMatchObject({ temperature: 0, responseFormat: 'json' });
+    expect(calls[0].request.messages[0].content).toMatch(/^You validate queries\.\n\nRespond with a single JSON value only/);
+    expect(calls[0].request.messages).toHaveLength(2);
+  });
+  
+  it('adds a system message with the instruction when there is none', async () => {
+    const { requester, calls } = requesterOf(['{"status": "valid", "issues": []}']);
+    
+    await requestStructured(requester, { messages: [{ role: 'user', content: 'Validate: SELECT 1' }] }, schema);
+    
+    expect(calls[0].request.messages.map(message => message.role)).toEqual(['system', 'user']);
+  });
+  
+  it('asks again with the reason an answer was rejected', async () => {
+    const { requester, calls } = requesterOf([
+      'Looks fine to me!',
+      '{"status": "ok"}',
+      '{"status": "valid", "issues": []}'
+    ]);
+    
+    const result = await requestStructured(requester, request, schema);
+    
+    expect(result).toMatchObject({ success: true, attempts: 3 });
+    expect(calls[1].request.messages.slice(2)).toEqual([
+      { role: 'assistant', content: 'Looks fine to me!' },
+      { role: 'user', content: expect.stringMatching(/^Your response was not valid JSON: No valid JSON found/) }
+    ]);
+    expect(calls[2].request.messages.slice(4)).toEqual([
+      { role: 'assistant', content: '{"status": "ok"}' },
+      { role: 'user', content: expect.stringContaining('did not match the expected format:\n- status: Invalid enum value') }
+    ]);
+    expect(calls[2].request.messages[5].content).toContain('- issues: Required');
+  });
+  
+  it('reports the last invalid answer once the retries are used up', async () => {
+    const { requester, calls } = requesterOf(['not JSON', '{"status": "valid"}']);
+    
+    const result = await requestStructured(requester, request, schema, { maxRetries: 1 });
+    
+    expect(calls).toHaveLength(2);
+    expect(result).toEqual({
+      success: false,
+      reason: 'schema_mismatch',
+      error: 'Response did not match the expected schema: issues: Required',
+      issues: ['issues: Required'],
+      attempts: 2,
+      content: '{"status": "valid"}'
+    });
+  });
+  
+  it('reports invalid JSON when no answer had any', async () => {
+    const { requester } = requesterOf(['not JSON']);
+    
+    const result = await requestStructured(requester, request, schema, { maxRetries: 0 });
+    
+    expect(result).toMatchObject({ success: false, reason: 'invalid_json', issues: [], attempts: 1, content: 'not JSON' });
+  });
+  
+  it('stops at a failed request and keeps the last answer', async () => {
+    const { requester, calls } = requesterOf(['not JSON', new Error('Request timed out after 100ms')]);
+    
+    const result = await requestStructured(requester, request, schema);
+    
+    expect(calls).toHaveLength(2);
+    expect(result).toEqual({
+      success: false,
+      reason: 'request_failed',
+      error: 'Request timed out after 100ms',
+      issues: [],
+      attempts: 2,
+      content: 'not JSON'
+    });
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Structured Output for the LLM Client
+ * 
+ * Models asked for JSON do not always answer with bare JSON: the value comes
+ * wrapped in a code fence or in prose, with trailing commas or comments, or
+ * cut off at the token limit. This module asks for JSON, extracts and
+ * repairs it from the response, validates it against a zod schema and, when
+ * that fails, asks again with the error fed back to the model. Callers get
+ * either a typed value or a structured failure instead of a JSON.parse
+ * exception.
+ */
+
+import { ZodType } from 'zod';
+import { LLMCompletionRequest, LLMRequestOptions, LLMResponse } from './llm-client.js';
+import { LLMStreamChunk } from './llm-stream.js';
+
+/**
+ * Why a structured completion failed
+ * - invalid_json: no JSON could be extracted from the last response
+ * - schema_mismatch: the JSON of the last response did not match the schema
+ * - request_failed: the request itself failed (e.g. cancelled or timed out)
+ */
+export type StructuredFailureReason = 'invalid_json' | 'schema_mismatch' | 'request_failed';
+
+/**
+ * Result of a structured completion
+ */
+export type StructuredResult<T> =
+  | {
+    success: true;
+    data: T;
+    
+    /**
+     * Number of requests made, retries included
+     */
+    attempts: number;
+    response: LLMResponse;
+  }
+  | {
+    success: false;
+    reason: StructuredFailureReason;
+    error: string;
+    
+    /**
+     * Schema violations of the last response, e.g. 'status: Required'
+     */
+    issues: string[];
+    attempts: number;
+    
+    /**
+     * Content of the last response, if any
+     */
+    content?: string;
+  };
+
+/**
+ * Options for a structured completion
+ */
+export interface StructuredRequestOptions extends LLMRequestOptions {
+  /**
+   * How many times to ask again after an invalid response (defaults to 2)
+   */
+  maxRetries?: number;
+  
+  /**
+   * Called with each piece of a response as it streams in
+   * Without it responses are not streamed.
+   */
+  onProgress?: (chunk: LLMStreamChunk, content: string) => void;
+}
+
+/**
+ * Makes a single request, blocking or streamed
+ */
+export type StructuredRequester = (
+  request: LLMCompletionRequest,
+  options: StructuredRequestOptions
+) => Promise<LLMResponse>;
+
+const JSON_INSTRUCTION = 'Respond with a single JSON value only: no prose, no markdown code fences.';
+
+/**
+ * Request JSON matching a schema, retrying invalid responses
+ * 
+ * @param requester Makes each request
+ * @param request Completion request describing the expected JSON
+ * @param schema Schema the JSON must match
+ * @param options Request options and retry limit
+ * @returns The parsed value or why there is none
+ */
+export async function requestStructured<T>(
+  requester: StructuredRequester,
+  request: LLMCompletionRequest,
+  schema: ZodType<T, any, any>,
+  options: StructuredRequestOptions = {}
+): Promise<StructuredResult<T>> {
+  const maxAttempts = (options.maxRetries ?? 2) + 1;
+  const requestOptions: StructuredRequestOptions = { ...options, responseFormat: 'json' };
+  let messages = withJSONInstruction(request.messages);
+  let failure: Extract<StructuredResult<T>, { success: false }> | undefined;
+  
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let response: LLMResponse;
+    
+    try {
+      response = await requester({ ...request, messages }, requestOptions);
+    } catch (error: any) {
+      return {
+        success: false,
+        reason: 'request_failed',
+        error: error.message || String(error),
+        issues: [],
+        attempts: attempt,
+        content: failure?.content
+      };
+    }
+    
+    let value: unknown;
+    
+    try {
+      value = extractJSON(response.content);
+    } catch (error: any) {
+      failure = {
+        success: false,
+        reason: 'invalid_json',
+        error: error.message,
+        issues: [],
+        attempts: attempt,
+        content: response.content
+      };
+      messages = withFeedback(messages, response.content, `Your response was not valid JSON: ${error.message}`);
+      continue;
+    }
+    
+    const parsed = schema.safeParse(value);
+    
+    if (parsed.success) {
+      return { success: true, data: parsed.data, attempts: attempt, response };
+    }
+    
+    const issues = parsed.error.issues.map(issue =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+    );
+    
+    failure = {
+      success: false,
+      reason: 'schema_mismatch',
+      error: `Response did not match the expected schema: ${issues.join('; ')}`,
+      issues,
+      attempts: attempt,
+      content: response.content
+    };
+    messages = withFeedback(
+      messages,
+      response.content,
+      `Your JSON did not match the expected format:\n${issues.map(issue => `- ${issue}`).join('\n')}`
+    );
+  }
+  
+  return failure as Extract<StructuredResult<T>, { success: false }>;
+}
+
+/**
+ * Extract the JSON value from a model's response
+ * Looks at the whole response, then inside a code fence, then at the first
+ * object or array, repairing each candidate if it does not parse as is.
+ * 
+ * @param text Response content
+ * @returns The parsed value
+ */
+export function extractJSON(text: string): unknown {
+  const candidates = [text.trim()];
+  const fence = text.match(/```(?:json|JSON)?\s*\n?([\s\S]*?)(?:```|$)/);
+  
+  if (fence) {
+    candidates.push(fence[1].trim());
+  }
+  
+  const start = text.search(/[{[]/);
+  
+  if (start >= 0) {
+    candidates.push(sliceBalanced(text, start));
+  }
+  
+  let lastError: any;
+  
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    
+    for (const source of [candidate, repairJSON(candidate)]) {
+      try {
+        return JSON.parse(source);
+      } catch (error) {
+        lastError = error;
+      }
+    }
+  }
+  
+  throw new Error(lastError ? `No valid JSON found (${lastError.message})` : 'The response is empty');
+}
+
+/**
+ * Repair common defects of JSON written by models: comments, trailing
+ * commas, raw line breaks in strings and values cut off by the token limit
+ */
+function repairJSON(text: string): string {
+  const closers: string[] = [];
+  let result = '';
+  let inString = false;
+  
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    
+    if (inString) {
+      if (char === '\\') {
+        result += char + (text[index + 1] ?? '');
+        index++;
+      } else if (char === '\n' || char === '\r') {
+        result += char === '\n' ? '\\n' : '\\r';
+      } else {
+        result += char;
+        inString = char !== '"';
+      }
+      continue;
+    }
+    
+    if (char === '/' && text[index + 1] === '/') {
+      while (index < text.length && text[index] !== '\n') {
+        index++;
+      }
+      continue;
+    }
+    
+    if (char === '/' && text[index + 1] === '*') {
+      const end = text.indexOf('*/', index + 2);
+      index = end < 0 ? text.length : end + 1;
+      continue;
+    }
+    
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      result = result.replace(/,\s*$/, '');
+      closers.pop();
+    }
+    
+    result += char;
+  }
+  
+  // Close what the token limit cut off
+  if (inString) {
+    result += '"';
+  }
+  
+  result = result.replace(/[,:]\s*$/, '');
+  
+  return result + closers.reverse().join('');
+}
+
+/**
+ * Slice the object or array starting at an index, up to its closing bracket
+ * (or the end of the text when it is never closed)
+ */
+function sliceBalanced(text: string, start: number): string {
+  let depth = 0;
+  let inString = false;
+  
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    
+    if (inString) {
+      if (char === '\\') {
+        index++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      
+      if (depth === 0) {
+        return text.slice(start, index + 1);
+      }
+    }
+  }
+  
+  return text.slice(start);
+}
+
+/**
+ * Add the instruction to answer with JSON only to the system message
+ */
+function withJSONInstruction(messages: LLMCompletionRequest['messages']): LLMCompletionRequest['messages'] {
+  const system = messages.findIndex(message => message.role === 'system');
+  
+  if (system < 0) {
+    return [{ role: 'system', content: JSON_INSTRUCTION }, ...messages];
+  }
+  
+  return messages.map((message, index) =>
+    index === system ? { ...message, content: `${message.content}\n\n${JSON_INSTRUCTION}` } : message
+  );
+}
+
+/**
+ * Add an invalid response and the reason it was rejected to the conversation
+ */
+function withFeedback(
+  messages: LLMCompletionRequest['messages'],
+  content: string,
+  feedback: string
+): LLMCompletionRequest['messages'] {
+  return [
+    ...messages,
+    { role: 'assistant', content },
+    { role: 'user', content: `${feedback}\n\nRespond again with only the corrected JSON.` }
+  ];
+}
@@ -0,0 +1,71 @@
+import { TokenBudget } from './token-budget.js';
+import { countTokens } from './token-counter.js';
+
+/**
+ * A text of about the given number of tokens
+ */
+function textOf(tokens: number): string {
+  return Array.from({ length: tokens }, (_, index) => `w${index % 10}`).join(' ');
+}
+
+describe('TokenBudget', () => {
+  it('keeps every section whole when they fit', () => {
+    const sections = { system: 'You validate queries.', userData: '{"bidId": "bid-1"}' };
+    const allocation = new TokenBudget({ maxPromptTokens: 1000 }).allocate(sections);
+    
+    expect(allocation.sections).toEqual(sections);
+    expect(allocation.overBudget).toBe(false);
+    expect(allocation.allocations.system).toMatchObject({ truncated: false });
+    expect(allocation.totalTokens).toBe(countTokens(sections.system) + countTokens(sections.userData));
+  });
+  
+  it('gives the share a section does not use to the sections needing more', () => {
+    const schema = textOf(2000);
+    const allocation = new TokenBudget({ maxPromptTokens: 1000 }).allocate({
+      system: 'You validate queries.',
+      schema
+    });
+    const schemaAllocation = allocation.allocations.schema!;
+    
+    // More than the schema's own share of the budget
+    expect(schemaAllocation.allocated).toBeGreaterThan(1000 * 35 / 50);
+    expect(schemaAllocation.truncated).toBe(true);
+    expect(allocation.totalTokens).toBeLessThanOrEqual(1000);
+    expect(allocation.sections.schema).toMatch(/\[Truncated to fit the token budget\]$/);
+  });
+  
+  it('splits the budget by share between sections that all need more', () => {
+    const allocation = new TokenBudget({
+      maxPromptTokens: 900,
+      shares: { schema: 2, patterns: 1 }
+    }).allocate({ schema: textOf(2000), patterns: textOf(2000) });
+    
+    expect(allocation.allocations.schema!.allocated).toBe(600);
+    expect(allocation.allocations.patterns!.allocated).toBe(300);
+    expect(countTokens(allocation.sections.schema!)).toBeLessThanOrEqual(600);
+    expect(countTokens(allocation.sections.patterns!)).toBeLessThanOrEqual(300);
+  });
+  
+  it('never truncates required sections and shares what remains', () => {
+    const userData = textOf(600);
+    const allocation = new TokenBudget({ maxPromptTokens: 1000, required: ['userData'] }).allocate({
+      schema: textOf(2000),
+      userData
+    });
+    
+    expect(allocation.sections.userData).toBe(userData);
+    expect(allocation.allocations.schema!.allocated).toBe(1000 - countTokens(userData));
+    expect(allocation.overBudget).toBe(false);
+  });
+  
+  it('reports a budget the required sections alone exceed', () => {
+    const allocation = new TokenBudget({ maxPromptTokens: 100, required: ['userData'] }).allocate({
+      schema: textOf(50),
+      userData: textOf(200)
+    });
+    
+    expect(allocation.overBudget).toBe(true);
+    expect(allocation.allocations.schema).toMatchObject({ allocated: 0, truncated: true });
+    expect(allocation.sections.schema).toBe('');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Token Budgets for the LLM Sandwich Architecture
+ * 
+ * A prompt is assembled from sections: the system prompt, the schema
+ * context, the pattern context and the user's data. A budget fits them into
+ * a number of prompt tokens: every section gets a share of the budget,
+ * shares a section doesn't use go to the sections needing more, and sections
+ * still too long are truncated. Sections that must be sent whole (such as the
+ * data a decision is about) are kept and the others share what remains.
+ */
+
+import { countTokens, truncateToTokens } from './token-counter.js';
+
+/**
+ * Sections of a prompt
+ */
+export type BudgetSection = 'system' | 'schema' | 'patterns' | 'userData';
+
+/**
+ * Configuration of a token budget
+ */
+export interface TokenBudgetConfig {
+  /**
+   * Tokens the sections may take together
+   */
+  maxPromptTokens: number;
+  
+  /**
+   * Relative share of each section (see DEFAULT_BUDGET_SHARES)
+   */
+  shares?: Partial<Record<BudgetSection, number>>;
+  
+  /**
+   * Sections never truncated
+   */
+  required?: BudgetSection[];
+  
+  /**
+   * Model the prompt is sent to, for counting tokens
+   */
+  model?: string;
+}
+
+/**
+ * How a section was fitted into the budget
+ */
+export interface SectionAllocation {
+  /**
+   * Tokens the section takes whole
+   */
+  requested: number;
+  
+  /**
+   * Tokens the section was given
+   */
+  allocated: number;
+  truncated: boolean;
+}
+
+/**
+ * Sections fitted into a budget
+ */
+export interface BudgetAllocation {
+  /**
+   * The sections, truncated where needed (sections cut away entirely are empty)
+   */
+  sections: Partial<Record<BudgetSection, string>>;
+  allocations: Partial<Record<BudgetSection, SectionAllocation>>;
+  
+  /**
+   * Tokens the fitted sections take
+   */
+  totalTokens: number;
+  
+  /**
+   * Whether the required sections alone exceed the budget
+   */
+  overBudget: boolean;
+}
+
+/**
+ * Default relative shares of the sections
+ */
+export const DEFAULT_BUDGET_SHARES: Record<BudgetSection, number> = {
+  system: 15,
+  schema: 35,
+  patterns: 25,
+  userData: 25
+};
+
+/**
+ * Fits prompt sections into a number of tokens
+ */
+export class TokenBudget {
+  private shares: Record<BudgetSection, number>;
+  
+  constructor(private config: TokenBudgetConfig) {
+    this.shares = { ...DEFAULT_BUDGET_SHARES, ...config.shares };
+  }
+  
+  /**
+   * Fit sections into the budget
+   * 
+   * @param sections Content of each section; missing or empty sections take no tokens
+   * @returns The fitted sections and how many tokens each was given
+   */
+  allocate(sections: Partial<Record<BudgetSection, string>>): BudgetAllocation {
+    const { maxPromptTokens, model } = this.config;
+    const required = this.config.required || [];
+    const present = (Object.keys(sections) as BudgetSection[]).filter(section => sections[section]);
+    const requested = Object.fromEntries(
+      present.map(section => [section, countTokens(sections[section] as string, model)])
+    ) as Record<BudgetSection, number>;
+    const allocated: Partial<Record<BudgetSection, number>> = {};
+    
+    let pool = maxPromptTokens;
+    
+    for (const section of present.filter(section => required.includes(section))) {
+      allocated[section] = requested[section];
+      pool -= requested[section];
+    }
+    
+    const overBudget = pool < 0;
+    
+    // Sections needing less than their share give the rest to the others
+    let flexible = present.filter(section => !required.includes(section));
+    pool = Math.max(0, pool);
+    
+    while (flexible.length > 0) {
+      const totalShare = flexible.reduce((sum, section) => sum + this.shares[section], 0);
+      const fair = (section: BudgetSection) => totalShare > 0
+        ? pool * this.shares[section] / totalShare
+        : pool / flexible.length;
+      const satisfied = flexible.filter(section => requested[section] <= fair(section));
+      
+      if (satisfied.length === 0) {
+        for (const section of flexible) {
+          allocated[section] = Math.floor(fair(section));
+        }
+        break;
+      }
+      
+      for (const section of satisfied) {
+        allocated[section] = requested[section];
+        pool -= requested[section];
+      }
+      
+      flexible = flexible.filter(section => !satisfied.includes(section));
+    }
+    
+    const fitted: Partial<Record<BudgetSection, string>> = {};
+    const allocations: Partial<Record<BudgetSection, SectionAllocation>> = {};
+    let totalTokens = 0;
+    
+    for (const section of present) {
+      const truncated = (allocated[section] as number) < requested[section];
+      
+      fitted[section] = truncated
+        ? truncateToTokens(sections[section] as string, allocated[section] as number, model)
+        : sections[section];
+      allocations[section] = { requested: requested[section], allocated: allocated[section] as number, truncated };
+      totalTokens += truncated ? countTokens(fitted[section] as string, model) : requested[section];
+    }
+    
+    return { sections: fitted, allocations, totalTokens, overBudget };
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * Token Counter for the LLM Sandwich Architecture
+ * 
+ * Estimates how many tokens a text or a chat request takes for a model, so
+ * prompts can be fitted to a token budget before they are sent and spend can
+ * be accounted for when a provider does not report usage. Each model family
+ * tokenizes differently; the built-in estimators approximate the family's
+ * tokenizer from the words and symbols of the text, and an exact tokenizer
+ * can be registered for a family where one is available.
+ */
+
+import { LLMCompletionRequest } from './llm-client.js';
+
+/**
+ * Families of models sharing a tokenizer
+ */
+export type ModelFamily = 'claude' | 'gpt' | 'llama' | 'mistral' | 'default';
+
+/**
+ * Counts the tokens of a text for a model family
+ */
+export interface TokenEstimator {
+  count(text: string): number;
+  
+  /**
+   * Tokens added per chat message for the role and message framing
+   */
+  messageOverhead: number;
+}
+
+/**
+ * Shape of a family's tokenizer, used by the heuristic estimators
+ */
+interface TokenizerProfile {
+  /**
+   * Average characters of a word per token
+   */
+  charsPerToken: number;
+  
+  /**
+   * Tokens per symbol (punctuation, brackets, quotes); below 1 where the
+   * tokenizer merges runs of symbols
+   */
+  tokensPerSymbol: number;
+  messageOverhead: number;
+}
+
+const TOKENIZER_PROFILES: Record<ModelFamily, TokenizerProfile> = {
+  claude: { charsPerToken: 3.5, tokensPerSymbol: 0.8, messageOverhead: 4 },
+  gpt: { charsPerToken: 4, tokensPerSymbol: 0.6, messageOverhead: 3 },
+  llama: { charsPerToken: 3.8, tokensPerSymbol: 0.7, messageOverhead: 4 },
+  mistral: { charsPerToken: 3.5, tokensPerSymbol: 0.8, messageOverhead: 4 },
+  
+  // Errs on the high side so budgets hold for unknown models
+  default: { charsPerToken: 3.3, tokensPerSymbol: 0.8, messageOverhead: 4 }
+};
+
+// Tokens priming the model's reply after the messages
+const REPLY_OVERHEAD = 3;
+
+const estimators: Map<ModelFamily, TokenEstimator> = new Map(
+  (Object.keys(TOKENIZER_PROFILES) as ModelFamily[]).map(family => [
+    family,
+    createHeuristicEstimator(TOKENIZER_PROFILES[family])
+  ])
+);
+
+/**
+ * Get the family of a model from its name
+ * 
+ * @param model Model name, e.g. 'anthropic/claude-3-opus-20240229' (defaults to the default family)
+ * @returns The family of the model
+ */
+export function getModelFamily(model?: string): ModelFamily {
+  const name = (model || '').toLowerCase();
+  
+  if (name.includes('claude')) return 'claude';
+  if (name.includes('gpt') || /(^|\/)o\d/.test(name)) return 'gpt';
+  if (name.includes('llama')) return 'llama';
+  if (name.includes('mistral') || name.includes('mixtral')) return 'mistral';
+  
+  return 'default';
+}
+
+/**
+ * Use an estimator for the models of a family, e.g. an exact tokenizer
+ */
+export function registerTokenEstimator(family: ModelFamily, estimator: TokenEstimator): void {
+  estimators.set(family, estimator);
+}
+
+/**
+ * Count the tokens of a text
+ * 
+ * @param text Text to count
+ * @param model Model the text is sent to
+ * @returns The (estimated) number of tokens
+ */
+export function countTokens(text: string, model?: string): number {
+  return text ? getEstimator(model).count(text) : 0;
+}
+
+/**
+ * Count the prompt tokens of a chat request, including the message framing
+ * 
+ * @param messages Messages of the request
+ * @param model Model the request is sent to
+ * @returns The (estimated) number of prompt tokens
+ */
+export function countMessageTokens(messages: LLMCompletionRequest['messages'], model?: string): number {
+  const estimator = getEstimator(model);
+  
+  return messages.reduce(
+    (sum, message) => sum + estimator.messageOverhead + estimator.count(message.content) + (message.name ? 1 : 0),
+    REPLY_OVERHEAD
+  );
+}
+
+/**
+ * Cut a text down to a number of tokens, preferably at a line break
+ * 
+ * @param text Text to cut
+ * @param maxTokens Tokens the text may take, including the marker
+ * @param model Model the text is sent to
+ * @param marker Appended to a cut text to tell the model something is missing
+ * @returns The text unchanged if it fits, otherwise its beginning followed by the marker
+ *          (empty when not even the marker fits)
+ */
+export function truncateToTokens(
+  text: string,
+  maxTokens: number,
+  model?: string,
+  marker: string = '\n[Truncated to fit the token budget]'
+): string {
+  if (countTokens(text, model) <= maxTokens) {
+    return text;
+  }
+  
+  const available = maxTokens - countTokens(marker, model);
+  
+  if (available <= 0) {
+    return '';
+  }
+  
+  // Longest prefix that fits
+  let low = 0;
+  let high = text.length;
+  
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    
+    if (countTokens(text.substring(0, middle), model) <= available) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  
+  // Don't cut a line in half unless that loses most of the text
+  const lineEnd = text.lastIndexOf('\n', low);
+  const end = lineEnd > low * 0.8 ? lineEnd : low;
+  
+  return text.substring(0, end).trimEnd() + marker;
+}
+
+/**
+ * Get the estimator of a model's family
+ */
+function getEstimator(model?: string): TokenEstimator {
+  return estimators.get(getModelFamily(model)) || (estimators.get('default') as TokenEstimator);
+}
+
+/**
+ * Create an estimator counting words by their length and symbols individually
+ */
+function createHeuristicEstimator(profile: TokenizerProfile): TokenEstimator {
+  return {
+    messageOverhead: profile.messageOverhead,
+    count: text => {
+      let tokens = 0;
+      
+      for (const word of text.match(/[\p{L}\p{N}_]+/gu) || []) {
+        tokens += Math.ceil(word.length / profile.charsPerToken);
+      }
+      
+      const symbols = (text.match(/[^\p{L}\p{N}_\s]/gu) || []).length;
+      const lineBreaks = (text.match(/\n/g) || []).length;
+      
+      return Math.ceil(tokens + symbols * profile.tokensPerSymbol + lineBreaks * 0.5);
+    }
+  };
+}
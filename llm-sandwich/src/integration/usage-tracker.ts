@@ -0,0 +1,440 @@
+/**
+ * Usage Tracker for the LLM Sandwich Architecture
+ * 
+ * Accounts for the tokens and cost of every LLM request, attributed to the
+ * layer that made it (guard, domain or persistence), the domain and the user
+ * it was made for. Spend can be capped per request and per user or domain
+ * over a time window; a request that would exceed a cap is rejected before
+ * it reaches the provider. Reports aggregate the spend, e.g. to show how
+ * much of it the guard layer's validations take compared to the domain
+ * agents' decisions.
+ */
+
+import { LLMUsage } from './llm-client.js';
+
+/**
+ * Layers of the sandwich making LLM requests
+ */
+export type SandwichLayer = 'guard' | 'domain' | 'persistence';
+
+/**
+ * Who a request is made for, used to attribute its spend and apply caps
+ */
+export interface UsageContext {
+  layer?: SandwichLayer;
+  domain?: string;
+  userId?: string;
+  
+  /**
+   * Identifies the operation the request belongs to, e.g. to sum the spend of one user action
+   */
+  requestId?: string;
+}
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface ModelPricing {
+  promptPerMillion: number;
+  completionPerMillion: number;
+}
+
+/**
+ * Tokens and cost of a request
+ */
+export interface UsageRecord extends UsageContext, LLMUsage {
+  model: string;
+  
+  /**
+   * Cost in USD (0 for models without pricing)
+   */
+  cost: number;
+  timestamp: Date;
+}
+
+/**
+ * Limit on spend, in tokens and/or USD
+ */
+export interface SpendCap {
+  maxTokens?: number;
+  maxCost?: number;
+  
+  /**
+   * Period the spend is summed over, in milliseconds (defaults to one day)
+   * Ignored by the per-request cap.
+   */
+  windowMs?: number;
+}
+
+/**
+ * Caps on spend
+ * Caps for a specific user or domain replace the general ones.
+ */
+export interface SpendCaps {
+  perRequest?: SpendCap;
+  perUser?: SpendCap;
+  perDomain?: SpendCap;
+  users?: Record<string, SpendCap>;
+  domains?: Record<string, SpendCap>;
+}
+
+/**
+ * Configuration of a usage tracker
+ */
+export interface UsageTrackerConfig {
+  caps?: SpendCaps;
+  
+  /**
+   * Prices by model, added to DEFAULT_MODEL_PRICING
+   * A price applies to every model whose name contains its key; the longest key wins.
+   */
+  pricing?: Record<string, ModelPricing>;
+  
+  /**
+   * How long records are kept (defaults to 30 days)
+   */
+  retentionMs?: number;
+  
+  /**
+   * Returns the current time in milliseconds (defaults to Date.now)
+   */
+  now?: () => number;
+}
+
+/**
+ * Dimensions usage can be grouped by
+ */
+export type UsageDimension = 'layer' | 'domain' | 'userId' | 'model';
+
+/**
+ * Which usage to report
+ */
+export interface UsageReportQuery {
+  /**
+   * Only usage of the last windowMs milliseconds (defaults to everything retained)
+   */
+  windowMs?: number;
+  layer?: SandwichLayer;
+  domain?: string;
+  userId?: string;
+  requestId?: string;
+  
+  /**
+   * Dimensions to aggregate by (defaults to layer)
+   */
+  groupBy?: UsageDimension[];
+}
+
+/**
+ * Aggregated usage of a group
+ * Only the dimensions grouped by are set
+ */
+export interface UsageReportRow {
+  layer?: SandwichLayer;
+  domain?: string;
+  userId?: string;
+  model?: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  
+  /**
+   * Requests whose usage was estimated rather than reported by the provider
+   */
+  estimatedRequests: number;
+}
+
+/**
+ * Aggregated usage
+ */
+export interface UsageReport {
+  /**
+   * A row per group, the most expensive first
+   */
+  rows: UsageReportRow[];
+  total: UsageReportRow;
+}
+
+/**
+ * List prices of common models at the time of writing, in USD per million tokens
+ * Override them with the tracker's pricing configuration when they change.
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'claude-3-opus': { promptPerMillion: 15, completionPerMillion: 75 },
+  'claude-3-sonnet': { promptPerMillion: 3, completionPerMillion: 15 },
+  'claude-3.5-sonnet': { promptPerMillion: 3, completionPerMillion: 15 },
+  'claude-3-5-sonnet': { promptPerMillion: 3, completionPerMillion: 15 },
+  'claude-3-haiku': { promptPerMillion: 0.25, completionPerMillion: 1.25 },
+  'gpt-4o': { promptPerMillion: 5, completionPerMillion: 15 },
+  'gpt-4o-mini': { promptPerMillion: 0.15, completionPerMillion: 0.6 },
+  'gpt-4-turbo': { promptPerMillion: 10, completionPerMillion: 30 },
+  'gpt-3.5-turbo': { promptPerMillion: 0.5, completionPerMillion: 1.5 }
+};
+
+const DEFAULT_CAP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Records the usage of LLM requests in memory and enforces spend caps
+ */
+export class UsageTracker {
+  private caps: SpendCaps;
+  private pricing: Record<string, ModelPricing>;
+  private readonly retentionMs: number;
+  private readonly now: () => number;
+  private records: UsageRecord[] = [];
+  
+  constructor(config: UsageTrackerConfig = {}) {
+    this.caps = config.caps || {};
+    this.pricing = { ...DEFAULT_MODEL_PRICING, ...config.pricing };
+    this.retentionMs = config.retentionMs || 30 * 24 * 60 * 60 * 1000;
+    this.now = config.now || Date.now;
+  }
+  
+  /**
+   * Replace the spend caps
+   */
+  setCaps(caps: SpendCaps): void {
+    this.caps = caps;
+  }
+  
+  /**
+   * Set the price of a model (or of every model whose name contains the key)
+   */
+  setPricing(model: string, pricing: ModelPricing): void {
+    this.pricing[model] = pricing;
+  }
+  
+  /**
+   * Get the cost of tokens for a model
+   * 
+   * @returns The cost in USD, 0 for models without pricing
+   */
+  getCost(model: string, promptTokens: number, completionTokens: number): number {
+    const pricing = this.getPricing(model);
+    
+    if (!pricing) {
+      return 0;
+    }
+    
+    return (promptTokens * pricing.promptPerMillion + completionTokens * pricing.completionPerMillion) / 1000000;
+  }
+  
+  /**
+   * Check that a request stays within the caps before it is made
+   * 
+   * @param context Who the request is made for
+   * @param model Model the request is sent to
+   * @param estimate Tokens the request is expected to take at most
+   * @throws When the request would exceed a cap
+   */
+  checkCaps(context: UsageContext = {}, model: string, estimate: LLMUsage): void {
+    const cost = this.getCost(model, estimate.promptTokens, estimate.completionTokens);
+    
+    if (this.caps.perRequest) {
+      checkCap('per request', this.caps.perRequest, null, estimate.totalTokens, cost);
+    }
+    
+    const userCap = context.userId && ((this.caps.users || {})[context.userId] || this.caps.perUser);
+    
+    if (context.userId && userCap) {
+      const spent = this.getSpend({ userId: context.userId }, userCap.windowMs || DEFAULT_CAP_WINDOW_MS);
+      checkCap(`for user ${context.userId}`, userCap, spent, estimate.totalTokens, cost);
+    }
+    
+    const domainCap = context.domain && ((this.caps.domains || {})[context.domain] || this.caps.perDomain);
+    
+    if (context.domain && domainCap) {
+      const spent = this.getSpend({ domain: context.domain }, domainCap.windowMs || DEFAULT_CAP_WINDOW_MS);
+      checkCap(`for domain ${context.domain}`, domainCap, spent, estimate.totalTokens, cost);
+    }
+  }
+  
+  /**
+   * Record the usage of a completed (or cancelled) request
+   * 
+   * @returns The record, with its cost
+   */
+  record(context: UsageContext = {}, model: string, usage: LLMUsage): UsageRecord {
+    const record: UsageRecord = {
+      ...context,
+      ...usage,
+      model,
+      cost: this.getCost(model, usage.promptTokens, usage.completionTokens),
+      timestamp: new Date(this.now())
+    };
+    
+    this.removeExpired();
+    this.records.push(record);
+    
+    return record;
+  }
+  
+  /**
+   * Sum the spend of a user or domain over a window
+   * 
+   * @param filter The user and/or domain
+   * @param windowMs Period to sum over, in milliseconds
+   * @returns Tokens and cost in USD
+   */
+  getSpend(filter: { userId?: string; domain?: string }, windowMs: number): { tokens: number; cost: number } {
+    const since = this.now() - windowMs;
+    
+    return this.records
+      .filter(record =>
+        record.timestamp.getTime() > since &&
+        (!filter.userId || record.userId === filter.userId) &&
+        (!filter.domain || record.domain === filter.domain)
+      )
+      .reduce(
+        (spend, record) => ({ tokens: spend.tokens + record.totalTokens, cost: spend.cost + record.cost }),
+        { tokens: 0, cost: 0 }
+      );
+  }
+  
+  /**
+   * Aggregate the retained usage
+   * 
+   * ```typescript
+   * // Cost by layer over the last hour
+   * const { rows, total } = usageTracker.getReport({ windowMs: 60 * 60 * 1000 });
+   * ```
+   * 
+   * @param query Which usage to aggregate and how to group it
+   * @returns A row per group and the total
+   */
+  getReport(query: UsageReportQuery = {}): UsageReport {
+    const groupBy = query.groupBy || ['layer'];
+    const since = query.windowMs !== undefined ? this.now() - query.windowMs : -Infinity;
+    const rows: Map<string, UsageReportRow> = new Map();
+    const total = emptyRow();
+    
+    for (const record of this.records) {
+      if (
+        record.timestamp.getTime() <= since ||
+        (query.layer && record.layer !== query.layer) ||
+        (query.domain && record.domain !== query.domain) ||
+        (query.userId && record.userId !== query.userId) ||
+        (query.requestId && record.requestId !== query.requestId)
+      ) {
+        continue;
+      }
+      
+      const key = JSON.stringify(groupBy.map(dimension => record[dimension]));
+      const row = rows.get(key) || {
+        ...Object.fromEntries(groupBy.map(dimension => [dimension, record[dimension]])),
+        ...emptyRow()
+      };
+      
+      addRecord(row, record);
+      addRecord(total, record);
+      rows.set(key, row);
+    }
+    
+    return {
+      rows: Array.from(rows.values()).sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens),
+      total
+    };
+  }
+  
+  /**
+   * Get the retained records, oldest first
+   */
+  getRecords(): UsageRecord[] {
+    return [...this.records];
+  }
+  
+  /**
+   * Clears every recorded request
+   */
+  reset(): void {
+    this.records = [];
+  }
+  
+  /**
+   * Get the price of a model: the longest key contained in its name
+   */
+  private getPricing(model: string): ModelPricing | undefined {
+    const name = model.toLowerCase();
+    const key = Object.keys(this.pricing)
+      .filter(candidate => name.includes(candidate.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0];
+    
+    return key ? this.pricing[key] : undefined;
+  }
+  
+  /**
+   * Drops the records older than the retention
+   */
+  private removeExpired(): void {
+    const oldest = this.now() - this.retentionMs;
+    const expired = this.records.findIndex(record => record.timestamp.getTime() > oldest);
+    
+    if (expired !== 0) {
+      this.records = expired === -1 ? [] : this.records.slice(expired);
+    }
+  }
+}
+
+/**
+ * Check that spending more stays within a cap
+ * 
+ * @param scope Who the cap applies to, for the error message
+ * @param cap The cap
+ * @param spent Spend so far in the cap's window (null for the per-request cap)
+ * @param tokens Tokens the request is expected to take
+ * @param cost Cost the request is expected to have
+ * @throws When the cap would be exceeded
+ */
+function checkCap(
+  scope: string,
+  cap: SpendCap,
+  spent: { tokens: number; cost: number } | null,
+  tokens: number,
+  cost: number
+): void {
+  if (cap.maxTokens !== undefined && (spent ? spent.tokens : 0) + tokens > cap.maxTokens) {
+    const used = spent ? `${spent.tokens} used + ` : '';
+    throw new Error(`LLM token cap exceeded ${scope}: ${used}${tokens} requested > ${cap.maxTokens} allowed`);
+  }
+  
+  if (cap.maxCost !== undefined && (spent ? spent.cost : 0) + cost > cap.maxCost) {
+    const used = spent ? `$${spent.cost.toFixed(4)} spent + ` : '';
+    throw new Error(`LLM spend cap exceeded ${scope}: ${used}$${cost.toFixed(4)} requested > $${cap.maxCost} allowed`);
+  }
+}
+
+/**
+ * Create a report row without usage
+ */
+function emptyRow(): UsageReportRow {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    estimatedRequests: 0
+  };
+}
+
+/**
+ * Add a request's usage to a report row
+ */
+function addRecord(row: UsageReportRow, record: UsageRecord): void {
+  row.requests++;
+  row.promptTokens += record.promptTokens;
+  row.completionTokens += record.completionTokens;
+  row.totalTokens += record.totalTokens;
+  row.cost += record.cost;
+  
+  if (record.estimated) {
+    row.estimatedRequests++;
+  }
+}
+
+/**
+ * Singleton instance of the usage tracker, used by the LLM client
+ */
+export const usageTracker = new UsageTracker();
@@ -5,9 +5,10 @@
  * implementing business logic for creating, evaluating, and managing bids.
  */
 
-import { DomainAgent, DomainAgentResponse } from './domain-agent.js';
+import { DomainAgent, DomainAgentResponse, LLMCallOptions } from './domain-agent.js';
 import { QueryIntentType, QueryResult } from '../guard/database-agent-proxy.js';
 import { ContextType } from '../../integration/context-manager.js';
+import { z } from 'zod';
 
 /**
  * Interface for bid data
@@ -54,6 +55,15 @@ export interface BidEvaluationCriteria {
   // Additional factors can be added
 }
 
+// Bid evaluation expected from the LLM
+const bidEvaluationSchema = z.object({
+  rankedBids: z.array(z.custom<Bid>(
+    value => typeof value === 'object' && value !== null && !Array.isArray(value),
+    'each ranked bid must be a bid object'
+  )),
+  explanation: z.string()
+});
+
 /**
  * Bidding Domain Agent - handles all bidding-related operations
  */
@@ -213,10 +223,14 @@ export class BiddingAgent extends DomainAgent {
   /**
    * Use LLM to evaluate and rank bids for a project
    * This demonstrates the "adaptive domain logic" capability
+   * 
+   * Evaluating many bids can take a while: pass onProgress to stream the
+   * evaluation as it is written, and a signal or timeout to cancel it.
    */
   async evaluateBids(
     projectId: string,
-    criteria?: BidEvaluationCriteria
+    criteria?: BidEvaluationCriteria,
+    options: LLMCallOptions = {}
   ): Promise<DomainAgentResponse<{ rankedBids: Bid[], explanation: string }>> {
     // First, get the project details
     const projectResult = await this.executeDatabase<Project>({
@@ -280,18 +294,24 @@ export class BiddingAgent extends DomainAgent {
     
     try {
       // Get bid evaluations from LLM
-      const llmResult = await this.useLLM(userPrompt, systemContext, {
+      const evaluation = await this.useLLMStructured(userPrompt, bidEvaluationSchema, systemContext, {
         contextTypes: [ContextType.SCHEMA],
         tableOrDomain: 'bidding',
-        temperature: 0.2 // Lower temperature for more deterministic ranking
+        temperature: 0.2, // Lower temperature for more deterministic ranking
+        ...options
       });
       
-      // Parse the result
-      const evaluation = JSON.parse(llmResult);
+      if (!evaluation.success) {
+        return {
+          success: false,
+          error: evaluation.error,
+          explanation: `The bid evaluation could not be read after ${evaluation.attempts} attempt(s)`
+        };
+      }
       
       return {
         success: true,
-        data: evaluation,
+        data: evaluation.data,
         explanation: 'Bids evaluated and ranked successfully'
       };
     } catch (error: any) {
@@ -8,7 +8,15 @@
 
 import { databaseAgentProxy, QueryIntent, QueryIntentType, QueryResult } from '../guard/database-agent-proxy.js';
 import { llmClient, LLMCompletionRequest } from '../../integration/llm-client.js';
-import { contextManager, ContextType } from '../../integration/context-manager.js';
+import { LLMStreamChunk } from '../../integration/llm-stream.js';
+import { StructuredResult } from '../../integration/structured-output.js';
+import { ZodType } from 'zod';
+import { contextManager, ContextSections, ContextType } from '../../integration/context-manager.js';
+import { TokenBudget } from '../../integration/token-budget.js';
+import { UsageContext } from '../../integration/usage-tracker.js';
+
+// Prompt tokens of a domain decision, unless the options set another budget
+const DEFAULT_MAX_PROMPT_TOKENS = 3000;
 
 /**
  * The response from a domain agent operation
@@ -20,6 +28,42 @@ export interface DomainAgentResponse<T = any> {
   explanation?: string;
 }
 
+/**
+ * Options for long-running LLM work of a domain agent
+ */
+export interface LLMCallOptions {
+  /**
+   * Cancels the LLM request when aborted
+   */
+  signal?: AbortSignal;
+  
+  /**
+   * Fails the LLM request when it takes longer, in milliseconds
+   */
+  timeoutMs?: number;
+  
+  /**
+   * Called with each piece of the response as it streams in
+   * Without it the response is not streamed.
+   */
+  onProgress?: (chunk: LLMStreamChunk, content: string) => void;
+}
+
+/**
+ * Options for a domain agent's use of the LLM
+ */
+export interface DomainLLMOptions extends LLMCallOptions {
+  temperature?: number;
+  contextTypes?: ContextType[];
+  tableOrDomain?: string;
+  patternName?: string;
+  
+  /**
+   * Tokens the prompt may take; the context is cut to fit around the instructions and data
+   */
+  maxPromptTokens?: number;
+}
+
 /**
  * Base class for all domain agents in the LLM Sandwich Architecture
  */
@@ -68,6 +112,7 @@ export abstract class DomainAgent {
       tables: intent.tables || [],
       authId: this.authId,
       entityType: this.entityType,
+      domain: this.getDomain(),
       filters: intent.filters,
       data: intent.data,
       options: intent.options
@@ -82,13 +127,63 @@ export abstract class DomainAgent {
   protected async useLLM<T>(
     userPrompt: string,
     systemContext?: string,
-    options?: {
-      temperature?: number;
-      contextTypes?: ContextType[];
-      tableOrDomain?: string;
-      patternName?: string;
-    }
+    options?: DomainLLMOptions
   ): Promise<string> {
+    const request = await this.createLLMRequest(userPrompt, systemContext, options);
+    
+    const requestOptions = {
+      temperature: options?.temperature ?? 0.3,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+      accounting: this.getUsageContext()
+    };
+    
+    // Stream the response when progress is reported
+    if (options?.onProgress) {
+      const stream = llmClient.stream(request, requestOptions);
+      
+      for await (const chunk of stream) {
+        options.onProgress(chunk, stream.content);
+      }
+      
+      return stream.content;
+    }
+    
+    // Get response from LLM
+    const llmResponse = await llmClient.complete(request, requestOptions);
+    
+    return llmResponse.content;
+  }
+  
+  /**
+   * Use LLM to make a domain-specific decision returned as JSON matching a schema
+   * Invalid responses are retried before giving up with a structured failure.
+   */
+  protected async useLLMStructured<T>(
+    userPrompt: string,
+    schema: ZodType<T, any, any>,
+    systemContext?: string,
+    options?: DomainLLMOptions
+  ): Promise<StructuredResult<T>> {
+    const request = await this.createLLMRequest(userPrompt, systemContext, options);
+    
+    return llmClient.completeStructured(request, schema, {
+      temperature: options?.temperature ?? 0.3,
+      signal: options?.signal,
+      timeoutMs: options?.timeoutMs,
+      onProgress: options?.onProgress,
+      accounting: this.getUsageContext()
+    });
+  }
+  
+  /**
+   * Build the LLM request for a domain-specific decision, with the domain's context
+   */
+  private async createLLMRequest(
+    userPrompt: string,
+    systemContext?: string,
+    options?: DomainLLMOptions
+  ): Promise<LLMCompletionRequest> {
     // Gather context
     const contextTypes = options?.contextTypes || [
       ContextType.ID_RELATIONSHIP,
@@ -99,37 +194,53 @@ export abstract class DomainAgent {
       contextTypes.push(ContextType.SCHEMA);
     }
     
-    const context = await contextManager.generateContext(contextTypes, {
+    const contextSections = await contextManager.generateContextSections(contextTypes, {
       entityType: this.entityType,
       tableOrDomain: options?.tableOrDomain || this.getDomain(),
-      patternName: options?.patternName,
-      maxLength: 2000 // Limit context size
+      patternName: options?.patternName
     });
     
-    // Construct system prompt with context
-    const systemPrompt = `
+    const instructions = `
     You are a domain expert for ${this.getDomain()} in the InstaBids platform.
     You are responsible for making smart decisions and recommendations based on domain-specific knowledge.
     
     ${systemContext || ''}
+    `;
     
+    // The instructions and the data are sent whole; the context gets the rest of the budget
+    const budget = new TokenBudget({
+      maxPromptTokens: options?.maxPromptTokens || DEFAULT_MAX_PROMPT_TOKENS,
+      required: ['system', 'userData']
+    });
+    const { sections } = budget.allocate({ system: instructions, ...contextSections, userData: userPrompt });
+    const context = (Object.keys(contextSections) as Array<keyof ContextSections>)
+      .map(section => sections[section])
+      .filter(section => !!section)
+      .join('\n\n');
+    
+    // Construct system prompt with context
+    const systemPrompt = `${instructions}
     CONTEXT:
     ${context}
     `;
     
-    const request: LLMCompletionRequest = {
+    return {
       messages: [
         { role: 'system', content: systemPrompt },
         { role: 'user', content: userPrompt }
       ]
     };
-    
-    // Get response from LLM
-    const llmResponse = await llmClient.complete(request, {
-      temperature: options?.temperature ?? 0.3
-    });
-    
-    return llmResponse.content;
+  }
+  
+  /**
+   * Attribute this agent's LLM requests to its domain and user
+   */
+  private getUsageContext(): UsageContext {
+    return {
+      layer: 'domain',
+      domain: this.getDomain(),
+      userId: this.authId
+    };
   }
   
   /**
@@ -12,6 +12,7 @@ import { llmClient, LLMCompletionRequest } from '../../integration/llm-client.js
 import { contextManager, ContextType } from '../../integration/context-manager.js';
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import * as dotenv from 'dotenv';
+import { z } from 'zod';
 
 dotenv.config();
 
@@ -39,6 +40,7 @@ export interface QueryIntent {
   tables: string[];
   authId?: string; // Current user's auth ID
   entityType?: string; // Type of entity (e.g., 'homeowner', 'contractor')
+  domain?: string; // Domain making the operation (e.g., 'bidding'), for spend accounting
   filters?: Record<string, any>;
   data?: Record<string, any>;
   options?: {
@@ -57,6 +59,17 @@ export interface QueryResult<T = any> {
   modified?: boolean; // Whether the query was modified
 }
 
+// Validation verdict expected from the LLM
+const llmValidationSchema = z.object({
+  status: z.enum(['VALID', 'INVALID', 'NEEDS_MODIFICATION']),
+  reason: z.string().optional(),
+  explanation: z.string().optional(),
+  modifiedIntent: z.custom<QueryIntent>(
+    value => typeof value === 'object' && value !== null && !Array.isArray(value),
+    'modifiedIntent must be a query intent object'
+  ).optional()
+});
+
 /**
  * The DatabaseAgentProxy enforces architectural patterns and provides
  * intelligent query construction and validation
@@ -192,7 +205,7 @@ export class DatabaseAgentProxy {
     const context = await contextManager.generateContext(contextTypes, {
       entityType: intent.entityType,
       tableOrDomain: intent.tables[0],
-      maxLength: 2000 // Limit context size
+      maxTokens: 500 // Limit context size
     });
     
     // Construct the prompt for LLM
@@ -235,46 +248,44 @@ export class DatabaseAgentProxy {
     };
     
     // Get validation from LLM
-    const llmResponse = await llmClient.complete(request, {
+    const validation = await llmClient.completeStructured(request, llmValidationSchema, {
       temperature: 0.1, // Low temperature for more deterministic response
-      maxTokens: 1000
+      maxTokens: 1000,
+      accounting: { layer: 'guard', domain: intent.domain, userId: intent.authId },
+      cache: true // Identical intents get the same verdict
     });
     
-    try {
-      // Parse LLM response
-      const result = JSON.parse(llmResponse.content);
-      
-      // Convert status string to enum
-      let status: ValidationStatus;
-      switch (result.status) {
-        case 'VALID':
-          status = ValidationStatus.VALID;
-          break;
-        case 'INVALID':
-          status = ValidationStatus.INVALID;
-          break;
-        case 'NEEDS_MODIFICATION':
-          status = ValidationStatus.NEEDS_MODIFICATION;
-          break;
-        default:
-          status = ValidationStatus.INVALID;
-      }
-      
-      return {
-        status,
-        reason: result.reason,
-        explanation: result.explanation,
-        modifiedIntent: result.modifiedIntent
-      };
-    } catch (error) {
-      console.error('Failed to parse LLM validation response:', error);
-      // Default to invalid if we can't parse the response
+    if (!validation.success) {
+      console.error('Failed to get LLM validation response:', validation.error);
+      // Default to invalid if we can't get a valid response
       return {
         status: ValidationStatus.INVALID,
         reason: 'Failed to validate the operation',
         explanation: 'The system encountered an error while validating the database operation.'
       };
     }
+    
+    const result = validation.data;
+    
+    // Convert status string to enum
+    let status: ValidationStatus;
+    switch (result.status) {
+      case 'VALID':
+        status = ValidationStatus.VALID;
+        break;
+      case 'NEEDS_MODIFICATION':
+        status = ValidationStatus.NEEDS_MODIFICATION;
+        break;
+      default:
+        status = ValidationStatus.INVALID;
+    }
+    
+    return {
+      status,
+      reason: result.reason,
+      explanation: result.explanation,
+      modifiedIntent: result.modifiedIntent
+    };
   }
 
   /**
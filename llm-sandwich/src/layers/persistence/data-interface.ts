@@ -9,7 +9,9 @@
 import { createClient, SupabaseClient, PostgrestFilterBuilder } from '@supabase/supabase-js';
 import { llmClient, LLMCompletionRequest } from '../../integration/llm-client.js';
 import { contextManager, ContextType } from '../../integration/context-manager.js';
+import { UsageContext } from '../../integration/usage-tracker.js';
 import * as dotenv from 'dotenv';
+import { z } from 'zod';
 
 dotenv.config();
 
@@ -62,6 +64,39 @@ export interface SchemaInfo {
   }>;
 }
 
+// Records (plain objects) in LLM responses
+const recordSchema = z.record(z.any());
+
+// Schema information extracted by the LLM
+const schemaInfoSchema = z.object({
+  tables: z.array(z.string()),
+  columns: z.record(z.array(z.string())),
+  relationships: z.array(z.object({
+    table: z.string(),
+    column: z.string(),
+    referencedTable: z.string(),
+    referencedColumn: z.string()
+  }))
+});
+
+// Query specification generated by the LLM
+const generatedQuerySchema = z.object({
+  table: z.string(),
+  operation: z.nativeEnum(DatabaseOperation),
+  options: z.custom<QueryOptions>(
+    value => typeof value === 'object' && value !== null && !Array.isArray(value),
+    'options must be an object'
+  ).default({}),
+  data: recordSchema.optional()
+});
+
+// Data verification by the LLM
+const dataVerificationSchema = z.object({
+  valid: z.boolean(),
+  errors: z.array(z.string()).default([]),
+  correctedData: recordSchema.optional()
+});
+
 /**
  * Data Interface for the LLM Persistence Layer
  */
@@ -82,8 +117,10 @@ export class DataInterface {
   
   /**
    * Initialize the schema cache
+   * 
+   * @param usage Domain and user the schema extraction is attributed to, if it runs
    */
-  async initializeSchema(): Promise<SchemaInfo> {
+  async initializeSchema(usage: Omit<UsageContext, 'layer'> = {}): Promise<SchemaInfo> {
     if (this.schemaCache) {
       return this.schemaCache;
     }
@@ -122,53 +159,53 @@ export class DataInterface {
       ]
     };
     
-    try {
-      const response = await llmClient.complete(extractRequest, {
-        temperature: 0.1,
-        maxTokens: 2000
-      });
-      
-      // Parse the schema info from the response
-      const schemaInfo = JSON.parse(response.content);
-      this.schemaCache = schemaInfo;
-      return schemaInfo;
-    } catch (error) {
-      console.error('Failed to extract schema:', error);
-      
-      // Fallback to minimal schema
-      const fallbackSchema: SchemaInfo = {
-        tables: ['profiles', 'projects', 'bids', 'messages'],
-        columns: {
-          profiles: ['id', 'auth_id', 'user_type', 'name', 'email'],
-          projects: ['id', 'title', 'description', 'homeowner_id', 'status'],
-          bids: ['id', 'project_id', 'contractor_id', 'amount', 'status'],
-          messages: ['id', 'sender_id', 'receiver_id', 'content', 'read']
-        },
-        relationships: [
-          {
-            table: 'projects',
-            column: 'homeowner_id',
-            referencedTable: 'profiles',
-            referencedColumn: 'id'
-          },
-          {
-            table: 'bids',
-            column: 'project_id',
-            referencedTable: 'projects',
-            referencedColumn: 'id'
-          },
-          {
-            table: 'bids',
-            column: 'contractor_id',
-            referencedTable: 'profiles',
-            referencedColumn: 'id'
-          }
-        ]
-      };
-      
-      this.schemaCache = fallbackSchema;
-      return fallbackSchema;
+    const result = await llmClient.completeStructured(extractRequest, schemaInfoSchema, {
+      temperature: 0.1,
+      maxTokens: 2000,
+      accounting: { ...usage, layer: 'persistence' },
+      cache: true
+    });
+    
+    if (result.success) {
+      this.schemaCache = result.data;
+      return result.data;
     }
+    
+    console.error('Failed to extract schema:', result.error);
+    
+    // Fallback to minimal schema
+    const fallbackSchema: SchemaInfo = {
+      tables: ['profiles', 'projects', 'bids', 'messages'],
+      columns: {
+        profiles: ['id', 'auth_id', 'user_type', 'name', 'email'],
+        projects: ['id', 'title', 'description', 'homeowner_id', 'status'],
+        bids: ['id', 'project_id', 'contractor_id', 'amount', 'status'],
+        messages: ['id', 'sender_id', 'receiver_id', 'content', 'read']
+      },
+      relationships: [
+        {
+          table: 'projects',
+          column: 'homeowner_id',
+          referencedTable: 'profiles',
+          referencedColumn: 'id'
+        },
+        {
+          table: 'bids',
+          column: 'project_id',
+          referencedTable: 'projects',
+          referencedColumn: 'id'
+        },
+        {
+          table: 'bids',
+          column: 'contractor_id',
+          referencedTable: 'profiles',
+          referencedColumn: 'id'
+        }
+      ]
+    };
+    
+    this.schemaCache = fallbackSchema;
+    return fallbackSchema;
   }
   
   /**
@@ -303,11 +340,17 @@ export class DataInterface {
   
   /**
    * Use LLM to generate an optimized query based on natural language intent
+   * 
+   * @param intent Description of the operation
+   * @param entityType Type of entity (e.g., 'homeowner', 'contractor')
+   * @param authId Current user's auth ID, for spend accounting too
+   * @param domain Domain making the operation, for spend accounting
    */
   async generateQueryFromIntent<T>(
     intent: string,
     entityType?: string,
-    authId?: string
+    authId?: string,
+    domain?: string
   ): Promise<{
     table: string;
     operation: DatabaseOperation;
@@ -315,7 +358,7 @@ export class DataInterface {
     data?: Record<string, any>;
   }> {
     // Initialize schema info
-    await this.initializeSchema();
+    await this.initializeSchema({ domain, userId: authId });
     
     // Prepare context with schema information
     const schemaContext = await contextManager.getSchemaContext();
@@ -361,32 +404,38 @@ export class DataInterface {
       ]
     };
     
-    const response = await llmClient.complete(queryRequest, {
+    const result = await llmClient.completeStructured(queryRequest, generatedQuerySchema, {
       temperature: 0.1,
-      maxTokens: 1000
+      maxTokens: 1000,
+      accounting: { layer: 'persistence', domain, userId: authId },
+      cache: true
     });
     
-    try {
-      // Parse the query parameters from the response
-      return JSON.parse(response.content);
-    } catch (error) {
-      console.error('Failed to parse generated query:', error);
-      throw new Error('Failed to generate query from intent');
+    if (!result.success) {
+      console.error('Failed to generate query:', result.error);
+      throw new Error(`Failed to generate query from intent: ${result.error}`);
     }
+    
+    return result.data;
   }
   
   /**
    * Get schema verification for a data object
+   * 
+   * @param table Table the data is for
+   * @param data Data to verify
+   * @param usage Domain and user the verification is attributed to
    */
   async verifyData(
     table: string,
-    data: Record<string, any>
+    data: Record<string, any>,
+    usage: Omit<UsageContext, 'layer'> = {}
   ): Promise<{
     valid: boolean;
     errors: string[];
     correctedData?: Record<string, any>;
   }> {
-    await this.initializeSchema();
+    await this.initializeSchema(usage);
     
     if (!this.schemaCache || !this.schemaCache.columns[table]) {
       return {
@@ -435,21 +484,22 @@ export class DataInterface {
       ]
     };
     
-    const response = await llmClient.complete(verifyRequest, {
+    const result = await llmClient.completeStructured(verifyRequest, dataVerificationSchema, {
       temperature: 0.1,
-      maxTokens: 1000
+      maxTokens: 1000,
+      accounting: { ...usage, layer: 'persistence' },
+      cache: true
     });
     
-    try {
-      // Parse the validation result from the response
-      return JSON.parse(response.content);
-    } catch (error) {
-      console.error('Failed to parse validation result:', error);
+    if (!result.success) {
+      console.error('Failed to get validation result:', result.error);
       return {
         valid: false,
         errors: ['Failed to verify data']
       };
     }
+    
+    return result.data;
   }
 }
 